@@ -3,7 +3,23 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Search, Plane, Calendar, MapPin, ExternalLink } from 'lucide-react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import {
+  PieChart,
+  Pie,
+  Cell,
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  Legend,
+} from 'recharts';
 import { apiClient, type Airline } from '@/lib/api-client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -14,6 +30,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { formatNumber, formatDate, getConfidenceColor } from '@/lib/utils';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+const OTHER_TYPES = 'Other';
 
 export default function AirlinesPage() {
   const [searchTerm, setSearchTerm] = useState('');
@@ -45,6 +62,15 @@ export default function AirlinesPage() {
     enabled: !!selectedAirline,
   });
 
+  const { data: timeseriesData, isLoading: isLoadingTimeseries } = useQuery({
+    queryKey: ['airline-timeseries', selectedAirline?.iata_code],
+    queryFn: () =>
+      selectedAirline
+        ? apiClient.getAirlineTimeseries(selectedAirline.iata_code)
+        : Promise.resolve(null),
+    enabled: !!selectedAirline,
+  });
+
   const filteredAirlines = airlinesData?.airlines.filter((airline) => {
     const search = searchTerm.toLowerCase();
     return (
@@ -62,6 +88,22 @@ export default function AirlinesPage() {
     model: type.model,
   }));
 
+  // Stack the most common types and group the rest, one color each
+  const chartedTypes = timeseriesData?.aircraft_types.slice(0, COLORS.length - 1) ?? [];
+  const hasOtherTypes = (timeseriesData?.aircraft_types.length ?? 0) > chartedTypes.length;
+  const fleetHistory = timeseriesData?.series.map((point) => {
+    const row: Record<string, string | number> = { month: point.month };
+    let charted = 0;
+    for (const type of chartedTypes) {
+      row[type] = point.by_type[type] || 0;
+      charted += point.by_type[type] || 0;
+    }
+    if (hasOtherTypes) {
+      row[OTHER_TYPES] = point.fleet_size - charted;
+    }
+    return row;
+  });
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
@@ -154,6 +196,7 @@ export default function AirlinesPage() {
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="fleet">Fleet</TabsTrigger>
                 <TabsTrigger value="stats">Statistics</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview" className="space-y-4">
@@ -487,6 +530,96 @@ export default function AirlinesPage() {
                   </>
                 )}
               </TabsContent>
+
+              <TabsContent value="history" className="space-y-4">
+                {isLoadingTimeseries && (
+                  <Skeleton className="h-96 w-full" />
+                )}
+
+                {timeseriesData && (
+                  <>
+                    {/* Fleet Size by Type */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Fleet Size</CardTitle>
+                        <CardDescription>
+                          Aircraft by type at month end, {timeseriesData.from} to {timeseriesData.to}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={350}>
+                          <AreaChart data={fleetHistory}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="month" minTickGap={24} />
+                            <YAxis allowDecimals={false} />
+                            <Tooltip />
+                            <Legend />
+                            {[...chartedTypes, ...(hasOtherTypes ? [OTHER_TYPES] : [])].map((type, index) => (
+                              <Area
+                                key={type}
+                                type="monotone"
+                                dataKey={type}
+                                stackId="fleet"
+                                stroke={COLORS[index % COLORS.length]}
+                                fill={COLORS[index % COLORS.length]}
+                              />
+                            ))}
+                          </AreaChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
+
+                    {/* Deliveries vs Retirements */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Deliveries vs Retirements</CardTitle>
+                        <CardDescription>Aircraft joining and leaving the fleet each month</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={300}>
+                          <BarChart data={timeseriesData.series}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="month" minTickGap={24} />
+                            <YAxis allowDecimals={false} />
+                            <Tooltip />
+                            <Legend />
+                            <Bar dataKey="deliveries" fill="#10b981" name="Deliveries" />
+                            <Bar dataKey="retirements" fill="#ef4444" name="Retirements" />
+                            <Bar dataKey="transfers_in" fill="#3b82f6" name="Transfers in" />
+                            <Bar dataKey="transfers_out" fill="#f59e0b" name="Transfers out" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
+
+                    {/* Average Age Trend */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Average Age</CardTitle>
+                        <CardDescription>Fleet average age in years at month end</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={300}>
+                          <LineChart data={timeseriesData.series}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="month" minTickGap={24} />
+                            <YAxis />
+                            <Tooltip />
+                            <Line
+                              type="monotone"
+                              dataKey="avg_age_years"
+                              stroke="#8b5cf6"
+                              name="Average age (years)"
+                              dot={false}
+                              connectNulls
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
+                  </>
+                )}
+              </TabsContent>
             </Tabs>
           )}
         </div>
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Download, Search, ShieldCheck, RefreshCw } from 'lucide-react';
+import { apiClient, AuditLogFilters } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatNumber, formatDateTime } from '@/lib/utils';
+
+const PAGE_SIZE = 50;
+
+const emptyFilters = {
+  api_key_id: '',
+  action: '',
+  resource_type: '',
+  resource_id: '',
+  status: '',
+  start_date: '',
+  end_date: '',
+};
+
+type FilterForm = typeof emptyFilters;
+
+function toQueryFilters(form: FilterForm): AuditLogFilters {
+  return {
+    api_key_id: form.api_key_id.trim() || undefined,
+    action: form.action.trim() || undefined,
+    resource_type: form.resource_type.trim() || undefined,
+    resource_id: form.resource_id.trim() || undefined,
+    status: form.status ? parseInt(form.status, 10) : undefined,
+    start_date: form.start_date ? new Date(form.start_date).toISOString() : undefined,
+    end_date: form.end_date ? new Date(form.end_date).toISOString() : undefined,
+  };
+}
+
+function getHttpStatusColor(status: number): string {
+  if (status >= 500) return 'bg-red-100 text-red-800';
+  if (status >= 400) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-green-100 text-green-800';
+}
+
+export default function AuditLogPage() {
+  const [form, setForm] = useState<FilterForm>(emptyFilters);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data, isLoading, isError, error, fetchNextPage, hasNextPage, isFetchingNextPage, refetch } =
+    useInfiniteQuery({
+      queryKey: ['audit-log', filters],
+      queryFn: ({ pageParam }) =>
+        apiClient.getAuditLogs({ ...filters, cursor: pageParam, limit: PAGE_SIZE }),
+      initialPageParam: undefined as string | undefined,
+      getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+    });
+
+  const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+  const updateField = (field: keyof FilterForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  const handleSearch = () => {
+    setFilters(toQueryFilters(form));
+  };
+
+  const handleReset = () => {
+    setForm(emptyFilters);
+    setFilters({});
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await apiClient.exportAuditLogsCSV({ ...filters, limit: 10000 });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      alert('Failed to export audit log: ' + (error as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-blue-600" />
+            Audit Log
+          </CardTitle>
+          <CardDescription>
+            Who triggered which scrape, who read which fleet, and every API key change
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Input placeholder="API key ID" value={form.api_key_id} onChange={updateField('api_key_id')} />
+            <Input
+              placeholder="Action (e.g., scraping_job.*)"
+              value={form.action}
+              onChange={updateField('action')}
+            />
+            <Input
+              placeholder="Resource type (e.g., airline)"
+              value={form.resource_type}
+              onChange={updateField('resource_type')}
+            />
+            <Input
+              placeholder="Resource ID (e.g., AA)"
+              value={form.resource_id}
+              onChange={updateField('resource_id')}
+            />
+            <Input
+              placeholder="HTTP status (e.g., 403)"
+              type="number"
+              value={form.status}
+              onChange={updateField('status')}
+            />
+            <Input type="datetime-local" value={form.start_date} onChange={updateField('start_date')} />
+            <Input type="datetime-local" value={form.end_date} onChange={updateField('end_date')} />
+          </div>
+          <div className="flex space-x-3">
+            <Button onClick={handleSearch}>
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+            <Button variant="outline" onClick={handleReset}>
+              Reset
+            </Button>
+            <Button variant="outline" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export CSV'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {formatNumber(entries.length)} loaded{hasNextPage ? ', more available' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-red-600">
+              Failed to load audit log: {(error as Error).message}. An API key with admin
+              permission is required.
+            </p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No audit entries match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium">Action</th>
+                    <th className="py-2 pr-4 font-medium">API Key</th>
+                    <th className="py-2 pr-4 font-medium">Resource</th>
+                    <th className="py-2 pr-4 font-medium">Request</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 font-medium">IP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{entry.action}</td>
+                      <td className="py-2 pr-4">{entry.key_name || entry.api_key_id || '-'}</td>
+                      <td className="py-2 pr-4">
+                        {entry.resource_type ? `${entry.resource_type}:${entry.resource_id ?? ''}` : '-'}
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {entry.http_method} {entry.http_path}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge className={getHttpStatusColor(entry.http_status)}>{entry.http_status}</Badge>
+                      </td>
+                      <td className="py-2 text-gray-500">{entry.ip_address || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {hasNextPage && (
+            <div className="mt-4 flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
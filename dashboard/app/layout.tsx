@@ -1,7 +1,7 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import Link from 'next/link';
-import { Plane, BarChart3, Database, AlertCircle } from 'lucide-react';
+import { Plane, BarChart3, Database, AlertCircle, ShieldCheck } from 'lucide-react';
 import './globals.css';
 import { Providers } from './providers';
 import { cn } from '@/lib/utils';
@@ -18,6 +18,7 @@ const navigation = [
   { name: 'Airlines', href: '/airlines', icon: Plane },
   { name: 'Scraping Status', href: '/scraping', icon: Database },
   { name: 'Data Quality', href: '/quality', icon: AlertCircle },
+  { name: 'Audit Log', href: '/audit', icon: ShieldCheck },
 ];
 
 export default function RootLayout({
@@ -156,6 +156,19 @@ class APIClient {
     return this.request<AirlineStats>(`/api/v1/stats/airline/${code}`);
   }
 
+  async getAirlineTimeseries(code: string, params?: { from?: string; to?: string }) {
+    const query = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          query.append(key, value);
+        }
+      });
+    }
+    const endpoint = `/api/v1/stats/airline/${code}/timeseries${query.toString() ? `?${query}` : ''}`;
+    return this.request<FleetTimeseries>(endpoint);
+  }
+
   // Scraping Jobs
   async getJobs(params?: {
     status?: string;
@@ -198,6 +211,73 @@ class APIClient {
     });
   }
 
+  // Graph Analytics
+  async getSimilarAirlines(code: string, minCommonTypes?: number) {
+    const query = minCommonTypes !== undefined ? `?min_common_types=${minCommonTypes}` : '';
+    return this.request<GraphResponse<SimilarAirline>>(
+      `/api/v1/graph/similar-airlines/${encodeURIComponent(code)}${query}`
+    );
+  }
+
+  async getAllianceNetwork(name: string) {
+    return this.request<GraphResponse<AllianceMember> & { alliance: string }>(
+      `/api/v1/graph/alliances/${encodeURIComponent(name)}`
+    );
+  }
+
+  async getManufacturerMarketShare() {
+    return this.request<GraphResponse<ManufacturerShare>>('/api/v1/graph/market-share');
+  }
+
+  async getRetirementCandidates(airline?: string) {
+    const query = airline ? `?airline=${encodeURIComponent(airline)}` : '';
+    return this.request<GraphResponse<RetirementCandidate>>(
+      `/api/v1/graph/retirement-candidates${query}`
+    );
+  }
+
+  async getGraphStats() {
+    return this.request<GraphStats>('/api/v1/graph/stats');
+  }
+
+  // Audit Log (admin)
+  async getAuditLogs(params?: AuditLogFilters & { cursor?: string; limit?: number }) {
+    const query = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          query.append(key, value.toString());
+        }
+      });
+    }
+    const endpoint = `/api/v1/admin/audit${query.toString() ? `?${query}` : ''}`;
+    return this.request<{
+      entries: AuditLogEntry[];
+      count: number;
+      next_cursor: string | null;
+    }>(endpoint);
+  }
+
+  async exportAuditLogsCSV(params?: AuditLogFilters & { limit?: number }): Promise<Blob> {
+    const query = new URLSearchParams({ format: 'csv' });
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          query.append(key, value.toString());
+        }
+      });
+    }
+    const response = await fetch(`${this.baseURL}/api/v1/admin/audit?${query}`, {
+      headers: { 'X-API-Key': this.apiKey },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Audit export failed: ${response.statusText}`);
+    }
+
+    return response.blob();
+  }
+
   // Health Check
   async getHealth() {
     return this.request<HealthStatus>('/health');
@@ -227,7 +307,7 @@ export interface Aircraft {
   aircraft_type: string;
   manufacturer: string;
   model: string;
-  status: 'Active' | 'Stored' | 'Maintenance';
+  status: 'active' | 'stored' | 'maintenance' | 'retired';
   current_location?: string;
   delivery_date?: string;
   data_confidence: 'High' | 'Medium' | 'Low';
@@ -300,6 +380,28 @@ export interface AirlineStats {
   }>;
 }
 
+export interface FleetTimeseriesPoint {
+  month: string;
+  fleet_size: number;
+  by_type: Record<string, number>;
+  avg_age_years: number | null;
+  deliveries: number;
+  retirements: number;
+  transfers_in: number;
+  transfers_out: number;
+}
+
+export interface FleetTimeseries {
+  airline: {
+    code: string;
+    name: string;
+  };
+  from: string;
+  to: string;
+  aircraft_types: string[];
+  series: FleetTimeseriesPoint[];
+}
+
 export interface JobStats {
   total: number;
   pending: number;
@@ -323,6 +425,75 @@ export interface Job {
   created_at: string;
 }
 
+export type GraphBackend = 'neo4j' | 'postgres';
+
+export interface GraphResponse<T> {
+  data: T[];
+  backend: GraphBackend;
+}
+
+export interface SimilarAirline {
+  airline: string;
+  airlineCode: string;
+  country: string;
+  commonTypes: number;
+}
+
+export interface AllianceMember {
+  airline: string;
+  airlineCode: string;
+  country: string;
+  fleetSize: number;
+}
+
+export interface ManufacturerShare {
+  manufacturer: string;
+  aircraftCount: number;
+  marketSharePercentage: number;
+}
+
+export interface RetirementCandidate {
+  registration: string;
+  aircraftType: string;
+  airline: string;
+  ageYears: number;
+  manufacturedDate: string;
+}
+
+export interface GraphStats {
+  nodes: Array<{ label: string; count: number }>;
+  relationships: Array<{ type: string; count: number }>;
+}
+
+export interface AuditLogFilters {
+  api_key_id?: string;
+  action?: string;
+  resource_type?: string;
+  resource_id?: string;
+  status?: number;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  action: string;
+  api_key_id?: string;
+  key_name?: string;
+  user_id?: string;
+  ip_address?: string;
+  user_agent?: string;
+  resource_type?: string;
+  resource_id?: string;
+  details?: Record<string, unknown>;
+  http_method: string;
+  http_path: string;
+  http_status: number;
+  success: boolean;
+  error_message?: string;
+}
+
 export interface HealthStatus {
   status: 'healthy' | 'unhealthy';
   timestamp: string;
@@ -0,0 +1,25 @@
+-- =============================================================================
+-- ROLLBACK: AIRCRAFT DATABASE - FOUNDATION MIGRATION
+-- =============================================================================
+
+-- Views
+DROP VIEW IF EXISTS scraping_status_dashboard;
+DROP VIEW IF EXISTS recent_fleet_changes;
+DROP VIEW IF EXISTS airline_fleet_summary;
+DROP VIEW IF EXISTS fleet_by_type;
+DROP VIEW IF EXISTS active_fleet;
+
+-- Functions
+DROP FUNCTION IF EXISTS calculate_utilization_stats(INTEGER);
+DROP FUNCTION IF EXISTS get_fleet_composition(INTEGER);
+DROP FUNCTION IF EXISTS calculate_fleet_age(INTEGER);
+
+-- Tables (reverse dependency order)
+DROP TABLE IF EXISTS data_quality_checks;
+DROP TABLE IF EXISTS scrape_jobs;
+DROP TABLE IF EXISTS fleet_changes;
+DROP TABLE IF EXISTS aircraft;
+DROP TABLE IF EXISTS aircraft_types;
+DROP TABLE IF EXISTS airlines;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
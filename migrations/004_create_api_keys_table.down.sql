@@ -0,0 +1,5 @@
+-- Rollback: Create API Keys Table
+
+DROP TABLE IF EXISTS audit_log;
+DROP TABLE IF EXISTS api_keys;
+DROP FUNCTION IF EXISTS log_api_key_usage();
@@ -0,0 +1,3 @@
+-- Rollback: Add API key prefix
+
+ALTER TABLE api_keys DROP COLUMN IF EXISTS key_prefix;
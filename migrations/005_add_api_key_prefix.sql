@@ -0,0 +1,7 @@
+-- Migration: Add API key prefix
+-- Description: Store the first characters of each key in clear text so keys can be identified in admin listings
+-- Date: 2026-10-19
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(16);
+
+COMMENT ON COLUMN api_keys.key_prefix IS 'First 8 characters of the API key, shown masked in listings';
@@ -0,0 +1,27 @@
+-- Rollback: Reconcile schema with application code
+
+DROP TRIGGER IF EXISTS update_scrape_jobs_updated_at ON scrape_jobs;
+DROP INDEX IF EXISTS idx_scrape_jobs_queue;
+DROP INDEX IF EXISTS idx_scrape_jobs_job_id;
+
+ALTER TABLE scrape_jobs DROP COLUMN IF EXISTS updated_at;
+ALTER TABLE scrape_jobs DROP COLUMN IF EXISTS metadata;
+ALTER TABLE scrape_jobs DROP COLUMN IF EXISTS error_message;
+ALTER TABLE scrape_jobs DROP COLUMN IF EXISTS priority;
+ALTER TABLE scrape_jobs DROP COLUMN IF EXISTS job_id;
+
+ALTER TABLE aircraft ALTER COLUMN data_source TYPE VARCHAR(255) USING LEFT(data_source, 255);
+
+DROP INDEX IF EXISTS idx_aircraft_types_category;
+DROP INDEX IF EXISTS idx_aircraft_types_icao;
+DROP INDEX IF EXISTS idx_aircraft_types_iata;
+
+ALTER TABLE aircraft_types DROP COLUMN IF EXISTS type_category;
+ALTER TABLE aircraft_types DROP COLUMN IF EXISTS icao_code;
+ALTER TABLE aircraft_types DROP COLUMN IF EXISTS iata_code;
+
+DROP INDEX IF EXISTS idx_airlines_scrape_enabled;
+
+ALTER TABLE airlines DROP COLUMN IF EXISTS scrape_schedule_cron;
+ALTER TABLE airlines DROP COLUMN IF EXISTS scrape_enabled;
+ALTER TABLE airlines DROP COLUMN IF EXISTS hub_airport;
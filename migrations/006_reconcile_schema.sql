@@ -0,0 +1,127 @@
+-- Migration: Reconcile schema with application code
+-- Description: Make the migrations the single canonical schema by adding the columns the
+--              scrapers, job queue and API rely on that only existed in the retired schema.sql
+-- Date: 2026-10-19
+
+-- =============================================================================
+-- AIRLINES: scrape scheduling and hub
+-- =============================================================================
+
+ALTER TABLE airlines ADD COLUMN IF NOT EXISTS hub_airport VARCHAR(10);
+ALTER TABLE airlines ADD COLUMN IF NOT EXISTS scrape_enabled BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE airlines ADD COLUMN IF NOT EXISTS scrape_schedule_cron VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_airlines_scrape_enabled ON airlines(scrape_enabled);
+
+COMMENT ON COLUMN airlines.hub_airport IS 'Primary hub IATA airport code';
+COMMENT ON COLUMN airlines.scrape_enabled IS 'Whether the scheduler queues fleet updates for this airline';
+
+-- =============================================================================
+-- AIRCRAFT_TYPES: type designators and category
+-- =============================================================================
+
+ALTER TABLE aircraft_types ADD COLUMN IF NOT EXISTS iata_code VARCHAR(3);
+ALTER TABLE aircraft_types ADD COLUMN IF NOT EXISTS icao_code VARCHAR(4);
+ALTER TABLE aircraft_types ADD COLUMN IF NOT EXISTS type_category VARCHAR(50);  -- narrowbody, widebody, regional, turboprop, cargo
+
+CREATE INDEX IF NOT EXISTS idx_aircraft_types_iata ON aircraft_types(iata_code);
+CREATE INDEX IF NOT EXISTS idx_aircraft_types_icao ON aircraft_types(icao_code);
+CREATE INDEX IF NOT EXISTS idx_aircraft_types_category ON aircraft_types(type_category);
+
+COMMENT ON COLUMN aircraft_types.iata_code IS 'IATA aircraft type code (e.g., 738)';
+COMMENT ON COLUMN aircraft_types.icao_code IS 'ICAO type designator (e.g., B738)';
+
+-- Designators for the seeded types. Types sharing a designator with another
+-- seeded type (A321 XLR, 747-8F, CRJ-550) are left unset so lookups stay unambiguous.
+UPDATE aircraft_types at
+SET iata_code = codes.iata_code,
+    icao_code = codes.icao_code
+FROM (VALUES
+    ('Boeing 737-700', '73G', 'B737'),
+    ('Boeing 737-800', '738', 'B738'),
+    ('Boeing 737-900', '739', 'B739'),
+    ('Boeing 737 MAX 7', '7M7', 'B37M'),
+    ('Boeing 737 MAX 8', '7M8', 'B38M'),
+    ('Boeing 737 MAX 9', '7M9', 'B39M'),
+    ('Boeing 737 MAX 10', '7MJ', 'B3XM'),
+    ('Boeing 747-400', '744', 'B744'),
+    ('Boeing 747-8', '74H', 'B748'),
+    ('Boeing 757-200', '752', 'B752'),
+    ('Boeing 767-300', '763', 'B763'),
+    ('Boeing 777-200', '772', 'B772'),
+    ('Boeing 777-300', '773', 'B773'),
+    ('Boeing 777-300ER', '77W', 'B77W'),
+    ('Boeing 787-8', '788', 'B788'),
+    ('Boeing 787-9', '789', 'B789'),
+    ('Boeing 787-10', '781', 'B78X'),
+    ('Boeing 777F (Freighter)', '77X', 'B77L'),
+    ('Airbus A220-100', '221', 'BCS1'),
+    ('Airbus A220-300', '223', 'BCS3'),
+    ('Airbus A319', '319', 'A319'),
+    ('Airbus A320', '320', 'A320'),
+    ('Airbus A320neo', '32N', 'A20N'),
+    ('Airbus A321', '321', 'A321'),
+    ('Airbus A321neo', '32Q', 'A21N'),
+    ('Airbus A330-200', '332', 'A332'),
+    ('Airbus A330-300', '333', 'A333'),
+    ('Airbus A330-900neo', '339', 'A339'),
+    ('Airbus A350-900', '359', 'A359'),
+    ('Airbus A350-1000', '351', 'A35K'),
+    ('Airbus A380-800', '388', 'A388'),
+    ('Embraer E170', 'E70', 'E170'),
+    ('Embraer E175', 'E75', 'E75L'),
+    ('Embraer E190', 'E90', 'E190'),
+    ('Embraer E195', 'E95', 'E195'),
+    ('Embraer E195-E2', '295', 'E295'),
+    ('Bombardier CRJ-700', 'CR7', 'CRJ7'),
+    ('Bombardier CRJ-900', 'CR9', 'CRJ9'),
+    ('Bombardier CRJ-1000', 'CRK', 'CRJX'),
+    ('ATR 42-600', 'AT4', 'AT46'),
+    ('ATR 72-600', 'AT7', 'AT76'),
+    ('COMAC ARJ21', NULL, 'AJ27'),
+    ('COMAC C919', NULL, 'C919'),
+    ('De Havilland Canada Dash 8 Q400', 'DH4', 'DH8D'),
+    ('Sukhoi Superjet 100', 'SU9', 'SU95')
+) AS codes(full_name, iata_code, icao_code)
+WHERE at.full_name = codes.full_name
+  AND at.icao_code IS NULL;
+
+UPDATE aircraft_types
+SET type_category = CASE
+    WHEN full_name LIKE '%Freighter%' THEN 'cargo'
+    WHEN manufacturer IN ('ATR', 'De Havilland Canada') THEN 'turboprop'
+    WHEN model IN ('747', '767', '777', '787', 'A330', 'A350', 'A380') THEN 'widebody'
+    WHEN manufacturer IN ('Embraer', 'Bombardier', 'Mitsubishi', 'Sukhoi')
+      OR model = 'ARJ21' THEN 'regional'
+    ELSE 'narrowbody'
+END
+WHERE type_category IS NULL;
+
+-- =============================================================================
+-- AIRCRAFT: allow multiple source URLs
+-- =============================================================================
+
+ALTER TABLE aircraft ALTER COLUMN data_source TYPE TEXT;
+
+-- =============================================================================
+-- SCRAPE_JOBS: job queue fields
+-- =============================================================================
+
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS job_id VARCHAR(100);
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS priority VARCHAR(20) NOT NULL DEFAULT 'normal';  -- low, normal, high
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;  -- retry and scheduling state
+ALTER TABLE scrape_jobs ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE scrape_jobs SET job_id = 'job_' || id WHERE job_id IS NULL;
+
+ALTER TABLE scrape_jobs ALTER COLUMN job_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_jobs_job_id ON scrape_jobs(job_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_queue ON scrape_jobs(status, priority, created_at);
+
+CREATE TRIGGER update_scrape_jobs_updated_at
+    BEFORE UPDATE ON scrape_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN scrape_jobs.job_id IS 'External job identifier returned by the API (e.g., job_AA_1732700000000)';
@@ -0,0 +1,7 @@
+-- Rollback: Fleet change tracking
+
+DROP INDEX IF EXISTS idx_fleet_changes_registration;
+DROP INDEX IF EXISTS idx_fleet_changes_scrape_job;
+
+ALTER TABLE fleet_changes DROP COLUMN IF EXISTS details;
+ALTER TABLE fleet_changes DROP COLUMN IF EXISTS scrape_job_id;
@@ -0,0 +1,13 @@
+-- Migration: Fleet change tracking
+-- Description: Link fleet_changes to the scrape job that detected them and keep
+--              before/after values for configuration changes
+-- Date: 2026-10-19
+
+ALTER TABLE fleet_changes ADD COLUMN IF NOT EXISTS scrape_job_id INTEGER REFERENCES scrape_jobs(id) ON DELETE SET NULL;
+ALTER TABLE fleet_changes ADD COLUMN IF NOT EXISTS details JSONB;  -- {"previous": {...}, "current": {...}}
+
+CREATE INDEX IF NOT EXISTS idx_fleet_changes_scrape_job ON fleet_changes(scrape_job_id);
+CREATE INDEX IF NOT EXISTS idx_fleet_changes_registration ON fleet_changes(registration);
+
+COMMENT ON COLUMN fleet_changes.change_type IS 'addition, retirement, transfer, configuration_change, lease_start, lease_end';
+COMMENT ON COLUMN fleet_changes.scrape_job_id IS 'Scrape job whose run detected the change';
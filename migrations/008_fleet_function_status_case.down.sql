@@ -0,0 +1,47 @@
+-- Rollback: Case-insensitive status in fleet helper functions
+
+CREATE OR REPLACE FUNCTION calculate_fleet_age(p_airline_id INTEGER)
+RETURNS TABLE (
+    avg_age_years DECIMAL,
+    oldest_aircraft_years DECIMAL,
+    newest_aircraft_years DECIMAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ROUND(AVG(EXTRACT(YEAR FROM AGE(CURRENT_DATE, manufactured_date))), 1) as avg_age,
+        MAX(EXTRACT(YEAR FROM AGE(CURRENT_DATE, manufactured_date))) as oldest,
+        MIN(EXTRACT(YEAR FROM AGE(CURRENT_DATE, manufactured_date))) as newest
+    FROM aircraft
+    WHERE airline_id = p_airline_id
+      AND manufactured_date IS NOT NULL
+      AND status = 'active';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_fleet_composition(p_airline_id INTEGER)
+RETURNS TABLE (
+    aircraft_type VARCHAR,
+    count BIGINT,
+    percentage DECIMAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH fleet_counts AS (
+        SELECT
+            a.aircraft_type,
+            COUNT(*) as type_count,
+            SUM(COUNT(*)) OVER () as total_count
+        FROM aircraft a
+        WHERE a.airline_id = p_airline_id
+          AND a.status = 'active'
+        GROUP BY a.aircraft_type
+    )
+    SELECT
+        fc.aircraft_type,
+        fc.type_count,
+        ROUND((fc.type_count::DECIMAL / fc.total_count) * 100, 2) as pct
+    FROM fleet_counts fc
+    ORDER BY fc.type_count DESC;
+END;
+$$ LANGUAGE plpgsql;
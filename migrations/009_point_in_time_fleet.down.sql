@@ -0,0 +1,8 @@
+-- Rollback: Point-in-time fleet queries
+
+DROP FUNCTION IF EXISTS aircraft_as_of(DATE);
+
+DROP TRIGGER IF EXISTS track_aircraft_configuration ON aircraft;
+DROP FUNCTION IF EXISTS track_aircraft_configuration();
+
+DROP TABLE IF EXISTS aircraft_configurations;
@@ -0,0 +1,148 @@
+-- Migration: Point-in-time fleet queries
+-- Description: Keep a history of each aircraft's seat configuration and add
+--              aircraft_as_of(date), which reconstructs the aircraft table as it
+--              stood on a given date (operator, status and configuration)
+-- Date: 2026-10-19
+
+-- =============================================================================
+-- AIRCRAFT_CONFIGURATIONS: seat configuration history
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS aircraft_configurations (
+    id SERIAL PRIMARY KEY,
+    aircraft_id INTEGER NOT NULL REFERENCES aircraft(id) ON DELETE CASCADE,
+    effective_date DATE NOT NULL,
+    end_date DATE,  -- NULL for the current configuration
+    seat_configuration JSONB,  -- {"first": 12, "business": 36, "economy": 180}
+    total_seats INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_aircraft_configurations_aircraft
+    ON aircraft_configurations(aircraft_id, effective_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_aircraft_configurations_current
+    ON aircraft_configurations(aircraft_id) WHERE end_date IS NULL;
+
+COMMENT ON TABLE aircraft_configurations IS 'Seat configuration history, maintained by the track_aircraft_configuration trigger';
+
+-- Current configuration of existing aircraft, effective from the last recorded
+-- configuration change or, failing that, from when the aircraft joined the fleet
+INSERT INTO aircraft_configurations (aircraft_id, effective_date, seat_configuration, total_seats)
+SELECT
+    a.id,
+    COALESCE(
+        (SELECT MAX(fc.change_date) FROM fleet_changes fc
+         WHERE fc.aircraft_id = a.id AND fc.change_type = 'configuration_change'),
+        a.delivery_date,
+        a.in_service_date,
+        a.manufactured_date,
+        a.created_at::DATE
+    ),
+    a.seat_configuration,
+    a.total_seats
+FROM aircraft a
+WHERE (a.seat_configuration IS NOT NULL OR a.total_seats IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM aircraft_configurations ac WHERE ac.aircraft_id = a.id);
+
+-- Close the open configuration and open a new one whenever the seats change.
+-- A second change on the same day replaces that day's configuration.
+CREATE OR REPLACE FUNCTION track_aircraft_configuration()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.seat_configuration IS NOT DISTINCT FROM OLD.seat_configuration
+       AND NEW.total_seats IS NOT DISTINCT FROM OLD.total_seats THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.seat_configuration IS NULL AND NEW.total_seats IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO aircraft_configurations (aircraft_id, effective_date, seat_configuration, total_seats)
+        VALUES (
+            NEW.id,
+            COALESCE(NEW.delivery_date, NEW.in_service_date, NEW.manufactured_date, CURRENT_DATE),
+            NEW.seat_configuration,
+            NEW.total_seats
+        );
+        RETURN NEW;
+    END IF;
+
+    DELETE FROM aircraft_configurations
+    WHERE aircraft_id = NEW.id AND end_date IS NULL AND effective_date >= CURRENT_DATE;
+
+    UPDATE aircraft_configurations
+    SET end_date = CURRENT_DATE
+    WHERE aircraft_id = NEW.id AND end_date IS NULL;
+
+    INSERT INTO aircraft_configurations (aircraft_id, effective_date, seat_configuration, total_seats)
+    VALUES (NEW.id, CURRENT_DATE, NEW.seat_configuration, NEW.total_seats);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS track_aircraft_configuration ON aircraft;
+CREATE TRIGGER track_aircraft_configuration
+    AFTER INSERT OR UPDATE OF seat_configuration, total_seats ON aircraft
+    FOR EACH ROW
+    EXECUTE FUNCTION track_aircraft_configuration();
+
+-- =============================================================================
+-- AIRCRAFT_AS_OF: the aircraft table on a given date
+-- =============================================================================
+
+-- Returns aircraft rows that were in a fleet on p_date, with:
+--   airline_id          operator on that date, from transfer fleet_changes
+--   status              'active' for aircraft retired since, else the current status
+--   seat_configuration,
+--   total_seats         configuration in effect on that date
+-- An aircraft is in a fleet from its delivery (or in-service, manufacture, first
+-- seen) date until its retirement date.
+CREATE OR REPLACE FUNCTION aircraft_as_of(p_date DATE)
+RETURNS SETOF aircraft AS $$
+    SELECT r.*
+    FROM aircraft a
+    LEFT JOIN LATERAL (
+        SELECT fc.next_airline_id
+        FROM fleet_changes fc
+        WHERE fc.aircraft_id = a.id AND fc.change_type = 'transfer' AND fc.change_date <= p_date
+        ORDER BY fc.change_date DESC, fc.id DESC
+        LIMIT 1
+    ) transferred_in ON true
+    LEFT JOIN LATERAL (
+        SELECT fc.previous_airline_id
+        FROM fleet_changes fc
+        WHERE fc.aircraft_id = a.id AND fc.change_type = 'transfer' AND fc.change_date > p_date
+        ORDER BY fc.change_date ASC, fc.id ASC
+        LIMIT 1
+    ) transferred_out ON true
+    LEFT JOIN LATERAL (
+        SELECT ac.seat_configuration, ac.total_seats
+        FROM aircraft_configurations ac
+        WHERE ac.aircraft_id = a.id
+        -- Configuration in effect on the date, else the earliest one recorded
+        ORDER BY (ac.effective_date <= p_date) DESC,
+                 CASE WHEN ac.effective_date <= p_date THEN ac.effective_date END DESC,
+                 ac.effective_date ASC
+        LIMIT 1
+    ) configuration ON true
+    CROSS JOIN LATERAL jsonb_populate_record(
+        NULL::aircraft,
+        to_jsonb(a) || jsonb_build_object(
+            'airline_id', COALESCE(transferred_in.next_airline_id, transferred_out.previous_airline_id, a.airline_id),
+            'status', CASE WHEN LOWER(a.status) IN ('retired', 'scrapped') THEN 'active' ELSE a.status END,
+            'seat_configuration', COALESCE(configuration.seat_configuration, a.seat_configuration),
+            'total_seats', COALESCE(configuration.total_seats, a.total_seats)
+        )
+    ) r
+    WHERE COALESCE(a.delivery_date, a.in_service_date, a.manufactured_date, a.created_at::DATE) <= p_date
+      AND NOT (
+          LOWER(a.status) IN ('retired', 'scrapped')
+          AND COALESCE(a.retirement_date, a.updated_at::DATE) <= p_date
+      );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION aircraft_as_of(DATE) IS 'Aircraft rows as they stood on the given date (operator, status, seat configuration)';
@@ -0,0 +1,71 @@
+-- Migration: Airline filter for aircraft_as_of
+-- Description: Monthly fleet time series call aircraft_as_of once per month.
+--              An optional airline argument limits the scan to aircraft that
+--              airline has operated (currently, or before/after a transfer).
+-- Date: 2026-10-19
+
+DROP FUNCTION IF EXISTS aircraft_as_of(DATE);
+
+-- Returns aircraft rows that were in a fleet on p_date, with:
+--   airline_id          operator on that date, from transfer fleet_changes
+--   status              'active' for aircraft retired since, else the current status
+--   seat_configuration,
+--   total_seats         configuration in effect on that date
+-- An aircraft is in a fleet from its delivery (or in-service, manufacture, first
+-- seen) date until its retirement date. With p_airline_id, only aircraft that
+-- airline has operated are considered; callers still filter on airline_id.
+CREATE OR REPLACE FUNCTION aircraft_as_of(p_date DATE, p_airline_id INTEGER DEFAULT NULL)
+RETURNS SETOF aircraft AS $$
+    SELECT r.*
+    FROM aircraft a
+    LEFT JOIN LATERAL (
+        SELECT fc.next_airline_id
+        FROM fleet_changes fc
+        WHERE fc.aircraft_id = a.id AND fc.change_type = 'transfer' AND fc.change_date <= p_date
+        ORDER BY fc.change_date DESC, fc.id DESC
+        LIMIT 1
+    ) transferred_in ON true
+    LEFT JOIN LATERAL (
+        SELECT fc.previous_airline_id
+        FROM fleet_changes fc
+        WHERE fc.aircraft_id = a.id AND fc.change_type = 'transfer' AND fc.change_date > p_date
+        ORDER BY fc.change_date ASC, fc.id ASC
+        LIMIT 1
+    ) transferred_out ON true
+    LEFT JOIN LATERAL (
+        SELECT ac.seat_configuration, ac.total_seats
+        FROM aircraft_configurations ac
+        WHERE ac.aircraft_id = a.id
+        -- Configuration in effect on the date, else the earliest one recorded
+        ORDER BY (ac.effective_date <= p_date) DESC,
+                 CASE WHEN ac.effective_date <= p_date THEN ac.effective_date END DESC,
+                 ac.effective_date ASC
+        LIMIT 1
+    ) configuration ON true
+    CROSS JOIN LATERAL jsonb_populate_record(
+        NULL::aircraft,
+        to_jsonb(a) || jsonb_build_object(
+            'airline_id', COALESCE(transferred_in.next_airline_id, transferred_out.previous_airline_id, a.airline_id),
+            'status', CASE WHEN LOWER(a.status) IN ('retired', 'scrapped') THEN 'active' ELSE a.status END,
+            'seat_configuration', COALESCE(configuration.seat_configuration, a.seat_configuration),
+            'total_seats', COALESCE(configuration.total_seats, a.total_seats)
+        )
+    ) r
+    WHERE (
+          p_airline_id IS NULL
+          OR a.airline_id = p_airline_id
+          OR EXISTS (
+              SELECT 1 FROM fleet_changes fc
+              WHERE fc.aircraft_id = a.id
+                AND fc.change_type = 'transfer'
+                AND (fc.previous_airline_id = p_airline_id OR fc.next_airline_id = p_airline_id)
+          )
+      )
+      AND COALESCE(a.delivery_date, a.in_service_date, a.manufactured_date, a.created_at::DATE) <= p_date
+      AND NOT (
+          LOWER(a.status) IN ('retired', 'scrapped')
+          AND COALESCE(a.retirement_date, a.updated_at::DATE) <= p_date
+      );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION aircraft_as_of(DATE, INTEGER) IS 'Aircraft rows as they stood on the given date (operator, status, seat configuration)';
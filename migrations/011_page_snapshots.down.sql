@@ -0,0 +1,4 @@
+-- Rollback: Page snapshot archive
+
+DROP TABLE IF EXISTS aircraft_field_sources;
+DROP TABLE IF EXISTS page_snapshots;
@@ -0,0 +1,49 @@
+-- Migration: Page snapshot archive
+-- Description: Keep the raw HTML of every page the scrapers load (gzip
+--              compressed, with a content hash) and link each scraped aircraft
+--              field to the snapshot its value came from
+-- Date: 2026-10-19
+
+-- =============================================================================
+-- PAGE_SNAPSHOTS: raw pages as fetched by the scraping agents
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS page_snapshots (
+    id SERIAL PRIMARY KEY,
+    url TEXT NOT NULL,  -- URL that was requested
+    final_url TEXT NOT NULL,  -- URL after redirects
+    page_kind VARCHAR(20) NOT NULL,  -- fleet, aircraft
+    airline_code VARCHAR(3),
+    registration VARCHAR(20),  -- Aircraft pages only
+    scrape_job_id INTEGER REFERENCES scrape_jobs(id) ON DELETE SET NULL,
+    title TEXT,
+    content_hash CHAR(64) NOT NULL,  -- SHA-256 of the uncompressed HTML
+    content_size INTEGER NOT NULL,  -- Uncompressed bytes
+    content BYTEA NOT NULL,  -- gzip-compressed HTML
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_url ON page_snapshots(url, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_registration ON page_snapshots(UPPER(registration), fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_scrape_job ON page_snapshots(scrape_job_id);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_content_hash ON page_snapshots(content_hash);
+
+COMMENT ON TABLE page_snapshots IS 'Raw HTML of every page loaded by the scraping agents';
+
+-- =============================================================================
+-- AIRCRAFT_FIELD_SOURCES: where each scraped aircraft value came from
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS aircraft_field_sources (
+    aircraft_id INTEGER NOT NULL REFERENCES aircraft(id) ON DELETE CASCADE,
+    field_name VARCHAR(50) NOT NULL,  -- msn, delivery_date, status, seat_configuration, ...
+    snapshot_id INTEGER REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    source_url TEXT,
+    scrape_job_id INTEGER REFERENCES scrape_jobs(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (aircraft_id, field_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_aircraft_field_sources_snapshot ON aircraft_field_sources(snapshot_id);
+
+COMMENT ON TABLE aircraft_field_sources IS 'Snapshot behind the current value of each scraped aircraft field';
@@ -0,0 +1,6 @@
+-- Rollback: Field-level provenance
+
+ALTER TABLE aircraft_field_sources DROP COLUMN IF EXISTS extracted_at;
+ALTER TABLE aircraft_field_sources DROP COLUMN IF EXISTS confidence;
+ALTER TABLE aircraft_field_sources DROP COLUMN IF EXISTS extraction_method;
+ALTER TABLE aircraft_field_sources DROP COLUMN IF EXISTS source_type;
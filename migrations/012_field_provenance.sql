@@ -0,0 +1,13 @@
+-- Migration: Field-level provenance
+-- Description: Record how each scraped aircraft field was obtained (source
+--              type, extraction method, confidence and extraction time) next
+--              to its source page in aircraft_field_sources
+-- Date: 2026-10-19
+
+ALTER TABLE aircraft_field_sources ADD COLUMN IF NOT EXISTS source_type VARCHAR(20);  -- official, database, tracker
+ALTER TABLE aircraft_field_sources ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20);  -- parser, llm, validation
+ALTER TABLE aircraft_field_sources ADD COLUMN IF NOT EXISTS confidence DECIMAL(3,2);  -- 0.00 to 1.00
+ALTER TABLE aircraft_field_sources ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN aircraft_field_sources.extraction_method IS 'parser (site parser), llm (LLM extraction) or validation (value corrected by the validation agent)';
+COMMENT ON COLUMN aircraft_field_sources.confidence IS 'Confidence in the value: extraction method, raised when other sources agree';
@@ -0,0 +1,13 @@
+-- Rollback: Data sources with reliability scoring
+
+DROP TABLE IF EXISTS data_sources;
+
+-- Restore a table kept from schema.sql
+DO $$
+BEGIN
+    IF to_regclass('data_sources_legacy') IS NOT NULL THEN
+        ALTER TABLE data_sources_legacy RENAME TO data_sources;
+        ALTER INDEX IF EXISTS idx_data_sources_legacy_type RENAME TO idx_data_sources_type;
+        ALTER INDEX IF EXISTS idx_data_sources_legacy_active RENAME TO idx_data_sources_active;
+    END IF;
+END $$;
@@ -0,0 +1,72 @@
+-- Migration: Data sources with reliability scoring
+-- Description: Move the fleet databases and trackers the scraping agents use
+--              into a data_sources table, with a reliability score that the
+--              workflow updates from validation outcomes and cross-source
+--              agreement
+-- Date: 2026-10-19
+
+-- =============================================================================
+-- DATA_SOURCES: external sites the agents scrape
+-- =============================================================================
+
+-- The retired schema.sql created a data_sources table with a different shape
+-- (UUID id, source_name, source_url). Keep it, with its indexes, as
+-- data_sources_legacy so the table below is always created with this shape.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = current_schema()
+          AND table_name = 'data_sources'
+          AND column_name = 'source_name'
+    ) THEN
+        ALTER TABLE data_sources RENAME TO data_sources_legacy;
+        ALTER INDEX IF EXISTS idx_data_sources_type RENAME TO idx_data_sources_legacy_type;
+        ALTER INDEX IF EXISTS idx_data_sources_active RENAME TO idx_data_sources_legacy_active;
+    END IF;
+END $$;
+
+CREATE TABLE data_sources (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) UNIQUE NOT NULL,
+    source_type VARCHAR(20) NOT NULL,  -- official, database, tracker
+
+    -- URL templates; placeholders: {airline_slug}, {airline_name}, {iata}, {icao},
+    -- {registration}, {registration_lower}. NULL when the site has no such page.
+    fleet_url_template TEXT,
+    aircraft_url_template TEXT,
+
+    -- Site-specific notes added to LLM extraction prompts
+    scraping_instructions TEXT,
+
+    -- Reliability: base_reliability is the starting estimate, reliability_score
+    -- blends it with observed outcomes (see src/lib/data-sources.ts)
+    base_reliability DECIMAL(3,2) NOT NULL DEFAULT 0.70,
+    reliability_score DECIMAL(3,2) NOT NULL DEFAULT 0.70,
+    confirmations INTEGER NOT NULL DEFAULT 0,
+    contradictions INTEGER NOT NULL DEFAULT 0,
+    last_scored_at TIMESTAMPTZ,
+
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_data_sources_active ON data_sources(is_active, reliability_score DESC);
+
+COMMENT ON TABLE data_sources IS 'External fleet databases and trackers used by the scraping agents';
+COMMENT ON COLUMN data_sources.confirmations IS 'Values that passed validation or matched other sources';
+COMMENT ON COLUMN data_sources.contradictions IS 'Values flagged by validation or outvoted by other sources';
+
+-- Sources the agents previously had hardcoded
+INSERT INTO data_sources (name, source_type, fleet_url_template, aircraft_url_template, base_reliability, reliability_score)
+VALUES
+    ('planespotters', 'database', 'https://www.planespotters.net/airline/{airline_slug}', 'https://www.planespotters.net/airframe/{registration}', 0.85, 0.85),
+    ('airfleets', 'database', 'https://www.airfleets.net/flottecie/{airline_name}.htm', 'https://www.airfleets.net/recherche/{registration}.htm', 0.80, 0.80),
+    ('flightradar24', 'tracker', NULL, 'https://www.flightradar24.com/data/aircraft/{registration_lower}', 0.70, 0.70),
+    ('jetphotos', 'database', NULL, 'https://www.jetphotos.com/registration/{registration}', 0.60, 0.60)
+ON CONFLICT (name) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_data_sources_updated_at ON data_sources;
+CREATE TRIGGER update_data_sources_updated_at BEFORE UPDATE ON data_sources
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
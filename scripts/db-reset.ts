@@ -0,0 +1,59 @@
+#!/usr/bin/env tsx
+
+/**
+ * PostgreSQL Reset Script
+ *
+ * Drops everything in the public schema and re-applies all migrations.
+ * DESTRUCTIVE: requires --yes, and refuses to run when NODE_ENV=production.
+ *
+ * Usage:
+ *   npm run db:reset -- --yes
+ */
+
+import { initializePostgres, queryPostgres, closeDatabases } from '../src/lib/db-clients.js';
+import { createLogger } from '../src/lib/logger.js';
+import { migrateUp } from '../src/database/postgres/migrator.js';
+
+const logger = createLogger('db-reset');
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (process.env['NODE_ENV'] === 'production') {
+    logger.error('Refusing to reset a production database (NODE_ENV=production)');
+    process.exit(1);
+  }
+
+  if (!args.includes('--yes')) {
+    logger.error('This drops ALL tables and data. Re-run with --yes to confirm:');
+    logger.error('  npm run db:reset -- --yes');
+    process.exit(1);
+  }
+
+  try {
+    initializePostgres();
+
+    logger.warn('Dropping public schema...');
+    await queryPostgres('DROP SCHEMA public CASCADE');
+    await queryPostgres('CREATE SCHEMA public');
+    logger.info('Public schema recreated');
+
+    const applied = await migrateUp();
+    logger.info(`Applied ${applied.length} migration(s): ${applied.join(', ')}`);
+
+    logger.info('Database reset complete. Seed data with: npm run db:seed');
+
+    await closeDatabases();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Database reset failed:', error);
+    await closeDatabases();
+    process.exit(1);
+  }
+}
+
+// Run script
+main();
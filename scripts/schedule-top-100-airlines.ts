@@ -236,7 +236,7 @@ export class AirlineSchedulerSetup {
   private async hasRecentJob(airlineCode: string): Promise<boolean> {
     const query = `
       SELECT id
-      FROM scraping_jobs sj
+      FROM scrape_jobs sj
       JOIN airlines al ON sj.airline_id = al.id
       WHERE (UPPER(al.iata_code) = UPPER($1) OR UPPER(al.icao_code) = UPPER($1))
         AND sj.status IN ('pending', 'running')
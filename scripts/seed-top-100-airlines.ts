@@ -107,7 +107,7 @@ class AirlineSeeder {
 
     try {
       // Delete in correct order due to foreign keys
-      await queryPostgres('DELETE FROM scraping_jobs');
+      await queryPostgres('DELETE FROM scrape_jobs');
       await queryPostgres('DELETE FROM fleet_changes');
       await queryPostgres('DELETE FROM aircraft');
       await queryPostgres('DELETE FROM airlines');
@@ -277,7 +277,7 @@ class AirlineSeeder {
         scrape_enabled,
         scrape_source_urls,
         scrape_schedule_cron,
-        fleet_size_estimate
+        fleet_size
       )
       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
     `;
@@ -315,7 +315,7 @@ class AirlineSeeder {
         scrape_enabled = $7,
         scrape_source_urls = $8,
         scrape_schedule_cron = $9,
-        fleet_size_estimate = $10,
+        fleet_size = $10,
         updated_at = NOW()
       WHERE iata_code = $1 OR icao_code = $2
     `;
@@ -47,7 +47,7 @@ export class TestDataGenerator {
 
     // Delete test jobs
     await queryPostgres(`
-      DELETE FROM scraping_jobs
+      DELETE FROM scrape_jobs
       WHERE airline_id IN (
         SELECT id FROM airlines WHERE iata_code LIKE 'T%'
       )
@@ -130,7 +130,7 @@ export class TestDataGenerator {
     const airlines = await queryPostgres(airlinesQuery);
 
     // Get aircraft types
-    const typesQuery = `SELECT id, iata_code, manufacturer, model FROM aircraft_types LIMIT 10`;
+    const typesQuery = `SELECT id, iata_code, full_name, manufacturer, model FROM aircraft_types LIMIT 10`;
     const types = await queryPostgres(typesQuery);
 
     if (airlines.rows.length === 0 || types.rows.length === 0) {
@@ -139,7 +139,7 @@ export class TestDataGenerator {
     }
 
     const registrationPrefixes = ['N', 'G-', 'EI-'];
-    const statuses = ['Active', 'Active', 'Active', 'Stored', 'Maintenance'];
+    const statuses = ['active', 'active', 'active', 'stored', 'maintenance'];
     let count = 0;
 
     for (const airline of airlines.rows) {
@@ -159,6 +159,9 @@ export class TestDataGenerator {
             airline_id,
             aircraft_type_id,
             registration,
+            aircraft_type,
+            manufacturer,
+            model,
             msn,
             seat_configuration,
             delivery_date,
@@ -166,10 +169,10 @@ export class TestDataGenerator {
             current_location,
             home_base,
             data_confidence,
-            data_sources,
-            last_scraped_at
+            data_source,
+            last_verified_at
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
           ON CONFLICT (registration) DO NOTHING
         `;
 
@@ -180,6 +183,9 @@ export class TestDataGenerator {
           airline.id,
           type.id,
           registration,
+          type.full_name,
+          type.manufacturer,
+          type.model,
           this.generateMSN(),
           JSON.stringify(seatConfig),
           deliveryDate,
@@ -187,7 +193,7 @@ export class TestDataGenerator {
           this.generateLocation(),
           this.generateHomeBase(),
           Math.random() * 0.3 + 0.7, // 0.7-1.0
-          JSON.stringify(['test-source']),
+          'test-source',
         ]);
 
         count++;
@@ -226,7 +232,8 @@ export class TestDataGenerator {
         const priority = priorities[Math.floor(Math.random() * priorities.length)];
 
         const query = `
-          INSERT INTO scraping_jobs (
+          INSERT INTO scrape_jobs (
+            job_id,
             airline_id,
             job_type,
             status,
@@ -240,7 +247,7 @@ export class TestDataGenerator {
             errors_count,
             metadata
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
         `;
 
         const startedAt =
@@ -255,6 +262,7 @@ export class TestDataGenerator {
             : null;
 
         await queryPostgres(query, [
+          `job_${airline.iata_code}_${Date.now()}_${i}`,
           airline.id,
           'full_fleet_update',
           status,
@@ -393,7 +401,7 @@ export class TestDataGenerator {
     // Jobs
     const jobsQuery = `
       SELECT COUNT(*) as count
-      FROM scraping_jobs
+      FROM scrape_jobs
       WHERE airline_id IN (SELECT id FROM airlines WHERE iata_code LIKE 'T%')
     `;
     const jobs = await queryPostgres(jobsQuery);
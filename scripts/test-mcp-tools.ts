@@ -9,8 +9,13 @@
  * - Edge case handling
  */
 
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
 import { createLogger } from '../src/lib/logger.js';
-import { queryPostgres } from '../src/lib/db-clients.js';
+import { queryPostgres, withTransaction } from '../src/lib/db-clients.js';
+import { checkSchemaCompatibility } from '../src/database/postgres/schema-check.js';
 import { handleGetAirlineFleet } from '../src/mcp-server/tools/get-airline-fleet.js';
 import { handleGetAircraftDetails } from '../src/mcp-server/tools/get-aircraft-details.js';
 import { handleSearchAircraft } from '../src/mcp-server/tools/search-aircraft.js';
@@ -18,6 +23,55 @@ import { handleGetFleetStatistics } from '../src/mcp-server/tools/get-fleet-stat
 import { handleTriggerFleetUpdate } from '../src/mcp-server/tools/trigger-fleet-update.js';
 import { handleGetAircraftTypeSpecs } from '../src/mcp-server/tools/get-aircraft-type-specs.js';
 import { handleGetFleetAvailability } from '../src/mcp-server/tools/get-fleet-availability.js';
+import { handleFindSimilarAirlines } from '../src/mcp-server/tools/find-similar-airlines.js';
+import { handleGetAllianceNetwork } from '../src/mcp-server/tools/get-alliance-network.js';
+import { handleGetManufacturerMarketShare } from '../src/mcp-server/tools/get-manufacturer-market-share.js';
+import { handleFindAircraftNearingRetirement } from '../src/mcp-server/tools/find-aircraft-nearing-retirement.js';
+import { handleGetFleetModernizationStats } from '../src/mcp-server/tools/get-fleet-modernization-stats.js';
+import { handleGetScrapeJobStatus } from '../src/mcp-server/tools/get-scrape-job-status.js';
+import { handleListScrapeJobs } from '../src/mcp-server/tools/list-scrape-jobs.js';
+import { handleCancelScrapeJob } from '../src/mcp-server/tools/cancel-scrape-job.js';
+import { handleCompareFleets } from '../src/mcp-server/tools/compare-fleets.js';
+import { handleGetFleetTimeseries } from '../src/mcp-server/tools/get-fleet-timeseries.js';
+import { handleGetCapacityAnalytics } from '../src/mcp-server/tools/get-capacity-analytics.js';
+import { handleGetLessorExposure } from '../src/mcp-server/tools/get-lessor-exposure.js';
+import { handleGetMaintenanceForecast } from '../src/mcp-server/tools/get-maintenance-forecast.js';
+import {
+  findAircraftNearingRetirement,
+  getFleetModernizationStats,
+  getGraphBackend,
+  getManufacturerMarketShare,
+} from '../src/lib/graph-analytics.js';
+import { toolCallAuditEntries } from '../src/mcp-server/http-transport.js';
+import { APIServer } from '../src/api/server.js';
+import { APIKeyRecord, createAPIKey, hasScope, revokeAPIKey } from '../src/api/middleware/auth.js';
+import { resolveHourlyLimit } from '../src/api/middleware/rate-limit.js';
+import { getMigrationStatus, loadMigrations, migrateDown, migrateUp } from '../src/database/postgres/migrator.js';
+import { getJobQueue } from '../src/scrapers/workflows/job-queue.js';
+import { getPrompt, mcpPrompts } from '../src/mcp-server/prompts.js';
+import { getFleetTimeseries } from '../src/lib/fleet-timeseries.js';
+import { getCapacityAnalytics } from '../src/lib/capacity-analytics.js';
+import { getLessorExposure, OWNERSHIP_CLASSES } from '../src/lib/lessor-exposure.js';
+import { MaintenanceAircraft, parseCheckType, projectMaintenance } from '../src/lib/maintenance-forecast.js';
+import { parseAircraftPage, parseFleetPage } from '../src/scrapers/parsers/parser-registry.js';
+import { configureScrapeFixtures, saveFixture } from '../src/lib/scrape-fixtures.js';
+import { archivePageSnapshot, contentHash, getPageSnapshot, listPageSnapshots } from '../src/lib/page-snapshots.js';
+import { AircraftDetails, AircraftDetailsAgent } from '../src/scrapers/agents/aircraft-details-agent.js';
+import type { ValidationResult } from '../src/scrapers/agents/validation-agent.js';
+import {
+  DataSource,
+  expandUrlTemplate,
+  findSourceForUrl,
+  getDataSources,
+  recordSourceOutcomes,
+} from '../src/lib/data-sources.js';
+import { AirlineScraperWorkflow } from '../src/scrapers/workflows/airline-scraper-workflow.js';
+import { Neo4jSyncService } from '../src/database/neo4j/sync-from-postgres.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMCPServer } from '../src/mcp-server/server.js';
+import { getUpdatedUris, parseResourceUri } from '../src/mcp-server/resources.js';
+import { globalCache } from '../src/lib/cache.js';
 
 const logger = createLogger('mcp-test');
 
@@ -87,13 +141,70 @@ class TestSuite {
     console.log('  UNIT TESTS');
     console.log('═══════════════════════════════════════════════════════════════════\n');
 
+    await this.testSchemaCompatibility();
     await this.testGetAirlineFleet();
     await this.testGetAircraftDetails();
     await this.testSearchAircraft();
     await this.testGetFleetStatistics();
     await this.testTriggerFleetUpdate();
+    await this.testScrapeJobTools();
     await this.testGetAircraftTypeSpecs();
     await this.testGetFleetAvailability();
+    await this.testGraphTools();
+    await this.testCompareFleets();
+    await this.testGetFleetTimeseries();
+    await this.testGetCapacityAnalytics();
+    await this.testGetLessorExposure();
+    await this.testGetMaintenanceForecast();
+    await this.testSiteParsers();
+    await this.testScrapeReplay();
+    await this.testPageSnapshots();
+    await this.testDataSources();
+    await this.testPrompts();
+    await this.testAuditLog();
+    await this.testApiScopes();
+    await this.testApiKeys();
+    await this.testQuotas();
+    await this.testMigrator();
+    await this.testFleetChanges();
+    await this.testGraphSyncScope();
+    await this.testResources();
+  }
+
+  /**
+   * Test the startup schema compatibility check
+   */
+  private async testSchemaCompatibility(): Promise<void> {
+    console.log('🗄️  Testing schema compatibility check\n');
+
+    // Test 1: Migrated database matches the code
+    await this.runTest('schema-check: Migrated schema is compatible', async () => {
+      const mismatches = await checkSchemaCompatibility();
+      this.assert(
+        mismatches.length === 0,
+        `Should have no mismatches, got ${JSON.stringify(mismatches)}`
+      );
+    });
+
+    // Test 2: Missing column is reported
+    await this.runTest('schema-check: Reports missing column', async () => {
+      const mismatches = await checkSchemaCompatibility({
+        aircraft: ['id', 'manufacturer_serial_number'],
+      });
+      this.assert(mismatches.length === 1, 'Should report one mismatch');
+      this.assert(
+        mismatches[0]?.missingColumns.join() === 'manufacturer_serial_number',
+        'Should list only the missing column'
+      );
+    });
+
+    // Test 3: Missing table is reported
+    await this.runTest('schema-check: Reports missing table', async () => {
+      const mismatches = await checkSchemaCompatibility({ scraping_jobs: ['id'] });
+      this.assert(mismatches[0]?.tableMissing === true, 'Should report missing table');
+    });
+
+    console.log();
   }
 
   /**
@@ -148,6 +259,26 @@ class TestSuite {
       this.assert(result.isError, 'Should return error for missing airline_code');
     });
 
+    // Test 7: Fleet on a past date
+    await this.runTest('get-airline-fleet: As of past date', async () => {
+      const result = await handleGetAirlineFleet({
+        airline_code: 'UA',
+        status_filter: 'all',
+        as_of: '2020-01-01',
+      });
+      this.assert(!result.isError, 'Should not be an error');
+      this.assert(result.content[0]?.text.includes('As of: 2020-01-01'), 'Should show the as_of date');
+    });
+
+    // Test 8: Future and malformed dates
+    await this.runTest('get-airline-fleet: Invalid as_of', async () => {
+      const future = await handleGetAirlineFleet({ airline_code: 'UA', as_of: '2999-01-01' });
+      this.assert(future.isError, 'Should reject a future date');
+
+      const malformed = await handleGetAirlineFleet({ airline_code: 'UA', as_of: '2020-02-30' });
+      this.assert(malformed.isError, 'Should reject an impossible date');
+    });
+
     console.log();
   }
 
@@ -185,6 +316,42 @@ class TestSuite {
       this.assert(result.isError, 'Should return error for missing registration');
     });
 
+    // Test 4: Field provenance
+    await this.runTest('get-aircraft-details: Field provenance', async () => {
+      const airResult = await queryPostgres<{ id: number; registration: string }>(
+        `SELECT a.id, a.registration FROM aircraft a JOIN aircraft_types at ON a.aircraft_type_id = at.id LIMIT 1`
+      );
+
+      if (airResult.rows.length === 0) {
+        console.log('  ⚠ Skipped: No aircraft in database');
+        return;
+      }
+
+      const { id, registration } = airResult.rows[0]!;
+      await queryPostgres(
+        `INSERT INTO aircraft_field_sources
+           (aircraft_id, field_name, source_url, source_type, extraction_method, confidence, extracted_at)
+         VALUES ($1, 'test_field', $2, 'database', 'parser', 0.95, NOW())`,
+        [id, `https://www.planespotters.net/airframe/${registration}`]
+      );
+
+      try {
+        const result = await handleGetAircraftDetails({ identifier: registration, include_provenance: true });
+        const text = result.content[0]?.text ?? '';
+        this.assert(!result.isError, 'Should not be an error');
+        this.assert(text.includes('**Field Provenance:**'), 'Should include a provenance section');
+        this.assert(
+          text.includes(`test_field: parser from https://www.planespotters.net/airframe/${registration} (database), confidence 95%`),
+          'Should list source, method and confidence per field'
+        );
+
+        const plain = await handleGetAircraftDetails({ identifier: registration });
+        this.assert(!plain.content[0]?.text.includes('Field Provenance'), 'Should omit provenance by default');
+      } finally {
+        await queryPostgres(`DELETE FROM aircraft_field_sources WHERE aircraft_id = $1 AND field_name = 'test_field'`, [id]);
+      }
+    });
+
     console.log();
   }
 
@@ -268,6 +435,17 @@ class TestSuite {
       this.assert(result.isError, 'Should return error for invalid airline');
     });
 
+    // Test 4: Airline statistics on a past date
+    await this.runTest('get-fleet-statistics: As of past date', async () => {
+      const result = await handleGetFleetStatistics({
+        scope: 'airline',
+        scope_value: 'UA',
+        as_of: '2020-01-01',
+      });
+      this.assert(!result.isError, 'Should not be an error');
+      this.assert(result.content[0]?.text.includes('as of 2020-01-01'), 'Should show the as_of date');
+    });
+
     console.log();
   }
 
@@ -311,6 +489,53 @@ class TestSuite {
     console.log();
   }
 
+  /**
+   * Test scrape job status, listing and cancellation tools
+   */
+  private async testScrapeJobTools(): Promise<void> {
+    console.log('📋 Testing scrape job tools\n');
+
+    let jobId: string | null = null;
+
+    // Test 1: Status of a new job
+    await this.runTest('get-scrape-job-status: Pending job', async () => {
+      jobId = await getJobQueue().createJob('TS', { priority: 'low' });
+      const result = await handleGetScrapeJobStatus({ job_id: jobId });
+      this.assert(!result.isError, 'Should not be an error');
+      this.assert(result.content[0]?.text.includes(jobId), 'Should describe the job');
+    });
+
+    // Test 2: Unknown job
+    await this.runTest('get-scrape-job-status: Unknown job', async () => {
+      const result = await handleGetScrapeJobStatus({ job_id: 'job_ZZ_0' });
+      this.assert(result.isError, 'Should return error for unknown job');
+    });
+
+    // Test 3: List jobs for an airline
+    await this.runTest('list-scrape-jobs: By airline', async () => {
+      const result = await handleListScrapeJobs({ airline_code: 'TS', limit: 5 });
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 4: Invalid status filter
+    await this.runTest('list-scrape-jobs: Invalid status', async () => {
+      const result = await handleListScrapeJobs({ status: 'unknown' });
+      this.assert(result.isError, 'Should return validation error');
+    });
+
+    // Test 5: Cancel, then cancel again
+    await this.runTest('cancel-scrape-job: Cancel pending job', async () => {
+      this.assert(jobId, 'Should have a job from the status test');
+      const cancelled = await handleCancelScrapeJob({ job_id: jobId });
+      this.assert(!cancelled.isError, 'Should cancel the pending job');
+
+      const again = await handleCancelScrapeJob({ job_id: jobId });
+      this.assert(again.isError, 'Should not cancel a job twice');
+    });
+
+    console.log();
+  }
+
   /**
    * Test get-aircraft-type-specs tool
    */
@@ -387,6 +612,1335 @@ class TestSuite {
     console.log();
   }
 
+  /**
+   * Test graph analytics tools (answered by Postgres when Neo4j is not configured)
+   */
+  private async testGraphTools(): Promise<void> {
+    console.log('🕸️  Testing graph analytics tools\n');
+
+    // Test 1: Similar airlines
+    await this.runTest('find-similar-airlines: By airline', async () => {
+      const result = await handleFindSimilarAirlines({ airline_code: 'UA', min_common_types: 2 });
+      this.assert(result.content, 'Should return similar airlines');
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 2: Alliance network
+    await this.runTest('get-alliance-network: Star Alliance', async () => {
+      const result = await handleGetAllianceNetwork({ alliance: 'Star Alliance' });
+      this.assert(result.content, 'Should return alliance members');
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 3: Manufacturer market share
+    await this.runTest('get-manufacturer-market-share: Global', async () => {
+      const result = await handleGetManufacturerMarketShare({});
+      this.assert(result.content, 'Should return market share');
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 4: Aircraft nearing retirement
+    await this.runTest('find-aircraft-nearing-retirement: All airlines', async () => {
+      const result = await handleFindAircraftNearingRetirement({});
+      this.assert(result.content, 'Should return aging aircraft');
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 5: Fleet modernization for unknown airline
+    await this.runTest('get-fleet-modernization-stats: Invalid airline', async () => {
+      const result = await handleGetFleetModernizationStats({ airline_code: 'ZZZ' });
+      this.assert(result.isError, 'Should return error for unknown airline');
+    });
+
+    // Test 6: Postgres fallback leaves retired aircraft out
+    await this.runTest('graph-analytics: Statuses in the Postgres fallback', async () => {
+      if (getGraphBackend() !== 'postgres') {
+        return;
+      }
+
+      const airline = await queryPostgres<{ id: number }>(
+        `INSERT INTO airlines (iata_code, icao_code, name) VALUES ('Q9', 'ZQT', 'Status Test Air') RETURNING id`
+      );
+      const airlineId = airline.rows[0]!.id;
+
+      try {
+        await queryPostgres(
+          `INSERT INTO aircraft (airline_id, registration, aircraft_type, manufacturer, status, manufactured_date)
+           SELECT $1, r.registration, 'Test 100', 'Status Test Aero', r.status, r.manufactured::DATE
+           FROM UNNEST($2::TEXT[], $3::TEXT[], $4::TEXT[]) AS r(registration, status, manufactured)`,
+          [
+            airlineId,
+            ['ZQ-ST1', 'ZQ-ST2', 'ZQ-ST3', 'ZQ-ST4'],
+            ['active', 'active', 'active', 'retired'],
+            ['1995-01-01', '2022-01-01', '2022-01-01', '1990-01-01'],
+          ]
+        );
+
+        const share = await getManufacturerMarketShare();
+        const testShare = share.find((row: any) => row.manufacturer === 'Status Test Aero');
+        this.assert(testShare?.aircraftCount === 3, `Should count active aircraft, got ${testShare?.aircraftCount}`);
+
+        const stats = await getFleetModernizationStats('ZQT');
+        this.assert(stats?.total === 3, `Should leave retired aircraft out of the fleet, got ${stats?.total}`);
+
+        const aging = await findAircraftNearingRetirement('ZQT');
+        this.assert(
+          aging.length === 1 && aging[0]?.registration === 'ZQ-ST1',
+          `Should only list in-service aging aircraft, got ${aging.map((row: any) => row.registration).join(', ')}`
+        );
+      } finally {
+        await queryPostgres(`DELETE FROM airlines WHERE id = $1`, [airlineId]);
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test compare-fleets tool
+   */
+  private async testCompareFleets(): Promise<void> {
+    console.log('⚖️  Testing compare-fleets\n');
+
+    // Test 1: Two airlines
+    await this.runTest('compare-fleets: Two airlines', async () => {
+      const result = await handleCompareFleets({ airline_codes: ['UA', 'DL'] });
+      this.assert(!result.isError, 'Should not be an error');
+      this.assert(result.content[0]?.text.includes('Fleet Commonality'), 'Should include commonality scores');
+    });
+
+    // Test 2: Too few airlines
+    await this.runTest('compare-fleets: Single airline', async () => {
+      const result = await handleCompareFleets({ airline_codes: ['UA'] });
+      this.assert(result.isError, 'Should require at least two airlines');
+    });
+
+    // Test 3: Duplicate codes count once
+    await this.runTest('compare-fleets: Duplicate airline', async () => {
+      const result = await handleCompareFleets({ airline_codes: ['UA', 'ua'] });
+      this.assert(result.isError, 'Should require two distinct airlines');
+    });
+
+    // Test 4: Unknown airline
+    await this.runTest('compare-fleets: Unknown airline', async () => {
+      const result = await handleCompareFleets({ airline_codes: ['UA', 'ZZZ'] });
+      this.assert(result.isError, 'Should return error for unknown airline');
+      this.assert(result.content[0]?.text.includes('ZZZ'), 'Should name the unknown airline');
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test get-fleet-timeseries tool
+   */
+  private async testGetFleetTimeseries(): Promise<void> {
+    console.log('📈 Testing get-fleet-timeseries\n');
+
+    // Test 1: Explicit month range
+    await this.runTest('get-fleet-timeseries: Month range', async () => {
+      const timeseries = await getFleetTimeseries('UA', { from: '2020-01', to: '2020-12' });
+      this.assert(timeseries.series.length === 12, 'Should return one point per month');
+      this.assert(timeseries.series[0]?.month === '2020-01', 'Should start at the from month');
+    });
+
+    // Test 2: Default range through the tool
+    await this.runTest('get-fleet-timeseries: Default range', async () => {
+      const result = await handleGetFleetTimeseries({ airline_code: 'UA' });
+      this.assert(!result.isError, 'Should not be an error');
+      this.assert(result.content[0]?.text.includes('Monthly Series'), 'Should include the monthly table');
+    });
+
+    // Test 3: Invalid ranges
+    await this.runTest('get-fleet-timeseries: Invalid range', async () => {
+      const reversed = await handleGetFleetTimeseries({
+        airline_code: 'UA',
+        from_month: '2020-06',
+        to_month: '2020-01',
+      });
+      this.assert(reversed.isError, 'Should reject from after to');
+
+      const malformed = await handleGetFleetTimeseries({ airline_code: 'UA', from_month: '2020-13' });
+      this.assert(malformed.isError, 'Should reject an invalid month');
+    });
+
+    // Test 4: Unknown airline
+    await this.runTest('get-fleet-timeseries: Unknown airline', async () => {
+      const result = await handleGetFleetTimeseries({ airline_code: 'ZZZ' });
+      this.assert(result.isError, 'Should return error for unknown airline');
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test get-capacity-analytics tool
+   */
+  private async testGetCapacityAnalytics(): Promise<void> {
+    console.log('💺 Testing get-capacity-analytics\n');
+
+    // Test 1: Cabin and type totals add up
+    await this.runTest('get-capacity-analytics: Totals are consistent', async () => {
+      const capacity = await getCapacityAnalytics({ airline_code: 'UA' });
+      const cabinSeats = Object.values(capacity.by_cabin).reduce((sum, seats) => sum + seats, 0);
+      const typeSeats = capacity.by_type.reduce((sum, type) => sum + type.seats, 0);
+      // Cabins can exceed the total when an aircraft's layout disagrees with its total_seats
+      this.assert(cabinSeats >= capacity.totals.seats, 'Cabin seats should cover the total');
+      this.assert(typeSeats === capacity.totals.seats, 'Type seats should add up to the total');
+
+      const sources = capacity.totals.seat_sources;
+      this.assert(
+        sources.aircraft + sources.type_typical + sources.unknown === capacity.totals.aircraft,
+        'Every aircraft should have one seat source'
+      );
+    });
+
+    // Test 2: Global capacity through the tool
+    await this.runTest('get-capacity-analytics: Global', async () => {
+      const result = await handleGetCapacityAnalytics({});
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 3: Unknown airline
+    await this.runTest('get-capacity-analytics: Unknown airline', async () => {
+      const result = await handleGetCapacityAnalytics({ airline_code: 'ZZZ' });
+      this.assert(result.isError, 'Should return error for unknown airline');
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test get-lessor-exposure tool
+   */
+  private async testGetLessorExposure(): Promise<void> {
+    console.log('🏦 Testing get-lessor-exposure\n');
+
+    // Test 1: Ownership and lessor totals add up
+    await this.runTest('get-lessor-exposure: Totals are consistent', async () => {
+      const exposure = await getLessorExposure({ airline_codes: ['UA', 'DL'] });
+      const ownership = OWNERSHIP_CLASSES.reduce((sum, key) => sum + exposure.totals.ownership[key], 0);
+      const fleet = exposure.by_airline.reduce((sum, airline) => sum + airline.fleet_size, 0);
+      const byType = exposure.by_type.reduce((sum, type) => sum + type.aircraft, 0);
+
+      this.assert(ownership === exposure.totals.aircraft, 'Ownership buckets should add up to the total');
+      this.assert(fleet === exposure.totals.aircraft, 'Airline fleets should add up to the total');
+      this.assert(byType === exposure.totals.aircraft, 'Types should add up to the total');
+      this.assert(exposure.totals.hhi >= 0 && exposure.totals.hhi <= 10000, 'HHI should be within 0-10000');
+    });
+
+    // Test 2: Lease returns stay inside the window
+    await this.runTest('get-lessor-exposure: Expiring leases', async () => {
+      const exposure = await getLessorExposure({ expiring_within_months: 6 });
+      this.assert(
+        exposure.expiring_leases.every((lease) => lease.months_remaining >= 0 && lease.months_remaining <= 6),
+        'Lease returns should fall within the next 6 months'
+      );
+    });
+
+    // Test 3: A lessor filter keeps shares measured against all leased aircraft
+    await this.runTest('get-lessor-exposure: Lessor filter keeps shares', async () => {
+      const all = await getLessorExposure();
+      const top = all.lessors[0];
+      if (!top) {
+        console.log('  ⚠ Skipped: No leased aircraft in database');
+        return;
+      }
+
+      const filtered = await getLessorExposure({ lessor: top.lessor.toLowerCase() });
+      this.assert(filtered.lessors.length === 1, `Expected one lessor, got ${filtered.lessors.length}`);
+      this.assert(
+        filtered.lessors[0]?.share === top.share,
+        `Expected share ${top.share}, got ${filtered.lessors[0]?.share}`
+      );
+      this.assert(filtered.totals.hhi === all.totals.hhi, `Expected HHI ${all.totals.hhi}, got ${filtered.totals.hhi}`);
+      this.assert(filtered.totals.lessors === all.totals.lessors, 'Lessor count should cover the whole scope');
+
+      for (const airline of filtered.by_airline) {
+        const unfiltered = all.by_airline.find((entry) => entry.airline_code === airline.airline_code);
+        for (const lessor of airline.lessors) {
+          const match = unfiltered?.lessors.find((entry) => entry.lessor === lessor.lessor);
+          this.assert(
+            match?.share === lessor.share,
+            `${airline.airline_code} share of ${lessor.lessor} should not change`
+          );
+        }
+      }
+    });
+
+    // Test 4: Global exposure through the tool
+    await this.runTest('get-lessor-exposure: Global', async () => {
+      const result = await handleGetLessorExposure({});
+      this.assert(!result.isError, 'Should not be an error');
+    });
+
+    // Test 5: Invalid input
+    await this.runTest('get-lessor-exposure: Invalid input', async () => {
+      const unknown = await handleGetLessorExposure({ airline_codes: ['ZZZ'] });
+      this.assert(unknown.isError, 'Should return error for unknown airline');
+
+      const window = await handleGetLessorExposure({ expiring_within_months: 0 });
+      this.assert(window.isError, 'Should reject an empty lease window');
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test get-maintenance-forecast tool
+   */
+  private async testGetMaintenanceForecast(): Promise<void> {
+    console.log('🔧 Testing get-maintenance-forecast\n');
+
+    // Test 1: Projection from schedules and check history
+    await this.runTest('get-maintenance-forecast: Projection', async () => {
+      const tail = (registration: string, overrides: Partial<MaintenanceAircraft>): MaintenanceAircraft => ({
+        registration,
+        aircraft_type: 'A320',
+        home_base: 'PTY',
+        in_maintenance: false,
+        next_maintenance_date: null,
+        last_major_check: null,
+        last_major_check_date: null,
+        total_flight_hours: null,
+        total_cycles: null,
+        ...overrides,
+      });
+
+      const projection = projectMaintenance(
+        [
+          tail('HP-1001', { next_maintenance_date: '2026-01-05', last_major_check: 'C check' }),
+          tail('HP-1002', { last_major_check: 'D-check', last_major_check_date: '2024-01-20' }),
+          tail('HP-1003', { next_maintenance_date: '2025-12-01' }),
+          tail('HP-1004', { in_maintenance: true }),
+          tail('HP-1005', {}),
+        ],
+        { from: '2026-01-01', to: '2026-01-31' }
+      );
+
+      const scheduled = projection.events.find((event) => event.registration === 'HP-1001');
+      this.assert(scheduled?.check_type === 'C-check' && scheduled.end_date === '2026-01-25', 'Should ground for a C-check');
+
+      const projected = projection.events.find((event) => event.registration === 'HP-1002');
+      this.assert(projected?.source === 'projected' && projected.start_date === '2026-01-20', 'Should project from the last check');
+
+      this.assert(projection.overdue[0]?.registration === 'HP-1003', 'Should report overdue checks');
+      this.assert(
+        projection.events.some((event) => event.registration === 'HP-1004' && event.source === 'in_progress'),
+        'Should ground aircraft already in maintenance'
+      );
+      this.assert(projection.unplanned_aircraft === 1, 'Should count aircraft without maintenance data');
+      this.assert(projection.weekly.length === 5, 'Should return one row per week');
+      this.assert(projection.weekly[3]?.by_type[0]?.share === 40, 'Should measure groundings against the type fleet');
+      this.assert(parseCheckType('heavy maintenance') === 'D-check', 'Should read heavy checks as D-checks');
+    });
+
+    // Test 2: Default window through the tool
+    await this.runTest('get-maintenance-forecast: Default window', async () => {
+      const result = await handleGetMaintenanceForecast({ airline_code: 'UA' });
+      this.assert(!result.isError, 'Should not be an error');
+      this.assert(result.content[0]?.text.includes('Maintenance Forecast'), 'Should include the forecast header');
+    });
+
+    // Test 3: Invalid input
+    await this.runTest('get-maintenance-forecast: Invalid input', async () => {
+      const reversed = await handleGetMaintenanceForecast({
+        airline_code: 'UA',
+        from_date: '2026-06-01',
+        to_date: '2026-01-01',
+      });
+      this.assert(reversed.isError, 'Should reject from after to');
+
+      const unknown = await handleGetMaintenanceForecast({ airline_code: 'ZZZ' });
+      this.assert(unknown.isError, 'Should return error for unknown airline');
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test deterministic site parsers
+   */
+  private async testSiteParsers(): Promise<void> {
+    console.log('🧩 Testing site parsers\n');
+
+    // Test 1: Fleet table on a div grid
+    await this.runTest('site-parsers: Planespotters fleet page', async () => {
+      const cell = (text: string, header = false) => `<div class="${header ? 'dt-th' : 'dt-td'}">${text}</div>`;
+      const row = (cells: string[], header = false) =>
+        `<div class="dt-tr">${cells.map((text) => cell(text, header)).join('')}</div>`;
+      const html = `<div class="dt-table">
+        ${row(['Reg', 'Aircraft', 'MSN', 'Delivered', 'Status'], true)}
+        ${row(['<a href="#">HP-1530CMP</a>', 'Boeing 737-800', '35067', '2008-05-14', 'Active'])}
+        ${row(['HP-1561CMP', 'Embraer 190', '19000123', 'Mar 2010', 'Stored'])}
+        ${row(['Unknown', 'Boeing 737-800', '', '', ''])}
+      </div>`;
+
+      const parsed = parseFleetPage(html, 'https://www.planespotters.net/airline/Copa-Airlines');
+      this.assert(parsed?.parser === 'planespotters', 'Should use the planespotters parser');
+      this.assert(parsed?.data.length === 2, 'Should skip rows without a registration');
+      this.assert(parsed?.data[0]?.manufacturer === 'Boeing' && parsed.data[0].model === '737-800', 'Should split the type');
+      this.assert(parsed?.data[1]?.delivery_date === '2010-03-01', 'Should normalise month-only dates');
+    });
+
+    // Test 2: Label/value airframe page with day-first dates
+    await this.runTest('site-parsers: Airfleets airframe page', async () => {
+      const html = `<table>
+        <tr><td>Registration</td><td>HP-1530CMP</td></tr>
+        <tr><td>MSN</td><td>35067</td></tr>
+        <tr><td>Type</td><td>Boeing 737-800</td></tr>
+        <tr><td>Delivery</td><td>14/05/2008</td></tr>
+      </table>`;
+
+      const parsed = parseAircraftPage(html, 'https://www.airfleets.net/ficheapp/plane-b737-35067.htm', 'hp-1530cmp');
+      this.assert(parsed?.data.msn === '35067', 'Should read the MSN');
+      this.assert(parsed?.data.delivery_date === '2008-05-14', 'Should read day-first dates');
+    });
+
+    // Test 3: Fall back to the LLM
+    await this.runTest('site-parsers: No match', async () => {
+      this.assert(parseFleetPage('<table></table>', 'https://www.example.com/fleet') === null, 'Should ignore unknown sites');
+      this.assert(
+        parseFleetPage('<p>Fleet coming soon</p>', 'https://www.planespotters.net/airline/Copa-Airlines') === null,
+        'Should give up on pages without a fleet table'
+      );
+      this.assert(
+        parseAircraftPage('<table><tr><td>Registration</td><td>N123UA</td></tr></table>', 'https://www.airfleets.net/x', 'N999UA') === null,
+        'Should not return a different airframe'
+      );
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test the scraping workflow against recorded fixtures
+   */
+  private async testScrapeReplay(): Promise<void> {
+    console.log('📼 Testing scrape replay\n');
+
+    // Test 1: Full update from fixtures, with no browser or LLM
+    await this.runTest('scrape-replay: Full update (dry run)', async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), 'scrape-fixtures-'));
+      try {
+        configureScrapeFixtures({ mode: 'record', dir });
+
+        const airline = await queryPostgres<{ name: string }>(`SELECT name FROM airlines WHERE iata_code = 'UA'`);
+        const fleetUrl = `https://www.planespotters.net/airline/${airline.rows[0]!.name.replace(/ /g, '-')}`;
+        const registrations = ['N990RP', 'N991RP'];
+
+        await saveFixture('page', { url: fleetUrl }, {
+          url: fleetUrl,
+          title: 'Fleet',
+          html: `<table><tr><th>Reg</th><th>Aircraft</th></tr>${registrations
+            .map((registration) => `<tr><td>${registration}</td><td>Boeing 737-800</td></tr>`)
+            .join('')}</table>`,
+        });
+        for (const registration of registrations) {
+          const url = `https://www.planespotters.net/airframe/${registration}`;
+          await saveFixture('page', { url }, {
+            url,
+            title: registration,
+            html: `<dl><dt>Registration</dt><dd>${registration}</dd><dt>Aircraft Type</dt><dd>Boeing 737-800</dd><dt>MSN</dt><dd>${registration.slice(1, 4)}01</dd></dl>`,
+          });
+        }
+
+        configureScrapeFixtures({ mode: 'replay', dir });
+        const result = await new AirlineScraperWorkflow().runFullUpdate('UA', { dryRun: true });
+
+        this.assert(result.aircraft_found === registrations.length, 'Should discover the recorded fleet');
+        this.assert(result.aircraft_skipped === registrations.length, 'Should validate every aircraft');
+        this.assert(result.details.discovery?.sources.includes(fleetUrl), 'Should report the replayed source');
+      } finally {
+        configureScrapeFixtures({ mode: 'off' });
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    // Test 2: A page no site parser handles is extracted from the recorded LLM response
+    await this.runTest('scrape-replay: LLM extraction', async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), 'scrape-fixtures-'));
+      try {
+        configureScrapeFixtures({ mode: 'record', dir });
+
+        const agent = new AircraftDetailsAgent();
+        const pages = ['N993RP', 'N994RP'].map((registration) => ({
+          registration,
+          url: `https://fleet.example.com/airframes/${registration}`,
+          title: registration,
+          html: `<p>${registration} is an Airbus A321neo, MSN ${registration.slice(1, 4)}01, delivered 2021-04-01.</p>`,
+        }));
+        for (const page of pages) {
+          await saveFixture('page', { url: page.url }, { url: page.url, title: page.title, html: page.html });
+        }
+
+        // Only the first page has a recorded LLM response
+        const [recorded, unrecorded] = pages;
+        this.assert(parseAircraftPage(recorded!.html, recorded!.url, recorded!.registration) === null, 'No parser should match');
+        const { prompt, options } = agent['buildExtractionRequest'](recorded!.html, recorded!.url, recorded!.registration);
+        await saveFixture('llm', { method: 'generateJSON', prompt, options }, {
+          manufacturer: 'Airbus',
+          model: 'A321neo',
+          msn: '99301',
+          delivery_date: '2021-04-01',
+        });
+
+        configureScrapeFixtures({ mode: 'replay', dir });
+        const extract = (page: (typeof pages)[number]) =>
+          agent.extractDetails(page.registration, {
+            sources: [{ url: page.url, type: 'database', priority: 0 }],
+            archiveSnapshots: false,
+          });
+
+        const details = await extract(recorded!);
+        this.assert(details.msn === '99301' && details.model === 'A321neo', 'Should use the recorded LLM response');
+        this.assert(details.field_provenance?.msn?.extraction_method === 'llm', 'Should attribute the values to the LLM');
+        this.assert(details.data_sources.includes(recorded!.url), 'Should report the replayed page');
+
+        const missing = await extract(unrecorded!);
+        this.assert(missing.msn === null && missing.data_sources.length === 0, 'A missing LLM fixture should extract nothing');
+      } finally {
+        configureScrapeFixtures({ mode: 'off' });
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test the page snapshot archive
+   */
+  private async testPageSnapshots(): Promise<void> {
+    console.log('🗄️  Testing page snapshots\n');
+
+    // Test 1: Archive, read back and re-extract an airframe page
+    await this.runTest('page-snapshots: Archive and re-extract', async () => {
+      const url = 'https://www.planespotters.net/airframe/N992RP';
+      const html = '<dl><dt>Registration</dt><dd>N992RP</dd><dt>MSN</dt><dd>99201</dd><dt>Delivered</dt><dd>2015-06-01</dd></dl>';
+
+      const id = await archivePageSnapshot('aircraft', url, { url, title: 'N992RP', html }, {
+        airlineCode: 'ts',
+        registration: 'n992rp',
+      });
+      this.assert(id !== null, 'Should store the snapshot');
+
+      try {
+        const snapshot = await getPageSnapshot(id!);
+        this.assert(snapshot?.html === html, 'Should return the decompressed HTML');
+        this.assert(snapshot?.content_hash === contentHash(html), 'Should record the content hash');
+        this.assert(snapshot?.registration === 'N992RP' && snapshot.airline_code === 'TS', 'Should key by registration and airline');
+
+        const listed = await listPageSnapshots({ registration: 'N992RP' });
+        this.assert(listed[0]?.id === id, 'Should list the newest snapshot first');
+        this.assert(!('html' in listed[0]!), 'Listing should not include page content');
+
+        const extraction = await new AircraftDetailsAgent().extractFromPage({ url, html: snapshot!.html }, 'N992RP');
+        this.assert(extraction?.method === 'parser', 'Should re-extract with the site parser');
+        this.assert(
+          extraction?.data.msn === '99201' && extraction.data.delivery_date === '2015-06-01',
+          'Should re-extract the archived page'
+        );
+      } finally {
+        await queryPostgres(`DELETE FROM page_snapshots WHERE id = $1`, [id]);
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test data sources and reliability scoring
+   */
+  private async testDataSources(): Promise<void> {
+    console.log('📚 Testing data sources\n');
+
+    // Test 1: URL templates
+    await this.runTest('data-sources: URL templates', async () => {
+      this.assert(
+        expandUrlTemplate('https://www.planespotters.net/airline/{airline_slug}', { airline_name: 'Copa Airlines' }) ===
+          'https://www.planespotters.net/airline/Copa-Airlines',
+        'Should dash airline slugs'
+      );
+      this.assert(
+        expandUrlTemplate('https://www.flightradar24.com/data/aircraft/{registration_lower}', { registration: 'HP-1530CMP' }) ===
+          'https://www.flightradar24.com/data/aircraft/hp-1530cmp',
+        'Should lower-case registrations'
+      );
+      this.assert(
+        expandUrlTemplate('https://example.com/{icao}', { airline_name: 'Copa Airlines', icao: null }) === null,
+        'Should skip templates with missing values'
+      );
+
+      const sources = [{ id: 7, fleet_url_template: null, aircraft_url_template: 'https://www.jetphotos.com/registration/{registration}' }];
+      this.assert(
+        findSourceForUrl(sources as DataSource[], 'https://jetphotos.com/registration/N12345')?.id === 7,
+        'Should match provenance URLs to sources by host'
+      );
+    });
+
+    // Test 2: Seeded sources, most reliable first
+    await this.runTest('data-sources: Loaded from the table', async () => {
+      const sources = await getDataSources('aircraft');
+      const names = sources.map((source) => source.name);
+      this.assert(
+        ['planespotters', 'airfleets', 'flightradar24', 'jetphotos'].every((name) => names.includes(name)),
+        'Should include the seeded sources'
+      );
+      this.assert(
+        sources.every((source, i) => i === 0 || sources[i - 1]!.reliability_score >= source.reliability_score),
+        'Should order sources by reliability'
+      );
+      this.assert(
+        !(await getDataSources('fleet')).some((source) => source.name === 'jetphotos'),
+        'Should leave out sources without fleet pages'
+      );
+    });
+
+    // Test 3: Outcomes move the score from its base towards the observed rate
+    await this.runTest('data-sources: Reliability scoring', async () => {
+      const inserted = await queryPostgres<{ id: number }>(
+        `INSERT INTO data_sources (name, source_type, aircraft_url_template, base_reliability, reliability_score)
+         VALUES ('test-source', 'database', 'https://test.example/{registration}', 0.70, 0.70)
+         RETURNING id`
+      );
+      const id = inserted.rows[0]!.id;
+
+      try {
+        await recordSourceOutcomes(new Map([[id, { confirmations: 10, contradictions: 0 }]]));
+        let row = (await queryPostgres(`SELECT reliability_score::FLOAT as score FROM data_sources WHERE id = $1`, [id])).rows[0];
+        // (20 * 0.70 + 10) / (20 + 10)
+        this.assert(row.score === 0.8, `Should raise the score to 0.8, got ${row.score}`);
+
+        await recordSourceOutcomes(new Map([[id, { confirmations: 0, contradictions: 30 }]]));
+        row = (await queryPostgres(`SELECT reliability_score::FLOAT as score FROM data_sources WHERE id = $1`, [id])).rows[0];
+        // (20 * 0.70 + 10) / (20 + 10 + 30)
+        this.assert(row.score === 0.4, `Should lower the score to 0.4, got ${row.score}`);
+      } finally {
+        await queryPostgres(`DELETE FROM data_sources WHERE id = $1`, [id]);
+      }
+    });
+
+    // Test 4: The migration keeps a schema.sql data_sources table aside
+    await this.runTest('data-sources: Migration over a schema.sql table', async () => {
+      const migration = loadMigrations().find((m) => m.version === '013');
+      this.assert(migration !== undefined, 'Should find migration 013');
+      const sql = await readFile(migration!.upPath, 'utf-8');
+      const rollback = new Error('rollback');
+
+      try {
+        // A scratch schema inside a transaction that is always rolled back
+        await withTransaction(async (client) => {
+          await client.query('CREATE SCHEMA mcp_test_legacy');
+          await client.query('SET LOCAL search_path TO mcp_test_legacy, public');
+          await client.query(
+            `CREATE TABLE data_sources (
+               id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+               source_type VARCHAR(50) NOT NULL,
+               source_name VARCHAR(255) NOT NULL,
+               source_url VARCHAR(1000),
+               is_active BOOLEAN DEFAULT true
+             )`
+          );
+          await client.query('CREATE INDEX idx_data_sources_active ON data_sources(is_active)');
+          await client.query(`INSERT INTO data_sources (source_type, source_name) VALUES ('website', 'Old Source')`);
+
+          await client.query(sql);
+
+          const legacy = await client.query('SELECT source_name FROM data_sources_legacy');
+          this.assert(legacy.rows[0]?.source_name === 'Old Source', 'Should keep the old rows in data_sources_legacy');
+
+          const seeded = await client.query('SELECT name FROM data_sources ORDER BY name');
+          this.assert(
+            seeded.rows.map((row) => row.name).join(',') === 'airfleets,flightradar24,jetphotos,planespotters',
+            `Should create and seed the new table, got ${seeded.rows.map((row) => row.name).join(',')}`
+          );
+
+          throw rollback;
+        });
+      } catch (error) {
+        if (error !== rollback) throw error;
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test prompt templates
+   */
+  private async testPrompts(): Promise<void> {
+    console.log('💬 Testing prompts\n');
+
+    // Test 1: Every prompt renders with its required arguments
+    await this.runTest('prompts: Render with required arguments', async () => {
+      const args: Record<string, string> = {
+        airline_a: 'UA',
+        airline_b: 'DL',
+        airline_codes: 'UA,DL',
+        airline_code: 'LH',
+      };
+
+      for (const prompt of mcpPrompts) {
+        const result = getPrompt(prompt.name, args);
+        const message = result.messages[0];
+        this.assert(message?.content.type === 'text', `${prompt.name} should return a text message`);
+      }
+    });
+
+    // Test 2: Year range becomes search filters
+    await this.runTest('prompts: Year range filters', async () => {
+      const result = getPrompt('compare_airline_fleets', {
+        airline_a: 'UA',
+        airline_b: 'DL',
+        from_year: '2010',
+        to_year: '2020',
+      });
+      const content = result.messages[0]?.content;
+      const text = content?.type === 'text' ? content.text : '';
+      this.assert(text.includes('"min_year": 2010, "max_year": 2020'), 'Should pass years to search_aircraft');
+    });
+
+    // Test 3: Missing and invalid arguments
+    await this.runTest('prompts: Invalid arguments', async () => {
+      const rejects = (name: string, args: Record<string, string>) => {
+        try {
+          getPrompt(name, args);
+          return false;
+        } catch {
+          return true;
+        }
+      };
+
+      this.assert(rejects('compare_airline_fleets', { airline_a: 'UA' }), 'Should require airline_b');
+      this.assert(rejects('lessor_exposure', { airline_codes: 'UA,INVALID' }), 'Should reject invalid codes');
+      this.assert(
+        rejects('fleet_modernization_assessment', { airline_code: 'LH', from_year: '2020', to_year: '2010' }),
+        'Should reject an inverted year range'
+      );
+      this.assert(rejects('unknown_prompt', {}), 'Should reject unknown prompts');
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test audit log attribution
+   */
+  private async testAuditLog(): Promise<void> {
+    console.log('🧾 Testing audit log\n');
+
+    // Test 1: Entries record the full path through the mounted routers
+    await this.runTest('audit-log: REST requests', async () => {
+      const admin = await createAPIKey('test-audit-admin', {
+        permissions: { read: true, write: false, admin: true },
+      });
+      let createdId: string | undefined;
+
+      try {
+        await this.withApi(async (baseUrl) => {
+          const headers = { 'X-API-Key': admin.apiKey, 'Content-Type': 'application/json' };
+
+          await fetch(`${baseUrl}/api/v1/airlines/ua/fleet?limit=1`, { headers });
+          await fetch(`${baseUrl}/api/v1/airlines/status`, { headers });
+          const created = await fetch(`${baseUrl}/api/v1/admin/keys`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ key_name: 'test-audit-created' }),
+          });
+          createdId = ((await created.json()) as { id: string }).id;
+        });
+
+        // The middleware writes after the response is sent
+        let rows: Array<Record<string, any>> = [];
+        for (let attempt = 0; attempt < 20 && rows.length < 3; attempt++) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          rows = (
+            await queryPostgres(
+              `SELECT action, resource_type, resource_id, http_path FROM audit_log WHERE api_key_id = $1`,
+              [admin.id]
+            )
+          ).rows;
+        }
+        const byPath = (path: string) => rows.filter((row) => row.http_path === path);
+
+        const fleet = byPath('/api/v1/airlines/ua/fleet')[0];
+        this.assert(
+          fleet?.action === 'airline.fleet.read' && fleet.resource_type === 'airline' && fleet.resource_id === 'UA',
+          `Should attribute the fleet read to the airline, got ${JSON.stringify(fleet)}`
+        );
+
+        const status = byPath('/api/v1/airlines/status')[0];
+        this.assert(status?.action === 'airline.read' && status.resource_id === null, 'Should not read route names as airline codes');
+
+        const create = byPath('/api/v1/admin/keys');
+        this.assert(
+          create.length === 1 && create[0]?.action === 'api_key.create' && create[0].resource_id === createdId,
+          `Should write a single api_key.create entry, got ${JSON.stringify(create)}`
+        );
+      } finally {
+        // Audit entries reference the keys, so revoke rather than delete them
+        await revokeAPIKey(admin.id, 'mcp-test');
+        if (createdId) {
+          await revokeAPIKey(createdId, 'mcp-test');
+        }
+      }
+    });
+
+    // Test 2: Write-scope MCP tool calls
+    await this.runTest('audit-log: MCP tool calls', async () => {
+      const key: APIKeyRecord = {
+        id: null,
+        name: 'test-key',
+        permissions: { read: true, write: true, admin: false },
+        rateLimitTier: 'standard',
+        requestsPerHour: null,
+      };
+      const origin = { ipAddress: '127.0.0.1', sessionId: 'test-session' };
+      const ok = { content: [{ type: 'text', text: 'ok' }] };
+
+      const triggers = toolCallAuditEntries(key, 'trigger_fleet_update', { airline_codes: ['ua', 'DL'] }, ok, origin);
+      this.assert(
+        triggers.map((entry) => entry.resourceId).join(',') === 'UA,DL' &&
+          triggers.every((entry) => entry.action === 'scraping_job.create' && entry.details?.['tool'] === 'trigger_fleet_update'),
+        'Should record one scraping_job.create entry per airline'
+      );
+
+      const cancel = toolCallAuditEntries(key, 'cancel_scrape_job', { job_id: 'job_UA_1' }, { ...ok, isError: true }, origin);
+      this.assert(
+        cancel[0]?.action === 'scraping_job.cancel' && cancel[0].resourceId === 'job_UA_1' && !cancel[0].success,
+        'Should record failed cancellations against the job'
+      );
+
+      this.assert(
+        toolCallAuditEntries(key, 'get_airline_fleet', { airline_code: 'UA' }, ok, origin).length === 0,
+        'Should leave read-only tools to the request log'
+      );
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test permission scopes on REST routes
+   */
+  private async testApiScopes(): Promise<void> {
+    console.log('🔐 Testing API scopes\n');
+
+    // Test 1: Read routes need the read scope
+    await this.runTest('api-scopes: Read routes', async () => {
+      const writeOnly = await createAPIKey('test-write-only', {
+        permissions: { read: false, write: true, admin: false },
+      });
+      const readOnly = await createAPIKey('test-read-only');
+
+      try {
+        await this.withApi(async (baseUrl) => {
+          const get = (path: string, apiKey: string) => fetch(`${baseUrl}${path}`, { headers: { 'X-API-Key': apiKey } });
+
+          for (const path of ['/api/v1/airlines', '/api/v1/aircraft/N12345', '/api/v1/stats/global', '/api/v1/graph/stats']) {
+            const denied = await get(path, writeOnly.apiKey);
+            this.assert(denied.status === 403, `Should refuse ${path} without read scope, got ${denied.status}`);
+          }
+
+          const allowed = await get('/api/v1/airlines', readOnly.apiKey);
+          this.assert(allowed.status === 200, `Should allow reads with read scope, got ${allowed.status}`);
+
+          const usage = await get('/api/v1/me/usage', writeOnly.apiKey);
+          this.assert(usage.status === 200, 'Should let any key read its own usage');
+        });
+      } finally {
+        // Audit entries reference the keys, so revoke rather than delete them
+        await revokeAPIKey(writeOnly.id, 'mcp-test');
+        await revokeAPIKey(readOnly.id, 'mcp-test');
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test API key administration
+   */
+  private async testApiKeys(): Promise<void> {
+    console.log('🔑 Testing API keys\n');
+
+    // Test 1: Scope checks
+    await this.runTest('api-keys: Scopes', async () => {
+      const key = (permissions: APIKeyRecord['permissions']): APIKeyRecord => ({
+        id: null,
+        name: 'test',
+        permissions,
+        rateLimitTier: 'standard',
+        requestsPerHour: null,
+      });
+
+      const reader = key({ read: true, write: false, admin: false });
+      this.assert(hasScope(reader, 'read') && !hasScope(reader, 'write'), 'Should grant only the listed scopes');
+      this.assert(!hasScope(reader, 'admin'), 'Should not grant admin');
+
+      const admin = key({ read: false, write: false, admin: true });
+      this.assert(
+        hasScope(admin, 'read') && hasScope(admin, 'write') && hasScope(admin, 'admin'),
+        'Should let admin keys satisfy every scope'
+      );
+    });
+
+    // Test 2: Create, rotate and revoke through the admin API
+    await this.runTest('api-keys: Create, rotate and revoke', async () => {
+      const admin = await createAPIKey('test-admin', { permissions: { read: true, write: true, admin: true } });
+      let createdId: string | null = null;
+
+      try {
+        await this.withApi(async (baseUrl) => {
+          const call = (path: string, apiKey: string, method = 'GET', body?: unknown) =>
+            fetch(`${baseUrl}/api/v1${path}`, {
+              method,
+              headers: { 'X-API-Key': apiKey, 'Content-Type': 'application/json' },
+              body: body !== undefined ? JSON.stringify(body) : undefined,
+            });
+
+          const created = await call('/admin/keys', admin.apiKey, 'POST', { key_name: 'test-managed-key' });
+          this.assert(created.status === 201, `Should create a key, got ${created.status}`);
+          const { id, api_key: secret } = (await created.json()) as { id: string; api_key: string };
+          createdId = id;
+
+          this.assert((await call('/me/usage', secret)).status === 200, 'Should authenticate with the new key');
+          this.assert((await call('/admin/keys', secret)).status === 403, 'Should default new keys to read only');
+
+          const listed = (await (await call('/admin/keys', admin.apiKey)).json()) as { keys: any[] };
+          const listing = listed.keys.find((row) => row.id === id);
+          this.assert(
+            listing?.masked_key === `${secret.substring(0, 8)}********` && !JSON.stringify(listing).includes(secret),
+            'Should list keys by prefix only'
+          );
+
+          const rotated = await call(`/admin/keys/${id}/rotate`, admin.apiKey, 'POST');
+          const { api_key: rotatedSecret } = (await rotated.json()) as { api_key: string };
+          this.assert(rotatedSecret !== secret, 'Should issue a new secret');
+          this.assert((await call('/me/usage', secret)).status === 401, 'Should reject the old secret after rotation');
+          this.assert((await call('/me/usage', rotatedSecret)).status === 200, 'Should accept the rotated secret');
+
+          const revoked = await call(`/admin/keys/${id}/revoke`, admin.apiKey, 'POST', { reason: 'test' });
+          this.assert(revoked.status === 200, `Should revoke the key, got ${revoked.status}`);
+          this.assert((await call('/me/usage', rotatedSecret)).status === 401, 'Should reject revoked keys');
+
+          const again = await call(`/admin/keys/${id}/revoke`, admin.apiKey, 'POST', {});
+          this.assert(again.status === 404, 'Should not revoke a key twice');
+        });
+      } finally {
+        await revokeAPIKey(admin.id, 'mcp-test');
+        if (createdId) {
+          await revokeAPIKey(createdId, 'mcp-test');
+        }
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test per-key hourly quotas
+   */
+  private async testQuotas(): Promise<void> {
+    console.log('⏱️  Testing hourly quotas\n');
+
+    // Test 1: Limits by tier and per-key override
+    await this.runTest('quotas: Hourly limits', async () => {
+      const key = (rateLimitTier: string, requestsPerHour: number | null): APIKeyRecord => ({
+        id: null,
+        name: 'test',
+        permissions: { read: true, write: false, admin: false },
+        rateLimitTier,
+        requestsPerHour,
+      });
+
+      this.assert(resolveHourlyLimit(key('free', null)) === 100, 'Should use the tier limit');
+      this.assert(resolveHourlyLimit(key('free', 5)) === 5, 'Should prefer the per-key limit');
+      this.assert(resolveHourlyLimit(key('unlimited', 5)) === null, 'Should not limit unlimited keys');
+      this.assert(resolveHourlyLimit(key('unknown', null)) === 1000, 'Should fall back to the standard tier');
+    });
+
+    // Test 2: Exhausting the quota, then a new window
+    await this.runTest('quotas: 429 and window rollover', async () => {
+      const limited = await createAPIKey('test-quota', { requestsPerHour: 2 });
+      const realNow = Date.now;
+
+      try {
+        await this.withApi(async (baseUrl) => {
+          const usage = () => fetch(`${baseUrl}/api/v1/me/usage`, { headers: { 'X-API-Key': limited.apiKey } });
+
+          const first = await usage();
+          this.assert(first.headers.get('x-ratelimit-remaining') === '1', 'Should count the first request');
+          this.assert((await usage()).status === 200, 'Should allow requests up to the limit');
+
+          const refused = await usage();
+          const retryAfter = Number(refused.headers.get('retry-after'));
+          this.assert(refused.status === 429, `Should refuse requests over the limit, got ${refused.status}`);
+          this.assert(retryAfter >= 1 && retryAfter <= 3600, `Should send Retry-After until the window ends, got ${retryAfter}`);
+
+          // Move into the next clock hour
+          Date.now = () => realNow() + 60 * 60 * 1000;
+          const next = await usage();
+          this.assert(next.status === 200, `Should reset the quota in a new window, got ${next.status}`);
+          const body = (await next.json()) as { quota: { used: number } };
+          this.assert(body.quota.used === 1, `Should start the new window at 1, got ${body.quota.used}`);
+        });
+      } finally {
+        Date.now = realNow;
+        await revokeAPIKey(limited.id, 'mcp-test');
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test the migration runner on a throwaway migrations directory
+   */
+  private async testMigrator(): Promise<void> {
+    console.log('🗄️  Testing migrator\n');
+
+    // Test 1: Apply, detect edits, roll back
+    await this.runTest('migrator: Apply, checksum mismatch and down', async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), 'migrations-'));
+      const upPath = path.join(dir, '900_test_migrator.sql');
+      const tableExists = async () =>
+        (await queryPostgres(`SELECT to_regclass('test_migrator') IS NOT NULL as exists`)).rows[0].exists;
+
+      try {
+        await writeFile(upPath, 'CREATE TABLE test_migrator (id SERIAL PRIMARY KEY);\n');
+        await writeFile(path.join(dir, '900_test_migrator.down.sql'), 'DROP TABLE test_migrator;\n');
+
+        const applied = await migrateUp(dir);
+        this.assert(applied.join(',') === '900', `Should apply the pending migration, got ${applied.join(',')}`);
+        this.assert(await tableExists(), 'Should run the migration SQL');
+        this.assert((await migrateUp(dir)).length === 0, 'Should not re-apply applied migrations');
+
+        await writeFile(upPath, 'CREATE TABLE test_migrator (id BIGSERIAL PRIMARY KEY);\n');
+        const status = (await getMigrationStatus(dir)).find((migration) => migration.version === '900');
+        this.assert(status?.state === 'modified', `Should flag the edited migration, got ${status?.state}`);
+
+        let refused = false;
+        try {
+          await migrateUp(dir);
+        } catch (error) {
+          refused = error instanceof Error && error.message.includes('900_test_migrator');
+        }
+        this.assert(refused, 'Should refuse to migrate with an edited migration');
+
+        const rolledBack = await migrateDown(1, dir);
+        this.assert(rolledBack.join(',') === '900', `Should roll back the migration, got ${rolledBack.join(',')}`);
+        this.assert(!(await tableExists()), 'Should run the down migration SQL');
+
+        // A failing migration leaves nothing behind
+        await writeFile(upPath, 'CREATE TABLE test_migrator (id SERIAL PRIMARY KEY);\nSELECT missing_column FROM test_migrator;\n');
+        let failed = false;
+        try {
+          await migrateUp(dir);
+        } catch {
+          failed = true;
+        }
+        this.assert(failed && !(await tableExists()), 'Should roll back a failing migration');
+        this.assert(
+          (await getMigrationStatus(dir)).find((migration) => migration.version === '900')?.state === 'pending',
+          'Should not record a failing migration'
+        );
+      } finally {
+        await queryPostgres(`DROP TABLE IF EXISTS test_migrator`);
+        await queryPostgres(`DELETE FROM schema_migrations WHERE version = '900'`);
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test fleet change detection in the workflow's database phase
+   */
+  private async testFleetChanges(): Promise<void> {
+    console.log('🔄 Testing fleet changes\n');
+
+    // Test 1: Additions, transfers, configuration changes and retirements
+    await this.runTest('fleet-changes: Recorded by updateDatabase', async () => {
+      const types = await queryPostgres<{ id: number }>(
+        `INSERT INTO aircraft_types (manufacturer, model, full_name)
+         VALUES ('Fleet Test Aero', 'FT100', 'Fleet Test 100'), ('Fleet Test Aero', 'FT200', 'Fleet Test 200')
+         RETURNING id`
+      );
+      const airlines = await queryPostgres<{ id: number }>(
+        `INSERT INTO airlines (iata_code, icao_code, name)
+         VALUES ('Q7', 'ZQA', 'Fleet Test A'), ('Q8', 'ZQB', 'Fleet Test B')
+         RETURNING id`
+      );
+      const [type100, type200] = types.rows.map((row) => row.id);
+      const [airlineA, airlineB] = airlines.rows.map((row) => row.id);
+
+      const aircraft = (registration: string, aircraftType: string): AircraftDetails => ({
+        registration,
+        aircraft_type: aircraftType,
+        manufacturer: 'Fleet Test Aero',
+        model: aircraftType.replace('Fleet Test ', 'FT'),
+        msn: null,
+        seat_configuration: {},
+        delivery_date: null,
+        age_years: null,
+        status: 'Active',
+        current_location: null,
+        last_flight_date: null,
+        engines: null,
+        confidence_score: 0.9,
+        data_sources: ['https://fleet.example/ZQA'],
+        extracted_at: new Date(),
+      });
+      const valid: ValidationResult = {
+        is_valid: true,
+        confidence_score: 0.9,
+        issues: [],
+        recommended_values: {},
+        validation_summary: 'ok',
+        validated_at: new Date(),
+      };
+
+      try {
+        await queryPostgres(
+          `INSERT INTO aircraft (airline_id, aircraft_type_id, registration, aircraft_type, status)
+           SELECT r.airline_id, $1, r.registration, 'Fleet Test 100', 'active'
+           FROM UNNEST($2::INTEGER[], $3::TEXT[]) AS r(airline_id, registration)`,
+          [type100, [airlineB, airlineA, airlineA, airlineA], ['ZQ-FC1', 'ZQ-FC2', 'ZQ-FC3', 'ZQ-FC4']]
+        );
+
+        const workflow = new AirlineScraperWorkflow();
+        const discovered = ['ZQ-FC1', 'ZQ-FC2', 'ZQ-FC3', 'ZQ-FC5'];
+        const result = await workflow['updateDatabase'](
+          'ZQA',
+          [
+            { aircraft: aircraft('ZQ-FC1', 'Fleet Test 100'), validation: valid },
+            { aircraft: aircraft('ZQ-FC2', 'Fleet Test 200'), validation: valid },
+            { aircraft: aircraft('ZQ-FC3', 'Fleet Test 100'), validation: valid },
+            { aircraft: aircraft('ZQ-FC5', 'Fleet Test 100'), validation: valid },
+          ],
+          discovered
+        );
+        this.assert(
+          result.added === 1 && result.updated === 3 && result.removed === 1 && result.fleetChanges === 4,
+          `Should add, update and retire, got ${JSON.stringify({ ...result, details: undefined })}`
+        );
+
+        const changes = await queryPostgres(
+          `SELECT registration, change_type, previous_airline_id, next_airline_id, details
+           FROM fleet_changes WHERE airline_id = $1 ORDER BY registration`,
+          [airlineA]
+        );
+        const byRegistration = new Map(changes.rows.map((row) => [row.registration, row]));
+
+        this.assert(byRegistration.get('ZQ-FC5')?.change_type === 'addition', 'Should record the new registration');
+        const transfer = byRegistration.get('ZQ-FC1');
+        this.assert(
+          transfer?.change_type === 'transfer' && transfer.previous_airline_id === airlineB && transfer.next_airline_id === airlineA,
+          'Should record the transfer between airlines'
+        );
+        const reconfigured = byRegistration.get('ZQ-FC2');
+        this.assert(
+          reconfigured?.change_type === 'configuration_change' &&
+            reconfigured.details?.previous?.aircraft_type === 'Fleet Test 100' &&
+            reconfigured.details?.current?.aircraft_type === 'Fleet Test 200',
+          'Should record the type change with before and after values'
+        );
+        this.assert(!byRegistration.has('ZQ-FC3'), 'Should not record unchanged aircraft');
+        this.assert(byRegistration.get('ZQ-FC4')?.change_type === 'retirement', 'Should retire undiscovered aircraft');
+
+        const statuses = await queryPostgres(
+          `SELECT registration, status FROM aircraft WHERE registration IN ('ZQ-FC4', 'ZQ-FC5') ORDER BY registration`
+        );
+        this.assert(
+          statuses.rows.map((row) => row.status).join(',') === 'retired,active',
+          `Should write lower-case statuses, got ${statuses.rows.map((row) => row.status).join(',')}`
+        );
+
+        // Test 2: A partial discovery does not retire the rest of the fleet
+        const partial = await workflow['updateDatabase']('ZQA', [], ['ZQ-FC1']);
+        this.assert(partial.removed === 0, `Should skip retirements below the coverage threshold, got ${partial.removed}`);
+      } finally {
+        await queryPostgres(`DELETE FROM fleet_changes WHERE airline_id = ANY($1) OR previous_airline_id = ANY($1)`, [[airlineA, airlineB]]);
+        await queryPostgres(`DELETE FROM airlines WHERE id = ANY($1)`, [[airlineA, airlineB]]);
+        await queryPostgres(`DELETE FROM aircraft_types WHERE id = ANY($1)`, [[type100, type200]]);
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test that an airline-scoped graph sync only reads that airline's rows
+   */
+  private async testGraphSyncScope(): Promise<void> {
+    console.log('🕸️  Testing graph sync scope\n');
+
+    // Test 1: Nodes and relationships are limited to the airline
+    await this.runTest('graph-sync: Scoped to one airline', async () => {
+      const types = await queryPostgres<{ id: number }>(
+        `INSERT INTO aircraft_types (manufacturer, model, full_name)
+         VALUES ('Graph Scope Aero', 'GS100', 'Graph Scope 100'), ('Graph Scope Other', 'GS200', 'Graph Scope 200')
+         RETURNING id`
+      );
+      const airlines = await queryPostgres<{ id: number }>(
+        `INSERT INTO airlines (iata_code, icao_code, name, alliance)
+         VALUES ('Q5', 'ZGA', 'Graph Scope A', 'Graph Scope Alliance'), ('Q6', 'ZGB', 'Graph Scope B', 'Graph Scope Other Alliance')
+         RETURNING id`
+      );
+      const [typeA, typeB] = types.rows.map((row) => row.id);
+      const [airlineA, airlineB] = airlines.rows.map((row) => row.id);
+
+      try {
+        await queryPostgres(
+          `INSERT INTO aircraft (airline_id, aircraft_type_id, registration, aircraft_type, manufacturer, status)
+           VALUES ($1, $3, 'ZG-SA1', 'Graph Scope 100', 'Graph Scope Aero', 'active'),
+                  ($1, $3, 'ZG-SA2', 'Graph Scope 100', 'Graph Scope Aero', 'active'),
+                  ($2, $4, 'ZG-SB1', 'Graph Scope 200', 'Graph Scope Other', 'active')`,
+          [airlineA, airlineB, typeA, typeB]
+        );
+
+        // Dry run exercises the same scoped queries without needing Neo4j
+        const sync = await new Neo4jSyncService().syncAll({
+          airlineId: airlineA,
+          entities: ['airlines', 'aircraft_types', 'aircraft', 'manufacturers', 'alliances'],
+          dryRun: true,
+        });
+
+        this.assert(sync.errors.length === 0, `Should sync without errors: ${sync.errors.join('; ')}`);
+        const expectedNodes = { airlines: 1, aircraft_types: 1, aircraft: 2, manufacturers: 1, alliances: 1 };
+        for (const [entity, count] of Object.entries(expectedNodes)) {
+          this.assert(
+            sync.entitiesProcessed[entity] === count,
+            `Should sync ${count} ${entity}, got ${sync.entitiesProcessed[entity]}`
+          );
+        }
+        const expectedRelationships = { operates: 2, is_type: 2, manufactured_by: 2, member_of: 1 };
+        for (const [relationship, count] of Object.entries(expectedRelationships)) {
+          this.assert(
+            sync.relationshipsCreated[relationship] === count,
+            `Should create ${count} ${relationship} relationships, got ${sync.relationshipsCreated[relationship]}`
+          );
+        }
+      } finally {
+        await queryPostgres(`DELETE FROM airlines WHERE id = ANY($1)`, [[airlineA, airlineB]]);
+        await queryPostgres(`DELETE FROM aircraft_types WHERE id = ANY($1)`, [[typeA, typeB]]);
+      }
+    });
+
+    console.log();
+  }
+
+  /**
+   * Test MCP resources
+   */
+  private async testResources(): Promise<void> {
+    console.log('📎 Testing MCP resources\n');
+
+    // Test 1: URIs map onto the templates
+    await this.runTest('resources: Parse URIs', async () => {
+      const fleet = parseResourceUri('aircraft://airline/ua/fleet');
+      this.assert(fleet?.kind === 'fleet' && fleet.code === 'UA', 'Should parse a fleet URI with an upper-case code');
+
+      const aircraft = parseResourceUri('aircraft://aircraft/n12345');
+      this.assert(
+        aircraft?.kind === 'aircraft' && aircraft.registration === 'N12345',
+        'Should parse an aircraft URI with an upper-case registration'
+      );
+
+      const type = parseResourceUri('aircraft://type/737%20MAX%208');
+      this.assert(type?.kind === 'type' && type.model === '737 MAX 8', 'Should decode the type model');
+
+      for (const uri of ['aircraft://airline/UA', 'aircraft://airline/UA/fleet/extra', 'fleet://UA', '']) {
+        this.assert(parseResourceUri(uri) === null, `Should reject ${uri || 'an empty URI'}`);
+      }
+    });
+
+    const airline = await queryPostgres<{ id: number }>(
+      `INSERT INTO airlines (iata_code, icao_code, name) VALUES ('Q4', 'ZRA', 'Resource Test') RETURNING id`
+    );
+    const airlineId = airline.rows[0]!.id;
+
+    try {
+      await queryPostgres(
+        `INSERT INTO aircraft (airline_id, registration, aircraft_type, manufacturer, status)
+         VALUES ($1, 'ZR-RS1', 'Resource Test 100', 'Resource Test Aero', 'active')`,
+        [airlineId]
+      );
+
+      // Test 2: Reading a resource through an MCP client
+      await this.runTest('resources: Read a fleet resource', async () => {
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const server = createMCPServer();
+        const client = new Client({ name: 'mcp-test', version: '1.0.0' });
+        await server.connect(serverTransport);
+        await client.connect(clientTransport);
+
+        try {
+          const uri = 'aircraft://airline/zra/fleet';
+          const result = await client.readResource({ uri });
+          const content = result.contents[0];
+          this.assert(content?.uri === uri, 'Should echo the requested URI');
+          this.assert(content?.mimeType === 'text/markdown', 'Should be markdown');
+          this.assert(
+            content !== undefined && 'text' in content && content.text.includes('ZR-RS1'),
+            'Fleet resource should list the airline aircraft'
+          );
+
+          let rejected = false;
+          try {
+            await client.readResource({ uri: 'aircraft://unknown/thing' });
+          } catch {
+            rejected = true;
+          }
+          this.assert(rejected, 'Should reject an unknown resource');
+        } finally {
+          await client.close();
+        }
+      });
+
+      // Test 3: A fleet update only touches that airline's subscriptions
+      await this.runTest('resources: URIs affected by a fleet update', async () => {
+        const subscriptions = new Set([
+          'aircraft://airline/Q4/fleet',
+          'aircraft://airline/zra/fleet',
+          'aircraft://airline/UA/fleet',
+          'aircraft://aircraft/zr-rs1',
+          'aircraft://aircraft/ZR-NONE',
+          'aircraft://type/Resource%20Test%20100',
+        ]);
+
+        const updated = await getUpdatedUris({ airline_code: 'ZRA' }, subscriptions);
+        this.assert(
+          updated.sort().join(',') ===
+            ['aircraft://aircraft/zr-rs1', 'aircraft://airline/Q4/fleet', 'aircraft://airline/zra/fleet'].join(','),
+          `Unexpected URIs: ${updated.join(', ')}`
+        );
+
+        const unknown = await getUpdatedUris({ airline_code: 'ZZZ' }, subscriptions);
+        this.assert(unknown.length === 0, 'An unknown airline should affect nothing');
+      });
+    } finally {
+      await queryPostgres(`DELETE FROM airlines WHERE id = $1`, [airlineId]);
+    }
+
+    // Test 4: Publishing an update drops cached fleet snapshots without any subscriber
+    await this.runTest('resources: Fleet update clears the fleet cache', async () => {
+      globalCache.set('airline_fleet:mcp-test', { stale: true });
+      globalCache.set('aircraft_type_specs:mcp-test', { kept: true });
+
+      await new AirlineScraperWorkflow()['publishFleetUpdate']('UA');
+
+      this.assert(globalCache.get('airline_fleet:mcp-test') === null, 'Fleet snapshots should be dropped');
+      this.assert(globalCache.get('aircraft_type_specs:mcp-test') !== null, 'Other entries should be kept');
+      globalCache.delete('aircraft_type_specs:mcp-test');
+    });
+
+    console.log();
+  }
+
   /**
    * Run integration tests
    */
@@ -428,19 +1982,16 @@ class TestSuite {
     await this.runTest('Integration: Update trigger workflow', async () => {
       // Step 1: Trigger update
       const trigger = await handleTriggerFleetUpdate({
-        airline_code: 'TS',
+        airline_codes: ['TS'],
         priority: 'low',
       });
       this.assert(!trigger.isError, 'Should trigger update successfully');
 
       // Step 2: Check if job was created
-      const jobQuery = `
-        SELECT id FROM scraping_jobs
-        WHERE airline_id = (SELECT id FROM airlines WHERE iata_code = 'TS')
-        ORDER BY created_at DESC
-        LIMIT 1
-      `;
-      const result = await queryPostgres(jobQuery);
+      const jobId = trigger.content[0]?.text.match(/job_TS_\d+/)?.[0];
+      this.assert(jobId, 'Should report the job id');
+
+      const result = await queryPostgres(`SELECT id FROM scrape_jobs WHERE job_id = $1`, [jobId]);
       this.assert(result.rows.length > 0, 'Job should be created in database');
     });
 
@@ -559,6 +2110,20 @@ class TestSuite {
     console.log();
   }
 
+  /**
+   * Serve the REST API on a free port for the duration of `fn`
+   */
+  private async withApi(fn: (baseUrl: string) => Promise<void>): Promise<void> {
+    const server = new APIServer().getApp().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    try {
+      await fn(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
   /**
    * Run a single test
    */
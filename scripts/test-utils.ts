@@ -240,7 +240,7 @@ export class DatabaseTestHelper {
    * Get pending job count
    */
   static async getPendingJobCount(): Promise<number> {
-    const query = `SELECT COUNT(*) as count FROM scraping_jobs WHERE status = 'pending'`;
+    const query = `SELECT COUNT(*) as count FROM scrape_jobs WHERE status = 'pending'`;
     const result = await queryPostgres(query);
     return parseInt(result.rows[0].count) || 0;
   }
@@ -251,7 +251,7 @@ export class DatabaseTestHelper {
   static async getLatestJob(airlineCode: string): Promise<any | null> {
     const query = `
       SELECT sj.*
-      FROM scraping_jobs sj
+      FROM scrape_jobs sj
       JOIN airlines al ON sj.airline_id = al.id
       WHERE UPPER(al.iata_code) = UPPER($1) OR UPPER(al.icao_code) = UPPER($1)
       ORDER BY sj.created_at DESC
@@ -266,7 +266,7 @@ export class DatabaseTestHelper {
    */
   static async clearTestJobs(): Promise<void> {
     const query = `
-      DELETE FROM scraping_jobs
+      DELETE FROM scrape_jobs
       WHERE airline_id IN (
         SELECT id FROM airlines WHERE iata_code LIKE 'T%'
       )
@@ -42,6 +42,11 @@ export function auditLoggerMiddleware(
   const originalJson = res.json.bind(res);
 
   res.json = function (body: any) {
+    // Routes that write their own entry (e.g. api_key.*) mark the response
+    if (res.locals['auditLogged']) {
+      return originalJson(body);
+    }
+
     // Log after response is sent
     setImmediate(async () => {
       try {
@@ -62,6 +67,50 @@ export function auditLoggerMiddleware(
   next();
 }
 
+/**
+ * Insert an entry into audit_log (used by the middleware and for explicit events like api_key.create)
+ */
+export async function writeAuditLog(entry: AuditLogEntry): Promise<void> {
+  try {
+    await queryPostgres(
+      `
+      INSERT INTO audit_log (
+        user_id,
+        api_key_id,
+        ip_address,
+        user_agent,
+        action,
+        resource_type,
+        resource_id,
+        details,
+        http_method,
+        http_path,
+        http_status,
+        success,
+        error_message
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      `,
+      [
+        entry.userId || null,
+        entry.apiKeyId || null,
+        entry.ipAddress,
+        entry.userAgent || null,
+        entry.action,
+        entry.resourceType || null,
+        entry.resourceId || null,
+        entry.details ? JSON.stringify(entry.details) : null,
+        entry.httpMethod,
+        entry.httpPath,
+        entry.httpStatus,
+        entry.success,
+        entry.errorMessage || null,
+      ]
+    );
+  } catch (error) {
+    logger.error('Failed to write audit log entry:', error);
+  }
+}
+
 /**
  * Log audit entry to database
  */
@@ -77,32 +126,28 @@ async function logAuditEntry(params: {
   const authReq = req as AuthRequest;
   let apiKeyId: string | null = null;
 
-  if (authReq.apiKey) {
-    // Look up API key ID
+  if (authReq.apiKeyRecord?.id) {
+    apiKeyId = authReq.apiKeyRecord.id;
+
+    // Update last_used_at
     try {
-      const result = await queryPostgres(
-        `SELECT id FROM api_keys WHERE key_hash = crypt($1, key_hash) LIMIT 1`,
-        [authReq.apiKey]
+      await queryPostgres(
+        `UPDATE api_keys SET last_used_at = NOW() WHERE id = $1`,
+        [apiKeyId]
       );
-      if (result.rows.length > 0) {
-        apiKeyId = result.rows[0].id;
-
-        // Update last_used_at
-        await queryPostgres(
-          `UPDATE api_keys SET last_used_at = NOW() WHERE id = $1`,
-          [apiKeyId]
-        );
-      }
     } catch (error) {
-      logger.error('Failed to look up API key:', error);
+      logger.error('Failed to update API key usage:', error);
     }
   }
 
+  // Routers see req.path relative to their mount point, so use the full path
+  const path = getRequestPath(req);
+
   // Determine action from route
-  const action = determineAction(req);
+  const action = determineAction(req.method, path);
 
   // Extract resource info from path
-  const { resourceType, resourceId } = extractResourceInfo(req);
+  const { resourceType, resourceId } = extractResourceInfo(path);
 
   // Get client IP
   const ipAddress = getClientIP(req);
@@ -122,60 +167,52 @@ async function logAuditEntry(params: {
     details['request_body'] = sanitizeRequestBody(req.body);
   }
 
-  // Insert audit log entry
-  try {
-    await queryPostgres(
-      `
-      INSERT INTO api_audit_log (
-        user_id,
-        api_key_id,
-        ip_address,
-        user_agent,
-        action,
-        resource_type,
-        resource_id,
-        details,
-        http_method,
-        http_path,
-        http_status,
-        success,
-        error_message
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
-      `,
-      [
-        authReq.userId || null,
-        apiKeyId,
-        ipAddress,
-        req.get('user-agent') || null,
-        action,
-        resourceType,
-        resourceId,
-        JSON.stringify(details),
-        req.method,
-        req.path,
-        res.statusCode,
-        success,
-        errorMessage,
-      ]
-    );
-  } catch (error) {
-    logger.error('Failed to insert audit log:', error);
-  }
+  await writeAuditLog({
+    userId: authReq.userId,
+    apiKeyId: apiKeyId || undefined,
+    ipAddress,
+    userAgent: req.get('user-agent'),
+    action,
+    resourceType,
+    resourceId,
+    details,
+    httpMethod: req.method,
+    httpPath: path,
+    httpStatus: res.statusCode,
+    success,
+    errorMessage: errorMessage || undefined,
+  });
 }
 
 /**
- * Determine action from request
+ * Full request path without the query string
  */
-function determineAction(req: Request): string {
-  const { method, path } = req;
+export function getRequestPath(req: Pick<Request, 'originalUrl'>): string {
+  return req.originalUrl.split('?')[0] || '/';
+}
 
+/**
+ * Determine action from request method and full path
+ */
+function determineAction(method: string, path: string): string {
   // API key management
-  if (path.includes('/api-keys')) {
+  if (path.includes('/admin/keys')) {
+    if (method === 'POST' && path.endsWith('/rotate')) return 'api_key.rotate';
+    if (method === 'POST' && path.endsWith('/revoke')) return 'api_key.revoke';
     if (method === 'POST') return 'api_key.create';
-    if (method === 'DELETE') return 'api_key.revoke';
     if (method === 'GET') return 'api_key.read';
   }
 
+  // Audit log queries
+  if (path.includes('/admin/audit')) {
+    return 'audit_log.read';
+  }
+
+  // Fleet update triggered through an airline
+  if (method === 'POST' && path.match(/\/trigger-update$/)) {
+    return 'scraping_job.create';
+  }
+
   // Airlines
   if (path.includes('/airlines')) {
     if (method === 'GET' && path.match(/\/fleet$/)) return 'airline.fleet.read';
@@ -210,18 +247,17 @@ function determineAction(req: Request): string {
 }
 
 /**
- * Extract resource type and ID from path
+ * Extract resource type and ID from the full request path
  */
-function extractResourceInfo(req: Request): {
+function extractResourceInfo(path: string): {
   resourceType?: string;
   resourceId?: string;
 } {
-  const { path } = req;
-
-  // Airlines
-  const airlineMatch = path.match(/\/airlines\/([A-Z0-9]+)/);
+  // Airlines (routes accept codes in any case; codes are 2-4 characters,
+  // which leaves out /airlines/status)
+  const airlineMatch = path.match(/\/airlines\/([A-Z0-9]{2,4})(?:\/|$)/i);
   if (airlineMatch) {
-    return { resourceType: 'airline', resourceId: airlineMatch[1] };
+    return { resourceType: 'airline', resourceId: airlineMatch[1]!.toUpperCase() };
   }
 
   // Aircraft
@@ -242,7 +278,7 @@ function extractResourceInfo(req: Request): {
 /**
  * Get client IP address
  */
-function getClientIP(req: Request): string {
+export function getClientIP(req: Request): string {
   // Check X-Forwarded-For header (set by proxies/load balancers)
   const forwarded = req.headers['x-forwarded-for'];
   if (forwarded) {
@@ -281,33 +317,70 @@ function sanitizeRequestBody(body: any): any {
   return sanitized;
 }
 
-/**
- * Get audit log entries (admin function)
- */
-export async function getAuditLogs(params: {
+export interface AuditLogQuery {
   limit?: number;
-  offset?: number;
-  action?: string;
+  cursor?: string;
+  action?: string; // exact match, or prefix match when ending in ".*"
   userId?: string;
   apiKeyId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  httpStatus?: number;
   startDate?: Date;
   endDate?: Date;
-}): Promise<any[]> {
+}
+
+/**
+ * Encode a keyset pagination cursor from the last entry of a page
+ * (hex, so it passes aggressiveValidation and needs no URL escaping)
+ */
+function encodeAuditCursor(entry: { cursor_timestamp: string; id: string }): string {
+  return Buffer.from(JSON.stringify({ t: entry.cursor_timestamp, id: entry.id })).toString('hex');
+}
+
+/**
+ * Decode a keyset pagination cursor (null if malformed)
+ */
+export function decodeAuditCursor(cursor: string): { t: string; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'hex').toString('utf-8'));
+    if (typeof decoded?.t === 'string' && typeof decoded?.id === 'string') {
+      return decoded;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get audit log entries (admin function)
+ *
+ * Newest first, paginated by an opaque cursor over (timestamp, id).
+ */
+export async function getAuditLogs(
+  params: AuditLogQuery
+): Promise<{ entries: any[]; nextCursor: string | null }> {
   const {
     limit = 100,
-    offset = 0,
+    cursor,
     action,
     userId,
     apiKeyId,
+    resourceType,
+    resourceId,
+    httpStatus,
     startDate,
     endDate,
   } = params;
 
+  // cursor_timestamp keeps full microsecond precision (JS Dates truncate to ms)
   let query = `
     SELECT
       al.*,
+      al.timestamp::text as cursor_timestamp,
       ak.key_name
-    FROM api_audit_log al
+    FROM audit_log al
     LEFT JOIN api_keys ak ON al.api_key_id = ak.id
     WHERE 1=1
   `;
@@ -315,9 +388,24 @@ export async function getAuditLogs(params: {
   const queryParams: any[] = [];
   let paramIndex = 1;
 
+  if (cursor) {
+    const decoded = decodeAuditCursor(cursor);
+    if (!decoded) {
+      throw new Error('Invalid cursor');
+    }
+    query += ` AND (al.timestamp, al.id) < ($${paramIndex}::timestamptz, $${paramIndex + 1}::uuid)`;
+    queryParams.push(decoded.t, decoded.id);
+    paramIndex += 2;
+  }
+
   if (action) {
-    query += ` AND al.action = $${paramIndex}`;
-    queryParams.push(action);
+    if (action.endsWith('.*')) {
+      query += ` AND al.action LIKE $${paramIndex}`;
+      queryParams.push(`${action.slice(0, -1)}%`);
+    } else {
+      query += ` AND al.action = $${paramIndex}`;
+      queryParams.push(action);
+    }
     paramIndex++;
   }
 
@@ -333,6 +421,24 @@ export async function getAuditLogs(params: {
     paramIndex++;
   }
 
+  if (resourceType) {
+    query += ` AND al.resource_type = $${paramIndex}`;
+    queryParams.push(resourceType);
+    paramIndex++;
+  }
+
+  if (resourceId) {
+    query += ` AND UPPER(al.resource_id) = UPPER($${paramIndex})`;
+    queryParams.push(resourceId);
+    paramIndex++;
+  }
+
+  if (httpStatus) {
+    query += ` AND al.http_status = $${paramIndex}`;
+    queryParams.push(httpStatus);
+    paramIndex++;
+  }
+
   if (startDate) {
     query += ` AND al.timestamp >= $${paramIndex}`;
     queryParams.push(startDate);
@@ -345,9 +451,16 @@ export async function getAuditLogs(params: {
     paramIndex++;
   }
 
-  query += ` ORDER BY al.timestamp DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
-  queryParams.push(limit, offset);
+  // Fetch one extra row to know whether another page exists
+  query += ` ORDER BY al.timestamp DESC, al.id DESC LIMIT $${paramIndex}`;
+  queryParams.push(limit + 1);
 
   const result = await queryPostgres(query, queryParams);
-  return result.rows;
+  const page = result.rows.slice(0, limit);
+  const lastEntry = page[page.length - 1];
+
+  return {
+    entries: page.map(({ cursor_timestamp, ...entry }) => entry),
+    nextCursor: result.rows.length > limit && lastEntry ? encodeAuditCursor(lastEntry) : null,
+  };
 }
@@ -11,8 +11,22 @@ import { queryPostgres } from '../../lib/db-clients.js';
 
 const logger = createLogger('auth-middleware');
 
+export type APIScope = 'read' | 'write' | 'admin';
+
+/**
+ * API key record resolved during authentication
+ */
+export interface APIKeyRecord {
+  id: string | null; // null for keys configured via API_KEYS env var
+  name: string;
+  permissions: Record<APIScope, boolean>;
+  rateLimitTier: string;
+  requestsPerHour: number | null;
+}
+
 export interface AuthRequest extends Request {
   apiKey?: string;
+  apiKeyRecord?: APIKeyRecord;
   userId?: string;
 }
 
@@ -41,9 +55,9 @@ export async function authMiddleware(
     }
 
     // Validate API key
-    const isValid = await validateAPIKey(apiKey as string);
+    const keyRecord = await validateAPIKey(apiKey as string);
 
-    if (!isValid) {
+    if (!keyRecord) {
       res.status(401).json({
         error: 'Unauthorized',
         message: 'Invalid API key',
@@ -51,8 +65,9 @@ export async function authMiddleware(
       return;
     }
 
-    // Attach API key to request
+    // Attach API key and its record to request
     (req as AuthRequest).apiKey = apiKey as string;
+    (req as AuthRequest).apiKeyRecord = keyRecord;
 
     next();
   } catch (error) {
@@ -65,21 +80,62 @@ export async function authMiddleware(
 }
 
 /**
- * Validate API key
+ * Whether an API key grants a scope. Admin keys satisfy every scope.
+ */
+export function hasScope(keyRecord: APIKeyRecord, scope: APIScope): boolean {
+  return keyRecord.permissions[scope] || keyRecord.permissions.admin;
+}
+
+/**
+ * Require a permission scope on the authenticated API key.
+ * Admin keys satisfy every scope.
  */
-async function validateAPIKey(apiKey: string): Promise<boolean> {
-  // In production, check against database table
-  // For now, check against environment variable
+export function requireScope(scope: APIScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const keyRecord = (req as AuthRequest).apiKeyRecord;
+
+    if (!keyRecord) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'API key required',
+      });
+      return;
+    }
+
+    if (!hasScope(keyRecord, scope)) {
+      logger.warn(`API key "${keyRecord.name}" lacks '${scope}' scope for ${req.method} ${req.originalUrl}`);
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `API key does not have '${scope}' permission`,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Validate API key and resolve its record
+ */
+async function validateAPIKey(apiKey: string): Promise<APIKeyRecord | null> {
+  // Keys from the environment are operator-managed and carry every scope
   const validKeys = (process.env['API_KEYS'] || '').split(',').map((k) => k.trim());
 
   if (validKeys.includes(apiKey)) {
-    return true;
+    return {
+      id: null,
+      name: 'env',
+      permissions: { read: true, write: true, admin: true },
+      rateLimitTier: 'unlimited',
+      requestsPerHour: null,
+    };
   }
 
   // Also check database (if api_keys table exists)
   try {
     const query = `
-      SELECT id, key_name, is_active
+      SELECT id, key_name, permissions, rate_limit_tier, requests_per_hour
       FROM api_keys
       WHERE key_hash = crypt($1, key_hash)
         AND is_active = true
@@ -88,36 +144,168 @@ async function validateAPIKey(apiKey: string): Promise<boolean> {
     `;
 
     const result = await queryPostgres(query, [apiKey]);
-    return result.rows.length > 0;
+    const row = result.rows[0];
+
+    if (!row) {
+      return null;
+    }
+
+    const permissions = row.permissions || {};
+
+    return {
+      id: row.id,
+      name: row.key_name,
+      permissions: {
+        read: permissions.read === true,
+        write: permissions.write === true,
+        admin: permissions.admin === true,
+      },
+      rateLimitTier: row.rate_limit_tier,
+      requestsPerHour: row.requests_per_hour,
+    };
   } catch (error) {
     // Table might not exist yet
-    return false;
+    return null;
   }
 }
 
+export interface CreateAPIKeyOptions {
+  description?: string;
+  permissions?: Record<APIScope, boolean>;
+  rateLimitTier?: string;
+  requestsPerHour?: number;
+  expiresAt?: Date;
+  createdBy?: string;
+}
+
+/**
+ * Length of the key prefix stored in clear text so keys can be identified in listings
+ */
+const KEY_PREFIX_LENGTH = 8;
+
+/**
+ * Generate a new random API key secret
+ */
+async function generateAPIKeySecret(): Promise<string> {
+  const crypto = await import('crypto');
+  return crypto.randomBytes(32).toString('hex');
+}
+
 /**
  * Create API key (admin function)
+ *
+ * The secret is only returned here; the database stores a bcrypt hash and a short prefix.
  */
 export async function createAPIKey(
   name: string,
-  expiresAt?: Date
-): Promise<string> {
-  const crypto = await import('crypto');
-  const apiKey = crypto.randomBytes(32).toString('hex');
+  options: CreateAPIKeyOptions = {}
+): Promise<{ id: string; apiKey: string }> {
+  const apiKey = await generateAPIKeySecret();
 
   try {
     const query = `
-      INSERT INTO api_keys (key_name, key_hash, expires_at)
-      VALUES ($1, crypt($2, gen_salt('bf')), $3)
+      INSERT INTO api_keys (
+        key_name, key_hash, key_prefix, description, created_by,
+        permissions, rate_limit_tier, requests_per_hour, expires_at
+      )
+      VALUES (
+        $1, crypt($2, gen_salt('bf')), $3, $4, $5,
+        COALESCE($6::jsonb, '{"read": true, "write": false, "admin": false}'::jsonb),
+        COALESCE($7, 'standard'), COALESCE($8, 1000), $9
+      )
       RETURNING id
     `;
 
-    await queryPostgres(query, [name, apiKey, expiresAt || null]);
+    const result = await queryPostgres(query, [
+      name,
+      apiKey,
+      apiKey.substring(0, KEY_PREFIX_LENGTH),
+      options.description || null,
+      options.createdBy || null,
+      options.permissions ? JSON.stringify(options.permissions) : null,
+      options.rateLimitTier || null,
+      options.requestsPerHour || null,
+      options.expiresAt || null,
+    ]);
 
     logger.info(`Created API key: ${name}`);
-    return apiKey;
+    return { id: result.rows[0].id, apiKey };
   } catch (error) {
     logger.error('Failed to create API key:', error);
     throw error;
   }
 }
+
+/**
+ * List API keys (admin function). Secrets are never returned, only their prefix.
+ */
+export async function listAPIKeys(includeRevoked: boolean = false): Promise<any[]> {
+  const query = `
+    SELECT id, key_name, key_prefix, description, created_by,
+           permissions, rate_limit_tier, requests_per_hour,
+           is_active, expires_at, last_used_at, created_at, updated_at,
+           revoked_at, revoked_by, revoked_reason
+    FROM api_keys
+    ${includeRevoked ? '' : 'WHERE revoked_at IS NULL'}
+    ORDER BY created_at DESC
+  `;
+
+  const result = await queryPostgres(query);
+
+  return result.rows.map(({ key_prefix, ...row }) => ({
+    ...row,
+    masked_key: key_prefix ? `${key_prefix}${'*'.repeat(8)}` : null,
+  }));
+}
+
+/**
+ * Rotate API key secret (admin function). Returns the new secret, or null if no active key matched.
+ */
+export async function rotateAPIKey(id: string): Promise<string | null> {
+  const apiKey = await generateAPIKeySecret();
+
+  const query = `
+    UPDATE api_keys
+    SET key_hash = crypt($2, gen_salt('bf')),
+        key_prefix = $3
+    WHERE id = $1 AND revoked_at IS NULL
+    RETURNING key_name
+  `;
+
+  const result = await queryPostgres(query, [id, apiKey, apiKey.substring(0, KEY_PREFIX_LENGTH)]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  logger.info(`Rotated API key: ${result.rows[0].key_name}`);
+  return apiKey;
+}
+
+/**
+ * Revoke API key (admin function). Returns false if no active key matched.
+ */
+export async function revokeAPIKey(
+  id: string,
+  revokedBy: string,
+  reason?: string
+): Promise<boolean> {
+  const query = `
+    UPDATE api_keys
+    SET is_active = false,
+        revoked_at = NOW(),
+        revoked_by = $2,
+        revoked_reason = $3
+    WHERE id = $1 AND revoked_at IS NULL
+    RETURNING key_name
+  `;
+
+  const result = await queryPostgres(query, [id, revokedBy, reason || null]);
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  logger.info(`Revoked API key: ${result.rows[0].key_name}`);
+  return true;
+}
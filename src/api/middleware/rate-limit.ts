@@ -1,18 +1,50 @@
 /**
  * Rate Limiting Middleware
  *
- * Implements rate limiting for API endpoints using token bucket algorithm.
- * Different limits for different endpoint types.
+ * Two layers:
+ * - rateLimitMiddleware: burst protection per client using token bucket algorithm,
+ *   with different costs for different endpoint types. Runs before authentication.
+ * - quotaMiddleware: hourly request quota per API key, resolved from
+ *   api_keys.requests_per_hour / rate_limit_tier. Runs after authentication.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { RateLimiter } from '../../lib/rate-limiter.js';
+import { APIKeyRecord, AuthRequest } from './auth.js';
 
 const globalLimiter = new RateLimiter(
   parseInt(process.env['API_RATE_LIMIT_TOKENS'] || '100', 10),
   parseInt(process.env['API_RATE_LIMIT_REFILL'] || '10', 10)
 );
 
+/**
+ * Default hourly quota per rate limit tier (null = unlimited)
+ */
+export const TIER_REQUESTS_PER_HOUR: Record<string, number | null> = {
+  free: 100,
+  standard: 1000,
+  premium: 10000,
+  unlimited: null,
+};
+
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+
+interface QuotaWindow {
+  windowStart: number;
+  used: number;
+}
+
+export interface QuotaUsage {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  windowStart: Date;
+  resetAt: Date;
+}
+
+// Usage per API key for the current clock hour
+const quotaWindows = new Map<string, QuotaWindow>();
+
 /**
  * Rate limiting middleware
  */
@@ -25,22 +57,134 @@ export function rateLimitMiddleware(
   const cost = getRequestCost(req);
 
   if (!globalLimiter.allow(clientId, cost)) {
+    const retryAfter = Math.max(globalLimiter.getRetryAfter(clientId, cost), 1);
+
+    res.setHeader('Retry-After', retryAfter.toString());
     res.status(429).json({
       error: 'Too Many Requests',
       message: 'Rate limit exceeded. Please try again later.',
-      retryAfter: 60, // seconds
+      retryAfter, // seconds
     });
     return;
   }
 
-  // Add rate limit headers
-  res.setHeader('X-RateLimit-Limit', '100');
-  res.setHeader('X-RateLimit-Remaining', '90'); // Approximate
-  res.setHeader('X-RateLimit-Reset', Date.now() + 60000);
+  next();
+}
+
+/**
+ * Per-key hourly quota middleware (requires authMiddleware to have run)
+ */
+export function quotaMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const keyRecord = (req as AuthRequest).apiKeyRecord;
+
+  if (!keyRecord) {
+    next();
+    return;
+  }
+
+  const quotaKey = getQuotaKey(req as AuthRequest);
+  const limit = resolveHourlyLimit(keyRecord);
+  const window = getQuotaWindow(quotaKey);
+  const resetAt = window.windowStart + QUOTA_WINDOW_MS;
+
+  if (limit !== null && window.used >= limit) {
+    const retryAfter = Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1);
+
+    setQuotaHeaders(res, limit, 0, resetAt);
+    res.setHeader('Retry-After', retryAfter.toString());
+    res.status(429).json({
+      error: 'Too Many Requests',
+      message: `Hourly quota of ${limit} requests exceeded for this API key`,
+      retryAfter, // seconds
+    });
+    return;
+  }
+
+  window.used++;
+
+  if (limit !== null) {
+    setQuotaHeaders(res, limit, limit - window.used, resetAt);
+  }
 
   next();
 }
 
+/**
+ * Get current quota consumption for the authenticated API key
+ */
+export function getQuotaUsage(req: AuthRequest): QuotaUsage | null {
+  if (!req.apiKeyRecord) {
+    return null;
+  }
+
+  const limit = resolveHourlyLimit(req.apiKeyRecord);
+  const window = getQuotaWindow(getQuotaKey(req));
+
+  return {
+    limit,
+    used: window.used,
+    remaining: limit === null ? null : Math.max(limit - window.used, 0),
+    windowStart: new Date(window.windowStart),
+    resetAt: new Date(window.windowStart + QUOTA_WINDOW_MS),
+  };
+}
+
+/**
+ * Resolve the hourly request limit for an API key (null = unlimited)
+ */
+export function resolveHourlyLimit(keyRecord: APIKeyRecord): number | null {
+  if (keyRecord.rateLimitTier === 'unlimited') {
+    return null;
+  }
+
+  if (keyRecord.requestsPerHour && keyRecord.requestsPerHour > 0) {
+    return keyRecord.requestsPerHour;
+  }
+
+  const tierLimit = TIER_REQUESTS_PER_HOUR[keyRecord.rateLimitTier];
+  return tierLimit !== undefined ? tierLimit : TIER_REQUESTS_PER_HOUR['standard'] ?? null;
+}
+
+/**
+ * Identify the API key for quota tracking
+ */
+function getQuotaKey(req: AuthRequest): string {
+  if (req.apiKeyRecord?.id) {
+    return req.apiKeyRecord.id;
+  }
+
+  // Environment keys have no database id
+  return `env:${(req.apiKey || '').substring(0, 8)}`;
+}
+
+/**
+ * Get the usage window for the current clock hour, starting a new one if needed
+ */
+function getQuotaWindow(quotaKey: string): QuotaWindow {
+  const currentWindowStart = Math.floor(Date.now() / QUOTA_WINDOW_MS) * QUOTA_WINDOW_MS;
+  let window = quotaWindows.get(quotaKey);
+
+  if (!window || window.windowStart !== currentWindowStart) {
+    window = { windowStart: currentWindowStart, used: 0 };
+    quotaWindows.set(quotaKey, window);
+  }
+
+  return window;
+}
+
+/**
+ * Set X-RateLimit-* headers (reset is a Unix timestamp in seconds)
+ */
+function setQuotaHeaders(res: Response, limit: number, remaining: number, resetAt: number): void {
+  res.setHeader('X-RateLimit-Limit', limit.toString());
+  res.setHeader('X-RateLimit-Remaining', Math.max(remaining, 0).toString());
+  res.setHeader('X-RateLimit-Reset', Math.ceil(resetAt / 1000).toString());
+}
+
 /**
  * Get client identifier for rate limiting
  */
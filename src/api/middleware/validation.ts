@@ -166,9 +166,33 @@ export const createAPIKeySchema = z.object({
     })
     .default({ read: true, write: false, admin: false }),
   rate_limit_tier: z.enum(['free', 'standard', 'premium', 'unlimited']).default('standard'),
+  requests_per_hour: z.number().int().positive().optional(),
   expires_at: z.coerce.date().optional(),
 });
 
+/**
+ * Revoke API key schema
+ */
+export const revokeAPIKeySchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Audit log query schema
+ */
+export const auditLogQuerySchema = z.object({
+  api_key_id: z.string().uuid().optional(),
+  action: z.string().max(100).optional(),
+  resource_type: z.string().max(100).optional(),
+  resource_id: z.string().max(255).optional(),
+  status: z.coerce.number().int().min(100).max(599).optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  cursor: z.string().regex(/^[0-9a-f]+$/, 'Invalid cursor').max(512).optional(),
+  limit: z.coerce.number().int().min(1).max(10000).default(100),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
 /**
  * Sanitize string input (prevent XSS)
  */
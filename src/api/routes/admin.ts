@@ -0,0 +1,293 @@
+/**
+ * Admin Routes
+ *
+ * REST API endpoints for administration (all require 'admin' scope):
+ * - GET /admin/keys - List API keys (masked)
+ * - POST /admin/keys - Create API key (secret returned once)
+ * - POST /admin/keys/:id/rotate - Rotate API key secret
+ * - POST /admin/keys/:id/revoke - Revoke API key
+ * - GET /admin/audit - Query audit log (JSON or CSV)
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  AuthRequest,
+  createAPIKey,
+  listAPIKeys,
+  requireScope,
+  revokeAPIKey,
+  rotateAPIKey,
+} from '../middleware/auth.js';
+import {
+  decodeAuditCursor,
+  getAuditLogs,
+  getClientIP,
+  getRequestPath,
+  writeAuditLog,
+} from '../middleware/audit-logger.js';
+import { asyncHandler, notFoundError, validationError } from '../middleware/error-handler.js';
+import {
+  auditLogQuerySchema,
+  createAPIKeySchema,
+  isValidUUID,
+  revokeAPIKeySchema,
+  validateRequest,
+} from '../middleware/validation.js';
+
+const router = express.Router();
+
+router.use(requireScope('admin'));
+
+/**
+ * Identify the admin key performing an action
+ */
+function getActor(req: Request): string {
+  const keyRecord = (req as AuthRequest).apiKeyRecord;
+  return keyRecord?.id ?? keyRecord?.name ?? 'unknown';
+}
+
+/**
+ * Record an api_key.* action in the audit log (in place of the middleware's entry)
+ */
+async function auditKeyAction(
+  req: Request,
+  res: Response,
+  action: string,
+  keyId: string,
+  status: number,
+  details?: Record<string, any>
+): Promise<void> {
+  await writeAuditLog({
+    apiKeyId: (req as AuthRequest).apiKeyRecord?.id ?? undefined,
+    ipAddress: getClientIP(req),
+    userAgent: req.get('user-agent'),
+    action,
+    resourceType: 'api_key',
+    resourceId: keyId,
+    details,
+    httpMethod: req.method,
+    httpPath: getRequestPath(req),
+    httpStatus: status,
+    success: status < 400,
+  });
+
+  res.locals['auditLogged'] = true;
+}
+
+/**
+ * Validate :id path parameter
+ */
+function getKeyId(req: Request): string {
+  const { id } = req.params;
+
+  if (!id || !isValidUUID(id)) {
+    throw validationError('Invalid API key id');
+  }
+
+  return id;
+}
+
+/**
+ * GET /admin/keys
+ * List API keys
+ */
+router.get(
+  '/keys',
+  asyncHandler(async (req: Request, res: Response) => {
+    const includeRevoked = req.query['include_revoked'] === 'true';
+
+    const keys = await listAPIKeys(includeRevoked);
+
+    res.json({
+      keys,
+      count: keys.length,
+    });
+  })
+);
+
+/**
+ * POST /admin/keys
+ * Create a new API key
+ */
+router.post(
+  '/keys',
+  validateRequest(createAPIKeySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      key_name,
+      description,
+      permissions,
+      rate_limit_tier,
+      requests_per_hour,
+      expires_at,
+    } = req.body;
+
+    const { id, apiKey } = await createAPIKey(key_name, {
+      description,
+      permissions,
+      rateLimitTier: rate_limit_tier,
+      requestsPerHour: requests_per_hour,
+      expiresAt: expires_at,
+      createdBy: getActor(req),
+    });
+
+    await auditKeyAction(req, res, 'api_key.create', id, 201, {
+      key_name,
+      permissions,
+      rate_limit_tier,
+    });
+
+    res.status(201).json({
+      id,
+      key_name,
+      api_key: apiKey,
+      message: 'Store this key securely. It will not be shown again.',
+    });
+  })
+);
+
+/**
+ * POST /admin/keys/:id/rotate
+ * Replace an API key's secret, keeping its permissions and limits
+ */
+router.post(
+  '/keys/:id/rotate',
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = getKeyId(req);
+
+    const apiKey = await rotateAPIKey(id);
+
+    if (!apiKey) {
+      throw notFoundError('API key');
+    }
+
+    await auditKeyAction(req, res, 'api_key.rotate', id, 200);
+
+    res.json({
+      id,
+      api_key: apiKey,
+      message: 'Key rotated. The previous secret no longer works. Store this key securely.',
+    });
+  })
+);
+
+/**
+ * POST /admin/keys/:id/revoke
+ * Revoke an API key
+ */
+router.post(
+  '/keys/:id/revoke',
+  validateRequest(revokeAPIKeySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = getKeyId(req);
+    const { reason } = req.body;
+
+    const revoked = await revokeAPIKey(id, getActor(req), reason);
+
+    if (!revoked) {
+      throw notFoundError('API key');
+    }
+
+    await auditKeyAction(req, res, 'api_key.revoke', id, 200, { reason });
+
+    res.json({
+      id,
+      status: 'revoked',
+    });
+  })
+);
+
+/**
+ * Columns included in audit log CSV exports
+ */
+const AUDIT_CSV_COLUMNS = [
+  'timestamp',
+  'action',
+  'key_name',
+  'api_key_id',
+  'resource_type',
+  'resource_id',
+  'http_method',
+  'http_path',
+  'http_status',
+  'success',
+  'ip_address',
+  'user_agent',
+  'error_message',
+  'details',
+];
+
+/**
+ * Format a value as a CSV field
+ */
+function toCSVField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+  // Prevent spreadsheet formula injection
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * GET /admin/audit
+ * Query audit log entries, newest first
+ */
+router.get(
+  '/audit',
+  validateRequest(auditLogQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof auditLogQuerySchema>;
+
+    if (query.cursor && !decodeAuditCursor(query.cursor)) {
+      throw validationError('Invalid cursor');
+    }
+
+    const { entries, nextCursor } = await getAuditLogs({
+      apiKeyId: query.api_key_id,
+      action: query.action,
+      resourceType: query.resource_type,
+      resourceId: query.resource_id,
+      httpStatus: query.status,
+      startDate: query.start_date,
+      endDate: query.end_date,
+      cursor: query.cursor,
+      limit: query.limit,
+    });
+
+    if (query.format === 'csv') {
+      const lines = [
+        AUDIT_CSV_COLUMNS.join(','),
+        ...entries.map((entry) => AUDIT_CSV_COLUMNS.map((column) => toCSVField(entry[column])).join(',')),
+      ];
+
+      if (nextCursor) {
+        res.setHeader('X-Next-Cursor', nextCursor);
+      }
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${Date.now()}.csv"`);
+      res.send(lines.join('\n'));
+      return;
+    }
+
+    res.json({
+      entries,
+      count: entries.length,
+      next_cursor: nextCursor,
+    });
+  })
+);
+
+export default router;
@@ -3,16 +3,22 @@
  *
  * REST API endpoints for aircraft operations:
  * - GET /aircraft - Search aircraft
- * - GET /aircraft/:registration - Get aircraft details
+ * - GET /aircraft/:registration - Get aircraft details (?as_of=YYYY-MM-DD for a past date)
  * - GET /aircraft/:registration/history - Get aircraft history
+ * - GET /aircraft/:registration/sources - Provenance and page snapshot of each scraped field
  */
 
 import express, { Request, Response } from 'express';
 import { queryPostgres } from '../../lib/db-clients.js';
-import { asyncHandler, notFoundError } from '../middleware/error-handler.js';
+import { asyncHandler, notFoundError, validationError } from '../middleware/error-handler.js';
+import { requireScope } from '../middleware/auth.js';
+import { aircraftSource, AsOfDateError, parseAsOfDate } from '../../lib/point-in-time.js';
+import { getAircraftFieldSources } from '../../lib/field-provenance.js';
 
 const router = express.Router();
 
+router.use(requireScope('read'));
+
 /**
  * GET /aircraft
  * Search aircraft with filters
@@ -35,16 +41,16 @@ router.get(
         a.registration,
         al.iata_code as airline_code,
         al.name as airline_name,
-        at.iata_code as aircraft_type,
-        at.manufacturer,
-        at.model,
+        COALESCE(at.iata_code, a.aircraft_type) as aircraft_type,
+        COALESCE(at.manufacturer, a.manufacturer) as manufacturer,
+        COALESCE(at.model, a.model) as model,
         a.status,
         a.current_location,
         a.delivery_date,
         a.data_confidence
       FROM aircraft a
       JOIN airlines al ON a.airline_id = al.id
-      JOIN aircraft_types at ON a.aircraft_type_id = at.id
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
       WHERE 1=1
     `;
     const params: any[] = [];
@@ -62,7 +68,7 @@ router.get(
 
     if (status) {
       params.push(status);
-      query += ` AND UPPER(a.status) = UPPER($${params.length})`;
+      query += ` AND a.status = LOWER($${params.length})`;
     }
 
     if (registration) {
@@ -95,6 +101,16 @@ router.get(
   '/:registration',
   asyncHandler(async (req: Request, res: Response) => {
     const { registration } = req.params;
+    let asOf: string | undefined;
+    try {
+      asOf = parseAsOfDate(req.query['as_of']);
+    } catch (error) {
+      if (error instanceof AsOfDateError) {
+        throw validationError(error.message);
+      }
+      throw error;
+    }
+    const source = aircraftSource(asOf, 2);
 
     const query = `
       SELECT
@@ -102,25 +118,23 @@ router.get(
         al.iata_code as airline_code,
         al.name as airline_name,
         at.iata_code as aircraft_type_code,
-        at.manufacturer,
-        at.model,
-        at.typical_seats,
+        (SELECT SUM(value::INTEGER) FROM jsonb_each_text(at.typical_seat_config))::INTEGER as typical_seats,
         at.max_seats,
-        at.range_km
-      FROM aircraft a
+        at.typical_range_km as range_km
+      FROM ${source.table} a
       JOIN airlines al ON a.airline_id = al.id
-      JOIN aircraft_types at ON a.aircraft_type_id = at.id
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
       WHERE UPPER(a.registration) = UPPER($1)
       LIMIT 1
     `;
 
-    const result = await queryPostgres(query, [registration]);
+    const result = await queryPostgres(query, asOf ? [registration, asOf] : [registration]);
 
     if (result.rows.length === 0) {
       throw notFoundError('Aircraft');
     }
 
-    res.json(result.rows[0]);
+    res.json(asOf ? { ...result.rows[0], as_of: asOf } : result.rows[0]);
   })
 );
 
@@ -152,10 +166,12 @@ router.get(
         al_from.iata_code as from_airline_code,
         al_from.name as from_airline_name,
         al_to.iata_code as to_airline_code,
-        al_to.name as to_airline_name
+        al_to.name as to_airline_name,
+        sj.job_id
       FROM fleet_changes fc
-      LEFT JOIN airlines al_from ON fc.from_airline_id = al_from.id
-      LEFT JOIN airlines al_to ON fc.to_airline_id = al_to.id
+      LEFT JOIN airlines al_from ON fc.previous_airline_id = al_from.id
+      LEFT JOIN airlines al_to ON fc.next_airline_id = al_to.id
+      LEFT JOIN scrape_jobs sj ON fc.scrape_job_id = sj.id
       WHERE fc.aircraft_id = $1
       ORDER BY fc.change_date DESC, fc.created_at DESC
     `;
@@ -169,4 +185,26 @@ router.get(
   })
 );
 
+/**
+ * GET /aircraft/:registration/sources
+ * Get the provenance and page snapshot of each scraped field
+ */
+router.get(
+  '/:registration/sources',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { registration } = req.params;
+
+    const fields = await getAircraftFieldSources(registration!);
+
+    if (!fields) {
+      throw notFoundError('Aircraft');
+    }
+
+    res.json({
+      registration,
+      fields,
+    });
+  })
+);
+
 export default router;
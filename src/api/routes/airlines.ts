@@ -4,8 +4,9 @@
  * REST API endpoints for airline operations:
  * - GET /airlines - List all airlines
  * - GET /airlines/:code - Get airline details
- * - GET /airlines/:code/fleet - Get airline fleet
- * - POST /airlines/:code/trigger-update - Trigger fleet update
+ * - GET /airlines/:code/fleet - Get airline fleet (?as_of=YYYY-MM-DD for a past date)
+ * - GET /airlines/:code/maintenance-forecast - Projected maintenance groundings over a date window
+ * - POST /airlines/:code/trigger-update - Trigger fleet update (requires 'write' scope)
  */
 
 import express, { Request, Response } from 'express';
@@ -16,6 +17,10 @@ import {
   notFoundError,
   validationError,
 } from '../middleware/error-handler.js';
+import { requireScope } from '../middleware/auth.js';
+import { aircraftSource, AsOfDateError, parseAsOfDate } from '../../lib/point-in-time.js';
+import { AirlinesNotFoundError } from '../../lib/fleet-comparison.js';
+import { getMaintenanceForecast, MaintenanceForecastError } from '../../lib/maintenance-forecast.js';
 
 const router = express.Router();
 const jobQueue = getJobQueue();
@@ -26,6 +31,7 @@ const jobQueue = getJobQueue();
  */
 router.get(
   '/status',
+  requireScope('read'),
   asyncHandler(async (_req: Request, res: Response) => {
     const query = `
       SELECT
@@ -73,6 +79,7 @@ router.get(
  */
 router.get(
   '/',
+  requireScope('read'),
   asyncHandler(async (req: Request, res: Response) => {
     const {
       country,
@@ -93,7 +100,7 @@ router.get(
         hub_airport,
         website_url as website,
         fleet_size as fleet_size_estimate,
-        scrape_status as scrape_enabled,
+        scrape_enabled,
         last_scraped_at,
         created_at
       FROM airlines
@@ -149,6 +156,7 @@ router.get(
  */
 router.get(
   '/:code',
+  requireScope('read'),
   asyncHandler(async (req: Request, res: Response) => {
     const { code } = req.params;
 
@@ -162,7 +170,7 @@ router.get(
         hub_airport,
         website_url as website,
         fleet_size as fleet_size_estimate,
-        scrape_status as scrape_enabled,
+        scrape_enabled,
         scrape_source_urls,
         scrape_frequency,
         last_scraped_at,
@@ -189,9 +197,19 @@ router.get(
  */
 router.get(
   '/:code/fleet',
+  requireScope('read'),
   asyncHandler(async (req: Request, res: Response) => {
     const { code } = req.params;
     const { status, includeDetails = 'false' } = req.query;
+    let asOf: string | undefined;
+    try {
+      asOf = parseAsOfDate(req.query['as_of']);
+    } catch (error) {
+      if (error instanceof AsOfDateError) {
+        throw validationError(error.message);
+      }
+      throw error;
+    }
 
     // Get airline ID
     const airlineQuery = `
@@ -206,15 +224,20 @@ router.get(
     }
 
     const airlineId = airlineResult.rows[0].id;
+    const params: any[] = [airlineId];
+    if (asOf) {
+      params.push(asOf);
+    }
+    const source = aircraftSource(asOf, 2);
 
     // Build fleet query
     let fleetQuery = `
       SELECT
         a.id,
         a.registration,
-        at.iata_code as aircraft_type,
-        at.manufacturer,
-        at.model,
+        COALESCE(at.iata_code, a.aircraft_type) as aircraft_type,
+        COALESCE(at.manufacturer, a.manufacturer) as manufacturer,
+        COALESCE(at.model, a.model) as model,
         a.msn,
         a.seat_configuration,
         a.delivery_date,
@@ -223,17 +246,16 @@ router.get(
         a.home_base,
         a.last_flight_date,
         a.data_confidence,
-        a.last_scraped_at
-      FROM aircraft a
-      JOIN aircraft_types at ON a.aircraft_type_id = at.id
+        a.last_verified_at as last_scraped_at
+      FROM ${source.table} a
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
       WHERE a.airline_id = $1
     `;
-    const params: any[] = [airlineId];
 
     // Status filter
     if (status && status !== 'all') {
       params.push(status);
-      fleetQuery += ` AND UPPER(a.status) = UPPER($${params.length})`;
+      fleetQuery += ` AND a.status = LOWER($${params.length})`;
     }
 
     fleetQuery += ' ORDER BY a.registration';
@@ -270,18 +292,59 @@ router.get(
 
     res.json({
       airline_code: code,
+      ...(asOf && { as_of: asOf }),
       total_aircraft: aircraft.length,
       aircraft,
     });
   })
 );
 
+/**
+ * GET /airlines/:code/maintenance-forecast?from=YYYY-MM-DD&to=YYYY-MM-DD&home_base=...&types=...
+ * Checks falling due in the window, per home base, and the share of each type grounded per week
+ */
+router.get(
+  '/:code/maintenance-forecast',
+  requireScope('read'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code } = req.params;
+
+    for (const key of ['from', 'to', 'home_base', 'types']) {
+      const value = req.query[key];
+      if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+        throw validationError(`${key} must be a single non-empty value`);
+      }
+    }
+
+    const { from, to, home_base, types } = req.query as Record<string, string | undefined>;
+
+    try {
+      const forecast = await getMaintenanceForecast(code!, {
+        from,
+        to,
+        home_base,
+        aircraft_types: types?.split(',').map((type) => type.trim()).filter(Boolean),
+      });
+      res.json(forecast);
+    } catch (error) {
+      if (error instanceof MaintenanceForecastError) {
+        throw validationError(error.message);
+      }
+      if (error instanceof AirlinesNotFoundError) {
+        throw notFoundError('Airline');
+      }
+      throw error;
+    }
+  })
+);
+
 /**
  * POST /airlines/:code/trigger-update
  * Trigger a fleet update for an airline
  */
 router.post(
   '/:code/trigger-update',
+  requireScope('write'),
   asyncHandler(async (req: Request, res: Response) => {
     const { code } = req.params;
     const { force = false, priority = 'normal' } = req.body;
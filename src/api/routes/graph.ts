@@ -0,0 +1,118 @@
+/**
+ * Graph Analytics Routes
+ *
+ * REST API endpoints for knowledge-graph analytics:
+ * - GET /graph/similar-airlines/:code - Airlines with similar fleet composition
+ * - GET /graph/alliances/:name - Alliance member airlines and fleet sizes
+ * - GET /graph/market-share - Manufacturer market share
+ * - GET /graph/retirement-candidates - Aircraft older than 20 years
+ * - GET /graph/stats - Node and relationship counts (Neo4j only)
+ *
+ * Answered by Neo4j when configured, otherwise by equivalent PostgreSQL queries.
+ */
+
+import express, { Request, Response } from 'express';
+import { GraphAnalytics, getGraphBackend } from '../../lib/graph-analytics.js';
+import { Neo4jQuery } from '../../lib/neo4j-queries.js';
+import { asyncHandler, createAPIError, validationError } from '../middleware/error-handler.js';
+import { requireScope } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(requireScope('read'));
+
+/**
+ * GET /graph/similar-airlines/:code
+ * Find airlines sharing aircraft types with the given airline
+ */
+router.get(
+  '/similar-airlines/:code',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code } = req.params;
+    const { min_common_types = '3' } = req.query;
+
+    const minCommonTypes = parseInt(min_common_types as string);
+    if (isNaN(minCommonTypes) || minCommonTypes < 1 || minCommonTypes > 20) {
+      throw validationError('min_common_types must be between 1 and 20');
+    }
+
+    const airlines = await GraphAnalytics.findSimilarAirlines(code as string, minCommonTypes);
+
+    res.json({
+      data: airlines,
+      backend: getGraphBackend(),
+    });
+  })
+);
+
+/**
+ * GET /graph/alliances/:name
+ * Get alliance member airlines
+ */
+router.get(
+  '/alliances/:name',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name } = req.params;
+
+    const members = await GraphAnalytics.getAllianceNetwork(name as string);
+
+    res.json({
+      alliance: name,
+      data: members,
+      backend: getGraphBackend(),
+    });
+  })
+);
+
+/**
+ * GET /graph/market-share
+ * Get manufacturer market share across active fleets
+ */
+router.get(
+  '/market-share',
+  asyncHandler(async (_req: Request, res: Response) => {
+    const shares = await GraphAnalytics.getManufacturerMarketShare();
+
+    res.json({
+      data: shares,
+      backend: getGraphBackend(),
+    });
+  })
+);
+
+/**
+ * GET /graph/retirement-candidates
+ * Find in-service aircraft older than 20 years
+ */
+router.get(
+  '/retirement-candidates',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { airline } = req.query;
+
+    const aircraft = await GraphAnalytics.findAircraftNearingRetirement(airline as string | undefined);
+
+    res.json({
+      data: aircraft,
+      backend: getGraphBackend(),
+    });
+  })
+);
+
+/**
+ * GET /graph/stats
+ * Get knowledge graph node and relationship counts
+ */
+router.get(
+  '/stats',
+  asyncHandler(async (_req: Request, res: Response) => {
+    if (getGraphBackend() !== 'neo4j') {
+      throw createAPIError('Graph statistics require Neo4j (NEO4J_URI is not configured)', 503, 'GRAPH_UNAVAILABLE');
+    }
+
+    const stats = await Neo4jQuery.getGraphStatistics();
+
+    res.json(stats);
+  })
+);
+
+export default router;
@@ -0,0 +1,44 @@
+/**
+ * Current API Key Routes
+ *
+ * REST API endpoints about the calling API key:
+ * - GET /me/usage - Hourly quota consumption for this key
+ */
+
+import express, { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { getQuotaUsage } from '../middleware/rate-limit.js';
+import { createAPIError } from '../middleware/error-handler.js';
+
+const router = express.Router();
+
+/**
+ * GET /me/usage
+ * Get the calling key's quota and consumption in the current window
+ */
+router.get('/usage', (req: Request, res: Response) => {
+  const authReq = req as AuthRequest;
+  const usage = getQuotaUsage(authReq);
+
+  if (!usage || !authReq.apiKeyRecord) {
+    throw createAPIError('API key required', 401, 'UNAUTHORIZED');
+  }
+
+  res.json({
+    key: {
+      id: authReq.apiKeyRecord.id,
+      name: authReq.apiKeyRecord.name,
+      rate_limit_tier: authReq.apiKeyRecord.rateLimitTier,
+      permissions: authReq.apiKeyRecord.permissions,
+    },
+    quota: {
+      limit: usage.limit,
+      used: usage.used,
+      remaining: usage.remaining,
+      window_start: usage.windowStart.toISOString(),
+      reset_at: usage.resetAt.toISOString(),
+    },
+  });
+});
+
+export default router;
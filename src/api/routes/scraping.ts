@@ -4,12 +4,13 @@
  * REST API endpoints for scraping job management:
  * - GET /jobs - List scraping jobs
  * - GET /jobs/:id - Get job status
- * - POST /jobs - Create scraping job
+ * - POST /jobs - Create scraping job (requires 'write' scope)
  */
 
 import express, { Request, Response } from 'express';
 import { getJobQueue } from '../../scrapers/workflows/job-queue.js';
 import { asyncHandler, notFoundError, validationError } from '../middleware/error-handler.js';
+import { requireScope } from '../middleware/auth.js';
 
 const router = express.Router();
 const jobQueue = getJobQueue();
@@ -20,6 +21,7 @@ const jobQueue = getJobQueue();
  */
 router.get(
   '/',
+  requireScope('read'),
   asyncHandler(async (_req: Request, res: Response) => {
     const stats = await jobQueue.getQueueStats();
 
@@ -36,6 +38,7 @@ router.get(
  */
 router.get(
   '/:id',
+  requireScope('read'),
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
 
@@ -55,6 +58,7 @@ router.get(
  */
 router.post(
   '/',
+  requireScope('write'),
   asyncHandler(async (req: Request, res: Response) => {
     const {
       airline_code,
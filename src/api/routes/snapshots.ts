@@ -0,0 +1,134 @@
+/**
+ * Snapshot Routes
+ *
+ * REST API endpoints for the raw pages archived by the scrapers:
+ * - GET /snapshots - List snapshots (?url, ?registration, ?job_id, ?limit)
+ * - GET /snapshots/:id - Get a snapshot with its HTML
+ * - POST /snapshots/:id/extract - Re-run extraction on a snapshot (requires 'write' scope)
+ */
+
+import express, { Request, Response } from 'express';
+import { queryPostgres } from '../../lib/db-clients.js';
+import { getPageSnapshot, listPageSnapshots, MAX_SNAPSHOT_LIMIT } from '../../lib/page-snapshots.js';
+import { FleetDiscoveryAgent } from '../../scrapers/agents/fleet-discovery-agent.js';
+import { AircraftDetailsAgent } from '../../scrapers/agents/aircraft-details-agent.js';
+import { asyncHandler, notFoundError, validationError } from '../middleware/error-handler.js';
+import { requireScope } from '../middleware/auth.js';
+
+const router = express.Router();
+
+function getSnapshotId(req: Request): number {
+  const id = Number(req.params['id']);
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw validationError('Invalid snapshot id');
+  }
+
+  return id;
+}
+
+/**
+ * GET /snapshots
+ * List archived pages, newest first
+ */
+router.get(
+  '/',
+  requireScope('read'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { url, registration, job_id, limit = '50' } = req.query;
+
+    const parsedLimit = Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_SNAPSHOT_LIMIT) {
+      throw validationError(`limit must be between 1 and ${MAX_SNAPSHOT_LIMIT}`);
+    }
+
+    // Jobs are referenced by their external job_id
+    let scrapeJobId: number | undefined;
+    if (job_id) {
+      const job = await queryPostgres<{ id: number }>(`SELECT id FROM scrape_jobs WHERE job_id = $1`, [
+        String(job_id),
+      ]);
+      if (job.rows.length === 0) {
+        throw notFoundError('Job');
+      }
+      scrapeJobId = job.rows[0]!.id;
+    }
+
+    const snapshots = await listPageSnapshots({
+      url: url ? String(url) : undefined,
+      registration: registration ? String(registration) : undefined,
+      scrape_job_id: scrapeJobId,
+      limit: parsedLimit,
+    });
+
+    res.json({
+      snapshots,
+      count: snapshots.length,
+    });
+  })
+);
+
+/**
+ * GET /snapshots/:id
+ * Get a snapshot with its decompressed HTML
+ */
+router.get(
+  '/:id',
+  requireScope('read'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const snapshot = await getPageSnapshot(getSnapshotId(req));
+
+    if (!snapshot) {
+      throw notFoundError('Snapshot');
+    }
+
+    res.json(snapshot);
+  })
+);
+
+/**
+ * POST /snapshots/:id/extract
+ * Run the current site parsers / LLM extraction on an archived page
+ */
+router.post(
+  '/:id/extract',
+  requireScope('write'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const snapshot = await getPageSnapshot(getSnapshotId(req));
+
+    if (!snapshot) {
+      throw notFoundError('Snapshot');
+    }
+
+    const { html, ...metadata } = snapshot;
+    const page = { url: snapshot.final_url, html };
+
+    if (snapshot.page_kind === 'fleet') {
+      if (!snapshot.airline_code) {
+        throw validationError('Snapshot has no airline to extract a fleet for');
+      }
+
+      const registrations = await new FleetDiscoveryAgent().extractFromPage(page, snapshot.airline_code);
+      res.json({
+        snapshot: metadata,
+        extracted_at: new Date().toISOString(),
+        registrations,
+      });
+      return;
+    }
+
+    if (!snapshot.registration) {
+      throw validationError('Snapshot has no registration to extract details for');
+    }
+
+    const extraction = await new AircraftDetailsAgent().extractFromPage(page, snapshot.registration);
+    res.json({
+      snapshot: metadata,
+      extracted_at: new Date().toISOString(),
+      extraction_method: extraction?.method ?? null,
+      details: extraction?.data ?? null,
+    });
+  })
+);
+
+export default router;
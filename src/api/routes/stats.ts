@@ -3,15 +3,31 @@
  *
  * REST API endpoints for statistics:
  * - GET /stats/global - Global fleet statistics
- * - GET /stats/airline/:code - Airline-specific statistics
+ * - GET /stats/airline/:code - Airline-specific statistics (?as_of=YYYY-MM-DD for a past date)
+ * - GET /stats/airline/:code/timeseries - Monthly fleet history of an airline
+ * - GET /stats/compare?codes=CM,AV,LA - Side-by-side fleet comparison
+ * - GET /stats/capacity - Seat capacity by cabin, type, home base, airline, country and alliance
+ * - GET /stats/lessors - Lessor exposure, upcoming lease returns and owned-vs-leased mix
  */
 
 import express, { Request, Response } from 'express';
 import { queryPostgres } from '../../lib/db-clients.js';
-import { asyncHandler, notFoundError } from '../middleware/error-handler.js';
+import {
+  AirlinesNotFoundError,
+  compareFleets,
+  FleetComparisonError,
+} from '../../lib/fleet-comparison.js';
+import { FleetTimeseriesError, getFleetTimeseries } from '../../lib/fleet-timeseries.js';
+import { getCapacityAnalytics } from '../../lib/capacity-analytics.js';
+import { getLessorExposure, LessorExposureError, LessorExposureFilters } from '../../lib/lessor-exposure.js';
+import { asyncHandler, createAPIError, notFoundError, validationError } from '../middleware/error-handler.js';
+import { requireScope } from '../middleware/auth.js';
+import { aircraftSource, AsOfDateError, parseAsOfDate } from '../../lib/point-in-time.js';
 
 const router = express.Router();
 
+router.use(requireScope('read'));
+
 /**
  * GET /stats/global
  * Get global fleet statistics
@@ -25,7 +41,7 @@ router.get(
         COUNT(DISTINCT al.id) as total_airlines,
         COUNT(DISTINCT a.id) as total_aircraft,
         COUNT(DISTINCT at.id) as total_aircraft_types,
-        COUNT(DISTINCT a.id) FILTER (WHERE a.status = 'Active') as active_aircraft
+        COUNT(DISTINCT a.id) FILTER (WHERE a.status = 'active') as active_aircraft
       FROM airlines al
       LEFT JOIN aircraft a ON al.id = a.airline_id
       LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
@@ -81,6 +97,15 @@ router.get(
   '/airline/:code',
   asyncHandler(async (req: Request, res: Response) => {
     const { code } = req.params;
+    let asOf: string | undefined;
+    try {
+      asOf = parseAsOfDate(req.query['as_of']);
+    } catch (error) {
+      if (error instanceof AsOfDateError) {
+        throw validationError(error.message);
+      }
+      throw error;
+    }
 
     // Get airline
     const airlineQuery = `
@@ -96,22 +121,25 @@ router.get(
 
     const airline = airlineResult.rows[0];
     const airlineId = airline.id;
+    const params = asOf ? [airlineId, asOf] : [airlineId];
+    const source = aircraftSource(asOf, 2);
 
     // Fleet statistics
     const fleetQuery = `
       SELECT
         COUNT(*) as total_aircraft,
-        COUNT(*) FILTER (WHERE status = 'Active') as active,
-        COUNT(*) FILTER (WHERE status = 'Stored') as stored,
-        COUNT(*) FILTER (WHERE status = 'Maintenance') as maintenance,
-        AVG(EXTRACT(YEAR FROM AGE(CURRENT_DATE, delivery_date)))::INTEGER as avg_age_years,
+        COUNT(*) FILTER (WHERE status = 'active') as active,
+        COUNT(*) FILTER (WHERE status = 'stored') as stored,
+        COUNT(*) FILTER (WHERE status = 'maintenance') as maintenance,
+        AVG(EXTRACT(YEAR FROM AGE(${source.referenceDate}, delivery_date)))::INTEGER as avg_age_years,
         MIN(delivery_date) as oldest_delivery,
-        MAX(delivery_date) as newest_delivery
-      FROM aircraft
+        MAX(delivery_date) as newest_delivery,
+        SUM(total_seats)::INTEGER as total_seats
+      FROM ${source.table} a
       WHERE airline_id = $1
     `;
 
-    const fleetResult = await queryPostgres(fleetQuery, [airlineId]);
+    const fleetResult = await queryPostgres(fleetQuery, params);
 
     // By aircraft type
     const byTypeQuery = `
@@ -120,25 +148,167 @@ router.get(
         at.manufacturer,
         at.model,
         COUNT(a.id) as count,
-        COUNT(a.id) FILTER (WHERE a.status = 'Active') as active_count
-      FROM aircraft a
+        COUNT(a.id) FILTER (WHERE a.status = 'active') as active_count
+      FROM ${source.table} a
       JOIN aircraft_types at ON a.aircraft_type_id = at.id
       WHERE a.airline_id = $1
       GROUP BY at.id, at.iata_code, at.manufacturer, at.model
       ORDER BY COUNT(a.id) DESC
     `;
 
-    const byTypeResult = await queryPostgres(byTypeQuery, [airlineId]);
+    const byTypeResult = await queryPostgres(byTypeQuery, params);
 
     res.json({
       airline: {
         code: airline.iata_code,
         name: airline.name,
       },
+      ...(asOf && { as_of: asOf }),
       fleet: fleetResult.rows[0],
       by_aircraft_type: byTypeResult.rows,
     });
   })
 );
 
+/**
+ * GET /stats/airline/:code/timeseries?from=YYYY-MM&to=YYYY-MM
+ * Monthly fleet size by type, deliveries, retirements, transfers and average age
+ */
+router.get(
+  '/airline/:code/timeseries',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code } = req.params;
+    const { from, to } = req.query;
+
+    if ((from !== undefined && typeof from !== 'string') || (to !== undefined && typeof to !== 'string')) {
+      throw validationError('from and to must be months in YYYY-MM format');
+    }
+
+    try {
+      const timeseries = await getFleetTimeseries(code!, { from, to });
+      res.json(timeseries);
+    } catch (error) {
+      if (error instanceof FleetTimeseriesError) {
+        throw validationError(error.message);
+      }
+      if (error instanceof AirlinesNotFoundError) {
+        throw notFoundError('Airline');
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * GET /stats/compare?codes=CM,AV,LA
+ * Compare the active fleets of 2-10 airlines
+ */
+router.get(
+  '/compare',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { codes } = req.query;
+
+    if (typeof codes !== 'string' || codes.trim() === '') {
+      throw validationError('codes is required (comma-separated airline codes, e.g. CM,AV,LA)');
+    }
+
+    try {
+      const comparison = await compareFleets(codes.split(','));
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof FleetComparisonError) {
+        throw validationError(error.message);
+      }
+      if (error instanceof AirlinesNotFoundError) {
+        throw createAPIError(error.message, 404, 'NOT_FOUND', { codes: error.codes });
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * GET /stats/capacity?airline_code=UA&country=...&alliance=...
+ * Seat capacity of active aircraft, optionally limited to an airline, country or alliance
+ */
+router.get(
+  '/capacity',
+  asyncHandler(async (req: Request, res: Response) => {
+    const filters: Record<string, string> = {};
+
+    for (const key of ['airline_code', 'country', 'alliance']) {
+      const value = req.query[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'string' || value.trim() === '') {
+        throw validationError(`${key} must be a single non-empty value`);
+      }
+      filters[key] = value.trim();
+    }
+
+    try {
+      const capacity = await getCapacityAnalytics(filters);
+      res.json(capacity);
+    } catch (error) {
+      if (error instanceof AirlinesNotFoundError) {
+        throw notFoundError('Airline');
+      }
+      throw error;
+    }
+  })
+);
+
+/**
+ * GET /stats/lessors?codes=UA,DL&lessor=...&alliance=...&months=12
+ * Aircraft per lessor per airline, lease returns within `months`, lessor
+ * concentration by alliance and owned-vs-leased ratios by type
+ */
+router.get(
+  '/lessors',
+  asyncHandler(async (req: Request, res: Response) => {
+    const filters: LessorExposureFilters = {};
+
+    for (const key of ['codes', 'lessor', 'alliance', 'months']) {
+      const value = req.query[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'string' || value.trim() === '') {
+        throw validationError(`${key} must be a single non-empty value`);
+      }
+    }
+
+    const { codes, lessor, alliance, months } = req.query as Record<string, string | undefined>;
+    if (codes) {
+      filters.airline_codes = codes.split(',');
+    }
+    if (lessor) {
+      filters.lessor = lessor.trim();
+    }
+    if (alliance) {
+      filters.alliance = alliance.trim();
+    }
+    if (months) {
+      if (!/^\d+$/.test(months.trim())) {
+        throw validationError('months must be a whole number');
+      }
+      filters.expiring_within_months = parseInt(months, 10);
+    }
+
+    try {
+      const exposure = await getLessorExposure(filters);
+      res.json(exposure);
+    } catch (error) {
+      if (error instanceof LessorExposureError) {
+        throw validationError(error.message);
+      }
+      if (error instanceof AirlinesNotFoundError) {
+        throw createAPIError(error.message, 404, 'NOT_FOUND', { codes: error.codes });
+      }
+      throw error;
+    }
+  })
+);
+
 export default router;
@@ -16,20 +16,27 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { createLogger } from '../lib/logger.js';
 import { authMiddleware } from './middleware/auth.js';
-import { rateLimitMiddleware } from './middleware/rate-limit.js';
+import { rateLimitMiddleware, quotaMiddleware } from './middleware/rate-limit.js';
 import { errorHandler } from './middleware/error-handler.js';
 import { requestLogger } from './middleware/request-logger.js';
 import { auditLoggerMiddleware } from './middleware/audit-logger.js';
 import { aggressiveValidation } from './middleware/validation.js';
 import { initializeDatabases, closeDatabases } from '../lib/db-clients.js';
+import { assertSchemaCompatible } from '../database/postgres/schema-check.js';
 import { ScraperScheduler } from '../scrapers/workflows/scheduler.js';
+import { createMCPRouter, closeMCPSessions } from '../mcp-server/http-transport.js';
+import { stopFleetEvents } from '../lib/fleet-events.js';
 
 // Route imports
 import airlinesRouter from './routes/airlines.js';
 import aircraftRouter from './routes/aircraft.js';
 import statsRouter from './routes/stats.js';
 import scrapingRouter from './routes/scraping.js';
+import snapshotsRouter from './routes/snapshots.js';
 import healthRouter from './routes/health.js';
+import graphRouter from './routes/graph.js';
+import adminRouter from './routes/admin.js';
+import meRouter from './routes/me.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -41,11 +48,13 @@ export class APIServer {
   private port: number;
   private scheduler: ScraperScheduler | null = null;
   private server: any = null;
+  private mcpEnabled: boolean;
 
   constructor() {
     this.app = express();
     // Railway provides PORT env var - use it first, fallback to API_PORT or 3000
     this.port = parseInt(process.env['PORT'] || process.env['API_PORT'] || '3000', 10);
+    this.mcpEnabled = process.env['MCP_TRANSPORT_MODE'] === 'http';
     this.setupMiddleware();
     this.setupRoutes();
     this.setupErrorHandling();
@@ -65,12 +74,17 @@ export class APIServer {
         origin: this.getAllowedOrigins(),
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Mcp-Session-Id', 'Mcp-Protocol-Version'],
+        exposedHeaders: ['Mcp-Session-Id'],
       })
     );
 
-    // Compression
-    this.app.use(compression());
+    // Compression (not for MCP, whose SSE streams must not be buffered)
+    this.app.use(
+      compression({
+        filter: (req, res) => !req.path.startsWith('/mcp') && compression.filter(req, res),
+      })
+    );
 
     // Body parsing
     this.app.use(express.json({ limit: '10mb' }));
@@ -93,6 +107,9 @@ export class APIServer {
       return authMiddleware(req, res, next);
     });
 
+    // Per-key hourly quota (after authentication)
+    this.app.use(quotaMiddleware);
+
     // Audit logging (after authentication)
     this.app.use(auditLoggerMiddleware);
   }
@@ -114,6 +131,7 @@ export class APIServer {
           stats: '/api/v1/stats',
           scraping: '/api/v1/jobs',
           health: '/health',
+          ...(this.mcpEnabled && { mcp: '/mcp' }),
         },
       });
     });
@@ -144,9 +162,19 @@ export class APIServer {
     apiRouter.use('/aircraft', aircraftRouter);
     apiRouter.use('/stats', statsRouter);
     apiRouter.use('/jobs', scrapingRouter);
+    apiRouter.use('/snapshots', snapshotsRouter);
+    apiRouter.use('/graph', graphRouter);
+    apiRouter.use('/admin', adminRouter);
+    apiRouter.use('/me', meRouter);
 
     this.app.use('/api/v1', apiRouter);
 
+    // MCP over Streamable HTTP
+    if (this.mcpEnabled) {
+      this.app.use('/mcp', createMCPRouter());
+      logger.info('MCP HTTP transport mounted at /mcp');
+    }
+
     // 404 handler
     this.app.use((req: Request, res: Response) => {
       res.status(404).json({
@@ -185,6 +213,9 @@ export class APIServer {
     await initializeDatabases();
     logger.info('Databases initialized successfully');
 
+    // Refuse to start against an outdated schema
+    await assertSchemaCompatible();
+
     // Start HTTP server
     await new Promise<void>((resolve) => {
       this.server = this.app.listen(this.port, () => {
@@ -220,6 +251,11 @@ export class APIServer {
       logger.info('Scraper scheduler stopped');
     }
 
+    // Close MCP sessions so open SSE streams do not hold the server open
+    if (this.mcpEnabled) {
+      await closeMCPSessions();
+    }
+
     // Close HTTP server
     if (this.server) {
       await new Promise<void>((resolve, reject) => {
@@ -235,6 +271,7 @@ export class APIServer {
     }
 
     // Close databases
+    await stopFleetEvents();
     await closeDatabases();
     logger.info('Database connections closed');
     logger.info('API server stopped successfully');
@@ -14,6 +14,7 @@ interface SyncOptions {
   full?: boolean;          // Full sync or incremental
   entities?: string[];     // Specific entities to sync
   since?: Date;            // Sync changes since this date
+  airlineId?: number;      // Limit the sync to one airline and its aircraft
   dryRun?: boolean;        // Preview changes without applying
   batchSize?: number;      // Number of records per batch
 }
@@ -153,8 +154,13 @@ export class Neo4jSyncService {
     const params: any[] = [];
 
     if (options.since) {
-      query += ' AND updated_at > $1';
       params.push(options.since);
+      query += ` AND updated_at > $${params.length}`;
+    }
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ` AND id = $${params.length}`;
     }
 
     const result = await queryPostgres(query, params);
@@ -205,8 +211,13 @@ export class Neo4jSyncService {
     const params: any[] = [];
 
     if (options.since) {
-      query += ' AND updated_at > $1';
       params.push(options.since);
+      query += ` AND updated_at > $${params.length}`;
+    }
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ` AND id IN (SELECT aircraft_type_id FROM aircraft WHERE airline_id = $${params.length})`;
     }
 
     const result = await queryPostgres(query, params);
@@ -256,8 +267,13 @@ export class Neo4jSyncService {
     const params: any[] = [];
 
     if (options.since) {
-      query += ' AND updated_at > $1';
       params.push(options.since);
+      query += ` AND updated_at > $${params.length}`;
+    }
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ` AND airline_id = $${params.length}`;
     }
 
     const result = await queryPostgres(query, params);
@@ -307,13 +323,20 @@ export class Neo4jSyncService {
    * Sync manufacturers (extracted from aircraft_types)
    */
   private async syncManufacturers(options: SyncOptions): Promise<number> {
-    const query = `
+    let query = `
       SELECT DISTINCT manufacturer as name
       FROM aircraft_types
       WHERE manufacturer IS NOT NULL
     `;
 
-    const result = await queryPostgres(query);
+    const params: any[] = [];
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ` AND id IN (SELECT aircraft_type_id FROM aircraft WHERE airline_id = $1)`;
+    }
+
+    const result = await queryPostgres(query, params);
     const manufacturers = result.rows;
 
     if (options.dryRun) {
@@ -335,13 +358,20 @@ export class Neo4jSyncService {
    * Sync alliances (extracted from airlines)
    */
   private async syncAlliances(options: SyncOptions): Promise<number> {
-    const query = `
+    let query = `
       SELECT DISTINCT alliance as name
       FROM airlines
       WHERE alliance IS NOT NULL
     `;
 
-    const result = await queryPostgres(query);
+    const params: any[] = [];
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ' AND id = $1';
+    }
+
+    const result = await queryPostgres(query, params);
     const alliances = result.rows;
 
     if (options.dryRun) {
@@ -385,13 +415,20 @@ export class Neo4jSyncService {
    * Create OPERATES relationships (Airline -> Aircraft)
    */
   private async syncOperatesRelationships(options: SyncOptions): Promise<number> {
-    const query = `
+    let query = `
       SELECT a.airline_id, a.id as aircraft_id, a.in_service_date, a.status
       FROM aircraft a
       WHERE a.airline_id IS NOT NULL
     `;
 
-    const result = await queryPostgres(query);
+    const params: any[] = [];
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ' AND a.airline_id = $1';
+    }
+
+    const result = await queryPostgres(query, params);
     const relationships = result.rows;
 
     if (options.dryRun) {
@@ -410,6 +447,10 @@ export class Neo4jSyncService {
         SET op.since_date = date(rel.in_service_date),
             op.status = rel.status,
             op.is_current = true
+        WITH al, ac
+        MATCH (previous:Airline)-[old:OPERATES]->(ac)
+        WHERE previous.id <> al.id
+        SET old.is_current = false
       `;
 
       await queryNeo4j(cypher, { rels: batch });
@@ -422,13 +463,20 @@ export class Neo4jSyncService {
    * Create IS_TYPE relationships (Aircraft -> AircraftType)
    */
   private async syncIsTypeRelationships(options: SyncOptions): Promise<number> {
-    const query = `
+    let query = `
       SELECT a.id as aircraft_id, a.aircraft_type_id
       FROM aircraft a
       WHERE a.aircraft_type_id IS NOT NULL
     `;
 
-    const result = await queryPostgres(query);
+    const params: any[] = [];
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ' AND a.airline_id = $1';
+    }
+
+    const result = await queryPostgres(query, params);
     const relationships = result.rows;
 
     if (options.dryRun) {
@@ -456,13 +504,20 @@ export class Neo4jSyncService {
    * Create MANUFACTURED_BY relationships (Aircraft -> Manufacturer)
    */
   private async syncManufacturedByRelationships(options: SyncOptions): Promise<number> {
-    const query = `
+    let query = `
       SELECT a.id as aircraft_id, a.manufacturer, a.manufactured_date, a.msn
       FROM aircraft a
       WHERE a.manufacturer IS NOT NULL
     `;
 
-    const result = await queryPostgres(query);
+    const params: any[] = [];
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ' AND a.airline_id = $1';
+    }
+
+    const result = await queryPostgres(query, params);
     const relationships = result.rows;
 
     if (options.dryRun) {
@@ -492,13 +547,20 @@ export class Neo4jSyncService {
    * Create MEMBER_OF relationships (Airline -> Alliance)
    */
   private async syncMemberOfRelationships(options: SyncOptions): Promise<number> {
-    const query = `
+    let query = `
       SELECT id as airline_id, alliance
       FROM airlines
       WHERE alliance IS NOT NULL
     `;
 
-    const result = await queryPostgres(query);
+    const params: any[] = [];
+
+    if (options.airlineId !== undefined) {
+      params.push(options.airlineId);
+      query += ' AND id = $1';
+    }
+
+    const result = await queryPostgres(query, params);
     const relationships = result.rows;
 
     if (options.dryRun) {
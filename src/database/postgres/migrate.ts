@@ -0,0 +1,106 @@
+/**
+ * PostgreSQL Migration CLI
+ *
+ * Compiled with the rest of src/ so production images can migrate without tsx
+ * (`npm run start:migrate` runs dist/database/postgres/migrate.js).
+ *
+ * Usage:
+ *   npm run db:migrate                     Apply all pending migrations
+ *   npm run db:migrate -- --status         List migrations and their state
+ *   npm run db:migrate -- --down [steps]   Roll back the last N migrations (default 1)
+ *   npm run db:migrate -- --baseline <v>   Mark migrations up to <v> as applied without running them
+ */
+
+import { initializePostgres, closeDatabases } from '../../lib/db-clients.js';
+import { createLogger } from '../../lib/logger.js';
+import {
+  baseline,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from './migrator.js';
+
+const logger = createLogger('db-migrate');
+
+/**
+ * Print migration status table
+ */
+async function printStatus(): Promise<boolean> {
+  const statuses = await getMigrationStatus();
+
+  console.log('\nVersion  State     Down  Applied At                Name');
+  console.log('-------  --------  ----  ------------------------  ----------------------------');
+
+  for (const status of statuses) {
+    console.log(
+      [
+        status.version.padEnd(7),
+        status.state.padEnd(8),
+        (status.hasDown ? 'yes' : 'no').padEnd(4),
+        (status.appliedAt ? status.appliedAt.toISOString() : '-').padEnd(24),
+        status.name,
+      ].join('  ')
+    );
+  }
+
+  const pending = statuses.filter((s) => s.state === 'pending').length;
+  const problems = statuses.filter((s) => s.state === 'modified' || s.state === 'missing');
+
+  console.log(`\n${statuses.length - pending} applied, ${pending} pending`);
+
+  if (problems.length > 0) {
+    console.log(`${problems.length} migration(s) modified or missing on disk`);
+  }
+
+  return problems.length === 0;
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = process.argv.slice(2);
+
+  try {
+    initializePostgres();
+
+    if (args.includes('--status')) {
+      const healthy = await printStatus();
+      await closeDatabases();
+      process.exit(healthy ? 0 : 1);
+    }
+
+    if (args.includes('--baseline')) {
+      const version = args[args.indexOf('--baseline') + 1];
+      if (!version) {
+        throw new Error('--baseline requires a version, e.g. --baseline 004');
+      }
+
+      const marked = await baseline(version);
+      logger.info(`Baselined ${marked.length} migration(s): ${marked.join(', ') || 'none'}`);
+    } else if (args.includes('--down')) {
+      const stepsArg = args[args.indexOf('--down') + 1];
+      const steps = stepsArg && /^\d+$/.test(stepsArg) ? parseInt(stepsArg, 10) : 1;
+
+      const rolledBack = await migrateDown(steps);
+      logger.info(`Rolled back ${rolledBack.length} migration(s): ${rolledBack.join(', ') || 'none'}`);
+    } else {
+      const applied = await migrateUp();
+      logger.info(
+        applied.length > 0
+          ? `Applied ${applied.length} migration(s): ${applied.join(', ')}`
+          : 'Database is up to date'
+      );
+    }
+
+    await closeDatabases();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    await closeDatabases();
+    process.exit(1);
+  }
+}
+
+// Run script
+main();
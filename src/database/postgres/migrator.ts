@@ -0,0 +1,303 @@
+/**
+ * PostgreSQL Migration Runner
+ *
+ * Applies versioned SQL migrations from the top-level `migrations/` directory.
+ *
+ * - Up migrations: `NNN_description.sql`
+ * - Down migrations (optional): `NNN_description.down.sql`
+ * - Applied migrations are recorded in `schema_migrations` with a SHA-256
+ *   checksum, so edits to an already-applied file are detected.
+ * - Each migration runs in its own transaction together with its
+ *   `schema_migrations` bookkeeping.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { queryPostgres, withTransaction } from '../../lib/db-clients.js';
+import { createLogger } from '../../lib/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const logger = createLogger('migrator');
+
+export const MIGRATIONS_DIR = join(__dirname, '../../../migrations');
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+export interface Migration {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+  hasDown: boolean;
+}
+
+/**
+ * Compute the checksum of a migration file
+ */
+function checksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Load migration files, ordered by version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  if (!existsSync(dir)) {
+    throw new Error(`Migrations directory not found: ${dir}`);
+  }
+
+  const migrations: Migration[] = [];
+  const seenVersions = new Set<string>();
+
+  for (const file of readdirSync(dir).sort()) {
+    if (file.endsWith('.down.sql')) continue;
+
+    const match = file.match(MIGRATION_FILE_PATTERN);
+    if (!match) continue;
+
+    const version = match[1]!;
+    const name = match[2]!;
+
+    if (seenVersions.has(version)) {
+      throw new Error(`Duplicate migration version ${version} (${file})`);
+    }
+    seenVersions.add(version);
+
+    const upPath = join(dir, file);
+    const downPath = join(dir, `${version}_${name}.down.sql`);
+
+    migrations.push({
+      version,
+      name,
+      upPath,
+      downPath: existsSync(downPath) ? downPath : null,
+      checksum: checksum(readFileSync(upPath, 'utf-8')),
+    });
+  }
+
+  return migrations.sort((a, b) => parseInt(a.version, 10) - parseInt(b.version, 10));
+}
+
+/**
+ * Create the schema_migrations tracking table if needed
+ */
+export async function ensureMigrationsTable(): Promise<void> {
+  await queryPostgres(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(50) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMPTZ DEFAULT NOW(),
+      execution_ms INTEGER
+    )
+  `);
+}
+
+/**
+ * Refuse databases created from the retired src/database/postgres/schema.sql.
+ *
+ * Its tables (UUID keys, aircraft.current_airline_id, scraping_jobs) share names
+ * with the migrated schema but not its shape, so neither applying 001 nor
+ * baselining over them produces a working database; they have to be rebuilt.
+ */
+export async function assertNotLegacySchema(): Promise<void> {
+  const result = await queryPostgres<{ table_name: string; column_name: string; data_type: string }>(
+    `SELECT table_name, column_name, data_type
+     FROM information_schema.columns
+     WHERE table_schema = current_schema()
+       AND ((table_name = 'airlines' AND column_name = 'id' AND data_type = 'uuid')
+         OR (table_name = 'aircraft' AND column_name = 'current_airline_id'))`
+  );
+
+  if (result.rows.length > 0) {
+    throw new Error(
+      'This database was created from the retired schema.sql (UUID airline ids, aircraft.current_airline_id) ' +
+        'and cannot be migrated or baselined. Export its data, then rebuild it with "npm run db:migrate" ' +
+        'as described under "Databases created from schema.sql" in SCHEMA-AUDIT.md.'
+    );
+  }
+}
+
+/**
+ * Get migrations recorded as applied
+ */
+export async function getAppliedMigrations(): Promise<Map<string, AppliedMigration>> {
+  await ensureMigrationsTable();
+
+  const result = await queryPostgres<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at, execution_ms FROM schema_migrations ORDER BY version'
+  );
+
+  return new Map(result.rows.map((row) => [row.version, row]));
+}
+
+/**
+ * Compare migration files against the database
+ */
+export async function getMigrationStatus(dir: string = MIGRATIONS_DIR): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations(dir);
+  const applied = await getAppliedMigrations();
+
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const record = applied.get(migration.version);
+    let state: MigrationState = 'pending';
+
+    if (record) {
+      state = record.checksum === migration.checksum ? 'applied' : 'modified';
+    }
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      state,
+      appliedAt: record?.applied_at ?? null,
+      hasDown: migration.downPath !== null,
+    };
+  });
+
+  // Applied in the database but no longer on disk
+  const knownVersions = new Set(migrations.map((m) => m.version));
+  for (const record of applied.values()) {
+    if (!knownVersions.has(record.version)) {
+      statuses.push({
+        version: record.version,
+        name: record.name,
+        state: 'missing',
+        appliedAt: record.applied_at,
+        hasDown: false,
+      });
+    }
+  }
+
+  return statuses.sort((a, b) => parseInt(a.version, 10) - parseInt(b.version, 10));
+}
+
+/**
+ * Apply all pending migrations in order. Returns the versions applied.
+ *
+ * Refuses to run if an applied migration file has been modified since it was applied.
+ */
+export async function migrateUp(dir: string = MIGRATIONS_DIR): Promise<string[]> {
+  const migrations = loadMigrations(dir);
+  await assertNotLegacySchema();
+  const applied = await getAppliedMigrations();
+
+  const modified = migrations.filter((m) => {
+    const record = applied.get(m.version);
+    return record && record.checksum !== m.checksum;
+  });
+
+  if (modified.length > 0) {
+    throw new Error(
+      `Applied migrations have been modified: ${modified
+        .map((m) => `${m.version}_${m.name}`)
+        .join(', ')}. Create a new migration instead of editing an applied one.`
+    );
+  }
+
+  const pending = migrations.filter((m) => !applied.has(m.version));
+  const appliedVersions: string[] = [];
+
+  for (const migration of pending) {
+    const sql = readFileSync(migration.upPath, 'utf-8');
+    const startTime = Date.now();
+
+    logger.info(`Applying migration ${migration.version}_${migration.name}`);
+
+    await withTransaction(async (client) => {
+      await client.query(sql);
+      await client.query(
+        `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+         VALUES ($1, $2, $3, $4)`,
+        [migration.version, migration.name, migration.checksum, Date.now() - startTime]
+      );
+    });
+
+    logger.info(`Applied migration ${migration.version}_${migration.name} in ${Date.now() - startTime}ms`);
+    appliedVersions.push(migration.version);
+  }
+
+  return appliedVersions;
+}
+
+/**
+ * Roll back the most recently applied migrations. Returns the versions rolled back.
+ */
+export async function migrateDown(steps: number = 1, dir: string = MIGRATIONS_DIR): Promise<string[]> {
+  const migrations = new Map(loadMigrations(dir).map((m) => [m.version, m]));
+  const applied = [...(await getAppliedMigrations()).values()]
+    .sort((a, b) => parseInt(b.version, 10) - parseInt(a.version, 10))
+    .slice(0, steps);
+
+  const rolledBack: string[] = [];
+
+  for (const record of applied) {
+    const migration = migrations.get(record.version);
+
+    if (!migration?.downPath) {
+      throw new Error(`No down migration for ${record.version}_${record.name}`);
+    }
+
+    const sql = readFileSync(migration.downPath, 'utf-8');
+
+    logger.info(`Rolling back migration ${record.version}_${record.name}`);
+
+    await withTransaction(async (client) => {
+      await client.query(sql);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [record.version]);
+    });
+
+    rolledBack.push(record.version);
+  }
+
+  return rolledBack;
+}
+
+/**
+ * Mark migrations up to and including a version as applied without running them.
+ * Used to adopt databases whose migrations were applied by hand (psql) before
+ * the runner existed.
+ */
+export async function baseline(version: string, dir: string = MIGRATIONS_DIR): Promise<string[]> {
+  const migrations = loadMigrations(dir).filter(
+    (m) => parseInt(m.version, 10) <= parseInt(version, 10)
+  );
+  await assertNotLegacySchema();
+  const applied = await getAppliedMigrations();
+  const marked: string[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    await queryPostgres(
+      `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+       VALUES ($1, $2, $3, 0)`,
+      [migration.version, migration.name, migration.checksum]
+    );
+    marked.push(migration.version);
+  }
+
+  return marked;
+}
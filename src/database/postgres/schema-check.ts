@@ -0,0 +1,297 @@
+/**
+ * PostgreSQL Schema Compatibility Check
+ *
+ * Verifies at startup that every table and column the application queries
+ * exists, so an outdated or foreign schema fails immediately with a list of
+ * what is missing instead of throwing on the first query that touches it.
+ *
+ * The canonical schema is defined by the files in `migrations/`.
+ */
+
+import { queryPostgres } from '../../lib/db-clients.js';
+import { createLogger } from '../../lib/logger.js';
+
+const logger = createLogger('schema-check');
+
+/**
+ * Columns the application reads or writes, by table
+ */
+export const REQUIRED_COLUMNS: Record<string, readonly string[]> = {
+  airlines: [
+    'id',
+    'iata_code',
+    'icao_code',
+    'name',
+    'country',
+    'alliance',
+    'business_model',
+    'headquarters',
+    'website_url',
+    'fleet_size',
+    'founded_year',
+    'hub_airport',
+    'last_scraped_at',
+    'scrape_frequency',
+    'scrape_status',
+    'scrape_source_urls',
+    'scrape_enabled',
+    'scrape_schedule_cron',
+    'data_completeness_score',
+    'created_at',
+    'updated_at',
+  ],
+  aircraft_types: [
+    'id',
+    'iata_code',
+    'icao_code',
+    'manufacturer',
+    'model',
+    'series',
+    'full_name',
+    'type_category',
+    'typical_range_km',
+    'max_range_km',
+    'cruising_speed_kmh',
+    'typical_seat_config',
+    'max_seats',
+    'engine_type',
+    'engine_count',
+  ],
+  aircraft: [
+    'id',
+    'airline_id',
+    'aircraft_type_id',
+    'registration',
+    'aircraft_type',
+    'manufacturer',
+    'model',
+    'msn',
+    'engines',
+    'status',
+    'in_service_date',
+    'manufactured_date',
+    'delivery_date',
+    'seat_configuration',
+    'total_seats',
+    'ownership_type',
+    'lessor',
+    'lease_return_date',
+    'total_flight_hours',
+    'total_cycles',
+    'home_base',
+    'next_maintenance_date',
+    'maintenance_status',
+    'last_major_check',
+    'last_major_check_date',
+    'current_location',
+    'last_flight_date',
+    'data_source',
+    'last_verified_at',
+    'verification_method',
+    'data_confidence',
+    'wifi_available',
+    'entertainment_system',
+    'livery_description',
+    'retirement_date',
+    'created_at',
+    'updated_at',
+  ],
+  fleet_changes: [
+    'id',
+    'airline_id',
+    'aircraft_id',
+    'change_type',
+    'change_date',
+    'registration',
+    'aircraft_type',
+    'reason',
+    'previous_airline_id',
+    'next_airline_id',
+    'source_url',
+    'scrape_job_id',
+    'details',
+    'created_at',
+  ],
+  aircraft_configurations: [
+    'id',
+    'aircraft_id',
+    'effective_date',
+    'end_date',
+    'seat_configuration',
+    'total_seats',
+  ],
+  page_snapshots: [
+    'id',
+    'url',
+    'final_url',
+    'page_kind',
+    'airline_code',
+    'registration',
+    'scrape_job_id',
+    'title',
+    'content_hash',
+    'content_size',
+    'content',
+    'fetched_at',
+  ],
+  aircraft_field_sources: [
+    'aircraft_id',
+    'field_name',
+    'snapshot_id',
+    'source_url',
+    'source_type',
+    'extraction_method',
+    'confidence',
+    'extracted_at',
+    'scrape_job_id',
+    'updated_at',
+  ],
+  data_sources: [
+    'id',
+    'name',
+    'source_type',
+    'fleet_url_template',
+    'aircraft_url_template',
+    'scraping_instructions',
+    'base_reliability',
+    'reliability_score',
+    'confirmations',
+    'contradictions',
+    'last_scored_at',
+    'is_active',
+  ],
+  scrape_jobs: [
+    'id',
+    'job_id',
+    'airline_id',
+    'job_type',
+    'status',
+    'priority',
+    'started_at',
+    'completed_at',
+    'duration_seconds',
+    'aircraft_found',
+    'aircraft_added',
+    'aircraft_updated',
+    'aircraft_removed',
+    'errors_count',
+    'error_message',
+    'metadata',
+    'created_at',
+    'updated_at',
+  ],
+  api_keys: [
+    'id',
+    'key_name',
+    'key_hash',
+    'key_prefix',
+    'permissions',
+    'rate_limit_tier',
+    'requests_per_hour',
+    'is_active',
+    'expires_at',
+    'last_used_at',
+    'revoked_at',
+  ],
+  audit_log: [
+    'id',
+    'api_key_id',
+    'ip_address',
+    'user_agent',
+    'action',
+    'resource_type',
+    'resource_id',
+    'details',
+    'http_method',
+    'http_path',
+    'http_status',
+    'success',
+    'error_message',
+    'timestamp',
+  ],
+};
+
+export interface SchemaMismatch {
+  table: string;
+  tableMissing: boolean;
+  missingColumns: string[];
+}
+
+/**
+ * Raised when the database schema does not match what the application expects
+ */
+export class SchemaCompatibilityError extends Error {
+  readonly mismatches: SchemaMismatch[];
+
+  constructor(mismatches: SchemaMismatch[]) {
+    const details = mismatches
+      .map((m) =>
+        m.tableMissing
+          ? `table "${m.table}" is missing`
+          : `"${m.table}" is missing columns: ${m.missingColumns.join(', ')}`
+      )
+      .join('; ');
+
+    super(`Database schema is incompatible: ${details}. Run "npm run db:migrate" to update the schema.`);
+    this.name = 'SchemaCompatibilityError';
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * Compare the connected database against REQUIRED_COLUMNS
+ */
+export async function checkSchemaCompatibility(
+  required: Record<string, readonly string[]> = REQUIRED_COLUMNS
+): Promise<SchemaMismatch[]> {
+  const tables = Object.keys(required);
+
+  const result = await queryPostgres<{ table_name: string; column_name: string }>(
+    `SELECT table_name, column_name
+     FROM information_schema.columns
+     WHERE table_schema = current_schema()
+       AND table_name = ANY($1)`,
+    [tables]
+  );
+
+  const existing = new Map<string, Set<string>>();
+  for (const row of result.rows) {
+    if (!existing.has(row.table_name)) {
+      existing.set(row.table_name, new Set());
+    }
+    existing.get(row.table_name)!.add(row.column_name);
+  }
+
+  const mismatches: SchemaMismatch[] = [];
+
+  for (const table of tables) {
+    const columns = existing.get(table);
+
+    if (!columns) {
+      mismatches.push({ table, tableMissing: true, missingColumns: [...required[table]!] });
+      continue;
+    }
+
+    const missingColumns = required[table]!.filter((column) => !columns.has(column));
+    if (missingColumns.length > 0) {
+      mismatches.push({ table, tableMissing: false, missingColumns });
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Throw a SchemaCompatibilityError if the database schema is incompatible
+ */
+export async function assertSchemaCompatible(): Promise<void> {
+  const mismatches = await checkSchemaCompatibility();
+
+  if (mismatches.length > 0) {
+    const error = new SchemaCompatibilityError(mismatches);
+    logger.error(error.message);
+    throw error;
+  }
+
+  logger.info('Database schema compatibility verified');
+}
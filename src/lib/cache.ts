@@ -64,6 +64,23 @@ export class Cache<T = any> {
     logger.debug(`Cache delete: ${key}`);
   }
 
+  /**
+   * Delete all entries whose key starts with a prefix
+   */
+  deleteByPrefix(prefix: string): number {
+    let removed = 0;
+
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+
+    logger.debug(`Cache delete by prefix: ${prefix} (${removed} entries)`);
+    return removed;
+  }
+
   /**
    * Clear all cache entries
    */
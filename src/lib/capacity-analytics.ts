@@ -0,0 +1,288 @@
+/**
+ * Capacity Analytics
+ *
+ * Seat capacity of active aircraft, by cabin class, aircraft type, home base,
+ * airline, country and alliance. An aircraft's own `seat_configuration` /
+ * `total_seats` are used when present, otherwise the `typical_seat_config` of
+ * its aircraft type. Per-type rows carry range and cruising speed so available
+ * seat-kilometres can be estimated from utilisation.
+ */
+
+import { queryPostgres } from './db-clients.js';
+import { AirlinesNotFoundError } from './fleet-comparison.js';
+
+export const CABIN_CLASSES = ['first', 'business', 'premium_economy', 'economy'] as const;
+
+export type CabinClass = (typeof CABIN_CLASSES)[number];
+
+/** Upper bounds of the seats-per-aircraft histogram buckets */
+const SEAT_BUCKETS = [50, 100, 150, 200, 250, 300, 400];
+
+export interface CapacityFilters {
+  airline_code?: string;
+  country?: string;
+  alliance?: string;
+}
+
+/** Seats per cabin; `unassigned` holds seats known only as a total */
+export type CabinSeats = Record<CabinClass | 'unassigned', number>;
+
+export interface CapacityGroup {
+  name: string;
+  airlines: number;
+  aircraft: number;
+  seats: number;
+  avg_seats_per_aircraft: number | null;
+}
+
+export interface TypeCapacity extends CapacityGroup {
+  min_seats: number | null;
+  max_seats: number | null;
+  typical_range_km: number | null;
+  cruising_speed_kmh: number | null;
+  /** Seats × cruising speed: available seat-kilometres per hour flown */
+  ask_per_hour: number | null;
+}
+
+export interface SeatBucket {
+  range: string;
+  aircraft: number;
+}
+
+export interface CapacityAnalytics {
+  filters: CapacityFilters;
+  totals: {
+    aircraft: number;
+    aircraft_with_seats: number;
+    seats: number;
+    avg_seats_per_aircraft: number | null;
+    median_seats_per_aircraft: number | null;
+    ask_per_hour: number;
+    /** Where seat counts came from: the aircraft itself, its type's typical config, or nowhere */
+    seat_sources: Record<'aircraft' | 'type_typical' | 'unknown', number>;
+  };
+  by_cabin: CabinSeats;
+  by_type: TypeCapacity[];
+  by_home_base: CapacityGroup[];
+  by_airline: CapacityGroup[];
+  by_country: CapacityGroup[];
+  by_alliance: CapacityGroup[];
+  seat_distribution: SeatBucket[];
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * Active aircraft in scope with their effective cabin layout and seat count
+ */
+function fleetSeatsCte(filters: CapacityFilters, params: any[]): string {
+  const conditions = [`a.status = 'active'`];
+
+  if (filters.airline_code) {
+    params.push(filters.airline_code);
+    conditions.push(`(UPPER(al.iata_code) = UPPER($${params.length}) OR UPPER(al.icao_code) = UPPER($${params.length}))`);
+  }
+  if (filters.country) {
+    params.push(filters.country);
+    conditions.push(`UPPER(al.country) = UPPER($${params.length})`);
+  }
+  if (filters.alliance) {
+    params.push(filters.alliance);
+    conditions.push(`UPPER(al.alliance) = UPPER($${params.length})`);
+  }
+
+  return `
+    WITH fleet AS (
+      SELECT
+        a.id,
+        al.id as airline_id,
+        COALESCE(al.iata_code, al.icao_code) as airline_code,
+        COALESCE(al.country, 'Unknown') as country,
+        COALESCE(al.alliance, 'Unaffiliated') as alliance,
+        COALESCE(NULLIF(a.home_base, ''), 'Unknown') as home_base,
+        COALESCE(at.full_name, a.aircraft_type) as aircraft_type,
+        at.typical_range_km,
+        at.cruising_speed_kmh,
+        source.seat_source,
+        cabins.layout,
+        CASE
+          WHEN source.seat_source = 'aircraft' THEN COALESCE(a.total_seats, layout_total.seats)
+          ELSE layout_total.seats
+        END as seats
+      FROM aircraft a
+      JOIN airlines al ON a.airline_id = al.id
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN (jsonb_typeof(a.seat_configuration) = 'object' AND a.seat_configuration <> '{}'::jsonb)
+            OR a.total_seats IS NOT NULL THEN 'aircraft'
+          WHEN jsonb_typeof(at.typical_seat_config) = 'object' THEN 'type_typical'
+          ELSE 'unknown'
+        END as seat_source
+      ) source
+      CROSS JOIN LATERAL (
+        SELECT CASE source.seat_source
+          WHEN 'aircraft' THEN
+            CASE WHEN jsonb_typeof(a.seat_configuration) = 'object' THEN NULLIF(a.seat_configuration, '{}'::jsonb) END
+          WHEN 'type_typical' THEN at.typical_seat_config
+        END as layout
+      ) cabins
+      CROSS JOIN LATERAL (
+        SELECT SUM(value::INTEGER)::INTEGER as seats FROM jsonb_each_text(cabins.layout)
+      ) layout_total
+      WHERE ${conditions.join(' AND ')}
+    )
+  `;
+}
+
+function toGroup(row: any): CapacityGroup {
+  return {
+    name: row.name,
+    airlines: Number(row.airlines),
+    aircraft: Number(row.aircraft),
+    seats: Number(row.seats),
+    avg_seats_per_aircraft: toNumber(row.avg_seats_per_aircraft),
+  };
+}
+
+/**
+ * Seat capacity of the active fleet in scope (one airline, a country, an
+ * alliance, or everything)
+ */
+export async function getCapacityAnalytics(filters: CapacityFilters = {}): Promise<CapacityAnalytics> {
+  if (filters.airline_code) {
+    const airline = await queryPostgres(
+      `SELECT id FROM airlines
+       WHERE UPPER(iata_code) = UPPER($1) OR UPPER(icao_code) = UPPER($1)
+       LIMIT 1`,
+      [filters.airline_code]
+    );
+    if (airline.rows.length === 0) {
+      throw new AirlinesNotFoundError([filters.airline_code.toUpperCase()]);
+    }
+  }
+
+  const params: any[] = [];
+  const fleet = fleetSeatsCte(filters, params);
+
+  const groupBy = (column: string) =>
+    queryPostgres(
+      `${fleet}
+       SELECT
+         ${column} as name,
+         COUNT(DISTINCT airline_id) as airlines,
+         COUNT(*) as aircraft,
+         COALESCE(SUM(seats), 0) as seats,
+         ROUND(AVG(seats), 1) as avg_seats_per_aircraft
+       FROM fleet
+       GROUP BY ${column}
+       ORDER BY COALESCE(SUM(seats), 0) DESC, ${column}`,
+      params
+    );
+
+  const cabinSums = CABIN_CLASSES.map(
+    (cabin) => `COALESCE(SUM((layout->>'${cabin}')::INTEGER), 0) as ${cabin}`
+  ).join(',\n         ');
+  const bucketCases = SEAT_BUCKETS.map(
+    (upper) => `WHEN seats <= ${upper} THEN ${upper}`
+  ).join(' ');
+
+  const [totalsResult, typeResult, baseResult, airlineResult, countryResult, allianceResult, bucketResult] =
+    await Promise.all([
+      queryPostgres(
+        `${fleet}
+         SELECT
+           COUNT(*) as aircraft,
+           COUNT(seats) as aircraft_with_seats,
+           COALESCE(SUM(seats), 0) as seats,
+           ROUND(AVG(seats), 1) as avg_seats_per_aircraft,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY seats) as median_seats_per_aircraft,
+           COALESCE(SUM(seats * cruising_speed_kmh), 0) as ask_per_hour,
+           COUNT(*) FILTER (WHERE seat_source = 'aircraft') as source_aircraft,
+           COUNT(*) FILTER (WHERE seat_source = 'type_typical') as source_type_typical,
+           COUNT(*) FILTER (WHERE seat_source = 'unknown') as source_unknown,
+           ${cabinSums}
+         FROM fleet`,
+        params
+      ),
+      queryPostgres(
+        `${fleet}
+         SELECT
+           aircraft_type as name,
+           COUNT(DISTINCT airline_id) as airlines,
+           COUNT(*) as aircraft,
+           COALESCE(SUM(seats), 0) as seats,
+           ROUND(AVG(seats), 1) as avg_seats_per_aircraft,
+           MIN(seats) as min_seats,
+           MAX(seats) as max_seats,
+           MAX(typical_range_km) as typical_range_km,
+           MAX(cruising_speed_kmh) as cruising_speed_kmh,
+           SUM(seats * cruising_speed_kmh) as ask_per_hour
+         FROM fleet
+         GROUP BY aircraft_type
+         ORDER BY COALESCE(SUM(seats), 0) DESC, aircraft_type`,
+        params
+      ),
+      groupBy('home_base'),
+      groupBy('airline_code'),
+      groupBy('country'),
+      groupBy('alliance'),
+      queryPostgres(
+        `${fleet}
+         SELECT CASE ${bucketCases} ELSE NULL END as upper, COUNT(*) as aircraft
+         FROM fleet
+         WHERE seats IS NOT NULL
+         GROUP BY 1`,
+        params
+      ),
+    ]);
+
+  const totals = totalsResult.rows[0] || {};
+
+  const cabinTotal = CABIN_CLASSES.reduce((sum, cabin) => sum + Number(totals[cabin] || 0), 0);
+  const byCabin = Object.fromEntries(CABIN_CLASSES.map((cabin) => [cabin, Number(totals[cabin] || 0)])) as CabinSeats;
+  byCabin.unassigned = Math.max(Number(totals.seats || 0) - cabinTotal, 0);
+
+  const bucketCounts = new Map(bucketResult.rows.map((row) => [toNumber(row.upper), Number(row.aircraft)]));
+  const seatDistribution: SeatBucket[] = SEAT_BUCKETS.map((upper, index) => ({
+    range: `${index === 0 ? 1 : SEAT_BUCKETS[index - 1]! + 1}-${upper}`,
+    aircraft: bucketCounts.get(upper) || 0,
+  }));
+  seatDistribution.push({
+    range: `${SEAT_BUCKETS[SEAT_BUCKETS.length - 1]! + 1}+`,
+    aircraft: bucketCounts.get(null) || 0,
+  });
+
+  return {
+    filters,
+    totals: {
+      aircraft: Number(totals.aircraft || 0),
+      aircraft_with_seats: Number(totals.aircraft_with_seats || 0),
+      seats: Number(totals.seats || 0),
+      avg_seats_per_aircraft: toNumber(totals.avg_seats_per_aircraft),
+      median_seats_per_aircraft: toNumber(totals.median_seats_per_aircraft),
+      ask_per_hour: Number(totals.ask_per_hour || 0),
+      seat_sources: {
+        aircraft: Number(totals.source_aircraft || 0),
+        type_typical: Number(totals.source_type_typical || 0),
+        unknown: Number(totals.source_unknown || 0),
+      },
+    },
+    by_cabin: byCabin,
+    by_type: typeResult.rows.map((row) => ({
+      ...toGroup(row),
+      min_seats: toNumber(row.min_seats),
+      max_seats: toNumber(row.max_seats),
+      typical_range_km: toNumber(row.typical_range_km),
+      cruising_speed_kmh: toNumber(row.cruising_speed_kmh),
+      ask_per_hour: toNumber(row.ask_per_hour),
+    })),
+    by_home_base: baseResult.rows.map(toGroup),
+    by_airline: airlineResult.rows.map(toGroup),
+    by_country: countryResult.rows.map(toGroup),
+    by_alliance: allianceResult.rows.map(toGroup),
+    seat_distribution: seatDistribution,
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Data Sources
+ *
+ * External fleet databases and trackers the scraping agents read, loaded
+ * from the `data_sources` table. Each source has URL templates for airline
+ * fleet pages and airframe pages, optional LLM instructions, and a
+ * reliability score that orders the sources and weights their values when
+ * results are merged.
+ *
+ * Reliability is learned: every value a source supplies is counted as a
+ * confirmation (it passed validation, or matched the value other sources
+ * agreed on) or a contradiction (validation flagged it, or other sources
+ * outvoted it). The score blends the source's base reliability with that
+ * record, so a few outcomes move it a little and many move it a lot.
+ */
+
+import { queryPostgres } from './db-clients.js';
+
+export type SourceType = 'official' | 'database' | 'tracker';
+
+export type SourcePageKind = 'fleet' | 'aircraft';
+
+/**
+ * Weight of the base reliability, in outcomes. With 20, a source needs 20
+ * observed outcomes before they count as much as its base estimate.
+ */
+export const RELIABILITY_PRIOR_WEIGHT = 20;
+
+export interface DataSource {
+  id: number;
+  name: string;
+  source_type: SourceType;
+  fleet_url_template: string | null;
+  aircraft_url_template: string | null;
+  scraping_instructions: string | null;
+  base_reliability: number;
+  reliability_score: number;
+  confirmations: number;
+  contradictions: number;
+}
+
+/** Observed outcomes for one source */
+export interface SourceOutcome {
+  confirmations: number;
+  contradictions: number;
+}
+
+/** Values for URL template placeholders */
+export interface UrlTemplateValues {
+  airline_name?: string;
+  iata?: string | null;
+  icao?: string | null;
+  registration?: string;
+}
+
+/**
+ * Active sources that have pages of the given kind, most reliable first
+ */
+export async function getDataSources(kind: SourcePageKind): Promise<DataSource[]> {
+  const templateColumn = kind === 'fleet' ? 'fleet_url_template' : 'aircraft_url_template';
+
+  const result = await queryPostgres<DataSource>(
+    `SELECT
+       id, name, source_type, fleet_url_template, aircraft_url_template, scraping_instructions,
+       base_reliability::FLOAT as base_reliability,
+       reliability_score::FLOAT as reliability_score,
+       confirmations, contradictions
+     FROM data_sources
+     WHERE is_active = true AND ${templateColumn} IS NOT NULL
+     ORDER BY reliability_score DESC, name`
+  );
+
+  return result.rows;
+}
+
+/**
+ * Fill a URL template. Returns null when a placeholder has no value.
+ */
+export function expandUrlTemplate(template: string, values: UrlTemplateValues): string | null {
+  const replacements: Record<string, string | null | undefined> = {
+    airline_slug: values.airline_name?.replace(/ /g, '-'),
+    airline_name: values.airline_name !== undefined ? encodeURIComponent(values.airline_name) : undefined,
+    iata: values.iata,
+    icao: values.icao,
+    registration: values.registration,
+    registration_lower: values.registration?.toLowerCase(),
+  };
+
+  let missing = false;
+  const url = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = replacements[name];
+    if (!value) {
+      missing = true;
+      return placeholder;
+    }
+    return value;
+  });
+
+  return missing ? null : url;
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The source whose templates point at the host of `url`
+ */
+export function findSourceForUrl(sources: DataSource[], url: string): DataSource | null {
+  const host = hostOf(url);
+  if (!host) {
+    return null;
+  }
+
+  return (
+    sources.find((source) =>
+      [source.fleet_url_template, source.aircraft_url_template].some(
+        (template) => template !== null && hostOf(template.replace(/\{\w+\}/g, 'x')) === host
+      )
+    ) ?? null
+  );
+}
+
+/**
+ * Add outcomes to each source's record and rescore it
+ */
+export async function recordSourceOutcomes(outcomes: Map<number, SourceOutcome>): Promise<void> {
+  const entries = [...outcomes].filter(([, outcome]) => outcome.confirmations + outcome.contradictions > 0);
+  if (entries.length === 0) {
+    return;
+  }
+
+  await queryPostgres(
+    `UPDATE data_sources ds
+     SET
+       confirmations = ds.confirmations + o.confirmations,
+       contradictions = ds.contradictions + o.contradictions,
+       reliability_score = ROUND(
+         ($4 * ds.base_reliability + ds.confirmations + o.confirmations)
+           / ($4 + ds.confirmations + o.confirmations + ds.contradictions + o.contradictions),
+         2
+       ),
+       last_scored_at = NOW()
+     FROM UNNEST($1::INTEGER[], $2::INTEGER[], $3::INTEGER[]) AS o(id, confirmations, contradictions)
+     WHERE ds.id = o.id`,
+    [
+      entries.map(([id]) => id),
+      entries.map(([, outcome]) => outcome.confirmations),
+      entries.map(([, outcome]) => outcome.contradictions),
+      RELIABILITY_PRIOR_WEIGHT,
+    ]
+  );
+}
+
+/**
+ * Add one outcome to a tally keyed by source id
+ */
+export function tallyOutcome(outcomes: Map<number, SourceOutcome>, sourceId: number, confirmed: boolean): void {
+  const outcome = outcomes.get(sourceId) ?? { confirmations: 0, contradictions: 0 };
+  if (confirmed) {
+    outcome.confirmations++;
+  } else {
+    outcome.contradictions++;
+  }
+  outcomes.set(sourceId, outcome);
+}
@@ -142,6 +142,13 @@ export function getNeo4jDriver(): neo4j.Driver {
   return neo4jDriver;
 }
 
+/**
+ * Check whether Neo4j is configured (NEO4J_URI set) and its driver is initialized
+ */
+export function isNeo4jAvailable(): boolean {
+  return Boolean(process.env['NEO4J_URI']) && neo4jDriver !== null;
+}
+
 /**
  * Execute a PostgreSQL query
  */
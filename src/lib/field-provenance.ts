@@ -0,0 +1,85 @@
+/**
+ * Field Provenance
+ *
+ * Where each scraped aircraft value came from: the source page and its type,
+ * how the value was extracted (site parser, LLM or a validation correction),
+ * how confident we are in it and when it was extracted. The scraper workflow
+ * stores one row per aircraft field in `aircraft_field_sources`, replacing it
+ * when a later scrape sets the field again; values never set by a scrape have
+ * no provenance.
+ */
+
+import { queryPostgres } from './db-clients.js';
+
+export const EXTRACTION_METHODS = ['parser', 'llm', 'validation'] as const;
+
+export type ExtractionMethod = (typeof EXTRACTION_METHODS)[number];
+
+/** Provenance of one aircraft field value */
+export interface FieldProvenance {
+  /** Archived page the value was read from; null when not archived or not read from a page */
+  snapshot_id: number | null;
+  source_url: string | null;
+  /** official, database or tracker */
+  source_type: string | null;
+  extraction_method: ExtractionMethod;
+  /** 0-1 */
+  confidence: number;
+  /** ISO timestamp */
+  extracted_at: string;
+}
+
+/** Stored provenance row, with the scrape job and snapshot it belongs to */
+export interface StoredFieldProvenance extends FieldProvenance {
+  field_name: string;
+  scrape_job_id: number | null;
+  job_id: string | null;
+  content_hash: string | null;
+  fetched_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * Provenance of each scraped field of an aircraft, by aircraft id
+ */
+export async function getFieldProvenance(aircraftId: number): Promise<StoredFieldProvenance[]> {
+  const result = await queryPostgres<StoredFieldProvenance>(
+    `SELECT
+       afs.field_name,
+       afs.snapshot_id,
+       afs.source_url,
+       afs.source_type,
+       afs.extraction_method,
+       afs.confidence::FLOAT as confidence,
+       afs.extracted_at,
+       afs.scrape_job_id,
+       sj.job_id,
+       ps.content_hash,
+       ps.fetched_at,
+       afs.updated_at
+     FROM aircraft_field_sources afs
+     LEFT JOIN page_snapshots ps ON afs.snapshot_id = ps.id
+     LEFT JOIN scrape_jobs sj ON afs.scrape_job_id = sj.id
+     WHERE afs.aircraft_id = $1
+     ORDER BY afs.field_name`,
+    [aircraftId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Provenance of each scraped field of an aircraft, or null when the aircraft
+ * does not exist
+ */
+export async function getAircraftFieldSources(registration: string): Promise<StoredFieldProvenance[] | null> {
+  const aircraft = await queryPostgres<{ id: number }>(
+    `SELECT id FROM aircraft WHERE UPPER(registration) = UPPER($1) LIMIT 1`,
+    [registration]
+  );
+  if (aircraft.rows.length === 0) {
+    return null;
+  }
+
+  return getFieldProvenance(aircraft.rows[0]!.id);
+}
@@ -0,0 +1,271 @@
+/**
+ * Fleet Comparison
+ *
+ * Compares the active fleets of several airlines side by side. Type mix and
+ * fleet age come from the `get_fleet_composition` and `calculate_fleet_age`
+ * SQL functions; every per-type and per-manufacturer row has an entry for each
+ * airline (zero when the airline does not operate it) so results line up.
+ */
+
+import { queryPostgres } from './db-clients.js';
+
+export const MIN_COMPARED_AIRLINES = 2;
+export const MAX_COMPARED_AIRLINES = 10;
+
+export interface AirlineFleetSummary {
+  code: string;
+  name: string;
+  active_aircraft: number;
+  total_seats: number;
+  avg_age_years: number | null;
+  oldest_aircraft_years: number | null;
+  newest_aircraft_years: number | null;
+  aircraft_types: number;
+}
+
+export interface AlignedCount {
+  count: number;
+  percentage: number;
+}
+
+export interface AircraftTypeComparison {
+  aircraft_type: string;
+  airlines: Record<string, AlignedCount & { avg_age_years: number | null; seats: number }>;
+}
+
+export interface ManufacturerComparison {
+  manufacturer: string;
+  airlines: Record<string, AlignedCount>;
+}
+
+/**
+ * Pairwise fleet commonality. `commonality_score` is the share of the two fleets
+ * that overlaps by type (sum of the smaller type percentage, 0-100);
+ * `type_overlap` is the Jaccard index of the two type sets (0-1).
+ */
+export interface FleetCommonality {
+  airlines: [string, string];
+  shared_types: string[];
+  type_overlap: number;
+  commonality_score: number;
+}
+
+export interface FleetComparison {
+  airlines: AirlineFleetSummary[];
+  aircraft_types: AircraftTypeComparison[];
+  manufacturers: ManufacturerComparison[];
+  commonality: FleetCommonality[];
+}
+
+export class FleetComparisonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FleetComparisonError';
+  }
+}
+
+export class AirlinesNotFoundError extends Error {
+  constructor(public codes: string[]) {
+    super(`Airline${codes.length === 1 ? '' : 's'} not found: ${codes.join(', ')}`);
+    this.name = 'AirlinesNotFoundError';
+  }
+}
+
+interface AirlineFleet {
+  summary: AirlineFleetSummary;
+  types: Map<string, AlignedCount & { avg_age_years: number | null; seats: number }>;
+  manufacturers: Map<string, number>;
+}
+
+const UNKNOWN = 'Unknown';
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Normalise and validate the list of airline codes to compare
+ */
+export function parseComparedCodes(codes: string[]): string[] {
+  const unique = [...new Set(codes.map((code) => code.trim().toUpperCase()).filter(Boolean))];
+
+  if (unique.length < MIN_COMPARED_AIRLINES || unique.length > MAX_COMPARED_AIRLINES) {
+    throw new FleetComparisonError(
+      `Compare between ${MIN_COMPARED_AIRLINES} and ${MAX_COMPARED_AIRLINES} distinct airlines (got ${unique.length})`
+    );
+  }
+
+  return unique;
+}
+
+/**
+ * Load one airline's active fleet
+ */
+async function loadAirlineFleet(code: string, airline: { id: number; name: string }): Promise<AirlineFleet> {
+  const [compositionResult, ageResult, typeDetailResult, manufacturerResult] = await Promise.all([
+    queryPostgres('SELECT aircraft_type, count, percentage FROM get_fleet_composition($1)', [airline.id]),
+    queryPostgres(
+      'SELECT avg_age_years, oldest_aircraft_years, newest_aircraft_years FROM calculate_fleet_age($1)',
+      [airline.id]
+    ),
+    queryPostgres(
+      `SELECT a.aircraft_type,
+              ROUND(AVG(EXTRACT(YEAR FROM AGE(CURRENT_DATE, a.manufactured_date))), 1) as avg_age_years,
+              COALESCE(SUM(a.total_seats), 0)::INTEGER as seats
+       FROM aircraft a
+       WHERE a.airline_id = $1 AND a.status = 'active'
+       GROUP BY a.aircraft_type`,
+      [airline.id]
+    ),
+    queryPostgres(
+      `SELECT COALESCE(at.manufacturer, a.manufacturer) as manufacturer, COUNT(*)::INTEGER as count
+       FROM aircraft a
+       LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
+       WHERE a.airline_id = $1 AND a.status = 'active'
+       GROUP BY COALESCE(at.manufacturer, a.manufacturer)`,
+      [airline.id]
+    ),
+  ]);
+
+  const typeDetails = new Map(
+    typeDetailResult.rows.map((row) => [
+      row.aircraft_type || UNKNOWN,
+      { avg_age_years: toNumber(row.avg_age_years), seats: row.seats as number },
+    ])
+  );
+
+  const types = new Map<string, AlignedCount & { avg_age_years: number | null; seats: number }>();
+  for (const row of compositionResult.rows) {
+    const type = row.aircraft_type || UNKNOWN;
+    const detail = typeDetails.get(type);
+
+    types.set(type, {
+      count: Number(row.count),
+      percentage: Number(row.percentage),
+      avg_age_years: detail?.avg_age_years ?? null,
+      seats: detail?.seats ?? 0,
+    });
+  }
+
+  const manufacturers = new Map<string, number>(
+    manufacturerResult.rows.map((row) => [row.manufacturer || UNKNOWN, row.count as number])
+  );
+
+  const age = ageResult.rows[0] || {};
+  const activeAircraft = [...types.values()].reduce((sum, type) => sum + type.count, 0);
+
+  return {
+    summary: {
+      code,
+      name: airline.name,
+      active_aircraft: activeAircraft,
+      total_seats: [...types.values()].reduce((sum, type) => sum + type.seats, 0),
+      avg_age_years: toNumber(age.avg_age_years),
+      oldest_aircraft_years: toNumber(age.oldest_aircraft_years),
+      newest_aircraft_years: toNumber(age.newest_aircraft_years),
+      aircraft_types: types.size,
+    },
+    types,
+    manufacturers,
+  };
+}
+
+/**
+ * Pairwise commonality between two fleets
+ */
+function commonalityOf(a: AirlineFleet, b: AirlineFleet): FleetCommonality {
+  const shared = [...a.types.keys()].filter((type) => b.types.has(type)).sort();
+  const union = new Set([...a.types.keys(), ...b.types.keys()]);
+
+  const score = shared.reduce(
+    (sum, type) => sum + Math.min(a.types.get(type)!.percentage, b.types.get(type)!.percentage),
+    0
+  );
+
+  return {
+    airlines: [a.summary.code, b.summary.code],
+    shared_types: shared,
+    type_overlap: union.size > 0 ? round(shared.length / union.size, 2) : 0,
+    commonality_score: round(score, 1),
+  };
+}
+
+/**
+ * Compare the active fleets of 2-10 airlines
+ */
+export async function compareFleets(codes: string[]): Promise<FleetComparison> {
+  const requested = parseComparedCodes(codes);
+
+  const airlineResult = await queryPostgres<{
+    id: number;
+    name: string;
+    iata_code: string | null;
+    icao_code: string | null;
+  }>(
+    `SELECT id, name, iata_code, icao_code FROM airlines
+     WHERE UPPER(iata_code) = ANY($1) OR UPPER(icao_code) = ANY($1)`,
+    [requested]
+  );
+
+  const airlineFor = (code: string) =>
+    airlineResult.rows.find((row) => row.iata_code?.toUpperCase() === code) ||
+    airlineResult.rows.find((row) => row.icao_code?.toUpperCase() === code);
+
+  const missing = requested.filter((code) => !airlineFor(code));
+  if (missing.length > 0) {
+    throw new AirlinesNotFoundError(missing);
+  }
+
+  const fleets = await Promise.all(requested.map((code) => loadAirlineFleet(code, airlineFor(code)!)));
+
+  // Aligned per-type rows, most common types first
+  const allTypes = new Set(fleets.flatMap((fleet) => [...fleet.types.keys()]));
+  const aircraftTypes: AircraftTypeComparison[] = [...allTypes].map((type) => ({
+    aircraft_type: type,
+    airlines: Object.fromEntries(
+      fleets.map((fleet) => [
+        fleet.summary.code,
+        fleet.types.get(type) || { count: 0, percentage: 0, avg_age_years: null, seats: 0 },
+      ])
+    ),
+  }));
+
+  const totalOf = (row: { airlines: Record<string, AlignedCount> }) =>
+    Object.values(row.airlines).reduce((sum, entry) => sum + entry.count, 0);
+  aircraftTypes.sort((a, b) => totalOf(b) - totalOf(a) || a.aircraft_type.localeCompare(b.aircraft_type));
+
+  // Aligned manufacturer mix
+  const allManufacturers = new Set(fleets.flatMap((fleet) => [...fleet.manufacturers.keys()]));
+  const manufacturers: ManufacturerComparison[] = [...allManufacturers].map((manufacturer) => ({
+    manufacturer,
+    airlines: Object.fromEntries(
+      fleets.map((fleet) => {
+        const count = fleet.manufacturers.get(manufacturer) || 0;
+        const total = fleet.summary.active_aircraft;
+        return [fleet.summary.code, { count, percentage: total > 0 ? round((count / total) * 100, 2) : 0 }];
+      })
+    ),
+  }));
+  manufacturers.sort((a, b) => totalOf(b) - totalOf(a) || a.manufacturer.localeCompare(b.manufacturer));
+
+  // Every pair of airlines, most similar first
+  const commonality: FleetCommonality[] = [];
+  for (let i = 0; i < fleets.length; i++) {
+    for (let j = i + 1; j < fleets.length; j++) {
+      commonality.push(commonalityOf(fleets[i]!, fleets[j]!));
+    }
+  }
+  commonality.sort((a, b) => b.commonality_score - a.commonality_score);
+
+  return {
+    airlines: fleets.map((fleet) => fleet.summary),
+    aircraft_types: aircraftTypes,
+    manufacturers,
+    commonality,
+  };
+}
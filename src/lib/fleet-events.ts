@@ -0,0 +1,110 @@
+/**
+ * Fleet update events
+ *
+ * Published by the scraper workflow when a run changes an airline's fleet,
+ * and consumed by MCP servers to notify resource subscribers. Uses Postgres
+ * LISTEN/NOTIFY so events reach MCP servers in other processes (stdio
+ * servers, or an API server running the scheduler on another replica).
+ */
+
+import { EventEmitter } from 'events';
+import type pg from 'pg';
+import { getPostgresPool, queryPostgres } from './db-clients.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('fleet-events');
+
+const CHANNEL = 'fleet_updates';
+
+export interface FleetUpdatedEvent {
+  airline_code: string;
+}
+
+export type FleetUpdatedListener = (event: FleetUpdatedEvent) => void;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per MCP session
+
+let listenClient: pg.PoolClient | null = null;
+let listenStarting: Promise<void> | null = null;
+
+/**
+ * Announce that an airline's fleet changed
+ */
+export async function notifyFleetUpdated(airlineCode: string): Promise<void> {
+  const event: FleetUpdatedEvent = { airline_code: airlineCode.toUpperCase() };
+  await queryPostgres('SELECT pg_notify($1, $2)', [CHANNEL, JSON.stringify(event)]);
+  logger.debug(`Published fleet update for ${event.airline_code}`);
+}
+
+/**
+ * Hold a dedicated connection listening on the channel
+ */
+async function startListening(): Promise<void> {
+  const client = await getPostgresPool().connect();
+
+  client.on('notification', (message) => {
+    if (message.channel !== CHANNEL || !message.payload) return;
+
+    try {
+      emitter.emit('fleet_updated', JSON.parse(message.payload) as FleetUpdatedEvent);
+    } catch (error) {
+      logger.warn(`Ignoring malformed fleet update payload: ${message.payload}`);
+    }
+  });
+
+  client.on('error', (error) => {
+    logger.error('Fleet update listener connection failed:', error);
+    client.release(true);
+    listenClient = null;
+    listenStarting = null;
+  });
+
+  await client.query(`LISTEN ${CHANNEL}`);
+  listenClient = client;
+  logger.info(`Listening for fleet updates on "${CHANNEL}"`);
+}
+
+/**
+ * Subscribe to fleet updates. Returns a function that removes the listener.
+ */
+export async function onFleetUpdated(listener: FleetUpdatedListener): Promise<() => void> {
+  emitter.on('fleet_updated', listener);
+
+  if (!listenClient) {
+    listenStarting ??= startListening().catch((error) => {
+      listenStarting = null;
+      throw error;
+    });
+
+    try {
+      await listenStarting;
+    } catch (error) {
+      emitter.off('fleet_updated', listener);
+      throw error;
+    }
+  }
+
+  return () => {
+    emitter.off('fleet_updated', listener);
+  };
+}
+
+/**
+ * Release the listening connection (used on shutdown)
+ */
+export async function stopFleetEvents(): Promise<void> {
+  emitter.removeAllListeners('fleet_updated');
+
+  if (listenClient) {
+    const client = listenClient;
+    listenClient = null;
+    listenStarting = null;
+
+    try {
+      await client.query(`UNLISTEN ${CHANNEL}`);
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Fleet Time Series
+ *
+ * Monthly history of one airline's fleet. Fleet size, type mix and average age
+ * are month-end snapshots from `aircraft_as_of` (migrations 009/010), so they
+ * follow transfers, delivery and retirement dates. Deliveries, retirements and
+ * transfers are counted in the month they happened, from `delivery_date`,
+ * `retirement_date` and transfer `fleet_changes`.
+ */
+
+import { queryPostgres } from './db-clients.js';
+import { AirlinesNotFoundError } from './fleet-comparison.js';
+
+export const DEFAULT_TIMESERIES_YEARS = 10;
+export const MAX_TIMESERIES_MONTHS = 600;
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const UNKNOWN = 'Unknown';
+
+export interface FleetTimeseriesPoint {
+  /** YYYY-MM */
+  month: string;
+  /** Aircraft in the fleet at the end of the month (today for the current month) */
+  fleet_size: number;
+  by_type: Record<string, number>;
+  avg_age_years: number | null;
+  deliveries: number;
+  retirements: number;
+  transfers_in: number;
+  transfers_out: number;
+}
+
+export interface FleetTimeseries {
+  airline: {
+    code: string;
+    name: string;
+  };
+  from: string;
+  to: string;
+  /** Every type that appears in the series, most common first */
+  aircraft_types: string[];
+  series: FleetTimeseriesPoint[];
+}
+
+export class FleetTimeseriesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FleetTimeseriesError';
+  }
+}
+
+type FleetEvent = 'deliveries' | 'retirements' | 'transfers_in' | 'transfers_out';
+
+function toMonthIndex(month: string, name: string): number {
+  const match = MONTH_PATTERN.exec(month);
+  if (!match) {
+    throw new FleetTimeseriesError(`${name} must be a month in YYYY-MM format`);
+  }
+  return Number(match[1]) * 12 + Number(match[2]) - 1;
+}
+
+function fromMonthIndex(index: number): string {
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Resolve the requested month range. Defaults to the last
+ * DEFAULT_TIMESERIES_YEARS years up to the current month.
+ */
+export function resolveMonthRange(from?: string, to?: string): { from: string; to: string } {
+  const now = new Date();
+  const currentMonth = now.getUTCFullYear() * 12 + now.getUTCMonth();
+
+  const toIndex = to ? toMonthIndex(to, 'to') : currentMonth;
+  const fromIndex = from ? toMonthIndex(from, 'from') : toIndex - DEFAULT_TIMESERIES_YEARS * 12 + 1;
+
+  if (toIndex > currentMonth) {
+    throw new FleetTimeseriesError('to cannot be in the future');
+  }
+  if (fromIndex > toIndex) {
+    throw new FleetTimeseriesError('from must not be after to');
+  }
+  if (toIndex - fromIndex + 1 > MAX_TIMESERIES_MONTHS) {
+    throw new FleetTimeseriesError(`A time series covers at most ${MAX_TIMESERIES_MONTHS} months`);
+  }
+
+  return { from: fromMonthIndex(fromIndex), to: fromMonthIndex(toIndex) };
+}
+
+/**
+ * Monthly fleet size by type, average age, deliveries, retirements and
+ * transfers for one airline
+ */
+export async function getFleetTimeseries(
+  code: string,
+  options: { from?: string; to?: string } = {}
+): Promise<FleetTimeseries> {
+  const { from, to } = resolveMonthRange(options.from, options.to);
+
+  const airlineResult = await queryPostgres<{ id: number; name: string }>(
+    `SELECT id, name FROM airlines
+     WHERE UPPER(iata_code) = UPPER($1) OR UPPER(icao_code) = UPPER($1)
+     LIMIT 1`,
+    [code]
+  );
+
+  const airline = airlineResult.rows[0];
+  if (!airline) {
+    throw new AirlinesNotFoundError([code.toUpperCase()]);
+  }
+
+  const params = [airline.id, `${from}-01`, `${to}-01`];
+
+  const [snapshotResult, eventResult] = await Promise.all([
+    queryPostgres<{ month: string; aircraft_type: string; count: number; dated: number; age_sum: number }>(
+      `SELECT
+         to_char(m.month, 'YYYY-MM') as month,
+         COALESCE(NULLIF(a.aircraft_type, ''), '${UNKNOWN}') as aircraft_type,
+         COUNT(*)::INTEGER as count,
+         COUNT(a.manufactured_date)::INTEGER as dated,
+         COALESCE(SUM((s.snapshot - a.manufactured_date) / 365.25), 0)::FLOAT as age_sum
+       FROM generate_series($2::DATE, $3::DATE, INTERVAL '1 month') AS m(month)
+       CROSS JOIN LATERAL (
+         SELECT LEAST((m.month + INTERVAL '1 month - 1 day')::DATE, CURRENT_DATE) as snapshot
+       ) s
+       CROSS JOIN LATERAL aircraft_as_of(s.snapshot, $1) a
+       WHERE a.airline_id = $1
+       GROUP BY m.month, 2`,
+      params
+    ),
+    queryPostgres<{ month: string; event: FleetEvent; count: number }>(
+      `SELECT to_char(e.event_date, 'YYYY-MM') as month, e.event, COUNT(*)::INTEGER as count
+       FROM (
+         -- Deliveries to this airline: its operator before any later transfer
+         SELECT 'deliveries' as event, a.delivery_date as event_date
+         FROM aircraft a
+         LEFT JOIN LATERAL (
+           SELECT fc.previous_airline_id
+           FROM fleet_changes fc
+           WHERE fc.aircraft_id = a.id AND fc.change_type = 'transfer' AND fc.change_date > a.delivery_date
+           ORDER BY fc.change_date ASC, fc.id ASC
+           LIMIT 1
+         ) first_transfer ON true
+         WHERE a.delivery_date IS NOT NULL
+           AND (
+             a.airline_id = $1
+             OR a.id IN (
+               SELECT aircraft_id FROM fleet_changes
+               WHERE change_type = 'transfer' AND previous_airline_id = $1
+             )
+           )
+           AND COALESCE(first_transfer.previous_airline_id, a.airline_id) = $1
+
+         UNION ALL
+
+         SELECT 'retirements', COALESCE(a.retirement_date, a.updated_at::DATE)
+         FROM aircraft a
+         WHERE a.airline_id = $1 AND a.status IN ('retired', 'scrapped')
+
+         UNION ALL
+
+         SELECT 'transfers_in', fc.change_date
+         FROM fleet_changes fc
+         WHERE fc.change_type = 'transfer' AND fc.next_airline_id = $1
+
+         UNION ALL
+
+         SELECT 'transfers_out', fc.change_date
+         FROM fleet_changes fc
+         WHERE fc.change_type = 'transfer' AND fc.previous_airline_id = $1
+       ) e
+       WHERE e.event_date >= $2::DATE AND e.event_date < $3::DATE + INTERVAL '1 month'
+       GROUP BY 1, 2`,
+      params
+    ),
+  ]);
+
+  const series = new Map<string, FleetTimeseriesPoint & { dated: number; age_sum: number }>();
+  for (let index = toMonthIndex(from, 'from'); index <= toMonthIndex(to, 'to'); index++) {
+    const month = fromMonthIndex(index);
+    series.set(month, {
+      month,
+      fleet_size: 0,
+      by_type: {},
+      avg_age_years: null,
+      deliveries: 0,
+      retirements: 0,
+      transfers_in: 0,
+      transfers_out: 0,
+      dated: 0,
+      age_sum: 0,
+    });
+  }
+
+  const typeTotals = new Map<string, number>();
+  for (const row of snapshotResult.rows) {
+    const point = series.get(row.month);
+    if (!point) {
+      continue;
+    }
+
+    point.fleet_size += row.count;
+    point.by_type[row.aircraft_type] = row.count;
+    point.dated += row.dated;
+    point.age_sum += row.age_sum;
+    typeTotals.set(row.aircraft_type, (typeTotals.get(row.aircraft_type) || 0) + row.count);
+  }
+
+  for (const row of eventResult.rows) {
+    const point = series.get(row.month);
+    if (point) {
+      point[row.event] = row.count;
+    }
+  }
+
+  return {
+    airline: { code: code.toUpperCase(), name: airline.name },
+    from,
+    to,
+    aircraft_types: [...typeTotals.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([type]) => type),
+    series: [...series.values()].map(({ dated, age_sum, ...point }) => ({
+      ...point,
+      avg_age_years: dated > 0 ? Math.round((age_sum / dated) * 10) / 10 : null,
+    })),
+  };
+}
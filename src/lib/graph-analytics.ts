@@ -0,0 +1,243 @@
+/**
+ * Graph Analytics
+ *
+ * Routes knowledge-graph questions to Neo4j when it is configured, and falls
+ * back to equivalent PostgreSQL queries otherwise. Results have the same shape
+ * regardless of which backend answered.
+ */
+
+import { isNeo4jAvailable, queryPostgres } from './db-clients.js';
+import { Neo4jQuery } from './neo4j-queries.js';
+
+export type GraphBackend = 'neo4j' | 'postgres';
+
+/**
+ * Determine which backend will answer graph queries
+ */
+export function getGraphBackend(): GraphBackend {
+  return isNeo4jAvailable() ? 'neo4j' : 'postgres';
+}
+
+/**
+ * Find similar airlines by fleet composition
+ */
+export async function findSimilarAirlines(airlineCode: string, minCommonTypes: number = 3) {
+  if (getGraphBackend() === 'neo4j') {
+    return Neo4jQuery.findSimilarAirlines(airlineCode, minCommonTypes);
+  }
+
+  const query = `
+    WITH target AS (
+      SELECT id FROM airlines
+      WHERE UPPER(iata_code) = UPPER($1) OR UPPER(icao_code) = UPPER($1)
+      LIMIT 1
+    ),
+    target_types AS (
+      SELECT DISTINCT aircraft_type_id
+      FROM aircraft
+      WHERE airline_id = (SELECT id FROM target)
+        AND aircraft_type_id IS NOT NULL
+    )
+    SELECT al.name as airline,
+           al.iata_code as airline_code,
+           al.country,
+           COUNT(DISTINCT a.aircraft_type_id)::INTEGER as common_types
+    FROM aircraft a
+    JOIN airlines al ON a.airline_id = al.id
+    WHERE a.aircraft_type_id IN (SELECT aircraft_type_id FROM target_types)
+      AND al.id <> (SELECT id FROM target)
+    GROUP BY al.id, al.name, al.iata_code, al.country
+    HAVING COUNT(DISTINCT a.aircraft_type_id) >= $2
+    ORDER BY common_types DESC
+    LIMIT 10
+  `;
+
+  const result = await queryPostgres(query, [airlineCode, minCommonTypes]);
+
+  return result.rows.map((row) => ({
+    airline: row.airline,
+    airlineCode: row.airline_code,
+    country: row.country,
+    commonTypes: row.common_types,
+  }));
+}
+
+/**
+ * Identify fleet modernization patterns
+ */
+export async function getFleetModernizationStats(airlineCode: string) {
+  if (getGraphBackend() === 'neo4j') {
+    return Neo4jQuery.getFleetModernizationStats(airlineCode);
+  }
+
+  const query = `
+    WITH fleet AS (
+      SELECT al.name as airline,
+             EXTRACT(YEAR FROM AGE(CURRENT_DATE, a.manufactured_date))::FLOAT as age_years
+      FROM airlines al
+      JOIN aircraft a ON a.airline_id = al.id
+      WHERE (UPPER(al.iata_code) = UPPER($1) OR UPPER(al.icao_code) = UPPER($1))
+        AND a.status <> 'retired'
+    )
+    SELECT airline,
+           COUNT(*)::INTEGER as total,
+           COUNT(*) FILTER (WHERE age_years <= 5)::INTEGER as modern,
+           COUNT(*) FILTER (WHERE age_years > 5 AND age_years <= 15)::INTEGER as mid_age,
+           COUNT(*) FILTER (WHERE age_years > 15)::INTEGER as aging,
+           ROUND(AVG(age_years)::NUMERIC, 1)::FLOAT as avg_age
+    FROM fleet
+    GROUP BY airline
+  `;
+
+  const result = await queryPostgres(query, [airlineCode]);
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  const percentage = (count: number) =>
+    row.total > 0 ? Math.round((1000 * count) / row.total) / 10 : 0;
+
+  return {
+    airline: row.airline,
+    total: row.total,
+    modern: row.modern,
+    midAge: row.mid_age,
+    aging: row.aging,
+    avgAge: row.avg_age,
+    modernPercentage: percentage(row.modern),
+    agingPercentage: percentage(row.aging),
+  };
+}
+
+/**
+ * Get alliance network
+ */
+export async function getAllianceNetwork(allianceName: string) {
+  if (getGraphBackend() === 'neo4j') {
+    return Neo4jQuery.getAllianceNetwork(allianceName);
+  }
+
+  const query = `
+    SELECT al.name as airline,
+           al.iata_code as airline_code,
+           al.country,
+           COUNT(a.id)::INTEGER as fleet_size
+    FROM airlines al
+    LEFT JOIN aircraft a ON a.airline_id = al.id
+    WHERE UPPER(al.alliance) = UPPER($1)
+    GROUP BY al.id, al.name, al.iata_code, al.country
+    ORDER BY fleet_size DESC
+  `;
+
+  const result = await queryPostgres(query, [allianceName]);
+
+  return result.rows.map((row) => ({
+    airline: row.airline,
+    airlineCode: row.airline_code,
+    country: row.country,
+    fleetSize: row.fleet_size,
+  }));
+}
+
+/**
+ * Get manufacturer market share
+ */
+export async function getManufacturerMarketShare() {
+  if (getGraphBackend() === 'neo4j') {
+    return Neo4jQuery.getManufacturerMarketShare();
+  }
+
+  const query = `
+    SELECT a.manufacturer,
+           COUNT(*)::INTEGER as aircraft_count,
+           ROUND(100.0 * COUNT(*) / SUM(COUNT(*)) OVER (), 2)::FLOAT as market_share_percentage
+    FROM aircraft a
+    WHERE a.status = 'active'
+      AND a.airline_id IS NOT NULL
+      AND a.manufacturer IS NOT NULL
+    GROUP BY a.manufacturer
+    ORDER BY aircraft_count DESC
+  `;
+
+  const result = await queryPostgres(query);
+
+  return result.rows.map((row) => ({
+    manufacturer: row.manufacturer,
+    aircraftCount: row.aircraft_count,
+    marketSharePercentage: row.market_share_percentage,
+  }));
+}
+
+/**
+ * Find aircraft nearing retirement (> 20 years)
+ */
+export async function findAircraftNearingRetirement(airlineCode?: string) {
+  if (getGraphBackend() === 'neo4j') {
+    return Neo4jQuery.findAircraftNearingRetirement(airlineCode);
+  }
+
+  let query = `
+    SELECT a.registration,
+           COALESCE(at.full_name, a.aircraft_type) as aircraft_type,
+           al.name as airline,
+           EXTRACT(YEAR FROM AGE(CURRENT_DATE, a.manufactured_date))::FLOAT as age_years,
+           a.manufactured_date
+    FROM aircraft a
+    JOIN airlines al ON a.airline_id = al.id
+    LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
+    WHERE a.manufactured_date < CURRENT_DATE - INTERVAL '20 years'
+      AND a.status <> 'retired'
+  `;
+
+  const params: any[] = [];
+
+  if (airlineCode) {
+    params.push(airlineCode);
+    query += ` AND (UPPER(al.iata_code) = UPPER($1) OR UPPER(al.icao_code) = UPPER($1))`;
+  }
+
+  query += `
+    ORDER BY a.manufactured_date ASC
+    LIMIT 50
+  `;
+
+  const result = await queryPostgres(query, params);
+
+  return result.rows.map((row) => ({
+    registration: row.registration,
+    aircraftType: row.aircraft_type,
+    airline: row.airline,
+    ageYears: row.age_years,
+    manufacturedDate: row.manufactured_date,
+  }));
+}
+
+/**
+ * Get codeshare network for an airline
+ *
+ * Codeshare agreements are only modelled in the knowledge graph, so there is
+ * no PostgreSQL equivalent.
+ */
+export async function getCodesharePartners(airlineCode: string) {
+  if (getGraphBackend() === 'neo4j') {
+    return Neo4jQuery.getCodesharePartners(airlineCode);
+  }
+
+  throw new Error(
+    'Codeshare partnerships are only available from the Neo4j knowledge graph (NEO4J_URI is not configured)'
+  );
+}
+
+/**
+ * Export all graph analytics functions
+ */
+export const GraphAnalytics = {
+  findSimilarAirlines,
+  getFleetModernizationStats,
+  getAllianceNetwork,
+  getManufacturerMarketShare,
+  findAircraftNearingRetirement,
+  getCodesharePartners,
+};
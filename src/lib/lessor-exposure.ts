@@ -0,0 +1,414 @@
+/**
+ * Lessor Exposure
+ *
+ * Ownership and leasing analytics over in-service aircraft (anything not
+ * retired or scrapped): aircraft per lessor per airline, upcoming lease
+ * returns, lessor concentration per alliance and owned-vs-leased mix by type.
+ *
+ * `ownership_type` is free text from scraping, so it is bucketed into owned,
+ * leased, wet_lease or unknown; an aircraft with a lessor but no ownership
+ * type counts as leased. Concentration is reported as each lessor's share of
+ * leased aircraft and as a Herfindahl-Hirschman index (0-10,000). A lessor
+ * filter narrows the lists but not the aircraft the shares are measured against.
+ */
+
+import { queryPostgres } from './db-clients.js';
+import { AirlinesNotFoundError } from './fleet-comparison.js';
+
+export const DEFAULT_EXPIRING_WITHIN_MONTHS = 12;
+export const MAX_EXPIRING_WITHIN_MONTHS = 120;
+export const MAX_LESSOR_AIRLINES = 20;
+
+export const OWNERSHIP_CLASSES = ['owned', 'leased', 'wet_lease', 'unknown'] as const;
+
+export type OwnershipClass = (typeof OWNERSHIP_CLASSES)[number];
+
+export type OwnershipCounts = Record<OwnershipClass, number>;
+
+export interface LessorExposureFilters {
+  airline_codes?: string[];
+  lessor?: string;
+  alliance?: string;
+  expiring_within_months?: number;
+}
+
+export interface LessorShare {
+  lessor: string;
+  aircraft: number;
+  /** Share of leased aircraft in scope, 0-100 */
+  share: number;
+}
+
+export interface LessorSummary extends LessorShare {
+  airlines: number;
+}
+
+export interface AirlineLessorExposure {
+  airline_code: string;
+  airline_name: string;
+  fleet_size: number;
+  ownership: OwnershipCounts;
+  /** Leased and wet-leased aircraft as a share of the fleet, 0-100 */
+  leased_share: number;
+  lessors: Array<LessorShare & { share_of_fleet: number }>;
+}
+
+export interface AllianceLessorConcentration {
+  alliance: string;
+  leased_aircraft: number;
+  hhi: number;
+  lessors: LessorShare[];
+}
+
+export interface ExpiringLease {
+  registration: string;
+  airline_code: string;
+  aircraft_type: string;
+  lessor: string | null;
+  lease_return_date: string;
+  months_remaining: number;
+}
+
+export interface TypeOwnership {
+  aircraft_type: string;
+  aircraft: number;
+  ownership: OwnershipCounts;
+  leased_share: number;
+}
+
+export interface LessorExposure {
+  filters: LessorExposureFilters & { expiring_within_months: number };
+  totals: {
+    aircraft: number;
+    ownership: OwnershipCounts;
+    leased_share: number;
+    lessors: number;
+    hhi: number;
+  };
+  lessors: LessorSummary[];
+  by_airline: AirlineLessorExposure[];
+  by_alliance: AllianceLessorConcentration[];
+  expiring_leases: ExpiringLease[];
+  by_type: TypeOwnership[];
+}
+
+export class LessorExposureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LessorExposureError';
+  }
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function percentage(part: number, total: number): number {
+  return total > 0 ? round((part / total) * 100, 1) : 0;
+}
+
+/** Herfindahl-Hirschman index of a set of counts (0-10,000) */
+function hhi(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return 0;
+  }
+  return Math.round(counts.reduce((sum, count) => sum + ((count / total) * 100) ** 2, 0));
+}
+
+function emptyOwnership(): OwnershipCounts {
+  return { owned: 0, leased: 0, wet_lease: 0, unknown: 0 };
+}
+
+function leasedShare(ownership: OwnershipCounts): number {
+  const total = OWNERSHIP_CLASSES.reduce((sum, key) => sum + ownership[key], 0);
+  return percentage(ownership.leased + ownership.wet_lease, total);
+}
+
+/**
+ * In-service aircraft in scope with their ownership bucket
+ */
+function fleetOwnershipCte(filters: LessorExposureFilters, codes: string[], params: any[]): string {
+  const conditions = [`a.status NOT IN ('retired', 'scrapped')`];
+
+  if (codes.length > 0) {
+    params.push(codes);
+    conditions.push(`(UPPER(al.iata_code) = ANY($${params.length}) OR UPPER(al.icao_code) = ANY($${params.length}))`);
+  }
+  if (filters.alliance) {
+    params.push(filters.alliance);
+    conditions.push(`UPPER(al.alliance) = UPPER($${params.length})`);
+  }
+
+  return `
+    WITH fleet AS (
+      SELECT
+        a.id,
+        a.registration,
+        al.id as airline_id,
+        COALESCE(al.iata_code, al.icao_code) as airline_code,
+        al.name as airline_name,
+        COALESCE(al.alliance, 'Unaffiliated') as alliance,
+        COALESCE(at.full_name, a.aircraft_type) as aircraft_type,
+        NULLIF(TRIM(a.lessor), '') as lessor,
+        UPPER(NULLIF(TRIM(a.lessor), '')) as lessor_key,
+        a.lease_return_date,
+        CASE
+          WHEN LOWER(a.ownership_type) LIKE '%wet%' OR LOWER(a.ownership_type) = 'acmi' THEN 'wet_lease'
+          WHEN LOWER(a.ownership_type) LIKE 'own%' THEN 'owned'
+          WHEN LOWER(a.ownership_type) LIKE '%leas%' OR NULLIF(TRIM(a.lessor), '') IS NOT NULL THEN 'leased'
+          ELSE 'unknown'
+        END as ownership
+      FROM aircraft a
+      JOIN airlines al ON a.airline_id = al.id
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
+      WHERE ${conditions.join(' AND ')}
+    )
+  `;
+}
+
+/**
+ * Normalise and validate the lessor exposure filters
+ */
+export function parseLessorFilters(filters: LessorExposureFilters): {
+  codes: string[];
+  months: number;
+} {
+  const codes = [
+    ...new Set((filters.airline_codes || []).map((code) => code.trim().toUpperCase()).filter(Boolean)),
+  ];
+
+  if (codes.length > MAX_LESSOR_AIRLINES) {
+    throw new LessorExposureError(`At most ${MAX_LESSOR_AIRLINES} airlines can be analysed at once`);
+  }
+
+  const months = filters.expiring_within_months ?? DEFAULT_EXPIRING_WITHIN_MONTHS;
+  if (!Number.isInteger(months) || months < 1 || months > MAX_EXPIRING_WITHIN_MONTHS) {
+    throw new LessorExposureError(`expiring_within_months must be an integer from 1 to ${MAX_EXPIRING_WITHIN_MONTHS}`);
+  }
+
+  return { codes, months };
+}
+
+/**
+ * Lessor exposure of the airlines in scope (listed airlines, an alliance, or all)
+ */
+export async function getLessorExposure(filters: LessorExposureFilters = {}): Promise<LessorExposure> {
+  const { codes, months } = parseLessorFilters(filters);
+
+  if (codes.length > 0) {
+    const found = await queryPostgres<{ iata_code: string | null; icao_code: string | null }>(
+      `SELECT iata_code, icao_code FROM airlines
+       WHERE UPPER(iata_code) = ANY($1) OR UPPER(icao_code) = ANY($1)`,
+      [codes]
+    );
+    const known = new Set(
+      found.rows.flatMap((row) => [row.iata_code?.toUpperCase(), row.icao_code?.toUpperCase()])
+    );
+    const missing = codes.filter((code) => !known.has(code));
+    if (missing.length > 0) {
+      throw new AirlinesNotFoundError(missing);
+    }
+  }
+
+  const params: any[] = [];
+  const fleet = fleetOwnershipCte(filters, codes, params);
+
+  // A lessor filter narrows the lessor lists and lease returns, not what they
+  // are measured against: shares and HHI are still computed over every leased
+  // aircraft in scope. Each query gets only the parameters it references.
+  const lessorKey = filters.lessor ? filters.lessor.trim().toUpperCase() : undefined;
+  const matchesLessor = (key: string) => !lessorKey || key === lessorKey;
+  const expiringParams = [...params];
+  let expiringCondition = '';
+  if (lessorKey) {
+    expiringParams.push(lessorKey);
+    expiringCondition = `AND lessor_key = $${expiringParams.length}`;
+  }
+  expiringParams.push(months);
+  const monthsParam = `$${expiringParams.length}`;
+
+  const [airlineResult, lessorResult, allianceResult, expiringResult, typeResult] = await Promise.all([
+    queryPostgres(
+      `${fleet}
+       SELECT airline_code, airline_name, ownership, COUNT(*)::INTEGER as aircraft
+       FROM fleet
+       GROUP BY airline_code, airline_name, ownership`,
+      params
+    ),
+    queryPostgres(
+      `${fleet}
+       SELECT airline_code, MIN(lessor) as lessor, lessor_key, COUNT(*)::INTEGER as aircraft
+       FROM fleet
+       WHERE lessor IS NOT NULL
+       GROUP BY airline_code, lessor_key`,
+      params
+    ),
+    queryPostgres(
+      `${fleet}
+       SELECT alliance, MIN(lessor) as lessor, lessor_key, COUNT(*)::INTEGER as aircraft
+       FROM fleet
+       WHERE lessor IS NOT NULL
+       GROUP BY alliance, lessor_key`,
+      params
+    ),
+    queryPostgres(
+      `${fleet}
+       SELECT
+         registration,
+         airline_code,
+         aircraft_type,
+         lessor,
+         to_char(lease_return_date, 'YYYY-MM-DD') as lease_return_date,
+         (EXTRACT(YEAR FROM AGE(lease_return_date, CURRENT_DATE)) * 12
+           + EXTRACT(MONTH FROM AGE(lease_return_date, CURRENT_DATE)))::INTEGER as months_remaining
+       FROM fleet
+       WHERE lease_return_date >= CURRENT_DATE
+         AND lease_return_date <= CURRENT_DATE + make_interval(months => ${monthsParam}::INTEGER)
+         ${expiringCondition}
+       ORDER BY lease_return_date, registration`,
+      expiringParams
+    ),
+    queryPostgres(
+      `${fleet}
+       SELECT aircraft_type, ownership, COUNT(*)::INTEGER as aircraft
+       FROM fleet
+       GROUP BY aircraft_type, ownership`,
+      params
+    ),
+  ]);
+
+  // Ownership mix per airline
+  const airlines = new Map<string, AirlineLessorExposure>();
+  for (const row of airlineResult.rows) {
+    let airline = airlines.get(row.airline_code);
+    if (!airline) {
+      airline = {
+        airline_code: row.airline_code,
+        airline_name: row.airline_name,
+        fleet_size: 0,
+        ownership: emptyOwnership(),
+        leased_share: 0,
+        lessors: [],
+      };
+      airlines.set(row.airline_code, airline);
+    }
+    airline.ownership[row.ownership as OwnershipClass] += row.aircraft;
+    airline.fleet_size += row.aircraft;
+  }
+
+  // Lessors per airline, and overall
+  const lessorTotals = new Map<string, { lessor: string; aircraft: number; airlines: Set<string> }>();
+  const leasedByAirline = new Map<string, number>();
+  for (const row of lessorResult.rows) {
+    leasedByAirline.set(row.airline_code, (leasedByAirline.get(row.airline_code) || 0) + row.aircraft);
+
+    const airline = airlines.get(row.airline_code);
+    if (airline && matchesLessor(row.lessor_key)) {
+      airline.lessors.push({
+        lessor: row.lessor,
+        aircraft: row.aircraft,
+        share: 0,
+        share_of_fleet: percentage(row.aircraft, airline.fleet_size),
+      });
+    }
+
+    const total = lessorTotals.get(row.lessor_key) || { lessor: row.lessor, aircraft: 0, airlines: new Set() };
+    total.aircraft += row.aircraft;
+    total.airlines.add(row.airline_code);
+    lessorTotals.set(row.lessor_key, total);
+  }
+
+  const totalOwnership = emptyOwnership();
+  for (const airline of airlines.values()) {
+    for (const key of OWNERSHIP_CLASSES) {
+      totalOwnership[key] += airline.ownership[key];
+    }
+    airline.leased_share = leasedShare(airline.ownership);
+
+    const leased = leasedByAirline.get(airline.airline_code) || 0;
+    for (const lessor of airline.lessors) {
+      lessor.share = percentage(lessor.aircraft, leased);
+    }
+    airline.lessors.sort((a, b) => b.aircraft - a.aircraft || a.lessor.localeCompare(b.lessor));
+  }
+
+  const leasedAircraft = [...lessorTotals.values()].reduce((sum, lessor) => sum + lessor.aircraft, 0);
+  const lessors: LessorSummary[] = [...lessorTotals.entries()]
+    .filter(([key]) => matchesLessor(key))
+    .map(([, lessor]) => ({
+      lessor: lessor.lessor,
+      aircraft: lessor.aircraft,
+      share: percentage(lessor.aircraft, leasedAircraft),
+      airlines: lessor.airlines.size,
+    }))
+    .sort((a, b) => b.aircraft - a.aircraft || a.lessor.localeCompare(b.lessor));
+
+  // Lessor concentration per alliance
+  const alliances = new Map<string, Array<LessorShare & { key: string }>>();
+  for (const row of allianceResult.rows) {
+    const list = alliances.get(row.alliance) || [];
+    list.push({ key: row.lessor_key, lessor: row.lessor, aircraft: row.aircraft, share: 0 });
+    alliances.set(row.alliance, list);
+  }
+  const byAlliance: AllianceLessorConcentration[] = [...alliances.entries()]
+    .filter(([, list]) => list.some((lessor) => matchesLessor(lessor.key)))
+    .map(([alliance, list]) => {
+      const leased = list.reduce((sum, lessor) => sum + lessor.aircraft, 0);
+      return {
+        alliance,
+        leased_aircraft: leased,
+        hhi: hhi(list.map((lessor) => lessor.aircraft)),
+        lessors: list
+          .filter((lessor) => matchesLessor(lessor.key))
+          .map((lessor) => ({
+            lessor: lessor.lessor,
+            aircraft: lessor.aircraft,
+            share: percentage(lessor.aircraft, leased),
+          }))
+          .sort((a, b) => b.aircraft - a.aircraft || a.lessor.localeCompare(b.lessor)),
+      };
+    })
+    .sort((a, b) => b.leased_aircraft - a.leased_aircraft || a.alliance.localeCompare(b.alliance));
+
+  // Owned vs leased by type
+  const types = new Map<string, TypeOwnership>();
+  for (const row of typeResult.rows) {
+    const name = row.aircraft_type || 'Unknown';
+    const type = types.get(name) || { aircraft_type: name, aircraft: 0, ownership: emptyOwnership(), leased_share: 0 };
+    type.ownership[row.ownership as OwnershipClass] += row.aircraft;
+    type.aircraft += row.aircraft;
+    types.set(name, type);
+  }
+  const byType = [...types.values()]
+    .map((type) => ({ ...type, leased_share: leasedShare(type.ownership) }))
+    .sort((a, b) => b.aircraft - a.aircraft || a.aircraft_type.localeCompare(b.aircraft_type));
+
+  const totalAircraft = OWNERSHIP_CLASSES.reduce((sum, key) => sum + totalOwnership[key], 0);
+
+  return {
+    filters: { ...filters, airline_codes: codes.length > 0 ? codes : undefined, expiring_within_months: months },
+    totals: {
+      aircraft: totalAircraft,
+      ownership: totalOwnership,
+      leased_share: leasedShare(totalOwnership),
+      lessors: lessorTotals.size,
+      hhi: hhi([...lessorTotals.values()].map((lessor) => lessor.aircraft)),
+    },
+    lessors,
+    by_airline: [...airlines.values()].sort(
+      (a, b) => b.fleet_size - a.fleet_size || a.airline_code.localeCompare(b.airline_code)
+    ),
+    by_alliance: byAlliance,
+    expiring_leases: expiringResult.rows.map((row) => ({
+      registration: row.registration,
+      airline_code: row.airline_code,
+      aircraft_type: row.aircraft_type,
+      lessor: row.lessor,
+      lease_return_date: row.lease_return_date,
+      months_remaining: row.months_remaining,
+    })),
+    by_type: byType,
+  };
+}
@@ -1,13 +1,15 @@
 /**
  * Unified LLM Client
  *
- * Provides a unified interface for both Ollama and Claude
+ * Provides a unified interface for both Ollama and Claude. Generations go
+ * through scrape fixtures, so they can be recorded and replayed offline.
  */
 
 import { getLLMConfig, getModelName } from './llm-config.js';
 import { getOllamaClient } from './ollama-client.js';
 import { getClaudeClient } from './claude-client.js';
 import { createLogger } from './logger.js';
+import { withFixture } from './scrape-fixtures.js';
 
 const logger = createLogger('llm-client');
 
@@ -22,16 +24,18 @@ export class UnifiedLLMClient {
    * Generate text completion
    */
   async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
-    const config = getLLMConfig();
-    logger.debug(`Using ${getModelName()} for generation`);
+    return withFixture('llm', { method: 'generate', prompt, options }, async () => {
+      const config = getLLMConfig();
+      logger.debug(`Using ${getModelName()} for generation`);
 
-    if (config.provider === 'ollama') {
-      const client = getOllamaClient();
-      return await client.generate(prompt, options);
-    } else {
-      const client = getClaudeClient();
-      return await client.generate(prompt, options);
-    }
+      if (config.provider === 'ollama') {
+        const client = getOllamaClient();
+        return await client.generate(prompt, options);
+      } else {
+        const client = getClaudeClient();
+        return await client.generate(prompt, options);
+      }
+    });
   }
 
   /**
@@ -41,16 +45,18 @@ export class UnifiedLLMClient {
     prompt: string,
     options?: LLMGenerateOptions
   ): Promise<T> {
-    const config = getLLMConfig();
-    logger.debug(`Using ${getModelName()} for JSON generation`);
+    return withFixture('llm', { method: 'generateJSON', prompt, options }, async () => {
+      const config = getLLMConfig();
+      logger.debug(`Using ${getModelName()} for JSON generation`);
 
-    if (config.provider === 'ollama') {
-      const client = getOllamaClient();
-      return await client.generateJSON<T>(prompt, options);
-    } else {
-      const client = getClaudeClient();
-      return await client.generateJSON<T>(prompt, options);
-    }
+      if (config.provider === 'ollama') {
+        const client = getOllamaClient();
+        return await client.generateJSON<T>(prompt, options);
+      } else {
+        const client = getClaudeClient();
+        return await client.generateJSON<T>(prompt, options);
+      }
+    });
   }
 
   /**
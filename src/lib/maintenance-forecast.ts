@@ -0,0 +1,393 @@
+/**
+ * Maintenance Forecast
+ *
+ * Projects which aircraft of an airline are grounded for maintenance over a
+ * date window. A check starts on `next_maintenance_date` when one is
+ * scheduled; otherwise it is projected from `last_major_check_date` plus the
+ * interval of `last_major_check` in CHECK_PROGRAM. Each check grounds the
+ * aircraft for the downtime of its type, and recurring checks are projected
+ * again inside the window. Aircraft already in maintenance are grounded from
+ * the start of the window.
+ *
+ * The check program is a planning approximation, not the operator's approved
+ * maintenance programme.
+ */
+
+import { queryPostgres } from './db-clients.js';
+import { AirlinesNotFoundError } from './fleet-comparison.js';
+
+export const DEFAULT_FORECAST_DAYS = 90;
+export const MAX_FORECAST_DAYS = 366;
+
+export const CHECK_TYPES = ['A-check', 'B-check', 'C-check', 'D-check'] as const;
+
+export type CheckType = (typeof CHECK_TYPES)[number] | 'unknown';
+
+/** Days out of service, months until the following check, and which check that is */
+export const CHECK_PROGRAM: Record<
+  (typeof CHECK_TYPES)[number],
+  { downtime_days: number; interval_months: number; next: (typeof CHECK_TYPES)[number] }
+> = {
+  'A-check': { downtime_days: 1, interval_months: 2, next: 'A-check' },
+  'B-check': { downtime_days: 3, interval_months: 6, next: 'B-check' },
+  'C-check': { downtime_days: 21, interval_months: 24, next: 'C-check' },
+  // A heavy check is followed by the regular C-check cycle
+  'D-check': { downtime_days: 45, interval_months: 24, next: 'C-check' },
+};
+
+/** Downtime assumed when the type of the upcoming check is unknown */
+export const UNKNOWN_CHECK_DOWNTIME_DAYS = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MaintenanceForecastOptions {
+  home_base?: string;
+  aircraft_types?: string[];
+  /** YYYY-MM-DD, default today */
+  from?: string;
+  /** YYYY-MM-DD, default DEFAULT_FORECAST_DAYS after from */
+  to?: string;
+}
+
+/** In-service aircraft as read for the forecast */
+export interface MaintenanceAircraft {
+  registration: string;
+  aircraft_type: string;
+  home_base: string;
+  in_maintenance: boolean;
+  next_maintenance_date: string | null;
+  last_major_check: string | null;
+  last_major_check_date: string | null;
+  total_flight_hours: number | null;
+  total_cycles: number | null;
+}
+
+export interface MaintenanceEvent {
+  registration: string;
+  aircraft_type: string;
+  home_base: string;
+  check_type: CheckType;
+  /** scheduled: next_maintenance_date; projected: from the check program; in_progress: already in maintenance */
+  source: 'scheduled' | 'projected' | 'in_progress';
+  start_date: string;
+  /** Last day out of service */
+  end_date: string;
+  downtime_days: number;
+  total_flight_hours: number | null;
+  total_cycles: number | null;
+}
+
+export interface BaseCheckSummary {
+  home_base: string;
+  checks: number;
+  aircraft_days: number;
+  by_check_type: Partial<Record<CheckType, number>>;
+}
+
+export interface WeeklyTypeGrounding {
+  aircraft_type: string;
+  grounded: number;
+  fleet: number;
+  /** Share of the type's fleet out of service at some point in the week, 0-100 */
+  share: number;
+}
+
+export interface WeeklyGrounding {
+  week_start: string;
+  grounded: number;
+  by_type: WeeklyTypeGrounding[];
+}
+
+export interface OverdueAircraft {
+  registration: string;
+  aircraft_type: string;
+  home_base: string;
+  check_type: CheckType;
+  due_date: string;
+}
+
+export interface MaintenanceForecast {
+  airline: {
+    code: string;
+    name: string;
+  };
+  from: string;
+  to: string;
+  fleet_size: number;
+  /** Aircraft with neither a scheduled check nor a check history */
+  unplanned_aircraft: number;
+  events: MaintenanceEvent[];
+  by_base: BaseCheckSummary[];
+  weekly: WeeklyGrounding[];
+  overdue: OverdueAircraft[];
+}
+
+export class MaintenanceForecastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaintenanceForecastError';
+  }
+}
+
+function toDay(value: string, name: string): number {
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (!DATE_PATTERN.test(value) || Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value) {
+    throw new MaintenanceForecastError(`${name} must be a date in YYYY-MM-DD format`);
+  }
+  return time / DAY_MS;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function addMonths(day: number, months: number): number {
+  const date = new Date(day * DAY_MS);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.getTime() / DAY_MS;
+}
+
+function downtimeDays(checkType: CheckType): number {
+  return checkType === 'unknown' ? UNKNOWN_CHECK_DOWNTIME_DAYS : CHECK_PROGRAM[checkType].downtime_days;
+}
+
+/**
+ * Normalise a free-text check name ("C check", "C-Check", "heavy") to a check type
+ */
+export function parseCheckType(value: string | null): CheckType {
+  if (!value) {
+    return 'unknown';
+  }
+  if (/heavy/i.test(value)) {
+    return 'D-check';
+  }
+  const match = /^\s*([abcd])(?:[\s-]*check)?\s*$/i.exec(value);
+  return match ? (`${match[1]!.toUpperCase()}-check` as CheckType) : 'unknown';
+}
+
+/**
+ * Resolve the forecast window. Defaults to DEFAULT_FORECAST_DAYS from today.
+ */
+export function resolveForecastWindow(from?: string, to?: string): { from: string; to: string } {
+  const fromDayNumber = from ? toDay(from, 'from') : Math.floor(Date.now() / DAY_MS);
+  const toDayNumber = to ? toDay(to, 'to') : fromDayNumber + DEFAULT_FORECAST_DAYS - 1;
+
+  if (toDayNumber < fromDayNumber) {
+    throw new MaintenanceForecastError('from must not be after to');
+  }
+  if (toDayNumber - fromDayNumber + 1 > MAX_FORECAST_DAYS) {
+    throw new MaintenanceForecastError(`A forecast covers at most ${MAX_FORECAST_DAYS} days`);
+  }
+
+  return { from: fromDay(fromDayNumber), to: fromDay(toDayNumber) };
+}
+
+/**
+ * Project maintenance events, per-base check counts and weekly groundings
+ * for a set of aircraft over [from, to]
+ */
+export function projectMaintenance(
+  aircraft: MaintenanceAircraft[],
+  window: { from: string; to: string }
+): Pick<MaintenanceForecast, 'unplanned_aircraft' | 'events' | 'by_base' | 'weekly' | 'overdue'> {
+  const start = toDay(window.from, 'from');
+  const end = toDay(window.to, 'to');
+
+  const events: MaintenanceEvent[] = [];
+  const overdue: OverdueAircraft[] = [];
+  let unplanned = 0;
+
+  for (const tail of aircraft) {
+    const last = parseCheckType(tail.last_major_check);
+    const push = (checkType: CheckType, source: MaintenanceEvent['source'], day: number) => {
+      const downtime = downtimeDays(checkType);
+      events.push({
+        registration: tail.registration,
+        aircraft_type: tail.aircraft_type,
+        home_base: tail.home_base,
+        check_type: checkType,
+        source,
+        start_date: fromDay(day),
+        end_date: fromDay(day + downtime - 1),
+        downtime_days: downtime,
+        total_flight_hours: tail.total_flight_hours,
+        total_cycles: tail.total_cycles,
+      });
+    };
+
+    // The check after the last recorded one, and when it falls due
+    let checkType: CheckType = last === 'unknown' ? 'unknown' : CHECK_PROGRAM[last].next;
+    let due: number | null = null;
+    let source: MaintenanceEvent['source'] = 'scheduled';
+
+    if (tail.next_maintenance_date) {
+      due = toDay(tail.next_maintenance_date, 'next_maintenance_date');
+    } else if (last !== 'unknown' && tail.last_major_check_date) {
+      due = addMonths(toDay(tail.last_major_check_date, 'last_major_check_date'), CHECK_PROGRAM[last].interval_months);
+      source = 'projected';
+    }
+
+    let day: number;
+    if (tail.in_maintenance && (due === null || due <= start)) {
+      // Assume a check with no recorded start, or one that should be over by now, started with the window
+      day = due !== null && due + downtimeDays(checkType) > start ? due : start;
+      push(checkType, 'in_progress', day);
+    } else if (due === null) {
+      unplanned++;
+      continue;
+    } else if (due < start) {
+      overdue.push({
+        registration: tail.registration,
+        aircraft_type: tail.aircraft_type,
+        home_base: tail.home_base,
+        check_type: checkType,
+        due_date: fromDay(due),
+      });
+      continue;
+    } else if (due <= end) {
+      day = due;
+      push(checkType, source, day);
+    } else {
+      continue;
+    }
+
+    // Recurring checks that fall due again inside the window
+    while (checkType !== 'unknown') {
+      const program = CHECK_PROGRAM[checkType];
+      day = addMonths(day, program.interval_months);
+      checkType = program.next;
+      if (day > end) {
+        break;
+      }
+      push(checkType, 'projected', day);
+    }
+  }
+
+  // Drop in-progress checks that already ended before the window
+  const inWindow = events
+    .filter((event) => event.end_date >= window.from)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.registration.localeCompare(b.registration));
+
+  // Checks in the window per home base, with the aircraft-days they take inside it
+  const bases = new Map<string, BaseCheckSummary>();
+  for (const event of inWindow) {
+    const base = bases.get(event.home_base) || {
+      home_base: event.home_base,
+      checks: 0,
+      aircraft_days: 0,
+      by_check_type: {},
+    };
+    const firstDay = Math.max(toDay(event.start_date, 'start_date'), start);
+    const lastDay = Math.min(toDay(event.end_date, 'end_date'), end);
+    base.checks++;
+    base.aircraft_days += lastDay - firstDay + 1;
+    base.by_check_type[event.check_type] = (base.by_check_type[event.check_type] || 0) + 1;
+    bases.set(event.home_base, base);
+  }
+
+  // Aircraft out of service at any point of each week, against the type's fleet
+  const fleetByType = new Map<string, number>();
+  for (const tail of aircraft) {
+    fleetByType.set(tail.aircraft_type, (fleetByType.get(tail.aircraft_type) || 0) + 1);
+  }
+
+  const weekly: WeeklyGrounding[] = [];
+  for (let weekStart = start; weekStart <= end; weekStart += 7) {
+    const weekEnd = Math.min(weekStart + 6, end);
+    const grounded = new Map<string, Set<string>>();
+
+    for (const event of inWindow) {
+      if (toDay(event.start_date, 'start_date') <= weekEnd && toDay(event.end_date, 'end_date') >= weekStart) {
+        const tails = grounded.get(event.aircraft_type) || new Set<string>();
+        tails.add(event.registration);
+        grounded.set(event.aircraft_type, tails);
+      }
+    }
+
+    const byType = [...grounded.entries()]
+      .map(([type, tails]) => {
+        const fleet = fleetByType.get(type) || 0;
+        return {
+          aircraft_type: type,
+          grounded: tails.size,
+          fleet,
+          share: fleet > 0 ? Math.round((tails.size / fleet) * 1000) / 10 : 0,
+        };
+      })
+      .sort((a, b) => b.share - a.share || a.aircraft_type.localeCompare(b.aircraft_type));
+
+    weekly.push({
+      week_start: fromDay(weekStart),
+      grounded: byType.reduce((sum, type) => sum + type.grounded, 0),
+      by_type: byType,
+    });
+  }
+
+  return {
+    unplanned_aircraft: unplanned,
+    events: inWindow,
+    by_base: [...bases.values()].sort((a, b) => b.checks - a.checks || a.home_base.localeCompare(b.home_base)),
+    weekly,
+    overdue: overdue.sort((a, b) => a.due_date.localeCompare(b.due_date) || a.registration.localeCompare(b.registration)),
+  };
+}
+
+/**
+ * Maintenance forecast for one airline's in-service fleet
+ */
+export async function getMaintenanceForecast(
+  code: string,
+  options: MaintenanceForecastOptions = {}
+): Promise<MaintenanceForecast> {
+  const window = resolveForecastWindow(options.from, options.to);
+
+  const airlineResult = await queryPostgres<{ id: number; name: string }>(
+    `SELECT id, name FROM airlines
+     WHERE UPPER(iata_code) = UPPER($1) OR UPPER(icao_code) = UPPER($1)
+     LIMIT 1`,
+    [code]
+  );
+
+  const airline = airlineResult.rows[0];
+  if (!airline) {
+    throw new AirlinesNotFoundError([code.toUpperCase()]);
+  }
+
+  const params: any[] = [airline.id];
+  let query = `
+    SELECT
+      a.registration,
+      COALESCE(NULLIF(a.aircraft_type, ''), 'Unknown') as aircraft_type,
+      COALESCE(NULLIF(UPPER(a.home_base), ''), 'Unknown') as home_base,
+      (a.status = 'maintenance' OR a.maintenance_status IN ('in_maintenance', 'grounded')) as in_maintenance,
+      to_char(a.next_maintenance_date, 'YYYY-MM-DD') as next_maintenance_date,
+      a.last_major_check,
+      to_char(a.last_major_check_date, 'YYYY-MM-DD') as last_major_check_date,
+      a.total_flight_hours::FLOAT as total_flight_hours,
+      a.total_cycles
+    FROM aircraft a
+    WHERE a.airline_id = $1
+      AND a.status IN ('active', 'maintenance')
+  `;
+
+  if (options.aircraft_types && options.aircraft_types.length > 0) {
+    params.push(options.aircraft_types);
+    query += ` AND a.aircraft_type = ANY($${params.length})`;
+  }
+  if (options.home_base) {
+    params.push(options.home_base);
+    query += ` AND UPPER(a.home_base) = UPPER($${params.length})`;
+  }
+  query += ' ORDER BY a.registration';
+
+  const result = await queryPostgres<MaintenanceAircraft>(query, params);
+
+  return {
+    airline: { code: code.toUpperCase(), name: airline.name },
+    from: window.from,
+    to: window.to,
+    fleet_size: result.rows.length,
+    ...projectMaintenance(result.rows, window),
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Page Snapshots
+ *
+ * Archive of the raw pages the scraping agents load, so a scraped value can
+ * be traced back to what the page said at the time and extraction can be
+ * re-run on it later. HTML is stored gzip-compressed with the SHA-256 of the
+ * uncompressed content, keyed by URL, registration and scrape job.
+ *
+ * Archiving never fails a scrape: write errors are logged and the snapshot
+ * is simply missing.
+ */
+
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { queryPostgres } from './db-clients.js';
+import { createLogger } from './logger.js';
+import type { PageSnapshot } from './scrape-fixtures.js';
+
+const logger = createLogger('page-snapshots');
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const PAGE_KINDS = ['fleet', 'aircraft'] as const;
+
+export type PageKind = (typeof PAGE_KINDS)[number];
+
+export const DEFAULT_SNAPSHOT_LIMIT = 50;
+export const MAX_SNAPSHOT_LIMIT = 200;
+
+/** What a page was scraped for */
+export interface SnapshotContext {
+  airlineCode?: string;
+  registration?: string;
+  scrapeJobId?: number;
+}
+
+/** Snapshot metadata, without the page content */
+export interface PageSnapshotRecord {
+  id: number;
+  url: string;
+  final_url: string;
+  page_kind: PageKind;
+  airline_code: string | null;
+  registration: string | null;
+  scrape_job_id: number | null;
+  /** External id of the scrape job */
+  job_id: string | null;
+  title: string | null;
+  content_hash: string;
+  content_size: number;
+  fetched_at: string;
+}
+
+export interface SnapshotFilters {
+  url?: string;
+  registration?: string;
+  scrape_job_id?: number;
+  limit?: number;
+}
+
+const SNAPSHOT_COLUMNS = `
+  ps.id, ps.url, ps.final_url, ps.page_kind, ps.airline_code, ps.registration,
+  ps.scrape_job_id, sj.job_id, ps.title, ps.content_hash, ps.content_size, ps.fetched_at
+`;
+
+export function contentHash(html: string): string {
+  return createHash('sha256').update(html).digest('hex');
+}
+
+/**
+ * Store a loaded page. Returns the snapshot id, or null when it could not be
+ * stored.
+ */
+export async function archivePageSnapshot(
+  kind: PageKind,
+  requestedUrl: string,
+  page: PageSnapshot,
+  context: SnapshotContext = {}
+): Promise<number | null> {
+  try {
+    const content = await gzipAsync(Buffer.from(page.html, 'utf8'));
+
+    const result = await queryPostgres<{ id: number }>(
+      `INSERT INTO page_snapshots (
+        url, final_url, page_kind, airline_code, registration, scrape_job_id,
+        title, content_hash, content_size, content
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id`,
+      [
+        requestedUrl,
+        page.url,
+        kind,
+        context.airlineCode?.toUpperCase() ?? null,
+        context.registration?.toUpperCase() ?? null,
+        context.scrapeJobId ?? null,
+        page.title,
+        contentHash(page.html),
+        Buffer.byteLength(page.html, 'utf8'),
+        content,
+      ]
+    );
+
+    return result.rows[0]?.id ?? null;
+  } catch (error) {
+    logger.warn(`Failed to archive snapshot of ${requestedUrl}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Snapshot metadata and its decompressed HTML
+ */
+export async function getPageSnapshot(id: number): Promise<(PageSnapshotRecord & { html: string }) | null> {
+  const result = await queryPostgres<PageSnapshotRecord & { content: Buffer }>(
+    `SELECT ${SNAPSHOT_COLUMNS}, ps.content
+     FROM page_snapshots ps
+     LEFT JOIN scrape_jobs sj ON ps.scrape_job_id = sj.id
+     WHERE ps.id = $1`,
+    [id]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const { content, ...snapshot } = row;
+  return { ...snapshot, html: (await gunzipAsync(content)).toString('utf8') };
+}
+
+/**
+ * Most recent snapshots matching the filters, newest first
+ */
+export async function listPageSnapshots(filters: SnapshotFilters = {}): Promise<PageSnapshotRecord[]> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.url) {
+    params.push(filters.url);
+    conditions.push(`(ps.url = $${params.length} OR ps.final_url = $${params.length})`);
+  }
+  if (filters.registration) {
+    params.push(filters.registration);
+    conditions.push(`UPPER(ps.registration) = UPPER($${params.length})`);
+  }
+  if (filters.scrape_job_id !== undefined) {
+    params.push(filters.scrape_job_id);
+    conditions.push(`ps.scrape_job_id = $${params.length}`);
+  }
+
+  params.push(Math.min(filters.limit ?? DEFAULT_SNAPSHOT_LIMIT, MAX_SNAPSHOT_LIMIT));
+
+  const result = await queryPostgres<PageSnapshotRecord>(
+    `SELECT ${SNAPSHOT_COLUMNS}
+     FROM page_snapshots ps
+     LEFT JOIN scrape_jobs sj ON ps.scrape_job_id = sj.id
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY ps.fetched_at DESC, ps.id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return result.rows;
+}
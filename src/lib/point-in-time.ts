@@ -0,0 +1,68 @@
+/**
+ * Point-in-Time Queries
+ *
+ * Support for the `as_of` parameter of the fleet, statistics and aircraft
+ * tools and routes. Queries swap the `aircraft` table for the
+ * `aircraft_as_of(date)` SQL function (migration 009), which returns the same
+ * columns with the operator, status and seat configuration in effect on that
+ * date, and measure ages from that date instead of today.
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class AsOfDateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AsOfDateError';
+  }
+}
+
+/**
+ * SQL fragments for reading aircraft now or on an `as_of` date
+ */
+export interface AircraftSource {
+  /** Table expression to select aircraft from */
+  table: string;
+  /** Date expression to measure ages against */
+  referenceDate: string;
+}
+
+/**
+ * Validate an `as_of` value (YYYY-MM-DD, not in the future).
+ * Returns undefined when no date was given.
+ */
+export function parseAsOfDate(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    throw new AsOfDateError('as_of must be a date in YYYY-MM-DD format');
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new AsOfDateError(`Invalid as_of date: ${value}`);
+  }
+
+  if (value > new Date().toISOString().slice(0, 10)) {
+    throw new AsOfDateError('as_of cannot be in the future');
+  }
+
+  return value;
+}
+
+/**
+ * Where to read aircraft from. When `asOf` is set the caller binds it to
+ * query parameter `$paramIndex`.
+ */
+export function aircraftSource(asOf: string | undefined, paramIndex: number): AircraftSource {
+  if (!asOf) {
+    return { table: 'aircraft', referenceDate: 'CURRENT_DATE' };
+  }
+
+  return {
+    table: `aircraft_as_of($${paramIndex}::DATE)`,
+    referenceDate: `$${paramIndex}::DATE`,
+  };
+}
@@ -86,6 +86,21 @@ export class RateLimiter {
     return bucket.tokens;
   }
 
+  /**
+   * Seconds until enough tokens are available for a request of the given cost
+   */
+  getRetryAfter(key: string, cost: number = 1): number {
+    const bucket = this.getBucket(key);
+    this.refill(bucket);
+
+    const deficit = cost - bucket.tokens;
+    if (deficit <= 0) {
+      return 0;
+    }
+
+    return Math.ceil(deficit / this.refillRate);
+  }
+
   /**
    * Reset rate limit for a key
    */
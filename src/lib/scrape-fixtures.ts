@@ -0,0 +1,136 @@
+/**
+ * Scrape Fixtures
+ *
+ * Record and replay of everything the scraping agents read from outside the
+ * process: rendered pages and LLM responses. In `record` mode each live result
+ * is also written to the fixture directory; in `replay` mode results come only
+ * from that directory, so a workflow runs with no browser, network or LLM.
+ *
+ * Fixtures are JSON files under `<dir>/<kind>/<sha256 of the request>.json`.
+ * They are keyed by the exact request (URL, or prompt and options), so a
+ * changed prompt needs re-recording. A missing fixture in replay mode throws
+ * FixtureNotFoundError, which the agents treat like a failed page or LLM call.
+ *
+ * Mode and directory come from SCRAPER_FIXTURES (off | record | replay) and
+ * SCRAPER_FIXTURE_DIR, or from configureScrapeFixtures().
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('scrape-fixtures');
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export type FixtureKind = 'page' | 'llm';
+
+export const DEFAULT_FIXTURE_DIR = 'fixtures/scrapes';
+
+/** A rendered page as the agents use it */
+export interface PageSnapshot {
+  /** Final URL after redirects */
+  url: string;
+  title: string;
+  html: string;
+}
+
+interface FixtureFile<T> {
+  kind: FixtureKind;
+  request: unknown;
+  recorded_at: string;
+  response: T;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public kind: FixtureKind,
+    public file: string
+  ) {
+    super(`No recorded ${kind} fixture at ${file}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+function parseMode(value: string | undefined): FixtureMode {
+  if (value === 'record' || value === 'replay') {
+    return value;
+  }
+  if (value && value !== 'off') {
+    logger.warn(`Unknown SCRAPER_FIXTURES mode "${value}", fixtures are off`);
+  }
+  return 'off';
+}
+
+let mode: FixtureMode = parseMode(process.env['SCRAPER_FIXTURES']);
+let fixtureDir = process.env['SCRAPER_FIXTURE_DIR'] || DEFAULT_FIXTURE_DIR;
+
+/**
+ * Switch fixture mode and directory at runtime (CLI flags and tests)
+ */
+export function configureScrapeFixtures(options: { mode: FixtureMode; dir?: string }): void {
+  mode = options.mode;
+  if (options.dir) {
+    fixtureDir = options.dir;
+  }
+  logger.info(`Scrape fixtures: ${mode}${mode === 'off' ? '' : ` (${fixtureDir})`}`);
+}
+
+export function getFixtureMode(): FixtureMode {
+  return mode;
+}
+
+export function getFixtureDir(): string {
+  return fixtureDir;
+}
+
+function fixturePath(kind: FixtureKind, request: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  return path.join(fixtureDir, kind, `${hash}.json`);
+}
+
+/**
+ * Write a fixture as if it had been recorded (for hand-built test fixtures)
+ */
+export async function saveFixture<T>(kind: FixtureKind, request: unknown, response: T): Promise<string> {
+  const file = fixturePath(kind, request);
+  const fixture: FixtureFile<T> = {
+    kind,
+    request,
+    recorded_at: new Date().toISOString(),
+    response,
+  };
+
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2));
+  return file;
+}
+
+/**
+ * Run `live` unless replaying. Records its result in record mode and reads
+ * the recorded result instead in replay mode.
+ */
+export async function withFixture<T>(kind: FixtureKind, request: unknown, live: () => Promise<T>): Promise<T> {
+  if (mode === 'replay') {
+    const file = fixturePath(kind, request);
+    let contents: string;
+    try {
+      contents = await readFile(file, 'utf8');
+    } catch {
+      throw new FixtureNotFoundError(kind, file);
+    }
+
+    logger.debug(`Replaying ${kind} fixture ${file}`);
+    return (JSON.parse(contents) as FixtureFile<T>).response;
+  }
+
+  const response = await live();
+
+  if (mode === 'record') {
+    const file = await saveFixture(kind, request, response);
+    logger.debug(`Recorded ${kind} fixture ${file}`);
+  }
+
+  return response;
+}
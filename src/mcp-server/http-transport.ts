@@ -0,0 +1,299 @@
+/**
+ * MCP Streamable HTTP Transport
+ *
+ * Serves the MCP server over Streamable HTTP (JSON responses and SSE streams)
+ * so remote agents can share one deployed server instead of spawning their
+ * own process and database pool.
+ *
+ * Mounted by the REST API server at /mcp when MCP_TRANSPORT_MODE=http:
+ * - POST   /mcp - Initialize a session or send JSON-RPC messages
+ * - GET    /mcp - Open the SSE stream for server-to-client messages
+ * - DELETE /mcp - Terminate the session
+ *
+ * Requests are authenticated by the API's authMiddleware. Each session is
+ * bound to the API key that initialized it, and tools are listed and callable
+ * only when that key has the tool's scope (see TOOL_SCOPES). Calls to tools
+ * that need 'write' scope are written to the audit log with the tool name and
+ * the airline or job they act on.
+ */
+
+import { randomUUID } from 'crypto';
+import express, { Request, Response, Router } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../lib/logger.js';
+import { APIKeyRecord, AuthRequest, hasScope } from '../api/middleware/auth.js';
+import { AuditLogEntry, getClientIP, writeAuditLog } from '../api/middleware/audit-logger.js';
+import { createMCPServer, getToolScope, ToolCallResult } from './server.js';
+
+const logger = createLogger('mcp-http');
+
+const SESSION_HEADER = 'mcp-session-id';
+
+// Sessions idle longer than this are closed
+const SESSION_TTL_MS =
+  parseInt(process.env['MCP_SESSION_TTL_MINUTES'] || '30', 10) * 60 * 1000;
+
+// Audit actions for write-scope tools, named like the matching REST actions
+const TOOL_AUDIT_ACTIONS: Record<string, string> = {
+  trigger_fleet_update: 'scraping_job.create',
+  cancel_scrape_job: 'scraping_job.cancel',
+};
+
+/** Client that opened a session */
+export interface SessionOrigin {
+  ipAddress: string;
+  userAgent?: string;
+  sessionId?: string;
+}
+
+interface MCPSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  keyIdentity: string;
+  lastSeenAt: number;
+}
+
+const sessions = new Map<string, MCPSession>();
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Stable identity of an API key for session binding
+ */
+function keyIdentity(keyRecord: APIKeyRecord): string {
+  return keyRecord.id ?? keyRecord.name;
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Resolve the session for a request, checking it belongs to the calling key
+ */
+function getSession(req: Request, res: Response): MCPSession | null {
+  const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+  const keyRecord = (req as AuthRequest).apiKeyRecord;
+
+  if (!keyRecord) {
+    sendJsonRpcError(res, 401, 'API key required');
+    return null;
+  }
+
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+
+  if (!session) {
+    sendJsonRpcError(res, 404, 'Session not found');
+    return null;
+  }
+
+  if (session.keyIdentity !== keyIdentity(keyRecord)) {
+    logger.warn(`API key "${keyRecord.name}" attempted to use another key's MCP session`);
+    sendJsonRpcError(res, 403, 'Session belongs to a different API key');
+    return null;
+  }
+
+  session.lastSeenAt = Date.now();
+  return session;
+}
+
+/**
+ * Audit log entries for a tool call: one per airline for fleet updates, one
+ * for the job when cancelling. Only tools that need 'write' scope are audited.
+ */
+export function toolCallAuditEntries(
+  keyRecord: APIKeyRecord,
+  toolName: string,
+  args: unknown,
+  result: ToolCallResult,
+  origin: SessionOrigin
+): AuditLogEntry[] {
+  if (getToolScope(toolName) !== 'write') {
+    return [];
+  }
+
+  const params = (args ?? {}) as Record<string, unknown>;
+  const entry: AuditLogEntry = {
+    apiKeyId: keyRecord.id ?? undefined,
+    ipAddress: origin.ipAddress,
+    userAgent: origin.userAgent,
+    action: TOOL_AUDIT_ACTIONS[toolName] ?? `mcp.${toolName}`,
+    details: {
+      tool: toolName,
+      arguments: params,
+      api_key_name: keyRecord.name,
+      mcp_session_id: origin.sessionId,
+    },
+    httpMethod: 'POST',
+    httpPath: '/mcp',
+    httpStatus: 200,
+    success: !result.isError,
+    errorMessage: result.isError ? result.content[0]?.text : undefined,
+  };
+
+  const jobId = params['job_id'];
+  if (typeof jobId === 'string') {
+    return [{ ...entry, resourceType: 'scraping_job', resourceId: jobId }];
+  }
+
+  const airlineCodes = Array.isArray(params['airline_codes'])
+    ? params['airline_codes'].filter((code): code is string => typeof code === 'string')
+    : [];
+
+  // No airline codes means every airline
+  if (airlineCodes.length === 0) {
+    return [entry];
+  }
+
+  return airlineCodes.map((code) => ({ ...entry, resourceType: 'airline', resourceId: code.toUpperCase() }));
+}
+
+/**
+ * Start a new session for an initialize request
+ */
+async function createSession(keyRecord: APIKeyRecord, req: Request): Promise<StreamableHTTPServerTransport> {
+  const origin: SessionOrigin = {
+    ipAddress: getClientIP(req),
+    userAgent: req.get('user-agent'),
+  };
+
+  const server = createMCPServer({
+    canUseTool: (toolName) => hasScope(keyRecord, getToolScope(toolName)),
+    canReadResources: hasScope(keyRecord, 'read'),
+    onToolCall: (toolName, args, result) => {
+      const entries = toolCallAuditEntries(keyRecord, toolName, args, result, {
+        ...origin,
+        sessionId: transport.sessionId,
+      });
+      void Promise.all(entries.map((entry) => writeAuditLog(entry)));
+    },
+  });
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (sessionId) => {
+      sessions.set(sessionId, {
+        transport,
+        server,
+        keyIdentity: keyIdentity(keyRecord),
+        lastSeenAt: Date.now(),
+      });
+      logger.info(`MCP session ${sessionId} opened for API key "${keyRecord.name}"`);
+    },
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId && sessions.delete(transport.sessionId)) {
+      logger.info(`MCP session ${transport.sessionId} closed`);
+    }
+  };
+
+  await server.connect(transport);
+  return transport;
+}
+
+/**
+ * Close sessions that have been idle longer than the TTL
+ */
+async function sweepIdleSessions(): Promise<void> {
+  const cutoff = Date.now() - SESSION_TTL_MS;
+
+  for (const [sessionId, session] of sessions) {
+    if (session.lastSeenAt < cutoff) {
+      logger.info(`Closing idle MCP session ${sessionId}`);
+      sessions.delete(sessionId);
+      await session.server.close().catch((error) => {
+        logger.error(`Failed to close MCP session ${sessionId}:`, error);
+      });
+    }
+  }
+}
+
+/**
+ * Create the Express router serving the MCP endpoint
+ */
+export function createMCPRouter(): Router {
+  const router = express.Router();
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(() => void sweepIdleSessions(), 60 * 1000);
+    sweepTimer.unref();
+  }
+
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const keyRecord = (req as AuthRequest).apiKeyRecord;
+
+      if (!keyRecord) {
+        sendJsonRpcError(res, 401, 'API key required');
+        return;
+      }
+
+      if (!req.headers[SESSION_HEADER]) {
+        if (!isInitializeRequest(req.body)) {
+          sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header');
+          return;
+        }
+
+        const transport = await createSession(keyRecord, req);
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      const session = getSession(req, res);
+      if (!session) return;
+
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // SSE stream and session termination
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    try {
+      const session = getSession(req, res);
+      if (!session) return;
+
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  };
+
+  router.get('/', handleSessionRequest);
+  router.delete('/', handleSessionRequest);
+
+  return router;
+}
+
+/**
+ * Close every open session (used on shutdown)
+ */
+export async function closeMCPSessions(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+
+  const open = [...sessions.values()];
+  sessions.clear();
+
+  await Promise.allSettled(open.map((session) => session.server.close()));
+  logger.info(`Closed ${open.length} MCP sessions`);
+}
@@ -4,7 +4,14 @@
  * Aircraft Database MCP Server
  *
  * Canonical source of truth for airline fleet data.
- * Exposes MCP tools for querying aircraft and fleet information.
+ * Exposes MCP tools for querying aircraft and fleet information, and
+ * resources (aircraft://...) for attaching fleet data as context, and prompts
+ * for common fleet-analysis workflows.
+ *
+ * Transports:
+ * - stdio (default): one server per client process
+ * - http (`--http` or MCP_TRANSPORT_MODE=http): Streamable HTTP at /mcp, mounted
+ *   on the REST API server and authenticated with API keys
  *
  * @version 1.0.0
  * @author Number Labs
@@ -12,25 +19,15 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
-} from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 import { createLogger } from '../lib/logger.js';
 import { initializeDatabases, closeDatabases } from '../lib/db-clients.js';
+import { assertSchemaCompatible } from '../database/postgres/schema-check.js';
 import { globalCache } from '../lib/cache.js';
+import { stopFleetEvents } from '../lib/fleet-events.js';
 import { globalRateLimiter } from '../lib/rate-limiter.js';
-
-// Import MCP tools
-import { getAirlineFleetTool, handleGetAirlineFleet } from './tools/get-airline-fleet.js';
-import { getAircraftDetailsTool, handleGetAircraftDetails } from './tools/get-aircraft-details.js';
-import { searchAircraftTool, handleSearchAircraft } from './tools/search-aircraft.js';
-import { getFleetStatisticsTool, handleGetFleetStatistics } from './tools/get-fleet-statistics.js';
-import { triggerFleetUpdateTool, handleTriggerFleetUpdate } from './tools/trigger-fleet-update.js';
-import { getAircraftTypeSpecsTool, handleGetAircraftTypeSpecs } from './tools/get-aircraft-type-specs.js';
-import { getFleetAvailabilityTool, handleGetFleetAvailability } from './tools/get-fleet-availability.js';
+import { createMCPServer, mcpTools, SERVER_NAME, SERVER_VERSION } from './server.js';
+import { mcpPrompts } from './prompts.js';
 
 // Load environment variables
 dotenv.config();
@@ -38,49 +35,15 @@ dotenv.config();
 // Initialize logger
 const logger = createLogger('mcp-server');
 
-// MCP Server configuration
-const SERVER_NAME = process.env['MCP_SERVER_NAME'] || 'aircraft-database';
-const SERVER_VERSION = process.env['MCP_SERVER_VERSION'] || '1.0.0';
-
 /**
  * Main MCP Server class
  */
 class AircraftDatabaseMCPServer {
   private server: Server;
-  private tools: Tool[];
 
   constructor() {
-    // Initialize MCP Server
-    this.server = new Server(
-      {
-        name: SERVER_NAME,
-        version: SERVER_VERSION,
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    // Register all tools
-    this.tools = [
-      getAirlineFleetTool,
-      getAircraftDetailsTool,
-      searchAircraftTool,
-      getFleetStatisticsTool,
-      triggerFleetUpdateTool,
-      getAircraftTypeSpecsTool,
-      getFleetAvailabilityTool,
-    ];
-
-    // Set up request handlers
-    this.setupHandlers();
-
-    // Error handling
-    this.server.onerror = (error) => {
-      logger.error('MCP Server error:', error);
-    };
+    // Initialize MCP Server with all tools registered
+    this.server = createMCPServer();
 
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
@@ -95,73 +58,6 @@ class AircraftDatabaseMCPServer {
     });
   }
 
-  /**
-   * Set up MCP request handlers
-   */
-  private setupHandlers(): void {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      logger.debug('Received list_tools request');
-      return {
-        tools: this.tools,
-      };
-    });
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      logger.info(`Received tool call: ${name}`, { args });
-
-      try {
-        switch (name) {
-          case 'get_airline_fleet':
-            return await handleGetAirlineFleet(args);
-
-          case 'get_aircraft_details':
-            return await handleGetAircraftDetails(args);
-
-          case 'search_aircraft':
-            return await handleSearchAircraft(args);
-
-          case 'get_fleet_statistics':
-            return await handleGetFleetStatistics(args);
-
-          case 'trigger_fleet_update':
-            return await handleTriggerFleetUpdate(args);
-
-          case 'get_aircraft_type_specs':
-            return await handleGetAircraftTypeSpecs(args);
-
-          case 'get_fleet_availability':
-            return await handleGetFleetAvailability(args);
-
-          default:
-            logger.error(`Unknown tool: ${name}`);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Error: Unknown tool '${name}'`,
-                },
-              ],
-              isError: true,
-            };
-        }
-      } catch (error) {
-        logger.error(`Error executing tool ${name}:`, error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-    });
-  }
-
   /**
    * Initialize the server and connect to databases
    */
@@ -173,6 +69,9 @@ class AircraftDatabaseMCPServer {
       await initializeDatabases();
       logger.info('Database connections established');
 
+      // Refuse to start against an outdated schema
+      await assertSchemaCompatible();
+
       // Log cache and rate limiter status
       logger.info(`Cache initialized (size: ${globalCache.size()})`);
       logger.info(`Rate limiter initialized (${JSON.stringify(globalRateLimiter.getStats())})`);
@@ -199,7 +98,8 @@ class AircraftDatabaseMCPServer {
     await this.server.connect(transport);
 
     logger.info(`${SERVER_NAME} v${SERVER_VERSION} is running`);
-    logger.info(`Available tools: ${this.tools.map(t => t.name).join(', ')}`);
+    logger.info(`Available tools: ${mcpTools.map(t => t.name).join(', ')}`);
+    logger.info(`Available prompts: ${mcpPrompts.map(p => p.name).join(', ')}`);
     logger.info('Waiting for tool requests...');
   }
 
@@ -217,6 +117,7 @@ class AircraftDatabaseMCPServer {
       globalRateLimiter.clear();
 
       // Close database connections
+      await stopFleetEvents();
       await closeDatabases();
 
       // Close MCP server
@@ -230,11 +131,26 @@ class AircraftDatabaseMCPServer {
   }
 }
 
+/**
+ * Whether the HTTP transport was requested
+ */
+function useHttpTransport(): boolean {
+  return process.argv.includes('--http') || process.env['MCP_TRANSPORT_MODE'] === 'http';
+}
+
 /**
  * Main entry point
  */
 async function main(): Promise<void> {
   try {
+    if (useHttpTransport()) {
+      // The HTTP transport shares the API server's port, auth and database pool
+      process.env['MCP_TRANSPORT_MODE'] = 'http';
+      const { APIServer } = await import('../api/server.js');
+      await new APIServer().start();
+      return;
+    }
+
     const server = new AircraftDatabaseMCPServer();
     await server.start();
   } catch (error) {
@@ -0,0 +1,260 @@
+/**
+ * MCP Prompts
+ *
+ * Parameterized templates for recurring fleet-analysis questions. Each prompt
+ * expands into a user message that walks the model through the tool calls
+ * needed to answer it.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../lib/logger.js';
+
+const logger = createLogger('mcp-prompts');
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition extends Prompt {
+  render: (args: PromptArgs) => string;
+}
+
+const YEAR_RANGE_ARGUMENTS = [
+  {
+    name: 'from_year',
+    description: 'Only consider aircraft built in or after this year (e.g., 2010)',
+    required: false,
+  },
+  {
+    name: 'to_year',
+    description: 'Only consider aircraft built in or before this year (e.g., 2020)',
+    required: false,
+  },
+];
+
+/**
+ * Parse and validate an airline code argument
+ */
+function airlineCode(args: PromptArgs, name: string): string {
+  const value = args[name]?.trim().toUpperCase();
+
+  if (!value) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+  if (!/^[A-Z0-9]{2,4}$/.test(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an IATA or ICAO airline code, got '${value}'`);
+  }
+
+  return value;
+}
+
+/**
+ * Parse a comma-separated list of airline codes
+ */
+function airlineCodes(args: PromptArgs, name: string): string[] {
+  const codes = (args[name] || '')
+    .split(',')
+    .map((code) => code.trim())
+    .filter(Boolean);
+
+  if (codes.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+  }
+
+  return codes.map((code) => airlineCode({ [name]: code }, name));
+}
+
+/**
+ * Parse the optional from_year/to_year range
+ */
+function yearRange(args: PromptArgs): { from?: number; to?: number } {
+  const parse = (name: string): number | undefined => {
+    const value = args[name]?.trim();
+    if (!value) return undefined;
+
+    if (!/^\d{4}$/.test(value)) {
+      throw new McpError(ErrorCode.InvalidParams, `${name} must be a four-digit year, got '${value}'`);
+    }
+    return parseInt(value, 10);
+  };
+
+  const from = parse('from_year');
+  const to = parse('to_year');
+
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new McpError(ErrorCode.InvalidParams, `from_year (${from}) is after to_year (${to})`);
+  }
+
+  return { from, to };
+}
+
+/**
+ * Describe a year range and the matching search_aircraft filters
+ */
+function describeYearRange(range: { from?: number; to?: number }): { label: string; filters: string } {
+  if (range.from === undefined && range.to === undefined) {
+    return { label: 'all build years', filters: '' };
+  }
+
+  const filters = [
+    range.from !== undefined ? `"min_year": ${range.from}` : null,
+    range.to !== undefined ? `"max_year": ${range.to}` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  const label =
+    range.from !== undefined && range.to !== undefined
+      ? `aircraft built ${range.from}-${range.to}`
+      : range.from !== undefined
+        ? `aircraft built in or after ${range.from}`
+        : `aircraft built in or before ${range.to}`;
+
+  return { label, filters: `, ${filters}` };
+}
+
+const comparePrompt: PromptDefinition = {
+  name: 'compare_airline_fleets',
+  description: "Compare two airlines' fleets: size, age, type mix, status and available capacity",
+  arguments: [
+    { name: 'airline_a', description: 'IATA/ICAO code of the first airline (e.g., UA)', required: true },
+    { name: 'airline_b', description: 'IATA/ICAO code of the second airline (e.g., DL)', required: true },
+    ...YEAR_RANGE_ARGUMENTS,
+  ],
+  render: (args) => {
+    const a = airlineCode(args, 'airline_a');
+    const b = airlineCode(args, 'airline_b');
+    const range = describeYearRange(yearRange(args));
+
+    return `Compare the fleets of ${a} and ${b} (${range.label}).
+
+For each airline:
+1. Call \`get_fleet_statistics\` with {"scope": "airline", "scope_value": "<code>", "metrics": ["total_count", "average_age", "status_breakdown", "type_distribution"]}.
+2. Call \`search_aircraft\` with {"query": "", "filters": {"airline_code": "<code>"${range.filters}}, "limit": 500} to list the aircraft in scope.
+3. Call \`get_fleet_availability\` with {"airline_code": "<code>"} for operational availability.
+
+Then summarise, side by side:
+- Fleet size and average age
+- Aircraft types operated by both airlines and types unique to each
+- Manufacturer split (Boeing vs Airbus vs others)
+- Share of the fleet that is active, stored or in maintenance
+- Available aircraft and seats by type
+
+Finish with the most significant differences and what they suggest about each airline's strategy. Call out any gaps in the data rather than guessing.`;
+  },
+};
+
+const lessorExposurePrompt: PromptDefinition = {
+  name: 'lessor_exposure',
+  description: 'Assess how much of one or more fleets is leased, by lessor and aircraft type',
+  arguments: [
+    {
+      name: 'airline_codes',
+      description: 'Comma-separated IATA/ICAO airline codes (e.g., "UA,DL,AA")',
+      required: true,
+    },
+    { name: 'lessor', description: 'Focus on a single lessor (e.g., AerCap)', required: false },
+    ...YEAR_RANGE_ARGUMENTS,
+  ],
+  render: (args) => {
+    const codes = airlineCodes(args, 'airline_codes');
+    const lessor = args['lessor']?.trim();
+    const range = describeYearRange(yearRange(args));
+
+    return `Assess lessor exposure for ${codes.join(', ')} (${range.label})${lessor ? `, focusing on ${lessor}` : ''}.
+
+1. Call \`get_lessor_exposure\` with {"airline_codes": ${JSON.stringify(codes)}${lessor ? `, "lessor": ${JSON.stringify(lessor)}` : ''}, "expiring_within_months": 24} for ownership, lessor and lease-return figures.
+2. For each airline, call \`search_aircraft\` with {"query": "", "filters": {"airline_code": "<code>"${range.filters}}, "limit": 500} to restrict the analysis to aircraft in scope.
+3. For each airline, call \`get_fleet_availability\` with {"airline_code": "<code>"} to see how much leased capacity is currently available.
+
+Report:
+- Owned vs leased vs wet-leased aircraft, as counts and as a share of the fleet
+- Leased aircraft by ${lessor ? `type for ${lessor}` : 'lessor and by type'}
+- Concentration risk: the largest lessor's share of each airline's fleet, and the lessor HHI
+- Aircraft types where the airline depends most on leases
+- Leases returning in the next two years and the capacity they represent
+
+Flag aircraft with unknown ownership separately instead of counting them as owned.`;
+  },
+};
+
+const modernizationPrompt: PromptDefinition = {
+  name: 'fleet_modernization_assessment',
+  description: "Assess an airline's fleet modernization: age profile, new-generation share and retirement candidates",
+  arguments: [
+    { name: 'airline_code', description: 'IATA/ICAO airline code (e.g., LH)', required: true },
+    ...YEAR_RANGE_ARGUMENTS,
+  ],
+  render: (args) => {
+    const code = airlineCode(args, 'airline_code');
+    const range = describeYearRange(yearRange(args));
+
+    return `Assess fleet modernization at ${code} (${range.label}).
+
+1. Call \`get_fleet_modernization_stats\` with {"airline_code": "${code}"} for the modern / mid-age / aging split.
+2. Call \`get_fleet_statistics\` with {"scope": "airline", "scope_value": "${code}", "metrics": ["average_age", "type_distribution", "status_breakdown"]}.
+3. Call \`search_aircraft\` with {"query": "", "filters": {"airline_code": "${code}"${range.filters}}, "limit": 500} to see which types were added in that period.
+4. Call \`find_aircraft_nearing_retirement\` with {"airline_code": "${code}"} for replacement candidates.
+5. Call \`get_fleet_availability\` with {"airline_code": "${code}"} to check how much of the newer fleet is in service.
+
+Report:
+- Age profile and average age, compared with a typical 10-12 year industry average
+- Share of new-generation types (e.g., A320neo family, 737 MAX, A350, 787) vs previous-generation types
+- Types being phased in and phased out over the period
+- Aircraft most likely to be retired next and what would replace them
+
+End with an overall modernization rating (leading / on track / lagging) and the reasoning behind it.`;
+  },
+};
+
+const prompts: PromptDefinition[] = [comparePrompt, lessorExposurePrompt, modernizationPrompt];
+
+/**
+ * All registered prompts (without their renderers)
+ */
+export const mcpPrompts: Prompt[] = prompts.map(({ render: _render, ...prompt }) => prompt);
+
+/**
+ * Expand a prompt template with its arguments
+ */
+export function getPrompt(name: string, args: PromptArgs = {}): GetPromptResult {
+  const prompt = prompts.find((p) => p.name === name);
+
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.render(args) },
+      },
+    ],
+  };
+}
+
+/**
+ * Register prompt handlers on an MCP server.
+ *
+ * The server must declare the `prompts` capability.
+ */
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.debug('Received list_prompts request');
+    return { prompts: mcpPrompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    logger.info(`Received prompt request: ${name}`, { args });
+    return getPrompt(name, args);
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * MCP Resources
+ *
+ * Exposes fleet data as attachable context through URI templates:
+ * - aircraft://airline/{code}/fleet      - Airline fleet snapshot (get_airline_fleet)
+ * - aircraft://aircraft/{registration}   - Aircraft details (get_aircraft_details)
+ * - aircraft://type/{model}              - Aircraft type specs (get_aircraft_type_specs)
+ *
+ * Resources are rendered by the same handlers as the matching tools. Clients
+ * can subscribe to fleet and aircraft resources and receive
+ * `notifications/resources/updated` when a scrape changes them.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { queryPostgres } from '../lib/db-clients.js';
+import { createLogger } from '../lib/logger.js';
+import { FleetUpdatedEvent, onFleetUpdated } from '../lib/fleet-events.js';
+import { handleGetAirlineFleet } from './tools/get-airline-fleet.js';
+import { handleGetAircraftDetails } from './tools/get-aircraft-details.js';
+import { handleGetAircraftTypeSpecs } from './tools/get-aircraft-type-specs.js';
+import type { ToolCallResult } from './server.js';
+
+const logger = createLogger('mcp-resources');
+
+const MIME_TYPE = 'text/markdown';
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'aircraft://airline/{code}/fleet',
+    name: 'Airline fleet',
+    description: 'Current fleet of an airline by IATA or ICAO code, with per-aircraft details',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: 'aircraft://aircraft/{registration}',
+    name: 'Aircraft',
+    description: 'Details of a single aircraft by registration',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: 'aircraft://type/{model}',
+    name: 'Aircraft type',
+    description: 'Technical specifications of an aircraft type (e.g., 737-800, A320neo)',
+    mimeType: MIME_TYPE,
+  },
+];
+
+type ParsedResource =
+  | { kind: 'fleet'; code: string }
+  | { kind: 'aircraft'; registration: string }
+  | { kind: 'type'; model: string };
+
+/**
+ * Parse a resource URI against the templates
+ */
+export function parseResourceUri(uri: string): ParsedResource | null {
+  const fleet = uri.match(/^aircraft:\/\/airline\/([^/]+)\/fleet$/);
+  if (fleet) return { kind: 'fleet', code: decodeURIComponent(fleet[1]!).toUpperCase() };
+
+  const aircraft = uri.match(/^aircraft:\/\/aircraft\/([^/]+)$/);
+  if (aircraft) {
+    return { kind: 'aircraft', registration: decodeURIComponent(aircraft[1]!).toUpperCase() };
+  }
+
+  const type = uri.match(/^aircraft:\/\/type\/([^/]+)$/);
+  if (type) return { kind: 'type', model: decodeURIComponent(type[1]!) };
+
+  return null;
+}
+
+/**
+ * Render a resource with the matching tool handler
+ */
+async function readResource(uri: string, resource: ParsedResource): Promise<string> {
+  let result: ToolCallResult;
+
+  switch (resource.kind) {
+    case 'fleet':
+      result = await handleGetAirlineFleet({ airline_code: resource.code, include_details: true });
+      break;
+    case 'aircraft':
+      result = await handleGetAircraftDetails({ identifier: resource.registration });
+      break;
+    case 'type':
+      result = await handleGetAircraftTypeSpecs({ aircraft_type: resource.model });
+      break;
+  }
+
+  const text = result.content.map((item) => item.text).join('\n');
+
+  if (result.isError) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot read ${uri}: ${text}`);
+  }
+
+  return text;
+}
+
+/**
+ * Subscribed URIs affected by a fleet update
+ */
+export async function getUpdatedUris(event: FleetUpdatedEvent, subscriptions: Set<string>): Promise<string[]> {
+  const airlineResult = await queryPostgres<{ id: number; iata_code: string | null; icao_code: string }>(
+    `SELECT id, iata_code, icao_code FROM airlines
+     WHERE UPPER(iata_code) = $1 OR UPPER(icao_code) = $1
+     LIMIT 1`,
+    [event.airline_code]
+  );
+
+  const airline = airlineResult.rows[0];
+  if (!airline) return [];
+
+  const codes = [airline.iata_code, airline.icao_code]
+    .filter((code): code is string => Boolean(code))
+    .map((code) => code.toUpperCase());
+
+  const updated: string[] = [];
+  const registrations = new Map<string, string>();
+
+  for (const uri of subscriptions) {
+    const resource = parseResourceUri(uri);
+
+    if (resource?.kind === 'fleet' && codes.includes(resource.code)) {
+      updated.push(uri);
+    } else if (resource?.kind === 'aircraft') {
+      registrations.set(resource.registration, uri);
+    }
+  }
+
+  if (registrations.size > 0) {
+    const aircraftResult = await queryPostgres<{ registration: string }>(
+      `SELECT UPPER(registration) as registration FROM aircraft
+       WHERE airline_id = $1 AND UPPER(registration) = ANY($2)`,
+      [airline.id, [...registrations.keys()]]
+    );
+
+    for (const row of aircraftResult.rows) {
+      updated.push(registrations.get(row.registration)!);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Register resource handlers on an MCP server.
+ *
+ * The server must declare the `resources` capability with `subscribe: true`.
+ */
+export function registerResources(
+  server: Server,
+  options: { canReadResources?: boolean } = {}
+): void {
+  const canReadResources = options.canReadResources ?? true;
+  const subscriptions = new Set<string>();
+  let stopListening: (() => void) | null = null;
+
+  const assertReadable = () => {
+    if (!canReadResources) {
+      throw new McpError(ErrorCode.InvalidRequest, "API key does not have 'read' permission");
+    }
+  };
+
+  const handleFleetUpdated = async (event: FleetUpdatedEvent) => {
+    try {
+      for (const uri of await getUpdatedUris(event, subscriptions)) {
+        await server.sendResourceUpdated({ uri });
+        logger.debug(`Sent resource update: ${uri}`);
+      }
+    } catch (error) {
+      logger.error('Failed to send resource updates:', error);
+    }
+  };
+
+  // Fleet snapshots of airlines with aircraft
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    assertReadable();
+
+    const result = await queryPostgres<{ code: string; name: string; aircraft_count: number }>(
+      `SELECT COALESCE(al.iata_code, al.icao_code) as code, al.name, COUNT(a.id)::INTEGER as aircraft_count
+       FROM airlines al
+       JOIN aircraft a ON a.airline_id = al.id
+       GROUP BY al.id, al.iata_code, al.icao_code, al.name
+       ORDER BY al.name`
+    );
+
+    return {
+      resources: result.rows.map((row) => ({
+        uri: `aircraft://airline/${encodeURIComponent(row.code)}/fleet`,
+        name: `${row.name} fleet`,
+        description: `${row.aircraft_count} aircraft`,
+        mimeType: MIME_TYPE,
+      })),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    assertReadable();
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    assertReadable();
+
+    const { uri } = request.params;
+    const resource = parseResourceUri(uri);
+
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    logger.info(`Reading resource: ${uri}`);
+
+    return {
+      contents: [{ uri, mimeType: MIME_TYPE, text: await readResource(uri, resource) }],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    assertReadable();
+
+    const { uri } = request.params;
+    const resource = parseResourceUri(uri);
+
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    // Type specs are reference data and never change with a scrape
+    if (resource.kind !== 'type') {
+      subscriptions.add(uri);
+
+      if (!stopListening) {
+        stopListening = await onFleetUpdated((event) => void handleFleetUpdated(event));
+      }
+    }
+
+    logger.info(`Subscribed to resource: ${uri}`);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+
+    if (subscriptions.size === 0 && stopListening) {
+      stopListening();
+      stopListening = null;
+    }
+
+    return {};
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    previousOnClose?.();
+    stopListening?.();
+    stopListening = null;
+    subscriptions.clear();
+  };
+}
@@ -14,6 +14,7 @@ export const GetAirlineFleetSchema = z.object({
     .enum(['active', 'stored', 'maintenance', 'retired', 'all'])
     .default('active')
     .describe('Filter by aircraft status'),
+  as_of: z.string().optional().describe('Reconstruct the fleet as it stood on this date (YYYY-MM-DD)'),
 });
 
 export type GetAirlineFleetInput = z.infer<typeof GetAirlineFleetSchema>;
@@ -102,6 +103,175 @@ export const GetFleetAvailabilitySchema = z.object({
 
 export type GetFleetAvailabilityInput = z.infer<typeof GetFleetAvailabilitySchema>;
 
+/**
+ * find-similar-airlines schema
+ */
+export const FindSimilarAirlinesSchema = z.object({
+  airline_code: z.string().min(2).max(4).describe('IATA/ICAO airline code'),
+  min_common_types: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(3)
+    .describe('Minimum number of shared aircraft types'),
+});
+
+export type FindSimilarAirlinesInput = z.infer<typeof FindSimilarAirlinesSchema>;
+
+/**
+ * get-alliance-network schema
+ */
+export const GetAllianceNetworkSchema = z.object({
+  alliance: z.string().min(2).max(50).describe('Alliance name (e.g., "Star Alliance", "oneworld", "SkyTeam")'),
+});
+
+export type GetAllianceNetworkInput = z.infer<typeof GetAllianceNetworkSchema>;
+
+/**
+ * get-manufacturer-market-share schema
+ */
+export const GetManufacturerMarketShareSchema = z.object({});
+
+export type GetManufacturerMarketShareInput = z.infer<typeof GetManufacturerMarketShareSchema>;
+
+/**
+ * find-aircraft-nearing-retirement schema
+ */
+export const FindAircraftNearingRetirementSchema = z.object({
+  airline_code: z.string().min(2).max(4).optional().describe('IATA/ICAO airline code (omit for all airlines)'),
+});
+
+export type FindAircraftNearingRetirementInput = z.infer<typeof FindAircraftNearingRetirementSchema>;
+
+/**
+ * get-codeshare-partners schema
+ */
+export const GetCodesharePartnersSchema = z.object({
+  airline_code: z.string().min(2).max(4).describe('IATA/ICAO airline code'),
+});
+
+export type GetCodesharePartnersInput = z.infer<typeof GetCodesharePartnersSchema>;
+
+/**
+ * get-fleet-modernization-stats schema
+ */
+export const GetFleetModernizationStatsSchema = z.object({
+  airline_code: z.string().min(2).max(4).describe('IATA/ICAO airline code'),
+});
+
+export type GetFleetModernizationStatsInput = z.infer<typeof GetFleetModernizationStatsSchema>;
+
+/**
+ * get-scrape-job-status schema
+ */
+export const GetScrapeJobStatusSchema = z.object({
+  job_id: z.string().min(1).describe('Job ID returned by trigger_fleet_update'),
+  wait: z.boolean().default(false).describe('Wait for the job to finish, sending progress notifications'),
+  timeout_seconds: z
+    .number()
+    .int()
+    .positive()
+    .max(900)
+    .default(300)
+    .describe('Maximum time to wait when wait is true'),
+});
+
+export type GetScrapeJobStatusInput = z.infer<typeof GetScrapeJobStatusSchema>;
+
+/**
+ * list-scrape-jobs schema
+ */
+export const ListScrapeJobsSchema = z.object({
+  status: z
+    .enum(['pending', 'running', 'completed', 'failed', 'cancelled'])
+    .optional()
+    .describe('Filter by job status'),
+  airline_code: z.string().min(2).max(4).optional().describe('Filter by IATA/ICAO airline code'),
+  limit: z.number().int().positive().max(100).default(20).describe('Maximum jobs to return'),
+});
+
+export type ListScrapeJobsInput = z.infer<typeof ListScrapeJobsSchema>;
+
+/**
+ * cancel-scrape-job schema
+ */
+export const CancelScrapeJobSchema = z.object({
+  job_id: z.string().min(1).describe('Job ID to cancel'),
+});
+
+export type CancelScrapeJobInput = z.infer<typeof CancelScrapeJobSchema>;
+
+/**
+ * compare-fleets schema
+ */
+export const CompareFleetsSchema = z.object({
+  airline_codes: z
+    .array(z.string().min(2).max(4))
+    .min(2)
+    .max(10)
+    .describe('IATA/ICAO codes of the airlines to compare (2-10)'),
+});
+
+export type CompareFleetsInput = z.infer<typeof CompareFleetsSchema>;
+
+/**
+ * get-fleet-timeseries schema
+ */
+export const GetFleetTimeseriesSchema = z.object({
+  airline_code: z.string().min(2).max(4).describe('IATA/ICAO airline code'),
+  from_month: z.string().optional().describe('First month of the series (YYYY-MM, default 10 years ago)'),
+  to_month: z.string().optional().describe('Last month of the series (YYYY-MM, default current month)'),
+});
+
+export type GetFleetTimeseriesInput = z.infer<typeof GetFleetTimeseriesSchema>;
+
+/**
+ * get-capacity-analytics schema
+ */
+export const GetCapacityAnalyticsSchema = z.object({
+  airline_code: z.string().min(2).max(4).optional().describe('Limit to one airline (IATA/ICAO code)'),
+  country: z.string().min(2).optional().describe('Limit to airlines from this country'),
+  alliance: z.string().min(2).optional().describe('Limit to members of this alliance'),
+});
+
+export type GetCapacityAnalyticsInput = z.infer<typeof GetCapacityAnalyticsSchema>;
+
+/**
+ * get-lessor-exposure schema
+ */
+export const GetLessorExposureSchema = z.object({
+  airline_codes: z
+    .array(z.string().min(2).max(4))
+    .max(20)
+    .optional()
+    .describe('Limit to these airlines (IATA/ICAO codes)'),
+  lessor: z.string().min(2).optional().describe('Limit lessor breakdowns to one lessor'),
+  alliance: z.string().min(2).optional().describe('Limit to members of this alliance'),
+  expiring_within_months: z
+    .number()
+    .int()
+    .min(1)
+    .max(120)
+    .optional()
+    .describe('Window for upcoming lease returns in months (default 12)'),
+});
+
+export type GetLessorExposureInput = z.infer<typeof GetLessorExposureSchema>;
+
+/**
+ * get-maintenance-forecast schema
+ */
+export const GetMaintenanceForecastSchema = z.object({
+  airline_code: z.string().min(2).max(4).describe('IATA/ICAO airline code'),
+  from_date: z.string().optional().describe('First day of the forecast (YYYY-MM-DD, default today)'),
+  to_date: z.string().optional().describe('Last day of the forecast (YYYY-MM-DD, default 90 days after from_date)'),
+  home_base: z.string().optional().describe('Filter by home base airport'),
+  aircraft_types: z.array(z.string()).optional().describe('Filter by specific aircraft types'),
+});
+
+export type GetMaintenanceForecastInput = z.infer<typeof GetMaintenanceForecastSchema>;
+
 /**
  * Validation helper function
  */
@@ -0,0 +1,302 @@
+/**
+ * MCP Server Factory
+ *
+ * Builds an MCP `Server` with every aircraft database tool registered.
+ * Used by the stdio entry point (one server per process) and by the HTTP
+ * transport (one server per client session).
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../lib/logger.js';
+import type { APIScope } from '../api/middleware/auth.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+
+// Import MCP tools
+import { getAirlineFleetTool, handleGetAirlineFleet } from './tools/get-airline-fleet.js';
+import { getAircraftDetailsTool, handleGetAircraftDetails } from './tools/get-aircraft-details.js';
+import { searchAircraftTool, handleSearchAircraft } from './tools/search-aircraft.js';
+import { getFleetStatisticsTool, handleGetFleetStatistics } from './tools/get-fleet-statistics.js';
+import { triggerFleetUpdateTool, handleTriggerFleetUpdate } from './tools/trigger-fleet-update.js';
+import { getAircraftTypeSpecsTool, handleGetAircraftTypeSpecs } from './tools/get-aircraft-type-specs.js';
+import { getFleetAvailabilityTool, handleGetFleetAvailability } from './tools/get-fleet-availability.js';
+import { findSimilarAirlinesTool, handleFindSimilarAirlines } from './tools/find-similar-airlines.js';
+import { getAllianceNetworkTool, handleGetAllianceNetwork } from './tools/get-alliance-network.js';
+import {
+  getManufacturerMarketShareTool,
+  handleGetManufacturerMarketShare,
+} from './tools/get-manufacturer-market-share.js';
+import {
+  findAircraftNearingRetirementTool,
+  handleFindAircraftNearingRetirement,
+} from './tools/find-aircraft-nearing-retirement.js';
+import { getCodesharePartnersTool, handleGetCodesharePartners } from './tools/get-codeshare-partners.js';
+import {
+  getFleetModernizationStatsTool,
+  handleGetFleetModernizationStats,
+} from './tools/get-fleet-modernization-stats.js';
+import { getScrapeJobStatusTool, handleGetScrapeJobStatus } from './tools/get-scrape-job-status.js';
+import { listScrapeJobsTool, handleListScrapeJobs } from './tools/list-scrape-jobs.js';
+import { cancelScrapeJobTool, handleCancelScrapeJob } from './tools/cancel-scrape-job.js';
+import { compareFleetsTool, handleCompareFleets } from './tools/compare-fleets.js';
+import { getFleetTimeseriesTool, handleGetFleetTimeseries } from './tools/get-fleet-timeseries.js';
+import { getCapacityAnalyticsTool, handleGetCapacityAnalytics } from './tools/get-capacity-analytics.js';
+import { getLessorExposureTool, handleGetLessorExposure } from './tools/get-lessor-exposure.js';
+import { getMaintenanceForecastTool, handleGetMaintenanceForecast } from './tools/get-maintenance-forecast.js';
+
+const logger = createLogger('mcp-server');
+
+// MCP Server configuration
+export const SERVER_NAME = process.env['MCP_SERVER_NAME'] || 'aircraft-database';
+export const SERVER_VERSION = process.env['MCP_SERVER_VERSION'] || '1.0.0';
+
+/**
+ * All registered tools
+ */
+export const mcpTools: Tool[] = [
+  getAirlineFleetTool,
+  getAircraftDetailsTool,
+  searchAircraftTool,
+  getFleetStatisticsTool,
+  triggerFleetUpdateTool,
+  getAircraftTypeSpecsTool,
+  getFleetAvailabilityTool,
+  findSimilarAirlinesTool,
+  getAllianceNetworkTool,
+  getManufacturerMarketShareTool,
+  findAircraftNearingRetirementTool,
+  getCodesharePartnersTool,
+  getFleetModernizationStatsTool,
+  getScrapeJobStatusTool,
+  listScrapeJobsTool,
+  cancelScrapeJobTool,
+  compareFleetsTool,
+  getFleetTimeseriesTool,
+  getCapacityAnalyticsTool,
+  getLessorExposureTool,
+  getMaintenanceForecastTool,
+];
+
+/**
+ * API key scope required to call each tool. Tools not listed require 'read'.
+ */
+export const TOOL_SCOPES: Record<string, APIScope> = {
+  trigger_fleet_update: 'write',
+  cancel_scrape_job: 'write',
+};
+
+export function getToolScope(toolName: string): APIScope {
+  return TOOL_SCOPES[toolName] || 'read';
+}
+
+/**
+ * Result returned by tool handlers
+ */
+export interface ToolCallResult {
+  [key: string]: unknown;
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Per-call context for tool handlers
+ */
+export interface ToolCallContext {
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Send a progress notification. Only set when the client sent a progress token. */
+  reportProgress?: (progress: number, total: number, message: string) => Promise<void>;
+}
+
+export interface MCPServerOptions {
+  /** Decide whether the client may list and call a tool. Defaults to allowing all tools. */
+  canUseTool?: (toolName: string) => boolean;
+  /** Whether the client may list, read and subscribe to resources. Defaults to true. */
+  canReadResources?: boolean;
+  /** Called with the result of every tool call, including denied calls */
+  onToolCall?: (name: string, args: unknown, result: ToolCallResult) => void;
+}
+
+/**
+ * Dispatch a tool call to its handler
+ */
+export async function callTool(
+  name: string,
+  args: unknown,
+  context: ToolCallContext = {}
+): Promise<ToolCallResult> {
+  switch (name) {
+    case 'get_airline_fleet':
+      return await handleGetAirlineFleet(args);
+
+    case 'get_aircraft_details':
+      return await handleGetAircraftDetails(args);
+
+    case 'search_aircraft':
+      return await handleSearchAircraft(args);
+
+    case 'get_fleet_statistics':
+      return await handleGetFleetStatistics(args);
+
+    case 'trigger_fleet_update':
+      return await handleTriggerFleetUpdate(args);
+
+    case 'get_aircraft_type_specs':
+      return await handleGetAircraftTypeSpecs(args);
+
+    case 'get_fleet_availability':
+      return await handleGetFleetAvailability(args);
+
+    case 'find_similar_airlines':
+      return await handleFindSimilarAirlines(args);
+
+    case 'get_alliance_network':
+      return await handleGetAllianceNetwork(args);
+
+    case 'get_manufacturer_market_share':
+      return await handleGetManufacturerMarketShare(args);
+
+    case 'find_aircraft_nearing_retirement':
+      return await handleFindAircraftNearingRetirement(args);
+
+    case 'get_codeshare_partners':
+      return await handleGetCodesharePartners(args);
+
+    case 'get_fleet_modernization_stats':
+      return await handleGetFleetModernizationStats(args);
+
+    case 'get_scrape_job_status':
+      return await handleGetScrapeJobStatus(args, context);
+
+    case 'list_scrape_jobs':
+      return await handleListScrapeJobs(args);
+
+    case 'cancel_scrape_job':
+      return await handleCancelScrapeJob(args);
+
+    case 'compare_fleets':
+      return await handleCompareFleets(args);
+
+    case 'get_fleet_timeseries':
+      return await handleGetFleetTimeseries(args);
+
+    case 'get_capacity_analytics':
+      return await handleGetCapacityAnalytics(args);
+
+    case 'get_lessor_exposure':
+      return await handleGetLessorExposure(args);
+
+    case 'get_maintenance_forecast':
+      return await handleGetMaintenanceForecast(args);
+
+    default:
+      logger.error(`Unknown tool: ${name}`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Unknown tool '${name}'`,
+          },
+        ],
+        isError: true,
+      };
+  }
+}
+
+/**
+ * Create an MCP server with tool, resource and prompt handlers registered
+ */
+export function createMCPServer(options: MCPServerOptions = {}): Server {
+  const canUseTool = options.canUseTool || (() => true);
+
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: false },
+        prompts: {},
+      },
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    logger.debug('Received list_tools request');
+    return {
+      tools: mcpTools.filter((tool) => canUseTool(tool.name)),
+    };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+    logger.info(`Received tool call: ${name}`, { args });
+
+    const runTool = async (): Promise<ToolCallResult> => {
+      if (!canUseTool(name)) {
+        logger.warn(`Tool call denied: ${name}`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: API key does not have '${getToolScope(name)}' permission for tool '${name}'`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        return await callTool(name, args, {
+          signal: extra.signal,
+          reportProgress:
+            progressToken !== undefined
+              ? (progress, total, message) =>
+                  extra.sendNotification({
+                    method: 'notifications/progress',
+                    params: { progressToken, progress, total, message },
+                  })
+              : undefined,
+        });
+      } catch (error) {
+        logger.error(`Error executing tool ${name}:`, error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    };
+
+    const result = await runTool();
+    options.onToolCall?.(name, args, result);
+    return result;
+  });
+
+  // Fleet, aircraft and type resources
+  registerResources(server, { canReadResources: options.canReadResources ?? true });
+
+  // Fleet-analysis prompt templates
+  registerPrompts(server);
+
+  // Error handling
+  server.onerror = (error) => {
+    logger.error('MCP Server error:', error);
+  };
+
+  return server;
+}
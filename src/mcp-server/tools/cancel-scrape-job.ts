@@ -0,0 +1,125 @@
+/**
+ * MCP Tool: cancel_scrape_job
+ * Cancel a pending or running scraping job
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { CancelScrapeJobSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { getJobQueue } from '../../scrapers/workflows/job-queue.js';
+
+const logger = createLogger('tool:cancel-scrape-job');
+
+export const cancelScrapeJobTool: Tool = {
+  name: 'cancel_scrape_job',
+  description:
+    'Cancel a pending or running scraping job. Running jobs stop at the next workflow phase; database writes already made are kept.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: {
+        type: 'string',
+        description: 'Job ID to cancel',
+      },
+    },
+    required: ['job_id'],
+  },
+};
+
+export async function handleCancelScrapeJob(args: any) {
+  // Rate limiting
+  if (!checkRateLimit('cancel_scrape_job', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(CancelScrapeJobSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { job_id } = validation.data;
+
+  logger.info(`Cancelling scrape job: ${job_id}`);
+
+  try {
+    const jobQueue = getJobQueue();
+    const job = await jobQueue.getJobStatus(job_id);
+
+    if (!job) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Job not found: ${job_id}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const cancelled = await jobQueue.cancelJob(job_id);
+
+    if (!cancelled) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Job ${job_id} cannot be cancelled: it has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const summary = `
+**Job Cancelled**
+- Job ID: ${job_id}
+- Airline: ${job.airline_code}
+- Previous Status: ${job.status}
+
+${
+  job.status === 'running'
+    ? 'The workflow stops at its next phase. Aircraft already written to the database are kept.'
+    : 'The job will not be picked up by the scheduler.'
+}
+    `.trim();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error cancelling scrape job:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
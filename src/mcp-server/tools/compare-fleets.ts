@@ -0,0 +1,188 @@
+/**
+ * MCP Tool: compare_fleets
+ * Compare the active fleets of 2-10 airlines side by side
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { CompareFleetsSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import {
+  AirlinesNotFoundError,
+  compareFleets,
+  FleetComparison,
+  FleetComparisonError,
+} from '../../lib/fleet-comparison.js';
+
+const logger = createLogger('tool:compare-fleets');
+
+export const compareFleetsTool: Tool = {
+  name: 'compare_fleets',
+  description:
+    'Compare the active fleets of 2-10 airlines side by side: per-type counts, average ages, seat capacity, manufacturer mix and pairwise commonality scores',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_codes: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        minItems: 2,
+        maxItems: 10,
+        description: 'IATA/ICAO codes of the airlines to compare (e.g., ["CM", "AV", "LA"])',
+      },
+    },
+    required: ['airline_codes'],
+  },
+};
+
+function formatComparison(comparison: FleetComparison): string {
+  const codes = comparison.airlines.map((airline) => airline.code);
+  const cell = (values: Array<string | number>) => `| ${values.join(' | ')} |`;
+  const divider = cell(['---', ...codes.map(() => '---')]);
+
+  const lines = [
+    `**Fleet Comparison: ${codes.join(' vs ')}**`,
+    '',
+    cell(['', ...codes]),
+    divider,
+    cell(['Airline', ...comparison.airlines.map((a) => a.name)]),
+    cell(['Active aircraft', ...comparison.airlines.map((a) => a.active_aircraft)]),
+    cell(['Aircraft types', ...comparison.airlines.map((a) => a.aircraft_types)]),
+    cell(['Seat capacity', ...comparison.airlines.map((a) => a.total_seats.toLocaleString())]),
+    cell(['Average age (yrs)', ...comparison.airlines.map((a) => a.avg_age_years ?? 'N/A')]),
+    cell([
+      'Age range (yrs)',
+      ...comparison.airlines.map((a) =>
+        a.newest_aircraft_years !== null ? `${a.newest_aircraft_years}-${a.oldest_aircraft_years}` : 'N/A'
+      ),
+    ]),
+    '',
+    '**Aircraft Types** (count, average age)',
+    '',
+    cell(['Type', ...codes]),
+    divider,
+    ...comparison.aircraft_types.map((type) =>
+      cell([
+        type.aircraft_type,
+        ...codes.map((code) => {
+          const entry = type.airlines[code]!;
+          return entry.count > 0 ? `${entry.count} (${entry.avg_age_years ?? 'N/A'}y)` : '-';
+        }),
+      ])
+    ),
+    '',
+    '**Manufacturer Mix**',
+    '',
+    cell(['Manufacturer', ...codes]),
+    divider,
+    ...comparison.manufacturers.map((manufacturer) =>
+      cell([
+        manufacturer.manufacturer,
+        ...codes.map((code) => {
+          const entry = manufacturer.airlines[code]!;
+          return entry.count > 0 ? `${entry.count} (${entry.percentage}%)` : '-';
+        }),
+      ])
+    ),
+    '',
+    '**Fleet Commonality** (share of fleets that overlap by type)',
+    '',
+    ...comparison.commonality.map(
+      (pair) =>
+        `- ${pair.airlines.join(' / ')}: ${pair.commonality_score}% overlap, ${pair.shared_types.length} shared type${pair.shared_types.length === 1 ? '' : 's'}${pair.shared_types.length > 0 ? ` (${pair.shared_types.join(', ')})` : ''}`
+    ),
+  ];
+
+  return lines.join('\n');
+}
+
+export async function handleCompareFleets(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('compare_fleets', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(CompareFleetsSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_codes } = validation.data;
+
+  logger.info(`Comparing fleets: ${airline_codes.join(', ')}`);
+
+  try {
+    const cacheKey = Cache.generateKey('fleet_comparison', {
+      airline_codes: airline_codes.map((code) => code.toUpperCase()),
+    });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const comparison = await compareFleets(airline_codes);
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: formatComparison(comparison),
+        },
+      ],
+    };
+
+    // Cache for 10 minutes
+    globalCache.set(cacheKey, response, 600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Fleet comparison completed in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AirlinesNotFoundError || error instanceof FleetComparisonError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    logger.error('Error comparing fleets:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
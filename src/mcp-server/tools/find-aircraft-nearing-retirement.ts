@@ -0,0 +1,120 @@
+/**
+ * MCP Tool: find_aircraft_nearing_retirement
+ * Find in-service aircraft older than 20 years
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { FindAircraftNearingRetirementSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { findAircraftNearingRetirement, getGraphBackend } from '../../lib/graph-analytics.js';
+
+const logger = createLogger('tool:find-aircraft-nearing-retirement');
+
+export const findAircraftNearingRetirementTool: Tool = {
+  name: 'find_aircraft_nearing_retirement',
+  description: 'Find in-service aircraft older than 20 years, optionally limited to one airline (max 50, oldest first)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: 'IATA/ICAO airline code (omit for all airlines)',
+      },
+    },
+  },
+};
+
+export async function handleFindAircraftNearingRetirement(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('find_aircraft_nearing_retirement', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(FindAircraftNearingRetirementSchema, args ?? {});
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_code } = validation.data;
+  const backend = getGraphBackend();
+
+  logger.info(`Finding aircraft nearing retirement${airline_code ? ` for ${airline_code}` : ''}`, { backend });
+
+  try {
+    const cacheKey = Cache.generateKey('aircraft_nearing_retirement', { airline_code, backend });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const aircraft = await findAircraftNearingRetirement(airline_code);
+
+    const summary = `
+**Aircraft Nearing Retirement (20+ years)${airline_code ? ` - ${airline_code.toUpperCase()}` : ''}**
+Found: ${aircraft.length} aircraft
+
+${
+  aircraft.length > 0
+    ? aircraft
+        .map(
+          (ac, i) =>
+            `${i + 1}. ${ac.registration} | ${ac.aircraftType || 'Unknown type'} | ${ac.airline} | ${ac.ageYears} years`
+        )
+        .join('\n')
+    : 'No aircraft over 20 years old found.'
+}
+
+_Source: ${backend === 'neo4j' ? 'Neo4j knowledge graph' : 'PostgreSQL (Neo4j not configured)'}_
+    `.trim();
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+
+    // Cache for 1 hour
+    globalCache.set(cacheKey, response, 3600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Aircraft nearing retirement retrieved in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    logger.error('Error finding aircraft nearing retirement:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * MCP Tool: find_similar_airlines
+ * Find airlines with similar fleet composition using the knowledge graph
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { FindSimilarAirlinesSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { findSimilarAirlines, getGraphBackend } from '../../lib/graph-analytics.js';
+
+const logger = createLogger('tool:find-similar-airlines');
+
+export const findSimilarAirlinesTool: Tool = {
+  name: 'find_similar_airlines',
+  description: 'Find airlines that operate a similar mix of aircraft types to a given airline',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: 'IATA/ICAO airline code',
+      },
+      min_common_types: {
+        type: 'integer',
+        description: 'Minimum number of shared aircraft types',
+        default: 3,
+      },
+    },
+    required: ['airline_code'],
+  },
+};
+
+export async function handleFindSimilarAirlines(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('find_similar_airlines', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(FindSimilarAirlinesSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_code, min_common_types } = validation.data;
+  const backend = getGraphBackend();
+
+  logger.info(`Finding airlines similar to ${airline_code}`, { min_common_types, backend });
+
+  try {
+    const cacheKey = Cache.generateKey('similar_airlines', { airline_code, min_common_types, backend });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const similar = await findSimilarAirlines(airline_code, min_common_types);
+
+    const summary = `
+**Airlines Similar to ${airline_code.toUpperCase()}**
+Minimum shared aircraft types: ${min_common_types}
+
+${
+  similar.length > 0
+    ? similar
+        .map(
+          (al, i) =>
+            `${i + 1}. ${al.airline} (${al.airlineCode || 'N/A'}) | ${al.country || 'N/A'} | ${al.commonTypes} shared types`
+        )
+        .join('\n')
+    : 'No similar airlines found.'
+}
+
+_Source: ${backend === 'neo4j' ? 'Neo4j knowledge graph' : 'PostgreSQL (Neo4j not configured)'}_
+    `.trim();
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+
+    // Cache for 1 hour (fleet composition changes slowly)
+    globalCache.set(cacheKey, response, 3600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Similar airlines retrieved in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    logger.error('Error finding similar airlines:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
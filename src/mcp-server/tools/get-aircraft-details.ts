@@ -6,6 +6,8 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { queryPostgres } from '../../lib/db-clients.js';
 import { createLogger } from '../../lib/logger.js';
+import { aircraftSource, AsOfDateError, parseAsOfDate } from '../../lib/point-in-time.js';
+import { getFieldProvenance, StoredFieldProvenance } from '../../lib/field-provenance.js';
 
 const logger = createLogger('tool:get-aircraft-details');
 
@@ -24,6 +26,16 @@ export const getAircraftDetailsTool: Tool = {
         enum: ['registration', 'serial_number'],
         description: 'Type of identifier provided',
       },
+      as_of: {
+        type: 'string',
+        description: 'Show the operator, status and seat configuration on this date (YYYY-MM-DD)',
+      },
+      include_provenance: {
+        type: 'boolean',
+        description:
+          'Include where each scraped field came from: source URL and type, extraction method, confidence and time',
+        default: false,
+      },
     },
     required: ['identifier'],
   },
@@ -32,62 +44,92 @@ export const getAircraftDetailsTool: Tool = {
 interface GetAircraftDetailsArgs {
   identifier: string;
   identifier_type?: 'registration' | 'serial_number';
+  as_of?: string;
+  include_provenance?: boolean;
+}
+
+/**
+ * One line per scraped field, lowest confidence first
+ */
+function formatProvenance(provenance: StoredFieldProvenance[]): string {
+  if (provenance.length === 0) {
+    return '- No scraped fields recorded';
+  }
+
+  return [...provenance]
+    .sort((a, b) => (a.confidence ?? 0) - (b.confidence ?? 0) || a.field_name.localeCompare(b.field_name))
+    .map((field) => {
+      const source = field.source_url
+        ? `${field.source_url}${field.source_type ? ` (${field.source_type})` : ''}`
+        : 'validation correction';
+      const confidence = field.confidence !== null ? `${(field.confidence * 100).toFixed(0)}%` : 'N/A';
+      const extracted = field.extracted_at ? new Date(field.extracted_at).toISOString().slice(0, 10) : 'N/A';
+      const snapshot = field.snapshot_id !== null ? `, snapshot #${field.snapshot_id}` : '';
+      return `- ${field.field_name}: ${field.extraction_method ?? 'unknown'} from ${source}, confidence ${confidence}, extracted ${extracted}${snapshot}`;
+    })
+    .join('\n');
 }
 
 export async function handleGetAircraftDetails(args: any) {
-  const { identifier, identifier_type = 'registration' } = args as GetAircraftDetailsArgs;
+  const {
+    identifier,
+    identifier_type = 'registration',
+    as_of,
+    include_provenance = false,
+  } = args as GetAircraftDetailsArgs;
 
-  logger.info(`Getting aircraft details: ${identifier} (type: ${identifier_type})`);
+  logger.info(`Getting aircraft details: ${identifier} (type: ${identifier_type})`, { as_of, include_provenance });
 
   try {
+    const asOf = parseAsOfDate(as_of);
+    const source = aircraftSource(asOf, 2);
+
     const query = `
       SELECT
         a.id,
         a.registration,
-        a.manufacturer_serial_number,
-        a.manufacture_date,
+        a.msn,
+        a.manufactured_date,
         a.delivery_date,
-        a.first_flight_date,
-        a.age_years,
+        a.in_service_date,
+        EXTRACT(YEAR FROM AGE(${source.referenceDate}, a.manufactured_date))::FLOAT as age_years,
         a.status,
         a.engines,
-        a.notes,
+        a.livery_description,
         at.manufacturer,
         at.model,
-        at.variant,
-        at.family,
+        at.full_name,
         at.type_category,
         at.engine_type,
         at.engine_count,
-        at.max_range,
+        at.max_range_km,
         al.iata_code as airline_iata,
         al.icao_code as airline_icao,
         al.name as airline_name,
-        ac.total_seats,
-        ac.class_first,
-        ac.class_business,
-        ac.class_premium_economy,
-        ac.class_economy,
-        ac.configuration_name,
-        ac.has_wifi,
-        ac.has_power_outlets,
-        ac.has_entertainment
-      FROM aircraft a
+        a.total_seats,
+        (a.seat_configuration->>'first')::INTEGER as class_first,
+        (a.seat_configuration->>'business')::INTEGER as class_business,
+        (a.seat_configuration->>'premium_economy')::INTEGER as class_premium_economy,
+        (a.seat_configuration->>'economy')::INTEGER as class_economy,
+        a.wifi_available,
+        a.entertainment_system
+      FROM ${source.table} a
       JOIN aircraft_types at ON a.aircraft_type_id = at.id
-      LEFT JOIN airlines al ON a.current_airline_id = al.id
-      LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
-      WHERE ${identifier_type === 'registration' ? 'UPPER(a.registration) = UPPER($1)' : 'a.manufacturer_serial_number = $1'}
+      LEFT JOIN airlines al ON a.airline_id = al.id
+      WHERE ${identifier_type === 'registration' ? 'UPPER(a.registration) = UPPER($1)' : 'a.msn = $1'}
       LIMIT 1
     `;
 
-    const result = await queryPostgres(query, [identifier]);
+    const result = await queryPostgres(query, asOf ? [identifier, asOf] : [identifier]);
 
     if (result.rows.length === 0) {
       return {
         content: [
           {
             type: 'text',
-            text: `Aircraft not found: ${identifier}`,
+            text: asOf
+              ? `Aircraft not found in any fleet on ${asOf}: ${identifier}`
+              : `Aircraft not found: ${identifier}`,
           },
         ],
         isError: true,
@@ -97,30 +139,30 @@ export async function handleGetAircraftDetails(args: any) {
     const aircraft = result.rows[0];
 
     const details = `
-**Aircraft Details: ${aircraft.registration}**
+**Aircraft Details: ${aircraft.registration}**${asOf ? ` (as of ${asOf})` : ''}
 
 **Basic Information:**
 - Registration: ${aircraft.registration}
-- Serial Number: ${aircraft.manufacturer_serial_number || 'N/A'}
+- Serial Number: ${aircraft.msn || 'N/A'}
 - Status: ${aircraft.status}
 - Age: ${aircraft.age_years?.toFixed(1) || 'N/A'} years
 
 **Aircraft Type:**
 - Manufacturer: ${aircraft.manufacturer}
-- Model: ${aircraft.model}${aircraft.variant ? '-' + aircraft.variant : ''}
-- Family: ${aircraft.family || 'N/A'}
-- Category: ${aircraft.type_category}
+- Model: ${aircraft.full_name}
+- Family: ${aircraft.model || 'N/A'}
+- Category: ${aircraft.type_category || 'N/A'}
 - Engine Type: ${aircraft.engine_type}
 - Engine Count: ${aircraft.engine_count || 'N/A'}
 
-**Current Operator:**
+**${asOf ? `Operator on ${asOf}` : 'Current Operator'}:**
 - Airline: ${aircraft.airline_name || 'None'}
 - Code: ${aircraft.airline_iata || ''}/${aircraft.airline_icao || ''}
 
 **Dates:**
-- Manufactured: ${aircraft.manufacture_date || 'N/A'}
-- First Flight: ${aircraft.first_flight_date || 'N/A'}
+- Manufactured: ${aircraft.manufactured_date || 'N/A'}
 - Delivered: ${aircraft.delivery_date || 'N/A'}
+- In Service: ${aircraft.in_service_date || 'N/A'}
 
 **Configuration:**
 - Total Seats: ${aircraft.total_seats || 'N/A'}
@@ -128,28 +170,43 @@ export async function handleGetAircraftDetails(args: any) {
 - Business: ${aircraft.class_business || 0}
 - Premium Economy: ${aircraft.class_premium_economy || 0}
 - Economy: ${aircraft.class_economy || 0}
-- Configuration: ${aircraft.configuration_name || 'N/A'}
 
 **Amenities:**
-- WiFi: ${aircraft.has_wifi ? 'Yes' : 'No'}
-- Power Outlets: ${aircraft.has_power_outlets ? 'Yes' : 'No'}
-- IFE: ${aircraft.has_entertainment ? 'Yes' : 'No'}
+- WiFi: ${aircraft.wifi_available ? 'Yes' : 'No'}
+- IFE: ${aircraft.entertainment_system || 'No'}
 
 **Performance:**
-- Max Range: ${aircraft.max_range ? `${aircraft.max_range} nm` : 'N/A'}
+- Max Range: ${aircraft.max_range_km ? `${aircraft.max_range_km} km` : 'N/A'}
 
-${aircraft.notes ? `\n**Notes:**\n${aircraft.notes}` : ''}
+${aircraft.livery_description ? `\n**Livery:**\n${aircraft.livery_description}` : ''}
     `.trim();
 
+    // Provenance describes the current values, even for an as_of lookup
+    const provenance = include_provenance
+      ? `\n\n**Field Provenance${asOf ? ' (current values)' : ''}:**\n${formatProvenance(await getFieldProvenance(aircraft.id))}`
+      : '';
+
     return {
       content: [
         {
           type: 'text',
-          text: details,
+          text: details + provenance,
         },
       ],
     };
   } catch (error) {
+    if (error instanceof AsOfDateError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Validation error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     logger.error('Error getting aircraft details:', error);
     return {
       content: [
@@ -9,6 +9,7 @@ import { createLogger } from '../../lib/logger.js';
 import { GetAirlineFleetSchema, safeValidateInput } from '../schemas/tool-schemas.js';
 import { Cache, globalCache } from '../../lib/cache.js';
 import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { aircraftSource, AsOfDateError, parseAsOfDate } from '../../lib/point-in-time.js';
 
 const logger = createLogger('tool:get-airline-fleet');
 
@@ -33,6 +34,11 @@ export const getAirlineFleetTool: Tool = {
         description: 'Filter by aircraft status',
         default: 'active',
       },
+      as_of: {
+        type: 'string',
+        description:
+          'Reconstruct the fleet as it stood on this date (YYYY-MM-DD): operator, status and seat configuration at that time',
+      },
     },
     required: ['airline_code'],
   },
@@ -42,17 +48,17 @@ interface FleetAircraft {
   registration: string;
   manufacturer: string;
   model: string;
-  variant: string | null;
-  type_category: string;
+  full_name: string;
+  type_category: string | null;
   status: string;
   age_years: number | null;
-  manufacture_date: string | null;
+  manufactured_date: string | null;
   total_seats: number | null;
-  configuration_name: string | null;
   // Detailed specs (when include_details = true)
   msn?: string;
   engines?: string;
   ownership_type?: string;
+  lessor?: string;
   home_base?: string;
   total_flight_hours?: number;
   last_flight_date?: string;
@@ -90,11 +96,22 @@ export async function handleGetAirlineFleet(args: any) {
 
   const { airline_code, include_details, status_filter } = validation.data;
 
-  logger.info(`Getting fleet for airline: ${airline_code}`, { include_details, status_filter });
+  logger.info(`Getting fleet for airline: ${airline_code}`, {
+    include_details,
+    status_filter,
+    as_of: validation.data.as_of,
+  });
 
   try {
+    const asOf = parseAsOfDate(validation.data.as_of);
+
     // Check cache
-    const cacheKey = Cache.generateKey('airline_fleet', { airline_code, include_details, status_filter });
+    const cacheKey = Cache.generateKey('airline_fleet', {
+      airline_code,
+      include_details,
+      status_filter,
+      as_of: asOf,
+    });
     const cached = globalCache.get(cacheKey);
 
     if (cached) {
@@ -126,38 +143,43 @@ export async function handleGetAirlineFleet(args: any) {
     const airline = airlineResult.rows[0];
 
     // Get fleet information
+    const params: any[] = [airline.id];
+    if (asOf) {
+      params.push(asOf);
+    }
+    const source = aircraftSource(asOf, 2);
+
     let fleetQuery = `
       SELECT
         a.registration,
-        at.manufacturer,
-        at.model,
-        at.variant,
+        COALESCE(at.manufacturer, a.manufacturer) as manufacturer,
+        COALESCE(at.model, a.model) as model,
+        COALESCE(at.full_name, a.aircraft_type) as full_name,
         at.type_category,
         a.status,
-        EXTRACT(YEAR FROM AGE(CURRENT_DATE, a.manufacture_date))::FLOAT as age_years,
-        a.manufacture_date,
-        ac.total_seats,
-        ac.configuration_name
+        EXTRACT(YEAR FROM AGE(${source.referenceDate}, a.manufactured_date))::FLOAT as age_years,
+        a.manufactured_date,
+        a.total_seats
         ${
           include_details
-            ? `, a.manufacturer_serial_number as msn, a.engines,
-           a.last_seen_date as last_flight_date`
+            ? `, a.msn, a.engines, a.ownership_type, a.lessor, a.home_base,
+           a.total_flight_hours::FLOAT as total_flight_hours, a.last_flight_date`
             : ''
         }
-      FROM aircraft a
+      FROM ${source.table} a
       LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
-      LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
-      WHERE a.current_airline_id = $1
+      WHERE a.airline_id = $1
     `;
 
     // Apply status filter
     if (status_filter !== 'all') {
-      fleetQuery += ` AND a.status = '${status_filter}'`;
+      params.push(status_filter);
+      fleetQuery += ` AND a.status = $${params.length}`;
     }
 
     fleetQuery += ' ORDER BY at.manufacturer, at.model, a.registration';
 
-    const fleetResult = await queryPostgres<FleetAircraft>(fleetQuery, [airline.id]);
+    const fleetResult = await queryPostgres<FleetAircraft>(fleetQuery, params);
 
     // Calculate statistics
     const totalAircraft = fleetResult.rows.length;
@@ -168,7 +190,7 @@ export async function handleGetAirlineFleet(args: any) {
     // Group by type
     const byType = fleetResult.rows.reduce(
       (acc, ac) => {
-        const key = `${ac.manufacturer} ${ac.model}${ac.variant ? '-' + ac.variant : ''}`;
+        const key = ac.full_name;
         if (!acc[key]) {
           acc[key] = [];
         }
@@ -181,7 +203,7 @@ export async function handleGetAirlineFleet(args: any) {
     // Format response
     let summary = `
 **${airline.name}** (${airline.iata_code}/${airline.icao_code})
-Country: ${airline.country}
+Country: ${airline.country}${asOf ? `\nAs of: ${asOf}` : ''}
 
 **Fleet Summary:**
 - Total Aircraft: ${totalAircraft}
@@ -199,10 +221,10 @@ ${Object.entries(byType)
 
     // Add aircraft list
     for (const ac of fleetResult.rows) {
-      summary += `\n${ac.registration} | ${ac.manufacturer} ${ac.model}${ac.variant ? '-' + ac.variant : ''} | Age: ${ac.age_years?.toFixed(1) || 'N/A'} yrs | Seats: ${ac.total_seats || 'N/A'} | Status: ${ac.status}`;
+      summary += `\n${ac.registration} | ${ac.full_name} | Age: ${ac.age_years?.toFixed(1) || 'N/A'} yrs | Seats: ${ac.total_seats || 'N/A'} | Status: ${ac.status}`;
 
       if (include_details) {
-        summary += `\n  └─ MSN: ${ac.msn || 'N/A'} | Engines: ${ac.engines || 'N/A'} | Ownership: ${ac.ownership_type || 'N/A'} | Base: ${ac.home_base || 'N/A'}`;
+        summary += `\n  └─ MSN: ${ac.msn || 'N/A'} | Engines: ${ac.engines || 'N/A'} | Ownership: ${ac.ownership_type || 'N/A'}${ac.lessor ? ` (${ac.lessor})` : ''} | Base: ${ac.home_base || 'N/A'}`;
         if (ac.total_flight_hours) {
           summary += ` | Flight Hours: ${ac.total_flight_hours.toLocaleString()}`;
         }
@@ -226,6 +248,18 @@ ${Object.entries(byType)
 
     return response;
   } catch (error) {
+    if (error instanceof AsOfDateError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Validation error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     logger.error('Error getting airline fleet:', error);
     return {
       content: [
@@ -0,0 +1,123 @@
+/**
+ * MCP Tool: get_alliance_network
+ * List member airlines of an airline alliance with their fleet sizes
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetAllianceNetworkSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { getAllianceNetwork, getGraphBackend } from '../../lib/graph-analytics.js';
+
+const logger = createLogger('tool:get-alliance-network');
+
+export const getAllianceNetworkTool: Tool = {
+  name: 'get_alliance_network',
+  description: 'Get the member airlines of an alliance (Star Alliance, oneworld, SkyTeam) with fleet sizes',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      alliance: {
+        type: 'string',
+        description: 'Alliance name (e.g., "Star Alliance", "oneworld", "SkyTeam")',
+      },
+    },
+    required: ['alliance'],
+  },
+};
+
+export async function handleGetAllianceNetwork(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_alliance_network', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetAllianceNetworkSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { alliance } = validation.data;
+  const backend = getGraphBackend();
+
+  logger.info(`Getting alliance network for ${alliance}`, { backend });
+
+  try {
+    const cacheKey = Cache.generateKey('alliance_network', { alliance, backend });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const members = await getAllianceNetwork(alliance);
+    const totalFleet = members.reduce((sum, m) => sum + (Number(m.fleetSize) || 0), 0);
+
+    const summary = `
+**${alliance} Network**
+Member airlines: ${members.length}
+Combined fleet: ${totalFleet} aircraft
+
+${
+  members.length > 0
+    ? members
+        .map(
+          (m, i) =>
+            `${i + 1}. ${m.airline} (${m.airlineCode || 'N/A'}) | ${m.country || 'N/A'} | ${m.fleetSize} aircraft`
+        )
+        .join('\n')
+    : 'No member airlines found.'
+}
+
+_Source: ${backend === 'neo4j' ? 'Neo4j knowledge graph' : 'PostgreSQL (Neo4j not configured)'}_
+    `.trim();
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+
+    // Cache for 1 hour (alliance membership changes rarely)
+    globalCache.set(cacheKey, response, 3600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Alliance network retrieved in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    logger.error('Error getting alliance network:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
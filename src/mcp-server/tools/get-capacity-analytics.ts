@@ -0,0 +1,229 @@
+/**
+ * MCP Tool: get_capacity_analytics
+ * Seat capacity by cabin, aircraft type, home base, airline, country and alliance
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetCapacityAnalyticsSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { AirlinesNotFoundError } from '../../lib/fleet-comparison.js';
+import {
+  CABIN_CLASSES,
+  CapacityAnalytics,
+  CapacityGroup,
+  getCapacityAnalytics,
+} from '../../lib/capacity-analytics.js';
+
+const logger = createLogger('tool:get-capacity-analytics');
+
+/** Rows shown per breakdown table */
+const MAX_ROWS = 15;
+
+export const getCapacityAnalyticsTool: Tool = {
+  name: 'get_capacity_analytics',
+  description:
+    'Seat capacity of active fleets: total seats by cabin class, aircraft type, home base, airline, country and alliance, seats-per-aircraft distribution, and seat-km per hour (ASK-ready) per type. Falls back to the type\'s typical seat configuration when an aircraft has none.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: 'Limit to one airline (IATA/ICAO code)',
+      },
+      country: {
+        type: 'string',
+        description: 'Limit to airlines from this country (e.g., "United States")',
+      },
+      alliance: {
+        type: 'string',
+        description: 'Limit to members of this alliance (e.g., "Star Alliance")',
+      },
+    },
+  },
+};
+
+function groupTable(title: string, groups: CapacityGroup[], showAirlines: boolean): string[] {
+  if (groups.length === 0) {
+    return [];
+  }
+
+  const lines = [
+    '',
+    `**${title}**`,
+    '',
+    showAirlines ? '| Name | Airlines | Aircraft | Seats | Avg seats |' : '| Name | Aircraft | Seats | Avg seats |',
+    showAirlines ? '| --- | --- | --- | --- | --- |' : '| --- | --- | --- | --- |',
+    ...groups
+      .slice(0, MAX_ROWS)
+      .map((group) =>
+        showAirlines
+          ? `| ${group.name} | ${group.airlines} | ${group.aircraft} | ${group.seats.toLocaleString()} | ${group.avg_seats_per_aircraft ?? 'N/A'} |`
+          : `| ${group.name} | ${group.aircraft} | ${group.seats.toLocaleString()} | ${group.avg_seats_per_aircraft ?? 'N/A'} |`
+      ),
+  ];
+
+  if (groups.length > MAX_ROWS) {
+    lines.push(`_…and ${groups.length - MAX_ROWS} more_`);
+  }
+
+  return lines;
+}
+
+function formatCapacity(capacity: CapacityAnalytics): string {
+  const { totals, filters } = capacity;
+  const scope =
+    [
+      filters.airline_code && `airline ${filters.airline_code.toUpperCase()}`,
+      filters.country && `country ${filters.country}`,
+      filters.alliance && `alliance ${filters.alliance}`,
+    ]
+      .filter(Boolean)
+      .join(', ') || 'all airlines';
+
+  if (totals.aircraft === 0) {
+    return `No active aircraft found for ${scope}.`;
+  }
+
+  const lines = [
+    `**Seat Capacity: ${scope}**`,
+    '',
+    `- Active aircraft: ${totals.aircraft} (${totals.aircraft_with_seats} with a known seat count)`,
+    `- Total seats: ${totals.seats.toLocaleString()}`,
+    `- Seats per aircraft: average ${totals.avg_seats_per_aircraft ?? 'N/A'}, median ${totals.median_seats_per_aircraft ?? 'N/A'}`,
+    `- Seat-km per hour flown: ${totals.ask_per_hour.toLocaleString()}`,
+    `- Seat source: ${totals.seat_sources.aircraft} own configuration, ${totals.seat_sources.type_typical} type typical, ${totals.seat_sources.unknown} unknown`,
+    '',
+    '**By Cabin Class**',
+    '',
+    '| Cabin | Seats | Share |',
+    '| --- | --- | --- |',
+    ...[...CABIN_CLASSES, 'unassigned' as const].map((cabin) => {
+      const seats = capacity.by_cabin[cabin];
+      const share = totals.seats > 0 ? ((seats / totals.seats) * 100).toFixed(1) : '0.0';
+      return `| ${cabin.replace('_', ' ')} | ${seats.toLocaleString()} | ${share}% |`;
+    }),
+    '',
+    '**By Aircraft Type**',
+    '',
+    '| Type | Aircraft | Seats | Avg (min-max) | Range km | Cruise km/h | Seat-km/h |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...capacity.by_type
+      .slice(0, MAX_ROWS)
+      .map(
+        (type) =>
+          `| ${type.name} | ${type.aircraft} | ${type.seats.toLocaleString()} | ${type.avg_seats_per_aircraft ?? 'N/A'}${type.min_seats !== null ? ` (${type.min_seats}-${type.max_seats})` : ''} | ${type.typical_range_km ?? 'N/A'} | ${type.cruising_speed_kmh ?? 'N/A'} | ${type.ask_per_hour?.toLocaleString() ?? 'N/A'} |`
+      ),
+    ...(capacity.by_type.length > MAX_ROWS ? [`_…and ${capacity.by_type.length - MAX_ROWS} more_`] : []),
+    ...groupTable('By Home Base', capacity.by_home_base, false),
+  ];
+
+  // Airline, country and alliance breakdowns are a single row for one airline
+  if (!filters.airline_code) {
+    lines.push(
+      ...groupTable('By Airline', capacity.by_airline, false),
+      ...groupTable('By Country', capacity.by_country, true),
+      ...groupTable('By Alliance', capacity.by_alliance, true)
+    );
+  }
+
+  lines.push(
+    '',
+    '**Seats per Aircraft**',
+    '',
+    ...capacity.seat_distribution.map((bucket) => `- ${bucket.range} seats: ${bucket.aircraft} aircraft`)
+  );
+
+  return lines.join('\n');
+}
+
+export async function handleGetCapacityAnalytics(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_capacity_analytics', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetCapacityAnalyticsSchema, args ?? {});
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const filters = validation.data;
+
+  logger.info('Getting capacity analytics', filters);
+
+  try {
+    const cacheKey = Cache.generateKey('capacity_analytics', {
+      airline_code: filters.airline_code?.toUpperCase(),
+      country: filters.country?.toUpperCase(),
+      alliance: filters.alliance?.toUpperCase(),
+    });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const capacity = await getCapacityAnalytics(filters);
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: formatCapacity(capacity),
+        },
+      ],
+    };
+
+    // Cache for 10 minutes
+    globalCache.set(cacheKey, response, 600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Capacity analytics computed in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AirlinesNotFoundError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    logger.error('Error getting capacity analytics:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * MCP Tool: get_codeshare_partners
+ * List an airline's codeshare partners from the knowledge graph
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetCodesharePartnersSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { getCodesharePartners } from '../../lib/graph-analytics.js';
+
+const logger = createLogger('tool:get-codeshare-partners');
+
+export const getCodesharePartnersTool: Tool = {
+  name: 'get_codeshare_partners',
+  description: 'Get the codeshare partners of an airline (requires the Neo4j knowledge graph)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: 'IATA/ICAO airline code',
+      },
+    },
+    required: ['airline_code'],
+  },
+};
+
+export async function handleGetCodesharePartners(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_codeshare_partners', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetCodesharePartnersSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_code } = validation.data;
+
+  logger.info(`Getting codeshare partners for ${airline_code}`);
+
+  try {
+    const cacheKey = Cache.generateKey('codeshare_partners', { airline_code });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const partners = await getCodesharePartners(airline_code);
+
+    const summary = `
+**Codeshare Partners of ${airline_code.toUpperCase()}**
+Partners: ${partners.length}
+
+${
+  partners.length > 0
+    ? partners
+        .map(
+          (p, i) =>
+            `${i + 1}. ${p.partnerAirline} (${p.partnerCode || 'N/A'}) | ${p.partnerCountry || 'N/A'}${
+              p.sharedRoutes != null ? ` | ${p.sharedRoutes} shared routes` : ''
+            }`
+        )
+        .join('\n')
+    : 'No codeshare partners found.'
+}
+
+_Source: Neo4j knowledge graph_
+    `.trim();
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+
+    // Cache for 1 hour
+    globalCache.set(cacheKey, response, 3600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Codeshare partners retrieved in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    logger.error('Error getting codeshare partners:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
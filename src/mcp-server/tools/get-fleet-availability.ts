@@ -134,16 +134,13 @@ export async function handleGetFleetAvailability(args: any) {
         a.total_seats,
         a.last_flight_date,
         a.next_maintenance_date,
-        ac.total_seats as configured_seats,
-        ac.configuration_name,
         CASE
           WHEN a.status = 'active' AND (a.maintenance_status IS NULL OR a.maintenance_status NOT IN ('in_maintenance', 'grounded'))
           THEN true
           ELSE false
         END as is_available
       FROM aircraft a
-      LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
-      WHERE a.current_airline_id = $1
+      WHERE a.airline_id = $1
     `;
 
     const params: any[] = [airline.id];
@@ -199,8 +196,7 @@ export async function handleGetFleetAvailability(args: any) {
           maintenanceStatus: row.maintenance_status,
           homeBase: row.home_base,
           currentLocation: row.current_location,
-          seats: row.configured_seats || row.total_seats,
-          configName: row.configuration_name,
+          seats: row.total_seats,
           isAvailable: row.is_available,
         });
         return acc;
@@ -0,0 +1,128 @@
+/**
+ * MCP Tool: get_fleet_modernization_stats
+ * Break an airline's fleet down into modern, mid-age and aging aircraft
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetFleetModernizationStatsSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { getFleetModernizationStats, getGraphBackend } from '../../lib/graph-analytics.js';
+
+const logger = createLogger('tool:get-fleet-modernization-stats');
+
+export const getFleetModernizationStatsTool: Tool = {
+  name: 'get_fleet_modernization_stats',
+  description: 'Get fleet age profile for an airline: modern (≤5y), mid-age (5-15y) and aging (>15y) aircraft',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: 'IATA/ICAO airline code',
+      },
+    },
+    required: ['airline_code'],
+  },
+};
+
+export async function handleGetFleetModernizationStats(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_fleet_modernization_stats', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetFleetModernizationStatsSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_code } = validation.data;
+  const backend = getGraphBackend();
+
+  logger.info(`Getting fleet modernization stats for ${airline_code}`, { backend });
+
+  try {
+    const cacheKey = Cache.generateKey('fleet_modernization', { airline_code, backend });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const stats = await getFleetModernizationStats(airline_code);
+
+    if (!stats) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active fleet found for airline code: ${airline_code}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const summary = `
+**${stats.airline} Fleet Modernization**
+Total aircraft: ${stats.total}
+Average age: ${stats.avgAge ?? 'N/A'} years
+
+**Age Profile:**
+- Modern (≤5 years): ${stats.modern} (${stats.modernPercentage}%)
+- Mid-age (5-15 years): ${stats.midAge}
+- Aging (>15 years): ${stats.aging} (${stats.agingPercentage}%)
+
+_Source: ${backend === 'neo4j' ? 'Neo4j knowledge graph' : 'PostgreSQL (Neo4j not configured)'}_
+    `.trim();
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+
+    // Cache for 1 hour
+    globalCache.set(cacheKey, response, 3600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Fleet modernization stats retrieved in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    logger.error('Error getting fleet modernization stats:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
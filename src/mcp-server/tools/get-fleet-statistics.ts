@@ -6,6 +6,7 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { queryPostgres } from '../../lib/db-clients.js';
 import { createLogger } from '../../lib/logger.js';
+import { aircraftSource, AsOfDateError, parseAsOfDate } from '../../lib/point-in-time.js';
 
 const logger = createLogger('tool:get-fleet-statistics');
 
@@ -39,6 +40,10 @@ export const getFleetStatisticsTool: Tool = {
         },
         description: 'Specific metrics to include in the statistics',
       },
+      as_of: {
+        type: 'string',
+        description: 'Compute the statistics for the fleets as they stood on this date (YYYY-MM-DD)',
+      },
     },
     required: ['scope'],
   },
@@ -48,16 +53,20 @@ interface GetFleetStatisticsArgs {
   scope: 'airline' | 'aircraft_type' | 'manufacturer' | 'global';
   scope_value?: string;
   metrics?: string[];
+  as_of?: string;
 }
 
 export async function handleGetFleetStatistics(args: any) {
-  const { scope, scope_value, metrics = [] } = args as GetFleetStatisticsArgs;
+  const { scope, scope_value, metrics = [], as_of } = args as GetFleetStatisticsArgs;
 
-  logger.info(`Getting fleet statistics: ${scope}`, { scope_value, metrics });
+  logger.info(`Getting fleet statistics: ${scope}`, { scope_value, metrics, as_of });
 
   try {
+    const asOf = parseAsOfDate(as_of);
     let query = '';
     let params: any[] = [];
+    // The as_of date follows the scope value, or is the only parameter for global
+    const source = aircraftSource(asOf, scope === 'global' ? 1 : 2);
 
     switch (scope) {
       case 'airline':
@@ -82,17 +91,16 @@ export async function handleGetFleetStatistics(args: any) {
             COUNT(CASE WHEN a.status = 'active' THEN 1 END) as active_count,
             COUNT(CASE WHEN a.status = 'stored' THEN 1 END) as stored_count,
             COUNT(CASE WHEN a.status = 'retired' THEN 1 END) as retired_count,
-            ROUND(AVG(a.age_years), 1) as average_age,
-            MIN(a.manufacture_date) as oldest_aircraft,
-            MAX(a.manufacture_date) as newest_aircraft,
-            SUM(ac.total_seats) as total_seats_capacity
+            ROUND(AVG(EXTRACT(YEAR FROM AGE(${source.referenceDate}, a.manufactured_date))), 1) as average_age,
+            MIN(a.manufactured_date) as oldest_aircraft,
+            MAX(a.manufactured_date) as newest_aircraft,
+            SUM(a.total_seats) as total_seats_capacity
           FROM airlines al
-          LEFT JOIN aircraft a ON al.id = a.current_airline_id
-          LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
+          LEFT JOIN ${source.table} a ON al.id = a.airline_id
           WHERE UPPER(al.iata_code) = UPPER($1) OR UPPER(al.icao_code) = UPPER($1)
           GROUP BY al.id, al.name, al.iata_code, al.icao_code
         `;
-        params = [scope_value];
+        params = [scope_value, ...(asOf ? [asOf] : [])];
         break;
 
       case 'aircraft_type':
@@ -112,18 +120,18 @@ export async function handleGetFleetStatistics(args: any) {
           SELECT
             at.manufacturer,
             at.model,
-            at.variant,
+            at.full_name,
             at.type_category,
             COUNT(a.id) as total_aircraft,
             COUNT(CASE WHEN a.status = 'active' THEN 1 END) as active_count,
-            ROUND(AVG(a.age_years), 1) as average_age,
-            COUNT(DISTINCT a.current_airline_id) as operators_count
+            ROUND(AVG(EXTRACT(YEAR FROM AGE(${source.referenceDate}, a.manufactured_date))), 1) as average_age,
+            COUNT(DISTINCT a.airline_id) as operators_count
           FROM aircraft_types at
-          LEFT JOIN aircraft a ON at.id = a.aircraft_type_id
+          LEFT JOIN ${source.table} a ON at.id = a.aircraft_type_id
           WHERE UPPER(at.model) LIKE UPPER($1)
-          GROUP BY at.id, at.manufacturer, at.model, at.variant, at.type_category
+          GROUP BY at.id, at.manufacturer, at.model, at.full_name, at.type_category
         `;
-        params = [`%${scope_value}%`];
+        params = [`%${scope_value}%`, ...(asOf ? [asOf] : [])];
         break;
 
       case 'manufacturer':
@@ -142,17 +150,17 @@ export async function handleGetFleetStatistics(args: any) {
         query = `
           SELECT
             at.manufacturer,
-            at.family,
+            at.model as family,
             COUNT(DISTINCT at.id) as aircraft_types_count,
             COUNT(a.id) as total_aircraft,
             COUNT(CASE WHEN a.status = 'active' THEN 1 END) as active_count,
-            ROUND(AVG(a.age_years), 1) as average_age
+            ROUND(AVG(EXTRACT(YEAR FROM AGE(${source.referenceDate}, a.manufactured_date))), 1) as average_age
           FROM aircraft_types at
-          LEFT JOIN aircraft a ON at.id = a.aircraft_type_id
+          LEFT JOIN ${source.table} a ON at.id = a.aircraft_type_id
           WHERE UPPER(at.manufacturer) = UPPER($1)
-          GROUP BY at.manufacturer, at.family
+          GROUP BY at.manufacturer, at.model
         `;
-        params = [scope_value];
+        params = [scope_value, ...(asOf ? [asOf] : [])];
         break;
 
       case 'global':
@@ -164,11 +172,12 @@ export async function handleGetFleetStatistics(args: any) {
             COUNT(CASE WHEN a.status = 'active' THEN 1 END) as active_aircraft,
             COUNT(CASE WHEN a.status = 'stored' THEN 1 END) as stored_aircraft,
             COUNT(CASE WHEN a.status = 'retired' THEN 1 END) as retired_aircraft,
-            ROUND(AVG(a.age_years), 1) as global_average_age
+            ROUND(AVG(EXTRACT(YEAR FROM AGE(${source.referenceDate}, a.manufactured_date))), 1) as global_average_age
           FROM airlines al
           CROSS JOIN aircraft_types at
-          LEFT JOIN aircraft a ON true
+          LEFT JOIN ${source.table} a ON true
         `;
+        params = asOf ? [asOf] : [];
         break;
     }
 
@@ -186,7 +195,7 @@ export async function handleGetFleetStatistics(args: any) {
     }
 
     const stats = result.rows[0];
-    let formattedStats = `**Fleet Statistics - ${scope.toUpperCase()}**\n\n`;
+    let formattedStats = `**Fleet Statistics - ${scope.toUpperCase()}**${asOf ? ` (as of ${asOf})` : ''}\n\n`;
 
     if (scope === 'airline') {
       formattedStats += `
@@ -208,7 +217,7 @@ export async function handleGetFleetStatistics(args: any) {
       `.trim();
     } else if (scope === 'aircraft_type') {
       formattedStats += `
-**Aircraft Type:** ${stats.manufacturer} ${stats.model}${stats.variant ? '-' + stats.variant : ''}
+**Aircraft Type:** ${stats.full_name}
 
 **Fleet Statistics:**
 - Total in Service: ${stats.total_aircraft}
@@ -250,6 +259,18 @@ export async function handleGetFleetStatistics(args: any) {
       ],
     };
   } catch (error) {
+    if (error instanceof AsOfDateError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Validation error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     logger.error('Error getting fleet statistics:', error);
     return {
       content: [
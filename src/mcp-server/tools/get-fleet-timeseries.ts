@@ -0,0 +1,192 @@
+/**
+ * MCP Tool: get_fleet_timeseries
+ * Monthly fleet size by type, deliveries, retirements and average age of an airline
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetFleetTimeseriesSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { AirlinesNotFoundError } from '../../lib/fleet-comparison.js';
+import {
+  FleetTimeseries,
+  FleetTimeseriesError,
+  getFleetTimeseries,
+} from '../../lib/fleet-timeseries.js';
+
+const logger = createLogger('tool:get-fleet-timeseries');
+
+/** Types shown as their own column in the year-end table; the rest are summed */
+const MAX_TYPE_COLUMNS = 8;
+
+export const getFleetTimeseriesTool: Tool = {
+  name: 'get_fleet_timeseries',
+  description:
+    'Monthly fleet history of an airline: fleet size by aircraft type, deliveries versus retirements, transfers and average-age trend, reconstructed from delivery/retirement dates and recorded fleet changes',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: "IATA or ICAO airline code (e.g., 'UA', 'AAL')",
+      },
+      from_month: {
+        type: 'string',
+        description: 'First month of the series (YYYY-MM). Defaults to 10 years before to_month.',
+      },
+      to_month: {
+        type: 'string',
+        description: 'Last month of the series (YYYY-MM). Defaults to the current month.',
+      },
+    },
+    required: ['airline_code'],
+  },
+};
+
+function formatTimeseries(timeseries: FleetTimeseries): string {
+  const { series } = timeseries;
+  const first = series[0]!;
+  const last = series[series.length - 1]!;
+  const total = (key: 'deliveries' | 'retirements' | 'transfers_in' | 'transfers_out') =>
+    series.reduce((sum, point) => sum + point[key], 0);
+
+  const cell = (values: Array<string | number>) => `| ${values.join(' | ')} |`;
+
+  const lines = [
+    `**Fleet History: ${timeseries.airline.name}** (${timeseries.airline.code}), ${timeseries.from} to ${timeseries.to}`,
+    '',
+    `- Fleet size: ${first.fleet_size} → ${last.fleet_size}`,
+    `- Average age: ${first.avg_age_years ?? 'N/A'} → ${last.avg_age_years ?? 'N/A'} years`,
+    `- Deliveries: ${total('deliveries')} | Retirements: ${total('retirements')}`,
+    `- Transfers in: ${total('transfers_in')} | Transfers out: ${total('transfers_out')}`,
+    '',
+    '**Monthly Series**',
+    '',
+    cell(['Month', 'Fleet', 'Deliveries', 'Retirements', 'Transfers in', 'Transfers out', 'Avg age (yrs)']),
+    cell(['---', '---', '---', '---', '---', '---', '---']),
+    ...series.map((point) =>
+      cell([
+        point.month,
+        point.fleet_size,
+        point.deliveries,
+        point.retirements,
+        point.transfers_in,
+        point.transfers_out,
+        point.avg_age_years ?? 'N/A',
+      ])
+    ),
+  ];
+
+  if (timeseries.aircraft_types.length > 0) {
+    const shown = timeseries.aircraft_types.slice(0, MAX_TYPE_COLUMNS);
+    const hasOther = timeseries.aircraft_types.length > shown.length;
+    // Year-end snapshots, plus the last month when the series stops mid-year
+    const snapshots = series.filter((point) => point.month.endsWith('-12') || point === last);
+
+    lines.push(
+      '',
+      '**Fleet by Type** (year-end)',
+      '',
+      cell(['Month', ...shown, ...(hasOther ? ['Other'] : [])]),
+      cell(['---', ...shown.map(() => '---'), ...(hasOther ? ['---'] : [])]),
+      ...snapshots.map((point) => {
+        const counts = shown.map((type) => point.by_type[type] || 0);
+        const other = point.fleet_size - counts.reduce((sum, count) => sum + count, 0);
+        return cell([point.month, ...counts, ...(hasOther ? [other] : [])]);
+      })
+    );
+  }
+
+  return lines.join('\n');
+}
+
+export async function handleGetFleetTimeseries(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_fleet_timeseries', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetFleetTimeseriesSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_code, from_month, to_month } = validation.data;
+
+  logger.info(`Getting fleet time series: ${airline_code}`, { from_month, to_month });
+
+  try {
+    const cacheKey = Cache.generateKey('fleet_timeseries', {
+      airline_code: airline_code.toUpperCase(),
+      from_month,
+      to_month,
+    });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const timeseries = await getFleetTimeseries(airline_code, { from: from_month, to: to_month });
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: formatTimeseries(timeseries),
+        },
+      ],
+    };
+
+    // Cache for 10 minutes
+    globalCache.set(cacheKey, response, 600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Fleet time series computed in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AirlinesNotFoundError || error instanceof FleetTimeseriesError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    logger.error('Error getting fleet time series:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * MCP Tool: get_lessor_exposure
+ * Aircraft per lessor per airline, upcoming lease returns, lessor concentration and owned-vs-leased mix
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetLessorExposureSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { AirlinesNotFoundError } from '../../lib/fleet-comparison.js';
+import {
+  getLessorExposure,
+  LessorExposure,
+  LessorExposureError,
+  OwnershipCounts,
+} from '../../lib/lessor-exposure.js';
+
+const logger = createLogger('tool:get-lessor-exposure');
+
+/** Rows shown per breakdown table */
+const MAX_ROWS = 15;
+
+/** Lessors listed per airline and per alliance */
+const MAX_LESSORS_PER_GROUP = 5;
+
+export const getLessorExposureTool: Tool = {
+  name: 'get_lessor_exposure',
+  description:
+    'Leasing exposure of in-service fleets: aircraft per lessor per airline, leases returning in the next N months, lessor concentration (share and HHI) across alliances, and owned vs leased vs wet-leased ratios by aircraft type',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_codes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "Limit to these airlines (IATA/ICAO codes, e.g., ['UA', 'DL'])",
+        maxItems: 20,
+      },
+      lessor: {
+        type: 'string',
+        description:
+          'Limit lessor breakdowns and lease returns to one lessor (e.g., "AerCap"); shares and HHI still cover all leased aircraft in scope',
+      },
+      alliance: {
+        type: 'string',
+        description: 'Limit to members of this alliance (e.g., "Star Alliance")',
+      },
+      expiring_within_months: {
+        type: 'number',
+        description: 'Window for upcoming lease returns in months (default 12, max 120)',
+        minimum: 1,
+        maximum: 120,
+      },
+    },
+  },
+};
+
+function formatOwnership(ownership: OwnershipCounts): string {
+  return `${ownership.owned} owned / ${ownership.leased} leased / ${ownership.wet_lease} wet-leased / ${ownership.unknown} unknown`;
+}
+
+function more(total: number, shown: number): string[] {
+  return total > shown ? [`_…and ${total - shown} more_`] : [];
+}
+
+function formatExposure(exposure: LessorExposure): string {
+  const { totals, filters } = exposure;
+  const scope =
+    [
+      filters.airline_codes && `airlines ${filters.airline_codes.join(', ')}`,
+      filters.alliance && `alliance ${filters.alliance}`,
+      filters.lessor && `lessor ${filters.lessor}`,
+    ]
+      .filter(Boolean)
+      .join(', ') || 'all airlines';
+
+  if (totals.aircraft === 0) {
+    return `No in-service aircraft found for ${scope}.`;
+  }
+
+  const lines = [
+    `**Lessor Exposure: ${scope}**`,
+    '',
+    `- In-service aircraft: ${totals.aircraft} (${formatOwnership(totals.ownership)})`,
+    `- Leased share: ${totals.leased_share}%`,
+    `- Lessors: ${totals.lessors} (HHI ${totals.hhi})`,
+  ];
+
+  if (exposure.lessors.length > 0) {
+    lines.push(
+      '',
+      '**Lessors**',
+      '',
+      '| Lessor | Aircraft | Share of leased | Airlines |',
+      '| --- | --- | --- | --- |',
+      ...exposure.lessors
+        .slice(0, MAX_ROWS)
+        .map((lessor) => `| ${lessor.lessor} | ${lessor.aircraft} | ${lessor.share}% | ${lessor.airlines} |`),
+      ...more(exposure.lessors.length, MAX_ROWS)
+    );
+  }
+
+  lines.push(
+    '',
+    '**By Airline**',
+    '',
+    '| Airline | Fleet | Owned | Leased | Wet-leased | Unknown | Leased share | Top lessors |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...exposure.by_airline.slice(0, MAX_ROWS).map((airline) => {
+      const top =
+        airline.lessors
+          .slice(0, MAX_LESSORS_PER_GROUP)
+          .map((lessor) => `${lessor.lessor} ${lessor.aircraft} (${lessor.share_of_fleet}%)`)
+          .join(', ') || '-';
+      const { owned, leased, wet_lease, unknown } = airline.ownership;
+      return `| ${airline.airline_name} (${airline.airline_code}) | ${airline.fleet_size} | ${owned} | ${leased} | ${wet_lease} | ${unknown} | ${airline.leased_share}% | ${top} |`;
+    }),
+    ...more(exposure.by_airline.length, MAX_ROWS)
+  );
+
+  if (exposure.by_alliance.length > 0) {
+    lines.push(
+      '',
+      '**Lessor Concentration by Alliance**',
+      '',
+      '| Alliance | Leased aircraft | HHI | Top lessors |',
+      '| --- | --- | --- | --- |',
+      ...exposure.by_alliance.map((alliance) => {
+        const top = alliance.lessors
+          .slice(0, MAX_LESSORS_PER_GROUP)
+          .map((lessor) => `${lessor.lessor} ${lessor.share}%`)
+          .join(', ');
+        return `| ${alliance.alliance} | ${alliance.leased_aircraft} | ${alliance.hhi} | ${top} |`;
+      })
+    );
+  }
+
+  lines.push('', `**Lease Returns in the Next ${filters.expiring_within_months} Months**`, '');
+  if (exposure.expiring_leases.length === 0) {
+    lines.push('No lease returns recorded in this window.');
+  } else {
+    lines.push(
+      '| Return date | Registration | Airline | Type | Lessor | Months left |',
+      '| --- | --- | --- | --- | --- | --- |',
+      ...exposure.expiring_leases
+        .slice(0, MAX_ROWS)
+        .map(
+          (lease) =>
+            `| ${lease.lease_return_date} | ${lease.registration} | ${lease.airline_code} | ${lease.aircraft_type} | ${lease.lessor ?? 'Unknown'} | ${lease.months_remaining} |`
+        ),
+      ...more(exposure.expiring_leases.length, MAX_ROWS)
+    );
+  }
+
+  lines.push(
+    '',
+    '**Ownership by Aircraft Type**',
+    '',
+    '| Type | Aircraft | Owned | Leased | Wet-leased | Unknown | Leased share |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...exposure.by_type.slice(0, MAX_ROWS).map((type) => {
+      const { owned, leased, wet_lease, unknown } = type.ownership;
+      return `| ${type.aircraft_type} | ${type.aircraft} | ${owned} | ${leased} | ${wet_lease} | ${unknown} | ${type.leased_share}% |`;
+    }),
+    ...more(exposure.by_type.length, MAX_ROWS)
+  );
+
+  return lines.join('\n');
+}
+
+export async function handleGetLessorExposure(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_lessor_exposure', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetLessorExposureSchema, args ?? {});
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const filters = validation.data;
+
+  logger.info('Getting lessor exposure', filters);
+
+  try {
+    const cacheKey = Cache.generateKey('lessor_exposure', {
+      airline_codes: filters.airline_codes?.map((code) => code.toUpperCase()).sort(),
+      lessor: filters.lessor?.toUpperCase(),
+      alliance: filters.alliance?.toUpperCase(),
+      expiring_within_months: filters.expiring_within_months,
+    });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const exposure = await getLessorExposure(filters);
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: formatExposure(exposure),
+        },
+      ],
+    };
+
+    // Cache for 10 minutes
+    globalCache.set(cacheKey, response, 600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Lessor exposure computed in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AirlinesNotFoundError || error instanceof LessorExposureError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    logger.error('Error getting lessor exposure:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
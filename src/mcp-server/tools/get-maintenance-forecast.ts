@@ -0,0 +1,232 @@
+/**
+ * MCP Tool: get_maintenance_forecast
+ * Project which aircraft are grounded for maintenance over a date window
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetMaintenanceForecastSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { AirlinesNotFoundError } from '../../lib/fleet-comparison.js';
+import {
+  getMaintenanceForecast,
+  MaintenanceForecast,
+  MaintenanceForecastError,
+} from '../../lib/maintenance-forecast.js';
+
+const logger = createLogger('tool:get-maintenance-forecast');
+
+/** Rows shown in the check and overdue lists */
+const MAX_ROWS = 25;
+
+/** Types listed per week */
+const MAX_TYPES_PER_WEEK = 5;
+
+export const getMaintenanceForecastTool: Tool = {
+  name: 'get_maintenance_forecast',
+  description:
+    'Maintenance planning view for an airline: which tails go into a check over a date window (from next_maintenance_date, or projected from the last major check), upcoming checks per home base, the share of each aircraft type grounded per week, and overdue checks',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      airline_code: {
+        type: 'string',
+        description: 'IATA/ICAO airline code',
+      },
+      from_date: {
+        type: 'string',
+        description: 'First day of the forecast (YYYY-MM-DD). Defaults to today.',
+      },
+      to_date: {
+        type: 'string',
+        description: 'Last day of the forecast (YYYY-MM-DD). Defaults to 90 days after from_date; at most 366 days.',
+      },
+      home_base: {
+        type: 'string',
+        description: 'Filter by home base airport',
+      },
+      aircraft_types: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'Filter by specific aircraft types',
+      },
+    },
+    required: ['airline_code'],
+  },
+};
+
+function formatForecast(forecast: MaintenanceForecast): string {
+  const scheduled = forecast.events.filter((event) => event.source === 'scheduled').length;
+  const projected = forecast.events.filter((event) => event.source === 'projected').length;
+  const inProgress = forecast.events.filter((event) => event.source === 'in_progress').length;
+  const peak = forecast.weekly.reduce((max, week) => (week.grounded > max.grounded ? week : max), forecast.weekly[0]!);
+
+  const lines = [
+    `**Maintenance Forecast: ${forecast.airline.name}** (${forecast.airline.code}), ${forecast.from} to ${forecast.to}`,
+    '',
+    `- In-service aircraft: ${forecast.fleet_size}`,
+    `- Checks in window: ${forecast.events.length} (${scheduled} scheduled, ${projected} projected, ${inProgress} in progress)`,
+    `- Peak week: ${peak.week_start} with ${peak.grounded} aircraft grounded`,
+    `- Overdue checks: ${forecast.overdue.length}`,
+    `- No maintenance data: ${forecast.unplanned_aircraft} aircraft`,
+  ];
+
+  if (forecast.events.length === 0) {
+    lines.push('', 'No checks fall in this window.');
+  } else {
+    lines.push(
+      '',
+      '**Checks**',
+      '',
+      '| Start | End | Registration | Type | Base | Check | Source | Hours | Cycles |',
+      '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+      ...forecast.events
+        .slice(0, MAX_ROWS)
+        .map(
+          (event) =>
+            `| ${event.start_date} | ${event.end_date} | ${event.registration} | ${event.aircraft_type} | ${event.home_base} | ${event.check_type} | ${event.source} | ${event.total_flight_hours?.toLocaleString() ?? 'N/A'} | ${event.total_cycles?.toLocaleString() ?? 'N/A'} |`
+        ),
+      ...(forecast.events.length > MAX_ROWS ? [`_…and ${forecast.events.length - MAX_ROWS} more_`] : []),
+      '',
+      '**Checks by Home Base**',
+      '',
+      '| Base | Checks | Aircraft-days | By check |',
+      '| --- | --- | --- | --- |',
+      ...forecast.by_base.map((base) => {
+        const byCheck = Object.entries(base.by_check_type)
+          .map(([check, count]) => `${check} ${count}`)
+          .join(', ');
+        return `| ${base.home_base} | ${base.checks} | ${base.aircraft_days} | ${byCheck} |`;
+      }),
+      '',
+      '**Grounded per Week**',
+      '',
+      '| Week of | Grounded | Most affected types (share of type fleet) |',
+      '| --- | --- | --- |',
+      ...forecast.weekly.map((week) => {
+        const types =
+          week.by_type
+            .slice(0, MAX_TYPES_PER_WEEK)
+            .map((type) => `${type.aircraft_type} ${type.grounded}/${type.fleet} (${type.share}%)`)
+            .join(', ') || '-';
+        return `| ${week.week_start} | ${week.grounded} | ${types} |`;
+      })
+    );
+  }
+
+  if (forecast.overdue.length > 0) {
+    lines.push(
+      '',
+      '**Overdue** (due before the window, not in maintenance)',
+      '',
+      ...forecast.overdue
+        .slice(0, MAX_ROWS)
+        .map(
+          (tail) => `- ${tail.registration} (${tail.aircraft_type}, ${tail.home_base}): ${tail.check_type} due ${tail.due_date}`
+        ),
+      ...(forecast.overdue.length > MAX_ROWS ? [`_…and ${forecast.overdue.length - MAX_ROWS} more_`] : [])
+    );
+  }
+
+  return lines.join('\n');
+}
+
+export async function handleGetMaintenanceForecast(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_maintenance_forecast', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetMaintenanceForecastSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { airline_code, from_date, to_date, home_base, aircraft_types } = validation.data;
+
+  logger.info(`Getting maintenance forecast: ${airline_code}`, { from_date, to_date, home_base, aircraft_types });
+
+  try {
+    const cacheKey = Cache.generateKey('maintenance_forecast', {
+      airline_code: airline_code.toUpperCase(),
+      from_date,
+      to_date,
+      home_base: home_base?.toUpperCase(),
+      aircraft_types,
+    });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const forecast = await getMaintenanceForecast(airline_code, {
+      from: from_date,
+      to: to_date,
+      home_base,
+      aircraft_types,
+    });
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: formatForecast(forecast),
+        },
+      ],
+    };
+
+    // Cache for 10 minutes
+    globalCache.set(cacheKey, response, 600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Maintenance forecast computed in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    if (error instanceof AirlinesNotFoundError || error instanceof MaintenanceForecastError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    logger.error('Error getting maintenance forecast:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * MCP Tool: get_manufacturer_market_share
+ * Share of the active airline fleet built by each manufacturer
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetManufacturerMarketShareSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { Cache, globalCache } from '../../lib/cache.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { getManufacturerMarketShare, getGraphBackend } from '../../lib/graph-analytics.js';
+
+const logger = createLogger('tool:get-manufacturer-market-share');
+
+export const getManufacturerMarketShareTool: Tool = {
+  name: 'get_manufacturer_market_share',
+  description: 'Get the market share of each aircraft manufacturer across all active airline fleets',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export async function handleGetManufacturerMarketShare(args: any) {
+  const startTime = Date.now();
+
+  // Rate limiting
+  if (!checkRateLimit('get_manufacturer_market_share', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetManufacturerMarketShareSchema, args ?? {});
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const backend = getGraphBackend();
+
+  logger.info('Getting manufacturer market share', { backend });
+
+  try {
+    const cacheKey = Cache.generateKey('manufacturer_market_share', { backend });
+    const cached = globalCache.get(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const shares = await getManufacturerMarketShare();
+
+    const summary = `
+**Manufacturer Market Share (active airline fleets)**
+
+${
+  shares.length > 0
+    ? shares
+        .map(
+          (s, i) => `${i + 1}. ${s.manufacturer}: ${s.aircraftCount} aircraft (${s.marketSharePercentage}%)`
+        )
+        .join('\n')
+    : 'No active aircraft found.'
+}
+
+_Source: ${backend === 'neo4j' ? 'Neo4j knowledge graph' : 'PostgreSQL (Neo4j not configured)'}_
+    `.trim();
+
+    const response = {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+
+    // Cache for 1 hour
+    globalCache.set(cacheKey, response, 3600000);
+
+    const duration = Date.now() - startTime;
+    logger.info(`Manufacturer market share retrieved in ${duration}ms`);
+
+    return response;
+  } catch (error) {
+    logger.error('Error getting manufacturer market share:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
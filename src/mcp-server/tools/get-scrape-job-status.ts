@@ -0,0 +1,208 @@
+/**
+ * MCP Tool: get_scrape_job_status
+ * Follow a scraping job queued by trigger_fleet_update
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { GetScrapeJobStatusSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import {
+  getJobQueue,
+  TERMINAL_JOB_STATUSES,
+  type JobProgress,
+  type ScrapeJob,
+} from '../../scrapers/workflows/job-queue.js';
+import type { ToolCallContext } from '../server.js';
+
+const logger = createLogger('tool:get-scrape-job-status');
+
+const POLL_INTERVAL_MS = 2000;
+
+export const getScrapeJobStatusTool: Tool = {
+  name: 'get_scrape_job_status',
+  description:
+    'Get the status, progress and results of a scraping job. With wait=true, waits for the job to finish and sends progress notifications while the workflow runs.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: {
+        type: 'string',
+        description: 'Job ID returned by trigger_fleet_update (e.g., job_UA_1700000000000)',
+      },
+      wait: {
+        type: 'boolean',
+        description: 'Wait for the job to finish, sending progress notifications',
+        default: false,
+      },
+      timeout_seconds: {
+        type: 'integer',
+        description: 'Maximum time to wait when wait is true (max 900)',
+        default: 300,
+      },
+    },
+    required: ['job_id'],
+  },
+};
+
+/**
+ * Describe the latest workflow progress of a job
+ */
+export function formatJobProgress(job: ScrapeJob): string | null {
+  const progress = job.metadata['progress'] as JobProgress | undefined;
+
+  if (!progress) {
+    return null;
+  }
+
+  return `${progress.phase} (${progress.progress.toFixed(1)}/${progress.total} phases) - ${progress.message}`;
+}
+
+function formatJob(job: ScrapeJob): string {
+  const progress = formatJobProgress(job);
+
+  let summary = `
+**Scrape Job ${job.job_id}**
+- Airline: ${job.airline_code}
+- Type: ${job.job_type}
+- Status: ${job.status}
+- Priority: ${job.priority}
+- Created: ${job.created_at.toISOString()}
+- Started: ${job.started_at?.toISOString() || '-'}
+- Completed: ${job.completed_at?.toISOString() || '-'}
+- Retries: ${job.retry_count}/${job.max_retries}
+  `.trim();
+
+  if (job.duration_seconds !== null) {
+    summary += `\n- Duration: ${job.duration_seconds}s`;
+  }
+
+  if (progress) {
+    summary += `\n\n**Progress:** ${progress}`;
+  }
+
+  if (job.status === 'completed') {
+    summary += `
+
+**Results:**
+- Aircraft Found: ${job.aircraft_found}
+- Added: ${job.aircraft_added}
+- Updated: ${job.aircraft_updated}
+- Removed: ${job.aircraft_removed}
+- Errors: ${job.errors_count}`;
+  }
+
+  if (job.error_message) {
+    summary += `\n\n**${job.status === 'pending' ? 'Last Error (will retry)' : 'Error'}:** ${job.error_message}`;
+  }
+
+  return summary;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function handleGetScrapeJobStatus(args: any, context: ToolCallContext = {}) {
+  // Rate limiting
+  if (!checkRateLimit('get_scrape_job_status', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(GetScrapeJobStatusSchema, args);
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { job_id, wait, timeout_seconds = 300 } = validation.data;
+
+  logger.info(`Getting scrape job status: ${job_id}`, { wait });
+
+  try {
+    const jobQueue = getJobQueue();
+    let job = await jobQueue.getJobStatus(job_id);
+
+    if (!job) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Job not found: ${job_id}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let timedOut = false;
+
+    if (wait) {
+      const deadline = Date.now() + timeout_seconds * 1000;
+      // Notifications must increase, so a retried run only reports once it passes the last attempt
+      let lastReported = -1;
+
+      while (!TERMINAL_JOB_STATUSES.includes(job.status)) {
+        const progress = job.metadata['progress'] as JobProgress | undefined;
+
+        if (progress && context.reportProgress && progress.progress > lastReported) {
+          lastReported = progress.progress;
+          await context.reportProgress(progress.progress, progress.total, progress.message);
+        }
+
+        if (Date.now() >= deadline) {
+          timedOut = true;
+          break;
+        }
+        if (context.signal?.aborted) {
+          break;
+        }
+
+        await sleep(POLL_INTERVAL_MS);
+        job = (await jobQueue.getJobStatus(job_id)) || job;
+      }
+    }
+
+    let summary = formatJob(job);
+
+    if (timedOut) {
+      summary += `\n\n_Job still ${job.status} after ${timeout_seconds}s. Call again to keep waiting._`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error getting scrape job status:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * MCP Tool: list_scrape_jobs
+ * List recent scraping jobs with their status and progress
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../../lib/logger.js';
+import { ListScrapeJobsSchema, safeValidateInput } from '../schemas/tool-schemas.js';
+import { checkRateLimit } from '../../lib/rate-limiter.js';
+import { getJobQueue } from '../../scrapers/workflows/job-queue.js';
+import { formatJobProgress } from './get-scrape-job-status.js';
+
+const logger = createLogger('tool:list-scrape-jobs');
+
+export const listScrapeJobsTool: Tool = {
+  name: 'list_scrape_jobs',
+  description: 'List recent scraping jobs, newest first, optionally filtered by status or airline',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['pending', 'running', 'completed', 'failed', 'cancelled'],
+        description: 'Filter by job status',
+      },
+      airline_code: {
+        type: 'string',
+        description: 'Filter by IATA/ICAO airline code',
+      },
+      limit: {
+        type: 'integer',
+        description: 'Maximum number of jobs (max 100)',
+        default: 20,
+      },
+    },
+  },
+};
+
+export async function handleListScrapeJobs(args: any) {
+  // Rate limiting
+  if (!checkRateLimit('list_scrape_jobs', 1)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Rate limit exceeded. Please try again later.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Validate input
+  const validation = safeValidateInput(ListScrapeJobsSchema, args ?? {});
+  if (!validation.success) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Validation error: ${validation.error}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { status, airline_code, limit = 20 } = validation.data;
+
+  logger.info('Listing scrape jobs', { status, airline_code, limit });
+
+  try {
+    const jobQueue = getJobQueue();
+    const [jobs, stats] = await Promise.all([
+      jobQueue.listJobs({ status, airlineCode: airline_code, limit }),
+      jobQueue.getQueueStats(),
+    ]);
+
+    const filters = [status && `status: ${status}`, airline_code && `airline: ${airline_code}`]
+      .filter(Boolean)
+      .join(', ');
+
+    let summary = `
+**Scrape Jobs**${filters ? ` (${filters})` : ''}
+Queue (last 7 days): ${stats.pending} pending, ${stats.running} running, ${stats.completed} completed, ${stats.failed} failed
+    `.trim();
+
+    if (jobs.length === 0) {
+      summary += '\n\nNo jobs found.';
+    } else {
+      summary += `\n\nShowing ${jobs.length} job${jobs.length === 1 ? '' : 's'}:\n`;
+
+      for (const job of jobs) {
+        summary += `\n${job.job_id} | ${job.airline_code} | ${job.status} | ${job.priority} | Created: ${job.created_at.toISOString()}`;
+
+        const progress = job.status === 'running' ? formatJobProgress(job) : null;
+        if (progress) {
+          summary += `\n  └─ ${progress}`;
+        } else if (job.status === 'completed') {
+          summary += `\n  └─ ${job.aircraft_found} found, ${job.aircraft_added} added, ${job.aircraft_updated} updated, ${job.aircraft_removed} removed`;
+        } else if (job.error_message) {
+          summary += `\n  └─ Error: ${job.error_message}`;
+        }
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+    };
+  } catch (error) {
+    logger.error('Error listing scrape jobs:', error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -120,12 +120,12 @@ export async function handleSearchAircraft(args: any) {
     }
 
     if (filters.min_year) {
-      conditions.push(`EXTRACT(YEAR FROM a.manufacture_date) >= $${++paramCount}`);
+      conditions.push(`EXTRACT(YEAR FROM a.manufactured_date) >= $${++paramCount}`);
       params.push(filters.min_year);
     }
 
     if (filters.max_year) {
-      conditions.push(`EXTRACT(YEAR FROM a.manufacture_date) <= $${++paramCount}`);
+      conditions.push(`EXTRACT(YEAR FROM a.manufactured_date) <= $${++paramCount}`);
       params.push(filters.max_year);
     }
 
@@ -135,21 +135,20 @@ export async function handleSearchAircraft(args: any) {
     const searchQuery = `
       SELECT
         a.registration,
-        a.manufacturer_serial_number,
+        a.msn,
         a.status,
-        a.age_years,
-        a.manufacture_date,
+        EXTRACT(YEAR FROM AGE(CURRENT_DATE, a.manufactured_date))::FLOAT as age_years,
+        a.manufactured_date,
         at.manufacturer,
         at.model,
-        at.variant,
+        at.full_name,
         at.type_category,
         al.iata_code as airline_iata,
         al.name as airline_name,
-        ac.total_seats
+        a.total_seats
       FROM aircraft a
       JOIN aircraft_types at ON a.aircraft_type_id = at.id
-      LEFT JOIN airlines al ON a.current_airline_id = al.id
-      LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
+      LEFT JOIN airlines al ON a.airline_id = al.id
       WHERE ${conditions.join(' AND ')}
       ORDER BY a.registration
       LIMIT $${++paramCount} OFFSET $${++paramCount}
@@ -166,7 +165,7 @@ ${
     ? result.rows
         .map(
           (ac) =>
-            `- ${ac.registration} | ${ac.manufacturer} ${ac.model}${ac.variant ? '-' + ac.variant : ''} | ${ac.airline_name || 'No operator'} | Age: ${ac.age_years?.toFixed(1) || 'N/A'} yrs | ${ac.status}`
+            `- ${ac.registration} | ${ac.full_name} | ${ac.airline_name || 'No operator'} | Age: ${ac.age_years?.toFixed(1) || 'N/A'} yrs | ${ac.status}`
         )
         .join('\n')
     : 'No aircraft found matching your criteria.'
@@ -6,6 +6,7 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { queryPostgres } from '../../lib/db-clients.js';
 import { createLogger } from '../../lib/logger.js';
+import { getJobQueue } from '../../scrapers/workflows/job-queue.js';
 
 const logger = createLogger('tool:trigger-fleet-update');
 
@@ -56,7 +57,7 @@ export async function handleTriggerFleetUpdate(args: any) {
       const allAirlinesQuery = `
         SELECT id, iata_code, icao_code, name, last_scraped_at
         FROM airlines
-        WHERE is_active = true
+        WHERE scrape_enabled = true
         ORDER BY last_scraped_at ASC NULLS FIRST
         LIMIT 100
       `;
@@ -68,7 +69,7 @@ export async function handleTriggerFleetUpdate(args: any) {
       const specificAirlinesQuery = `
         SELECT id, iata_code, icao_code, name, last_scraped_at
         FROM airlines
-        WHERE is_active = true
+        WHERE scrape_enabled = true
           AND (UPPER(iata_code) IN (${placeholders.split(',').map((p) => `UPPER(${p})`).join(',')})
                OR UPPER(icao_code) IN (${placeholders.split(',').map((p) => `UPPER(${p})`).join(',')}))
       `;
@@ -103,30 +104,18 @@ export async function handleTriggerFleetUpdate(args: any) {
       }
 
       // Create scraping job
-      const createJobQuery = `
-        INSERT INTO scrape_jobs (
-          airline_id,
-          job_type,
-          status,
-          priority,
-          metadata
-        )
-        VALUES ($1, 'fleet_discovery', 'pending', $2, $3)
-        RETURNING id
-      `;
-
-      const jobResult = await queryPostgres(createJobQuery, [
-        airline.id,
+      const jobId = await getJobQueue().createJob(airline.iata_code || airline.icao_code, {
+        jobType: 'full_fleet_update',
         priority,
-        JSON.stringify({
+        metadata: {
           triggered_manually: true,
           force_refresh,
           triggered_at: new Date().toISOString(),
-        }),
-      ]);
+        },
+      });
 
-      jobIds.push(jobResult.rows[0]?.id);
-      logger.info(`Created scraping job for ${airline.name}`, { job_id: jobResult.rows[0]?.id });
+      jobIds.push(jobId);
+      logger.info(`Created scraping job for ${airline.name}`, { job_id: jobId });
     }
 
     const summary = `
@@ -150,7 +139,7 @@ ${jobIds.length > 10 ? `\n... and ${jobIds.length - 10} more` : ''}
 
 **Status:**
 Jobs have been queued and will be processed by the scraping workflow.
-You can check the status using the scrape_jobs table.
+Use get_scrape_job_status (with wait=true to follow progress), list_scrape_jobs or cancel_scrape_job with the job IDs above.
 
 **Note:** The actual scraping process runs asynchronously via the workflow scheduler.
     `.trim();
@@ -7,18 +7,54 @@
  * Strategy:
  * 1. Load page with Playwright
  * 2. Extract relevant content
- * 3. Use LLM to parse unstructured data
- * 4. Merge data from multiple sources
+ * 3. Read table-based sites with a site parser, use LLM to parse anything else
+ * 4. Merge data from multiple sources, keeping the provenance of each field
  * 5. Return structured details with confidence scores
  */
 
 import { chromium, Browser } from 'playwright';
 import { createLogger } from '../../lib/logger.js';
-import { getLLMClient } from '../../lib/llm-client.js';
+import { getLLMClient, LLMGenerateOptions } from '../../lib/llm-client.js';
 import { queryPostgres } from '../../lib/db-clients.js';
+import { parseAircraftPage } from '../parsers/parser-registry.js';
+import { PageSnapshot, withFixture } from '../../lib/scrape-fixtures.js';
+import { archivePageSnapshot, SnapshotContext } from '../../lib/page-snapshots.js';
+import type { ExtractionMethod, FieldProvenance } from '../../lib/field-provenance.js';
+import { expandUrlTemplate, getDataSources, SourceOutcome, SourceType, tallyOutcome } from '../../lib/data-sources.js';
 
 const logger = createLogger('aircraft-details-agent');
 
+/**
+ * Confidence in a single extracted value, by how it was extracted
+ */
+const EXTRACTION_CONFIDENCE: Record<Exclude<ExtractionMethod, 'validation'>, number> = {
+  parser: 0.9,
+  llm: 0.7,
+};
+
+/**
+ * Added to a value's confidence for each other source that reports the same value
+ */
+const AGREEMENT_BONUS = 0.05;
+
+/**
+ * Merge weight of a source with no reliability score (sources passed in by the caller)
+ */
+const DEFAULT_SOURCE_RELIABILITY = 0.5;
+
+/**
+ * Fields settled by a reliability-weighted vote between sources
+ */
+const VOTED_FIELDS = [
+  'aircraft_type',
+  'manufacturer',
+  'model',
+  'msn',
+  'delivery_date',
+  'current_location',
+  'engines',
+] as const;
+
 export interface AircraftDetails {
   registration: string;
   aircraft_type: string;
@@ -40,13 +76,34 @@ export interface AircraftDetails {
   engines: string | null;
   confidence_score: number;
   data_sources: string[];
+  /** Where each scraped value came from; fields kept from the database have none */
+  field_provenance?: Partial<Record<keyof AircraftDetails, FieldProvenance>>;
+  /** How often each data source (by id) agreed with the other sources on this aircraft */
+  source_agreement?: Map<number, SourceOutcome>;
   extracted_at: Date;
 }
 
 export interface DetailSource {
   url: string;
-  type: 'official' | 'database' | 'tracker';
+  type: SourceType;
   priority: number;
+  /** data_sources row the URL was built from */
+  dataSourceId?: number;
+  /** 0-1, weights this source's values when merging */
+  reliability?: number;
+  /** Site notes for the LLM prompt */
+  instructions?: string | null;
+}
+
+/** One source's extracted data */
+interface SourcedPartial {
+  data: Partial<AircraftDetails>;
+  source: DetailSource;
+}
+
+export interface StructuredExtraction {
+  method: Exclude<ExtractionMethod, 'validation'>;
+  data: Partial<AircraftDetails>;
 }
 
 export class AircraftDetailsAgent {
@@ -68,6 +125,10 @@ export class AircraftDetailsAgent {
     options?: {
       sources?: DetailSource[];
       airlineCode?: string;
+      /** Scrape job the loaded pages are archived under */
+      scrapeJobId?: number;
+      /** Archive loaded pages in page_snapshots (default true) */
+      archiveSnapshots?: boolean;
     }
   ): Promise<AircraftDetails> {
     logger.info(`Extracting details for aircraft ${registration}`);
@@ -83,15 +144,20 @@ export class AircraftDetailsAgent {
 
       logger.info(`Found ${sources.length} detail sources for ${registration}`);
 
+      const snapshotContext: SnapshotContext | null =
+        options?.archiveSnapshots === false
+          ? null
+          : { airlineCode: options?.airlineCode, registration, scrapeJobId: options?.scrapeJobId };
+
       // Scrape each source and collect partial data
-      const partialResults: Partial<AircraftDetails>[] = [];
+      const partialResults: SourcedPartial[] = [];
 
       for (const source of sources) {
         try {
           logger.info(`Scraping source: ${source.url}`);
-          const partial = await this.scrapeDetailSource(registration, source);
+          const partial = await this.scrapeDetailSource(registration, source, snapshotContext);
           if (partial) {
-            partialResults.push(partial);
+            partialResults.push({ data: partial, source });
           }
         } catch (error) {
           logger.error(`Failed to scrape ${source.url}:`, error);
@@ -121,23 +187,20 @@ export class AircraftDetailsAgent {
     const query = `
       SELECT
         a.registration,
-        at.iata_code as aircraft_type,
-        at.manufacturer,
-        at.model,
-        a.manufacturer_serial_number as msn,
-        ac.class_first as first_class_seats,
-        ac.class_business as business_class_seats,
-        ac.class_premium_economy as premium_economy_seats,
-        ac.class_economy as economy_class_seats,
-        ac.total_seats,
+        COALESCE(at.iata_code, a.aircraft_type) as aircraft_type,
+        COALESCE(at.manufacturer, a.manufacturer) as manufacturer,
+        COALESCE(at.model, a.model) as model,
+        a.msn,
+        a.seat_configuration,
+        a.total_seats,
         a.delivery_date,
-        a.age_years,
+        EXTRACT(YEAR FROM AGE(CURRENT_DATE, COALESCE(a.manufactured_date, a.delivery_date)))::FLOAT as age_years,
         a.status,
-        at.engine_type as engines,
-        a.last_seen_date
+        a.current_location,
+        COALESCE(a.engines, at.engine_type) as engines,
+        a.last_flight_date
       FROM aircraft a
-      JOIN aircraft_types at ON a.aircraft_type_id = at.id
-      LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
       WHERE UPPER(a.registration) = UPPER($1)
       LIMIT 1
     `;
@@ -149,6 +212,8 @@ export class AircraftDetailsAgent {
     }
 
     const row = result.rows[0];
+    const seats = row.seat_configuration || {};
+
     return {
       registration: row.registration,
       aircraft_type: row.aircraft_type,
@@ -156,17 +221,17 @@ export class AircraftDetailsAgent {
       model: row.model,
       msn: row.msn,
       seat_configuration: {
-        first: row.first_class_seats || undefined,
-        business: row.business_class_seats || undefined,
-        premium_economy: row.premium_economy_seats || undefined,
-        economy: row.economy_class_seats || undefined,
+        first: seats.first || undefined,
+        business: seats.business || undefined,
+        premium_economy: seats.premium_economy || undefined,
+        economy: seats.economy || undefined,
         total: row.total_seats || undefined,
       },
       delivery_date: row.delivery_date,
       age_years: row.age_years,
       status: row.status,
-      current_location: null, // Not stored in current schema
-      last_flight_date: row.last_seen_date || null,
+      current_location: row.current_location || null,
+      last_flight_date: row.last_flight_date || null,
       engines: row.engines,
       confidence_score: 0.9, // Existing DB data is high confidence
       data_sources: ['database'],
@@ -183,63 +248,53 @@ export class AircraftDetailsAgent {
   ): Promise<DetailSource[]> {
     const sources: DetailSource[] = [];
 
-    // 1. Planespotters.net - most comprehensive
-    sources.push({
-      url: `https://www.planespotters.net/airframe/${registration}`,
-      type: 'database',
-      priority: 1,
-    });
-
-    // 2. FlightRadar24
-    sources.push({
-      url: `https://www.flightradar24.com/data/aircraft/${registration.toLowerCase()}`,
-      type: 'tracker',
-      priority: 2,
-    });
-
-    // 3. Airfleets.net
-    sources.push({
-      url: `https://www.airfleets.net/recherche/${registration}.htm`,
-      type: 'database',
-      priority: 2,
-    });
+    // Airframe pages of the active data sources; more reliable sources go first
+    for (const dataSource of await getDataSources('aircraft')) {
+      const url = expandUrlTemplate(dataSource.aircraft_url_template!, { registration });
+      if (!url) {
+        continue;
+      }
 
-    // 4. JetPhotos (for visual verification)
-    sources.push({
-      url: `https://www.jetphotos.com/registration/${registration}`,
-      type: 'database',
-      priority: 3,
-    });
+      sources.push({
+        url,
+        type: dataSource.source_type,
+        priority: 1 - dataSource.reliability_score,
+        dataSourceId: dataSource.id,
+        reliability: dataSource.reliability_score,
+        instructions: dataSource.scraping_instructions,
+      });
+    }
 
     return sources.sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * Re-run structured extraction on a previously loaded page
+   */
+  async extractFromPage(
+    page: Pick<PageSnapshot, 'url' | 'html'>,
+    registration: string
+  ): Promise<StructuredExtraction | null> {
+    return this.extractStructuredData(page.html, page.url, registration);
+  }
+
   /**
    * Scrape a specific source for aircraft details
    */
   private async scrapeDetailSource(
     registration: string,
-    source: DetailSource
+    source: DetailSource,
+    snapshotContext: SnapshotContext | null
   ): Promise<Partial<AircraftDetails> | null> {
-    await this.initBrowser();
-
-    const page = await this.browser!.newPage({
-      userAgent: this.userAgent,
-    });
-
     try {
-      // Navigate to page
-      logger.info(`Loading ${source.url}`);
-      await page.goto(source.url, {
-        waitUntil: 'networkidle',
-        timeout: 30000,
-      });
+      const page = await withFixture('page', { url: source.url }, () => this.loadPage(source.url));
+      const { html, url, title } = page;
 
-      // Wait for content to load
-      await page.waitForTimeout(2000);
+      const snapshotId = snapshotContext
+        ? await archivePageSnapshot('aircraft', source.url, page, snapshotContext)
+        : null;
 
       // Check if page exists (not 404)
-      const title = await page.title();
       if (
         title.toLowerCase().includes('not found') ||
         title.toLowerCase().includes('404')
@@ -248,21 +303,64 @@ export class AircraftDetailsAgent {
         return null;
       }
 
-      // Get page content
-      const html = await page.content();
-      const url = page.url();
+      // Use a site parser or the LLM to extract structured data
+      const extracted = await this.extractStructuredData(html, url, registration, source.instructions);
 
-      // Use LLM to extract structured data
-      const extracted = await this.extractStructuredData(html, url, registration);
+      if (!extracted) {
+        return null;
+      }
 
-      if (extracted) {
-        extracted.data_sources = [url];
+      const { data, method } = extracted;
+      const provenance: FieldProvenance = {
+        snapshot_id: snapshotId,
+        source_url: url,
+        source_type: source.type,
+        extraction_method: method,
+        confidence: EXTRACTION_CONFIDENCE[method],
+        extracted_at: new Date().toISOString(),
+      };
+
+      data.data_sources = [url];
+      data.field_provenance = {};
+      for (const [field, value] of Object.entries(data)) {
+        if (value !== null && value !== undefined && field !== 'data_sources' && field !== 'field_provenance') {
+          data.field_provenance[field as keyof AircraftDetails] = provenance;
+        }
       }
 
-      return extracted;
+      return data;
     } catch (error) {
       logger.error(`Failed to scrape ${source.url}:`, error);
       return null;
+    }
+  }
+
+  /**
+   * Render a page in the browser
+   */
+  private async loadPage(sourceUrl: string): Promise<PageSnapshot> {
+    await this.initBrowser();
+
+    const page = await this.browser!.newPage({
+      userAgent: this.userAgent,
+    });
+
+    try {
+      // Navigate to page
+      logger.info(`Loading ${sourceUrl}`);
+      await page.goto(sourceUrl, {
+        waitUntil: 'networkidle',
+        timeout: 30000,
+      });
+
+      // Wait for content to load
+      await page.waitForTimeout(2000);
+
+      return {
+        url: page.url(),
+        title: await page.title(),
+        html: await page.content(),
+      };
     } finally {
       await page.close();
     }
@@ -281,15 +379,59 @@ export class AircraftDetailsAgent {
   }
 
   /**
-   * Extract structured data from HTML using LLM
+   * Extract structured data from HTML, with a site parser when one handles
+   * the URL and with the LLM otherwise
    */
   private async extractStructuredData(
     html: string,
     url: string,
-    registration: string
-  ): Promise<Partial<AircraftDetails> | null> {
+    registration: string,
+    instructions?: string | null
+  ): Promise<StructuredExtraction | null> {
+    const parsed = parseAircraftPage(html, url, registration);
+    if (parsed) {
+      logger.info(`Parsed ${registration} from ${url} with the ${parsed.parser} parser`);
+      const { aircraft_type, manufacturer, model, msn, delivery_date, status, engines } = parsed.data;
+      return {
+        method: 'parser',
+        data: {
+          // Leave out what the page did not have
+          ...(aircraft_type && { aircraft_type }),
+          ...(manufacturer && { manufacturer }),
+          ...(model && { model }),
+          ...(msn && { msn }),
+          ...(delivery_date && { delivery_date }),
+          ...(status && { status }),
+          ...(engines && { engines }),
+        },
+      };
+    }
+
     logger.info('Extracting structured data with LLM');
 
+    const { prompt, options } = this.buildExtractionRequest(html, url, registration, instructions);
+
+    try {
+      const response = await this.llm.generateJSON<Partial<AircraftDetails>>(prompt, options);
+
+      logger.info('Successfully extracted structured data');
+      return { method: 'llm', data: response };
+    } catch (error) {
+      logger.error('LLM extraction failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * LLM prompt and options for extracting an airframe page. Recorded LLM
+   * fixtures are keyed by exactly this request.
+   */
+  private buildExtractionRequest(
+    html: string,
+    url: string,
+    registration: string,
+    instructions?: string | null
+  ): { prompt: string; options: LLMGenerateOptions } {
     // Truncate HTML if too long
     const truncatedHtml = this.truncateHTML(html);
 
@@ -301,7 +443,7 @@ URL: ${url}
 HTML Content (truncated):
 ${truncatedHtml}
 
-Extract the following information if available:
+${instructions ? `Notes for this site:\n${instructions}\n\n` : ''}Extract the following information if available:
 - aircraft_type: IATA type code (e.g., "77W", "32A", "738")
 - manufacturer: Aircraft manufacturer (e.g., "Boeing", "Airbus")
 - model: Full model name (e.g., "777-300ER", "A320-200")
@@ -349,30 +491,22 @@ If no relevant data is found, return:
   "engines": null
 }`;
 
-    try {
-      const response = await this.llm.generateJSON<Partial<AircraftDetails>>(
-        prompt,
-        {
-          temperature: 0.1,
-          system:
-            'You are an expert at extracting structured aircraft data from HTML. Always respond with valid JSON.',
-        }
-      );
-
-      logger.info('Successfully extracted structured data');
-      return response;
-    } catch (error) {
-      logger.error('LLM extraction failed:', error);
-      return null;
-    }
+    return {
+      prompt,
+      options: {
+        temperature: 0.1,
+        system: 'You are an expert at extracting structured aircraft data from HTML. Always respond with valid JSON.',
+      },
+    };
   }
 
   /**
-   * Merge partial data from multiple sources
+   * Merge partial data from multiple sources. Conflicting values are settled
+   * by the combined reliability of the sources reporting each value.
    */
   private async mergePartialData(
     registration: string,
-    partialResults: Partial<AircraftDetails>[],
+    partialResults: SourcedPartial[],
     existingData: AircraftDetails | null
   ): Promise<AircraftDetails> {
     logger.info(
@@ -398,61 +532,83 @@ If no relevant data is found, return:
       extracted_at: new Date(),
     };
 
-    // Merge each field using priority and frequency
     const allSources: string[] = existingData
       ? [...existingData.data_sources]
       : [];
-
-    for (const partial of partialResults) {
-      if (partial.data_sources) {
-        allSources.push(...partial.data_sources);
+    const fieldProvenance: NonNullable<AircraftDetails['field_provenance']> = {};
+    const agreement = new Map<number, SourceOutcome>();
+
+    // Take a value from a partial result along with the page it came from
+    const take = <K extends keyof AircraftDetails>(field: K, value: AircraftDetails[K], partial: SourcedPartial) => {
+      merged[field] = value;
+      const provenance = partial.data.field_provenance?.[field];
+      if (provenance) {
+        fieldProvenance[field] = { ...provenance };
       }
+    };
 
-      // Merge basic fields (prefer non-null values)
-      if (partial.aircraft_type && !merged.aircraft_type) {
-        merged.aircraft_type = partial.aircraft_type;
-      }
-      if (partial.manufacturer && !merged.manufacturer) {
-        merged.manufacturer = partial.manufacturer;
-      }
-      if (partial.model && !merged.model) {
-        merged.model = partial.model;
-      }
-      if (partial.msn && !merged.msn) {
-        merged.msn = partial.msn;
-      }
-      if (partial.delivery_date && !merged.delivery_date) {
-        merged.delivery_date = partial.delivery_date;
-      }
-      if (partial.status && partial.status !== 'Unknown') {
-        merged.status = partial.status;
+    // Settle a field by weighted vote, counting which sources agreed with the result
+    const vote = <K extends keyof AircraftDetails>(field: K, accept: (value: unknown) => boolean) => {
+      const winner = this.weightedValue(field, partialResults, accept);
+      if (winner && winner.suppliers > 1) {
+        for (const { data, source } of partialResults) {
+          if (source.dataSourceId !== undefined && accept(data[field])) {
+            tallyOutcome(agreement, source.dataSourceId, JSON.stringify(data[field]) === winner.key);
+          }
+        }
       }
-      if (partial.current_location && !merged.current_location) {
-        merged.current_location = partial.current_location;
+      return winner;
+    };
+
+    // Basic fields: keep database values, otherwise take the best-supported value
+    const hasValue = (value: unknown) => value !== null && value !== undefined && value !== '';
+    for (const field of VOTED_FIELDS) {
+      const winner = vote(field, hasValue);
+      if (winner && !merged[field]) {
+        take(field, winner.value, winner.partial);
       }
-      if (partial.engines && !merged.engines) {
-        merged.engines = partial.engines;
+    }
+
+    // Status: a scraped status replaces the stored one
+    const status = vote('status', (value) => hasValue(value) && value !== 'Unknown');
+    if (status) {
+      take('status', status.value, status.partial);
+    }
+
+    for (const partial of partialResults) {
+      const { data } = partial;
+      if (data.data_sources) {
+        allSources.push(...data.data_sources);
       }
 
       // Merge seat configuration (prefer most complete)
       if (
-        partial.seat_configuration &&
-        Object.keys(partial.seat_configuration).length >
+        data.seat_configuration &&
+        Object.keys(data.seat_configuration).length >
           Object.keys(merged.seat_configuration).length
       ) {
-        merged.seat_configuration = partial.seat_configuration;
+        take('seat_configuration', data.seat_configuration, partial);
       }
 
       // Update last flight date (prefer most recent)
       if (
-        partial.last_flight_date &&
+        data.last_flight_date &&
         (!merged.last_flight_date ||
-          partial.last_flight_date > merged.last_flight_date)
+          data.last_flight_date > merged.last_flight_date)
       ) {
-        merged.last_flight_date = partial.last_flight_date;
+        take('last_flight_date', data.last_flight_date, partial);
       }
     }
 
+    // Values reported by more than one source are more trustworthy
+    for (const [field, provenance] of Object.entries(fieldProvenance) as Array<
+      [keyof AircraftDetails, FieldProvenance]
+    >) {
+      const value = JSON.stringify(merged[field]);
+      const agreeing = partialResults.filter(({ data }) => JSON.stringify(data[field]) === value).length;
+      provenance.confidence = Math.min(1, provenance.confidence + AGREEMENT_BONUS * Math.max(agreeing - 1, 0));
+    }
+
     // Calculate age if we have delivery date
     if (merged.delivery_date && !merged.age_years) {
       const deliveryYear = new Date(merged.delivery_date).getFullYear();
@@ -463,17 +619,58 @@ If no relevant data is found, return:
     // Calculate confidence score
     merged.confidence_score = this.calculateConfidence(merged, partialResults);
     merged.data_sources = [...new Set(allSources)];
+    merged.field_provenance = fieldProvenance;
+    merged.source_agreement = agreement;
     merged.extracted_at = new Date();
 
     return merged;
   }
 
+  /**
+   * The value of a field with the most combined source reliability behind it.
+   * Ties go to the value seen first, i.e. from the more reliable source.
+   */
+  private weightedValue<K extends keyof AircraftDetails>(
+    field: K,
+    partialResults: SourcedPartial[],
+    accept: (value: unknown) => boolean
+  ): { value: AircraftDetails[K]; key: string; partial: SourcedPartial; suppliers: number } | null {
+    const votes = new Map<string, { value: AircraftDetails[K]; partial: SourcedPartial; weight: number }>();
+    let suppliers = 0;
+
+    for (const partial of partialResults) {
+      const value = partial.data[field];
+      if (!accept(value)) {
+        continue;
+      }
+
+      suppliers++;
+      const key = JSON.stringify(value);
+      const weight = partial.source.reliability ?? DEFAULT_SOURCE_RELIABILITY;
+      const existing = votes.get(key);
+      if (existing) {
+        existing.weight += weight;
+      } else {
+        votes.set(key, { value: value as AircraftDetails[K], partial, weight });
+      }
+    }
+
+    let winner: { key: string; value: AircraftDetails[K]; partial: SourcedPartial; weight: number } | null = null;
+    for (const [key, candidate] of votes) {
+      if (!winner || candidate.weight > winner.weight) {
+        winner = { key, ...candidate };
+      }
+    }
+
+    return winner && { value: winner.value, key: winner.key, partial: winner.partial, suppliers };
+  }
+
   /**
    * Calculate confidence score for merged data
    */
   private calculateConfidence(
     merged: AircraftDetails,
-    partialResults: Partial<AircraftDetails>[]
+    partialResults: SourcedPartial[]
   ): number {
     let confidence = 0;
 
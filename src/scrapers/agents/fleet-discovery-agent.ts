@@ -8,7 +8,7 @@
  * 1. Load airline website
  * 2. Use LLM to identify where fleet info lives
  * 3. Navigate to fleet pages
- * 4. Extract all aircraft registrations/identifiers
+ * 4. Extract all aircraft registrations/identifiers (site parsers first, LLM as fallback)
  * 5. Return list of aircraft to process
  */
 
@@ -16,6 +16,10 @@ import { chromium, Browser } from 'playwright';
 import { createLogger } from '../../lib/logger.js';
 import { getLLMClient } from '../../lib/llm-client.js';
 import { queryPostgres } from '../../lib/db-clients.js';
+import { parseFleetPage } from '../parsers/parser-registry.js';
+import { PageSnapshot, withFixture } from '../../lib/scrape-fixtures.js';
+import { archivePageSnapshot, SnapshotContext } from '../../lib/page-snapshots.js';
+import { expandUrlTemplate, getDataSources, SourceType } from '../../lib/data-sources.js';
 
 const logger = createLogger('fleet-discovery-agent');
 
@@ -30,8 +34,12 @@ export interface DiscoveryResult {
 
 export interface DiscoverySource {
   url: string;
-  type: 'official' | 'database' | 'tracker';
+  type: SourceType;
   priority: number;
+  /** data_sources row the URL was built from */
+  dataSourceId?: number;
+  /** Site notes for the LLM prompt */
+  instructions?: string | null;
 }
 
 export class FleetDiscoveryAgent {
@@ -53,6 +61,10 @@ export class FleetDiscoveryAgent {
     options?: {
       forceFullScrape?: boolean;
       sources?: DiscoverySource[];
+      /** Scrape job the loaded pages are archived under */
+      scrapeJobId?: number;
+      /** Archive loaded pages in page_snapshots (default true) */
+      archiveSnapshots?: boolean;
     }
   ): Promise<DiscoveryResult> {
     logger.info(`Starting fleet discovery for ${airlineCode}`);
@@ -71,13 +83,18 @@ export class FleetDiscoveryAgent {
 
       logger.info(`Found ${sources.length} discovery sources for ${airlineCode}`);
 
+      const snapshotContext: SnapshotContext | null =
+        options?.archiveSnapshots === false
+          ? null
+          : { airlineCode: airline.iata_code || airline.icao_code, scrapeJobId: options?.scrapeJobId };
+
       // Try each source until we get results
       let result: DiscoveryResult | null = null;
 
       for (const source of sources) {
         try {
           logger.info(`Trying source: ${source.url}`);
-          result = await this.scrapeSource(airline, source);
+          result = await this.scrapeSource(airline, source, snapshotContext);
 
           if (result && result.aircraft_found.length > 0) {
             logger.info(
@@ -114,7 +131,7 @@ export class FleetDiscoveryAgent {
    */
   private async getAirlineInfo(airlineCode: string) {
     const query = `
-      SELECT id, iata_code, icao_code, name, website, metadata
+      SELECT id, iata_code, icao_code, name, website_url as website, scrape_source_urls
       FROM airlines
       WHERE UPPER(iata_code) = UPPER($1) OR UPPER(icao_code) = UPPER($1)
       LIMIT 1
@@ -130,11 +147,14 @@ export class FleetDiscoveryAgent {
   private async findDiscoverySources(airline: any): Promise<DiscoverySource[]> {
     const sources: DiscoverySource[] = [];
 
-    // 1. Stored scrape sources from metadata
-    if (airline.metadata?.scrape_source_urls) {
-      const urls = Array.isArray(airline.metadata.scrape_source_urls)
-        ? airline.metadata.scrape_source_urls
-        : [airline.metadata.scrape_source_urls];
+    // 1. Stored scrape sources (a URL array, or { urls, priority } as written by the seed script)
+    const storedSources = airline.scrape_source_urls;
+    if (storedSources) {
+      const urls: string[] = Array.isArray(storedSources)
+        ? storedSources
+        : Array.isArray(storedSources.urls)
+          ? storedSources.urls
+          : [storedSources];
 
       for (const url of urls) {
         sources.push({
@@ -154,30 +174,74 @@ export class FleetDiscoveryAgent {
       });
     }
 
-    // 3. Common fleet database URLs
-    sources.push(
-      {
-        url: `https://www.planespotters.net/airline/${airline.name.replace(/ /g, '-')}`,
-        type: 'database',
-        priority: 3,
-      },
-      {
-        url: `https://www.airfleets.net/flottecie/${airline.name.replace(/ /g, '%20')}.htm`,
-        type: 'database',
-        priority: 3,
+    // 3. Fleet pages of the active data sources; more reliable sources go first
+    for (const dataSource of await getDataSources('fleet')) {
+      const url = expandUrlTemplate(dataSource.fleet_url_template!, {
+        airline_name: airline.name,
+        iata: airline.iata_code,
+        icao: airline.icao_code,
+      });
+      if (!url) {
+        continue;
       }
-    );
+
+      sources.push({
+        url,
+        type: dataSource.source_type,
+        priority: 4 - dataSource.reliability_score,
+        dataSourceId: dataSource.id,
+        instructions: dataSource.scraping_instructions,
+      });
+    }
 
     return sources.sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * Re-run registration extraction on a previously loaded page
+   */
+  async extractFromPage(page: Pick<PageSnapshot, 'url' | 'html'>, airlineCode: string): Promise<string[]> {
+    const airline = await this.getAirlineInfo(airlineCode);
+
+    if (!airline) {
+      throw new Error(`Airline not found: ${airlineCode}`);
+    }
+
+    return this.extractRegistrations(page.html, page.url, airline);
+  }
+
   /**
    * Scrape a specific source
    */
   private async scrapeSource(
     airline: any,
-    source: DiscoverySource
+    source: DiscoverySource,
+    snapshotContext: SnapshotContext | null
   ): Promise<DiscoveryResult> {
+    const page = await withFixture('page', { url: source.url }, () => this.loadPage(source.url));
+    const { html, url } = page;
+
+    if (snapshotContext) {
+      await archivePageSnapshot('fleet', source.url, page, snapshotContext);
+    }
+
+    // Use a site parser or the LLM to extract registrations
+    const registrations = await this.extractRegistrations(html, url, airline, source.instructions);
+
+    return {
+      airline_code: airline.iata_code || airline.icao_code,
+      aircraft_found: registrations,
+      source_urls: [url],
+      confidence: this.calculateConfidence(registrations, source),
+      discovered_at: new Date(),
+      method: source.type,
+    };
+  }
+
+  /**
+   * Render a page in the browser
+   */
+  private async loadPage(sourceUrl: string): Promise<PageSnapshot> {
     await this.initBrowser();
 
     const page = await this.browser!.newPage({
@@ -186,8 +250,8 @@ export class FleetDiscoveryAgent {
 
     try {
       // Navigate to page
-      logger.info(`Loading ${source.url}`);
-      await page.goto(source.url, {
+      logger.info(`Loading ${sourceUrl}`);
+      await page.goto(sourceUrl, {
         waitUntil: 'networkidle',
         timeout: 30000,
       });
@@ -195,20 +259,10 @@ export class FleetDiscoveryAgent {
       // Wait for content to load
       await page.waitForTimeout(2000);
 
-      // Get page content
-      const html = await page.content();
-      const url = page.url();
-
-      // Use LLM to analyze and extract registrations
-      const registrations = await this.extractRegistrations(html, url, airline);
-
       return {
-        airline_code: airline.iata_code || airline.icao_code,
-        aircraft_found: registrations,
-        source_urls: [url],
-        confidence: this.calculateConfidence(registrations, source),
-        discovered_at: new Date(),
-        method: source.type,
+        url: page.url(),
+        title: await page.title(),
+        html: await page.content(),
       };
     } finally {
       await page.close();
@@ -228,13 +282,21 @@ export class FleetDiscoveryAgent {
   }
 
   /**
-   * Extract aircraft registrations from HTML using LLM
+   * Extract aircraft registrations from HTML, with a site parser when one
+   * handles the URL and with the LLM otherwise
    */
   private async extractRegistrations(
     html: string,
     url: string,
-    airline: any
+    airline: any,
+    instructions?: string | null
   ): Promise<string[]> {
+    const parsed = parseFleetPage(html, url);
+    if (parsed) {
+      logger.info(`Parsed ${parsed.data.length} registrations from ${url} with the ${parsed.parser} parser`);
+      return parsed.data.map((aircraft) => aircraft.registration);
+    }
+
     logger.info('Extracting registrations with LLM');
 
     // Truncate HTML more aggressively for faster processing
@@ -247,7 +309,7 @@ URL: ${url}
 HTML (truncated):
 ${truncatedHtml}
 
-TASK: Find all aircraft registration numbers (tail numbers). They look like:
+${instructions ? `Notes for this site:\n${instructions}\n\n` : ''}TASK: Find all aircraft registration numbers (tail numbers). They look like:
 - N12345 (USA)
 - HP-1234CMP, HP-1234 (Panama - Copa uses these)
 - G-ABCD (UK)
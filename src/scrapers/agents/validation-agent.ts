@@ -493,7 +493,10 @@ If no issues found, return:
     if (!aircraftType) return null;
 
     const query = `
-      SELECT manufacturer, typical_seats, max_seats
+      SELECT
+        manufacturer,
+        (SELECT SUM(value::INTEGER) FROM jsonb_each_text(typical_seat_config))::INTEGER as typical_seats,
+        max_seats
       FROM aircraft_types
       WHERE iata_code = $1 OR icao_code = $1
       LIMIT 1
@@ -217,7 +217,7 @@ export class MonitoringDashboard {
         COUNT(a.id) as aircraft_count,
         al.last_scraped_at as last_scraped
       FROM airlines al
-      LEFT JOIN aircraft a ON al.id = a.airline_id AND a.status = 'Active'
+      LEFT JOIN aircraft a ON al.id = a.airline_id AND a.status = 'active'
       WHERE al.scrape_enabled = true
       GROUP BY al.id, al.iata_code, al.name, al.last_scraped_at
       ORDER BY aircraft_count DESC
@@ -255,7 +255,7 @@ export class MonitoringDashboard {
         COUNT(*) FILTER (WHERE msn IS NULL OR delivery_date IS NULL) as missing_critical,
         AVG(data_confidence) as avg_confidence
       FROM aircraft
-      WHERE status = 'Active'
+      WHERE status = 'active'
     `;
 
     const result = await queryPostgres(query);
@@ -0,0 +1,16 @@
+/**
+ * Airfleets.net Parser
+ *
+ * Airline fleet pages (/flottecie/...) and airframe pages (/recherche/...,
+ * /ficheapp/...). Both are plain HTML tables with day-first dates
+ * (DD/MM/YYYY).
+ */
+
+import { createTableParser, HTML_TABLE } from './table-parser.js';
+
+export const airfleetsParser = createTableParser({
+  name: 'airfleets',
+  hosts: ['airfleets.net'],
+  grids: [HTML_TABLE],
+  dateOrder: 'dmy',
+});
@@ -0,0 +1,134 @@
+/**
+ * Site Parser Registry
+ *
+ * Deterministic extractors for fleet databases whose pages are regular tables.
+ * The scraping agents ask the registry first and only send HTML to the LLM
+ * when no parser matches the URL or the matching parser finds nothing.
+ *
+ * A parser returns null (or throws) when the page does not look the way it
+ * expects; the registry logs that and reports no result, so layout changes
+ * degrade to LLM extraction instead of failing the scrape.
+ */
+
+import { createLogger } from '../../lib/logger.js';
+import { airfleetsParser } from './airfleets-parser.js';
+import { planespottersParser } from './planespotters-parser.js';
+
+const logger = createLogger('parser-registry');
+
+/** One aircraft as read from a fleet list or airframe page */
+export interface ParsedAircraft {
+  registration: string;
+  msn: string | null;
+  /** Type as displayed by the site, e.g. "Boeing 737-800" */
+  aircraft_type: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  /** YYYY-MM-DD */
+  delivery_date: string | null;
+  status: string | null;
+  engines: string | null;
+}
+
+export interface SiteParser {
+  name: string;
+  /** Whether pages at this URL have the layout this parser reads */
+  matches(url: URL): boolean;
+  /** Every aircraft on an airline fleet page */
+  parseFleet?(html: string, url: URL): ParsedAircraft[] | null;
+  /** One airframe's details */
+  parseAircraft?(html: string, url: URL, registration: string): ParsedAircraft | null;
+}
+
+export interface ParseResult<T> {
+  parser: string;
+  data: T;
+}
+
+const parsers: SiteParser[] = [planespottersParser, airfleetsParser];
+
+/**
+ * Register a site parser. Parsers registered later are tried first, so a
+ * more specific parser can override a built-in one.
+ */
+export function registerParser(parser: SiteParser): void {
+  const existing = parsers.findIndex((registered) => registered.name === parser.name);
+  if (existing !== -1) {
+    parsers.splice(existing, 1);
+  }
+  parsers.unshift(parser);
+}
+
+export function getParsers(): readonly SiteParser[] {
+  return parsers;
+}
+
+function toURL(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Aircraft on a fleet page, or null when no parser handles the URL or none
+ * found any aircraft
+ */
+export function parseFleetPage(html: string, url: string): ParseResult<ParsedAircraft[]> | null {
+  const parsed = toURL(url);
+  if (!parsed) {
+    return null;
+  }
+
+  for (const parser of parsers) {
+    if (!parser.parseFleet || !parser.matches(parsed)) {
+      continue;
+    }
+
+    try {
+      const aircraft = parser.parseFleet(html, parsed);
+      if (aircraft && aircraft.length > 0) {
+        return { parser: parser.name, data: aircraft };
+      }
+      logger.warn(`${parser.name} parser found no aircraft on ${url}`);
+    } catch (error) {
+      logger.warn(`${parser.name} parser failed on ${url}:`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Details of one airframe, or null when no parser handles the URL or none
+ * found the aircraft
+ */
+export function parseAircraftPage(
+  html: string,
+  url: string,
+  registration: string
+): ParseResult<ParsedAircraft> | null {
+  const parsed = toURL(url);
+  if (!parsed) {
+    return null;
+  }
+
+  for (const parser of parsers) {
+    if (!parser.parseAircraft || !parser.matches(parsed)) {
+      continue;
+    }
+
+    try {
+      const aircraft = parser.parseAircraft(html, parsed, registration);
+      if (aircraft) {
+        return { parser: parser.name, data: aircraft };
+      }
+      logger.warn(`${parser.name} parser did not find ${registration} on ${url}`);
+    } catch (error) {
+      logger.warn(`${parser.name} parser failed on ${url}:`, error);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,15 @@
+/**
+ * Planespotters.net Parser
+ *
+ * Airline fleet pages (/airline/...) and airframe pages (/airframe/...). The
+ * site renders its tables as div grids (.dt-table / .dt-tr / .dt-td) and
+ * dates as YYYY-MM-DD.
+ */
+
+import { createTableParser, HTML_TABLE } from './table-parser.js';
+
+export const planespottersParser = createTableParser({
+  name: 'planespotters',
+  hosts: ['planespotters.net'],
+  grids: [{ table: '.dt-table', row: '.dt-tr', cell: '.dt-th, .dt-td' }, HTML_TABLE],
+});
@@ -0,0 +1,285 @@
+/**
+ * Table Parser
+ *
+ * Shared cheerio helpers for fleet sites that publish aircraft as tables:
+ * reading grids (HTML tables or div-based tables), locating columns by header
+ * text, label/value detail blocks, and normalising registrations, dates and
+ * type names. `createTableParser` builds a SiteParser from a host list and
+ * grid selectors.
+ */
+
+import * as cheerio from 'cheerio';
+import type { ParsedAircraft, SiteParser } from './parser-registry.js';
+
+type Field = Exclude<keyof ParsedAircraft, 'manufacturer' | 'model'>;
+
+/** Header or label text that identifies each field */
+const FIELD_LABELS: Record<Field, RegExp> = {
+  registration: /^(reg(istration)?\.?|tail( number)?|immat(riculation)?)$/i,
+  msn: /^(msn|c\/n|s\/n|serial( number)?|construction number|manufacturer serial number)$/i,
+  aircraft_type: /^(aircraft( type)?|type|model)$/i,
+  delivery_date: /^(delivery( date)?|delivered)$/i,
+  status: /^(status|current status)$/i,
+  engines: /^(engines?( type)?)$/i,
+};
+
+const MANUFACTURERS = [
+  'Airbus',
+  'Antonov',
+  'ATR',
+  'Boeing',
+  'Bombardier',
+  'COMAC',
+  'De Havilland Canada',
+  'Embraer',
+  'Fokker',
+  'McDonnell Douglas',
+  'Mitsubishi',
+  'Saab',
+  'Sukhoi',
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export type Grid = string[][];
+
+export interface GridSelector {
+  table: string;
+  row: string;
+  cell: string;
+}
+
+export const HTML_TABLE: GridSelector = { table: 'table', row: 'tr', cell: 'th, td' };
+
+function cellText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Registration in canonical form, or null when the text is not one
+ */
+export function normalizeRegistration(text: string): string | null {
+  for (const token of cellText(text).toUpperCase().split(' ')) {
+    // Every registration has a letter prefix and either a dash or a digit, which rules out plain words
+    if (/^[A-Z0-9]{1,3}-?[A-Z0-9]{2,7}$/.test(token) && /[A-Z]/.test(token) && /[-\d]/.test(token)) {
+      return token;
+    }
+  }
+  return null;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Date in YYYY-MM-DD from ISO, numeric (day first unless `order` is 'mdy')
+ * or month-name formats. Month-only dates resolve to the first of the month.
+ */
+export function normalizeDate(text: string, order: 'dmy' | 'mdy' = 'dmy'): string | null {
+  const value = cellText(text);
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (match) {
+    return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(value);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    return order === 'dmy'
+      ? isoDate(Number(match[3]), second, first)
+      : isoDate(Number(match[3]), first, second);
+  }
+
+  const month = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+  match = /^(\d{1,2})\s+([A-Za-z]{3,})\.?\s+(\d{4})$/.exec(value);
+  if (match && month(match[2]!) > 0) {
+    return isoDate(Number(match[3]), month(match[2]!), Number(match[1]));
+  }
+
+  match = /^([A-Za-z]{3,})\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})$/.exec(value);
+  if (match && month(match[1]!) > 0) {
+    return isoDate(Number(match[3]), month(match[1]!), Number(match[2] ?? 1));
+  }
+
+  return null;
+}
+
+/**
+ * Split "Boeing 737-800" into manufacturer and model
+ */
+export function splitAircraftType(type: string | null): { manufacturer: string | null; model: string | null } {
+  if (!type) {
+    return { manufacturer: null, model: null };
+  }
+
+  const manufacturer = MANUFACTURERS.find((name) => type.toLowerCase().startsWith(`${name.toLowerCase()} `));
+  return manufacturer
+    ? { manufacturer, model: type.slice(manufacturer.length).trim() || null }
+    : { manufacturer: null, model: type };
+}
+
+/**
+ * Text of every row of every grid matching the selector
+ */
+export function readGrids($: cheerio.CheerioAPI, selector: GridSelector): Grid[] {
+  return $(selector.table)
+    .toArray()
+    .map((table) =>
+      $(table)
+        .find(selector.row)
+        .toArray()
+        // Skip rows of nested tables; they are read as grids of their own
+        .filter((row) => $(row).closest(selector.table).is(table))
+        .map((row) =>
+          $(row)
+            .find(selector.cell)
+            .toArray()
+            .map((cell) => cellText($(cell).text()))
+        )
+        .filter((cells) => cells.length > 0)
+    )
+    .filter((grid) => grid.length > 1);
+}
+
+/**
+ * Column index of each field in a header row
+ */
+function findColumns(header: string[]): Partial<Record<Field, number>> {
+  const columns: Partial<Record<Field, number>> = {};
+  header.forEach((label, index) => {
+    for (const field of Object.keys(FIELD_LABELS) as Field[]) {
+      if (columns[field] === undefined && FIELD_LABELS[field].test(label)) {
+        columns[field] = index;
+        break;
+      }
+    }
+  });
+  return columns;
+}
+
+function toAircraft(values: Partial<Record<Field, string>>, order: 'dmy' | 'mdy'): ParsedAircraft | null {
+  const registration = values.registration ? normalizeRegistration(values.registration) : null;
+  if (!registration) {
+    return null;
+  }
+
+  const type = values.aircraft_type || null;
+  return {
+    registration,
+    msn: values.msn || null,
+    aircraft_type: type,
+    ...splitAircraftType(type),
+    delivery_date: values.delivery_date ? normalizeDate(values.delivery_date, order) : null,
+    status: values.status || null,
+    engines: values.engines || null,
+  };
+}
+
+/**
+ * Aircraft rows of every grid with a registration column
+ */
+export function readAircraftRows(grids: Grid[], order: 'dmy' | 'mdy' = 'dmy'): ParsedAircraft[] {
+  const aircraft = new Map<string, ParsedAircraft>();
+
+  for (const grid of grids) {
+    const headerIndex = grid.findIndex((row) => findColumns(row).registration !== undefined);
+    if (headerIndex === -1) {
+      continue;
+    }
+    const columns = findColumns(grid[headerIndex]!);
+
+    for (const row of grid.slice(headerIndex + 1)) {
+      const values: Partial<Record<Field, string>> = {};
+      for (const [field, index] of Object.entries(columns) as Array<[Field, number]>) {
+        values[field] = row[index];
+      }
+
+      const parsed = toAircraft(values, order);
+      if (parsed && !aircraft.has(parsed.registration)) {
+        aircraft.set(parsed.registration, parsed);
+      }
+    }
+  }
+
+  return [...aircraft.values()];
+}
+
+/**
+ * Label/value pairs from definition lists and two-cell rows
+ */
+export function readLabelValues($: cheerio.CheerioAPI, grids: Grid[]): Partial<Record<Field, string>> {
+  const values: Partial<Record<Field, string>> = {};
+  const add = (label: string, value: string) => {
+    const cleanLabel = cellText(label).replace(/:$/, '');
+    for (const field of Object.keys(FIELD_LABELS) as Field[]) {
+      if (values[field] === undefined && value && FIELD_LABELS[field].test(cleanLabel)) {
+        values[field] = cellText(value);
+        return;
+      }
+    }
+  };
+
+  $('dt').each((_, term) => add($(term).text(), $(term).next('dd').text()));
+  for (const grid of grids) {
+    for (const row of grid) {
+      if (row.length === 2) {
+        add(row[0]!, row[1]!);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * SiteParser for a site whose fleet pages list aircraft in tables and whose
+ * airframe pages show label/value details
+ */
+export function createTableParser(config: {
+  name: string;
+  hosts: string[];
+  grids: GridSelector[];
+  dateOrder?: 'dmy' | 'mdy';
+}): SiteParser {
+  const order = config.dateOrder ?? 'dmy';
+  const load = (html: string) => {
+    const $ = cheerio.load(html);
+    return { $, grids: config.grids.flatMap((selector) => readGrids($, selector)) };
+  };
+
+  return {
+    name: config.name,
+
+    matches: (url) =>
+      config.hosts.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`)),
+
+    parseFleet: (html) => readAircraftRows(load(html).grids, order),
+
+    parseAircraft: (html, _url, registration) => {
+      const { $, grids } = load(html);
+      const wanted = normalizeRegistration(registration);
+
+      // A registration alone is not a successful parse
+      const hasDetails = (aircraft: ParsedAircraft | null | undefined): aircraft is ParsedAircraft =>
+        !!aircraft &&
+        aircraft.registration === wanted &&
+        [aircraft.msn, aircraft.aircraft_type, aircraft.delivery_date, aircraft.status, aircraft.engines].some(Boolean);
+
+      // Airframe pages list details as label/value pairs
+      const details = toAircraft(readLabelValues($, grids), order);
+      if (hasDetails(details)) {
+        return details;
+      }
+
+      // Some sites show the airframe as a row of a fleet-style table instead
+      const row = readAircraftRows(grids, order).find((aircraft) => aircraft.registration === wanted);
+      return hasDetails(row) ? row : null;
+    },
+  };
+}
@@ -4,13 +4,30 @@
  * Orchestrates the complete scraping process for an airline:
  * 1. Fleet Discovery - Find all aircraft
  * 2. Details Extraction - Get specs for each aircraft (parallel)
- * 3. Validation - Validate and merge data
- * 4. Database Update - Save to PostgreSQL and Neo4j
+ * 3. Validation - Validate and merge data, scoring source reliability
+ * 4. Database Update - Save to PostgreSQL and Neo4j, recording fleet changes
  * 5. Report Generation - Create summary report
  */
 
 import { createLogger } from '../../lib/logger.js';
-import { queryPostgres, initializeDatabases, closeDatabases } from '../../lib/db-clients.js';
+import {
+  queryPostgres,
+  initializeDatabases,
+  closeDatabases,
+  isNeo4jAvailable,
+} from '../../lib/db-clients.js';
+import { Neo4jSyncService } from '../../database/neo4j/sync-from-postgres.js';
+import { notifyFleetUpdated } from '../../lib/fleet-events.js';
+import { globalCache } from '../../lib/cache.js';
+import { configureScrapeFixtures, getFixtureMode } from '../../lib/scrape-fixtures.js';
+import {
+  DataSource,
+  findSourceForUrl,
+  getDataSources,
+  recordSourceOutcomes,
+  SourceOutcome,
+  tallyOutcome,
+} from '../../lib/data-sources.js';
 import { FleetDiscoveryAgent } from '../agents/fleet-discovery-agent.js';
 import { AircraftDetailsAgent } from '../agents/aircraft-details-agent.js';
 import { ValidationAgent } from '../agents/validation-agent.js';
@@ -24,10 +41,13 @@ export interface WorkflowResult {
   aircraft_found: number;
   aircraft_added: number;
   aircraft_updated: number;
+  aircraft_removed: number;
   aircraft_skipped: number;
+  fleet_changes: number;
   errors: number;
   duration_ms: number;
   confidence_avg: number;
+  graph_sync: GraphSyncResult;
   details: {
     discovery: any;
     processing: ProcessingDetail[];
@@ -42,12 +62,77 @@ export interface ProcessingDetail {
   issues: number;
 }
 
+export interface GraphSyncResult {
+  status: 'synced' | 'skipped' | 'failed';
+  nodes: number;
+  relationships: number;
+  errors: string[];
+}
+
+export type FleetChangeType = 'addition' | 'retirement' | 'transfer' | 'configuration_change';
+
+/**
+ * Current database state of an aircraft, used to detect fleet changes
+ */
+interface FleetRecord {
+  id: number;
+  airline_id: number;
+  aircraft_type_id: number | null;
+  aircraft_type: string | null;
+  seat_configuration: Record<string, number> | null;
+  total_seats: number | null;
+  status: string;
+}
+
+interface FleetChange {
+  airlineId: number;
+  aircraftId: number;
+  changeType: FleetChangeType;
+  registration: string;
+  aircraftType: string | null;
+  reason: string;
+  previousAirlineId?: number | null;
+  nextAirlineId?: number | null;
+  sourceUrl?: string | null;
+  details?: Record<string, any> | null;
+}
+
+/**
+ * Statuses that take an aircraft out of the airline's current fleet
+ */
+const INACTIVE_STATUSES = ['retired', 'scrapped'];
+
+/**
+ * Skip retirement detection when discovery returns less than this share of
+ * the current fleet, so a partial scrape does not retire half the fleet
+ */
+const MIN_DISCOVERY_COVERAGE = 0.5;
+
 export interface ErrorDetail {
   registration?: string;
-  stage: 'discovery' | 'details' | 'validation' | 'database';
+  stage: 'discovery' | 'details' | 'validation' | 'database' | 'graph_sync';
   error: string;
 }
 
+export const WORKFLOW_PHASES = ['discovery', 'details', 'validation', 'database'] as const;
+
+export type WorkflowPhase = (typeof WORKFLOW_PHASES)[number];
+
+/**
+ * Progress through the workflow. `progress` is the number of finished phases
+ * plus the finished share of the current phase, out of `total` phases.
+ */
+export interface WorkflowProgress {
+  phase: WorkflowPhase;
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export type WorkflowProgressListener = (progress: WorkflowProgress) => void | Promise<void>;
+
+type ProgressReporter = (phase: WorkflowPhase, fraction: number, message: string) => Promise<void>;
+
 export class AirlineScraperWorkflow {
   private discoveryAgent = new FleetDiscoveryAgent();
   private detailsAgent = new AircraftDetailsAgent();
@@ -66,20 +151,37 @@ export class AirlineScraperWorkflow {
     options?: {
       forceFullScrape?: boolean;
       dryRun?: boolean;
+      scrapeJobId?: number;
+      /** Called at each phase and batch. Throwing aborts the run (used to cancel jobs). */
+      onProgress?: WorkflowProgressListener;
     }
   ): Promise<WorkflowResult> {
     const startTime = Date.now();
     logger.info(`Starting full fleet update for ${airlineCode}`);
 
+    const report: ProgressReporter = async (phase, fraction, message) => {
+      if (options?.onProgress) {
+        await options.onProgress({
+          phase,
+          progress: WORKFLOW_PHASES.indexOf(phase) + fraction,
+          total: WORKFLOW_PHASES.length,
+          message,
+        });
+      }
+    };
+
     const result: WorkflowResult = {
       airline_code: airlineCode,
       aircraft_found: 0,
       aircraft_added: 0,
       aircraft_updated: 0,
+      aircraft_removed: 0,
       aircraft_skipped: 0,
+      fleet_changes: 0,
       errors: 0,
       duration_ms: 0,
       confidence_avg: 0,
+      graph_sync: { status: 'skipped', nodes: 0, relationships: 0, errors: [] },
       details: {
         discovery: null,
         processing: [],
@@ -90,8 +192,11 @@ export class AirlineScraperWorkflow {
     try {
       // Phase 1: Fleet Discovery
       logger.info('Phase 1: Fleet Discovery');
+      await report('discovery', 0, `Discovering fleet for ${airlineCode}`);
       const discovered = await this.discoveryAgent.discoverFleet(airlineCode, {
         forceFullScrape: options?.forceFullScrape,
+        scrapeJobId: options?.scrapeJobId,
+        archiveSnapshots: !options?.dryRun,
       });
 
       result.aircraft_found = discovered.aircraft_found.length;
@@ -114,25 +219,55 @@ export class AirlineScraperWorkflow {
 
       // Phase 2: Details Extraction (parallel with concurrency limit)
       logger.info('Phase 2: Details Extraction');
+      await report('details', 0, `Extracting details for ${discovered.aircraft_found.length} aircraft`);
       const aircraftDetails = await this.extractDetailsInBatches(
         discovered.aircraft_found,
-        airlineCode
+        airlineCode,
+        report,
+        { scrapeJobId: options?.scrapeJobId, archiveSnapshots: !options?.dryRun }
       );
 
       // Phase 3: Validation (parallel)
       logger.info('Phase 3: Validation');
-      const validated = await this.validateInBatches(aircraftDetails);
+      await report('validation', 0, `Validating ${aircraftDetails.length} aircraft`);
+      const sourceOutcomes = new Map<number, SourceOutcome>();
+      const validated = await this.validateInBatches(aircraftDetails, report, sourceOutcomes);
 
       // Phase 4: Database Update
       logger.info('Phase 4: Database Update');
+      await report('database', 0, options?.dryRun ? 'Dry run - skipping database updates' : 'Updating database');
       if (!options?.dryRun) {
-        const dbResults = await this.updateDatabase(airlineCode, validated);
+        const dbResults = await this.updateDatabase(
+          airlineCode,
+          validated,
+          discovered.aircraft_found,
+          options?.scrapeJobId
+        );
         result.aircraft_added = dbResults.added;
         result.aircraft_updated = dbResults.updated;
+        result.aircraft_removed = dbResults.removed;
         result.aircraft_skipped = dbResults.skipped;
+        result.fleet_changes = dbResults.fleetChanges;
         result.errors = dbResults.errors;
         result.details.processing = dbResults.details;
         result.details.errors.push(...dbResults.errorDetails);
+
+        // Source reliability feeds later runs; failing to score never fails this one
+        try {
+          await recordSourceOutcomes(sourceOutcomes);
+        } catch (error) {
+          logger.warn('Failed to update data source reliability:', error);
+        }
+
+        // Graph sync runs after the Postgres writes and never fails the run
+        result.graph_sync = await this.syncGraph(dbResults.airlineId);
+        for (const error of result.graph_sync.errors) {
+          result.details.errors.push({ stage: 'graph_sync', error });
+        }
+
+        if (dbResults.added + dbResults.updated + dbResults.removed > 0) {
+          await this.publishFleetUpdate(airlineCode);
+        }
       } else {
         logger.info('DRY RUN - Skipping database updates');
         result.aircraft_skipped = validated.length;
@@ -150,8 +285,14 @@ export class AirlineScraperWorkflow {
 
       result.duration_ms = Date.now() - startTime;
 
+      await report(
+        'database',
+        1,
+        `Complete: ${result.aircraft_added} added, ${result.aircraft_updated} updated, ${result.aircraft_removed} removed`
+      );
+
       logger.info(
-        `Workflow complete: ${result.aircraft_added} added, ${result.aircraft_updated} updated, ${result.errors} errors (${(result.duration_ms / 1000).toFixed(1)}s)`
+        `Workflow complete: ${result.aircraft_added} added, ${result.aircraft_updated} updated, ${result.aircraft_removed} removed, ${result.errors} errors (${(result.duration_ms / 1000).toFixed(1)}s)`
       );
 
       return result;
@@ -172,7 +313,9 @@ export class AirlineScraperWorkflow {
    */
   private async extractDetailsInBatches(
     registrations: string[],
-    airlineCode: string
+    airlineCode: string,
+    report: ProgressReporter,
+    snapshots: { scrapeJobId?: number; archiveSnapshots: boolean }
   ): Promise<AircraftDetails[]> {
     const results: AircraftDetails[] = [];
     const batches = this.createBatches(registrations, this.concurrencyLimit);
@@ -185,7 +328,7 @@ export class AirlineScraperWorkflow {
 
       const batchResults = await Promise.allSettled(
         batch!.map((registration) =>
-          this.detailsAgent.extractDetails(registration, { airlineCode })
+          this.detailsAgent.extractDetails(registration, { airlineCode, ...snapshots })
         )
       );
 
@@ -201,8 +344,14 @@ export class AirlineScraperWorkflow {
         }
       }
 
-      // Rate limiting between batches
-      if (i < batches.length - 1) {
+      await report(
+        'details',
+        (i + 1) / batches.length,
+        `Extracted details for batch ${i + 1}/${batches.length} (${results.length} aircraft so far)`
+      );
+
+      // Rate limiting between batches (nothing to rate-limit when replaying fixtures)
+      if (i < batches.length - 1 && getFixtureMode() !== 'replay') {
         await this.sleep(2000);
       }
     }
@@ -215,8 +364,11 @@ export class AirlineScraperWorkflow {
    * Validate aircraft in batches
    */
   private async validateInBatches(
-    aircraftList: AircraftDetails[]
+    aircraftList: AircraftDetails[],
+    report: ProgressReporter,
+    sourceOutcomes: Map<number, SourceOutcome>
   ): Promise<Array<{ aircraft: AircraftDetails; validation: ValidationResult }>> {
+    const dataSources = await getDataSources('aircraft');
     const results: Array<{
       aircraft: AircraftDetails;
       validation: ValidationResult;
@@ -246,6 +398,22 @@ export class AirlineScraperWorkflow {
             confidence_score: validation.confidence_score,
           };
 
+          this.tallySourceOutcomes(aircraft, validation, dataSources, sourceOutcomes);
+
+          // Recommended values come from validation, not from the scraped page
+          const recommendedAt = validation.validated_at.toISOString();
+          merged.field_provenance = { ...aircraft.field_provenance };
+          for (const field of Object.keys(validation.recommended_values) as Array<keyof AircraftDetails>) {
+            merged.field_provenance[field] = {
+              snapshot_id: null,
+              source_url: null,
+              source_type: null,
+              extraction_method: 'validation',
+              confidence: validation.confidence_score,
+              extracted_at: recommendedAt,
+            };
+          }
+
           return { aircraft: merged, validation };
         })
       );
@@ -257,6 +425,8 @@ export class AirlineScraperWorkflow {
           logger.error('Validation failed:', result.reason);
         }
       }
+
+      await report('validation', (i + 1) / batches.length, `Validated batch ${i + 1}/${batches.length}`);
     }
 
     logger.info(`Successfully validated ${results.length} aircraft`);
@@ -264,22 +434,59 @@ export class AirlineScraperWorkflow {
   }
 
   /**
-   * Update database with validated aircraft data
+   * Count each scraped value for its source when validation accepted it and
+   * against it when validation flagged it, plus how often the sources agreed
+   * with each other on this aircraft
+   */
+  private tallySourceOutcomes(
+    aircraft: AircraftDetails,
+    validation: ValidationResult,
+    dataSources: DataSource[],
+    sourceOutcomes: Map<number, SourceOutcome>
+  ): void {
+    for (const [sourceId, agreement] of aircraft.source_agreement ?? []) {
+      const outcome = sourceOutcomes.get(sourceId) ?? { confirmations: 0, contradictions: 0 };
+      outcome.confirmations += agreement.confirmations;
+      outcome.contradictions += agreement.contradictions;
+      sourceOutcomes.set(sourceId, outcome);
+    }
+
+    const flagged = new Set(
+      validation.issues.filter((issue) => issue.severity !== 'info').map((issue) => issue.field)
+    );
+    for (const [field, provenance] of Object.entries(aircraft.field_provenance ?? {})) {
+      const source = provenance?.source_url ? findSourceForUrl(dataSources, provenance.source_url) : null;
+      if (source) {
+        tallyOutcome(sourceOutcomes, source.id, !flagged.has(field));
+      }
+    }
+  }
+
+  /**
+   * Update database with validated aircraft data and record fleet changes
+   * against the airline's current fleet
    */
   private async updateDatabase(
     airlineCode: string,
-    validated: Array<{ aircraft: AircraftDetails; validation: ValidationResult }>
+    validated: Array<{ aircraft: AircraftDetails; validation: ValidationResult }>,
+    discoveredRegistrations: string[],
+    scrapeJobId?: number
   ): Promise<{
+    airlineId: number;
     added: number;
     updated: number;
+    removed: number;
     skipped: number;
+    fleetChanges: number;
     errors: number;
     details: ProcessingDetail[];
     errorDetails: ErrorDetail[];
   }> {
     let added = 0;
     let updated = 0;
+    let removed = 0;
     let skipped = 0;
+    let fleetChanges = 0;
     let errors = 0;
     const details: ProcessingDetail[] = [];
     const errorDetails: ErrorDetail[] = [];
@@ -294,7 +501,12 @@ export class AirlineScraperWorkflow {
       throw new Error(`Airline not found: ${airlineCode}`);
     }
 
-    const airlineId = airlineResult.rows[0].id;
+    const airlineId: number = airlineResult.rows[0].id;
+
+    const recordChange = async (change: Omit<FleetChange, 'airlineId'>) => {
+      await this.recordFleetChange({ ...change, airlineId }, scrapeJobId);
+      fleetChanges++;
+    };
 
     // Process each aircraft
     for (const { aircraft, validation } of validated) {
@@ -322,12 +534,41 @@ export class AirlineScraperWorkflow {
         }
 
         // Check if aircraft exists
-        const existing = await this.getExistingAircraft(aircraft.registration);
+        const existing = await this.getFleetRecord(aircraft.registration);
+        const sourceUrl = aircraft.data_sources[0] || null;
 
         if (existing) {
           // Update existing
-          await this.updateAircraft(airlineId, aircraft, validation);
+          const current = await this.updateAircraft(airlineId, aircraft, validation);
+          await this.recordFieldProvenance(current.id, aircraft, scrapeJobId);
           updated++;
+
+          if (existing.airline_id !== airlineId) {
+            await recordChange({
+              aircraftId: existing.id,
+              changeType: 'transfer',
+              registration: aircraft.registration,
+              aircraftType: current.aircraft_type,
+              reason: 'Registration found in another airline fleet',
+              previousAirlineId: existing.airline_id,
+              nextAirlineId: airlineId,
+              sourceUrl,
+            });
+          } else if (this.configurationChanged(existing, current)) {
+            await recordChange({
+              aircraftId: existing.id,
+              changeType: 'configuration_change',
+              registration: aircraft.registration,
+              aircraftType: current.aircraft_type,
+              reason: 'Aircraft type or seat configuration changed',
+              sourceUrl,
+              details: {
+                previous: this.configurationOf(existing),
+                current: this.configurationOf(current),
+              },
+            });
+          }
+
           details.push({
             registration: aircraft.registration,
             action: 'updated',
@@ -336,8 +577,18 @@ export class AirlineScraperWorkflow {
           });
         } else {
           // Insert new
-          await this.insertAircraft(airlineId, aircraft, validation);
+          const inserted = await this.insertAircraft(airlineId, aircraft, validation);
+          await this.recordFieldProvenance(inserted.id, aircraft, scrapeJobId);
           added++;
+
+          await recordChange({
+            aircraftId: inserted.id,
+            changeType: 'addition',
+            registration: aircraft.registration,
+            aircraftType: inserted.aircraft_type,
+            reason: 'New registration discovered in fleet',
+            sourceUrl,
+          });
           details.push({
             registration: aircraft.registration,
             action: 'added',
@@ -359,11 +610,258 @@ export class AirlineScraperWorkflow {
       }
     }
 
+    // Aircraft in the current fleet that discovery no longer lists are retired
+    try {
+      const retired = await this.retireMissingAircraft(airlineId, discoveredRegistrations);
+
+      for (const record of retired) {
+        await recordChange({
+          aircraftId: record.id,
+          changeType: 'retirement',
+          registration: record.registration,
+          aircraftType: record.aircraft_type,
+          reason: 'Registration no longer listed in fleet sources',
+        });
+      }
+
+      removed = retired.length;
+    } catch (error) {
+      logger.error('Failed to detect retirements:', error instanceof Error ? error.message : error);
+      errors++;
+      errorDetails.push({
+        stage: 'database',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     logger.info(
-      `Database update complete: ${added} added, ${updated} updated, ${skipped} skipped, ${errors} errors`
+      `Database update complete: ${added} added, ${updated} updated, ${removed} removed, ${skipped} skipped, ${errors} errors (${fleetChanges} fleet changes)`
     );
 
-    return { added, updated, skipped, errors, details, errorDetails };
+    return {
+      airlineId,
+      added,
+      updated,
+      removed,
+      skipped,
+      fleetChanges,
+      errors,
+      details,
+      errorDetails,
+    };
+  }
+
+  /**
+   * Drop cached fleet snapshots and let MCP resource subscribers know the
+   * fleet changed. Publishing failures are logged and never fail the run.
+   */
+  private async publishFleetUpdate(airlineCode: string): Promise<void> {
+    globalCache.deleteByPrefix('airline_fleet:');
+
+    try {
+      await notifyFleetUpdated(airlineCode);
+    } catch (error) {
+      logger.warn(`Failed to publish fleet update for ${airlineCode}:`, error);
+    }
+  }
+
+  /**
+   * Push the airline's aircraft and relationships to Neo4j.
+   *
+   * Failures are returned rather than thrown: Postgres is the source of truth
+   * and a later sync (or `npm run neo4j:sync`) repairs the graph.
+   */
+  private async syncGraph(airlineId: number): Promise<GraphSyncResult> {
+    if (!isNeo4jAvailable()) {
+      logger.info('Neo4j not configured - skipping graph sync');
+      return { status: 'skipped', nodes: 0, relationships: 0, errors: [] };
+    }
+
+    logger.info('Syncing airline to Neo4j');
+
+    try {
+      const sync = await new Neo4jSyncService().syncAll({
+        airlineId,
+        entities: ['airlines', 'aircraft_types', 'aircraft', 'manufacturers', 'alliances'],
+      });
+
+      const sum = (counts: Record<string, number>) =>
+        Object.values(counts).reduce((total, count) => total + count, 0);
+
+      if (sync.errors.length > 0) {
+        logger.warn(`Neo4j sync finished with errors: ${sync.errors.join('; ')}`);
+      }
+
+      return {
+        status: sync.errors.length === 0 ? 'synced' : 'failed',
+        nodes: sum(sync.entitiesProcessed),
+        relationships: sum(sync.relationshipsCreated),
+        errors: sync.errors,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Neo4j sync failed: ${message}`);
+      return { status: 'failed', nodes: 0, relationships: 0, errors: [message] };
+    }
+  }
+
+  /**
+   * Get the stored fleet state of an aircraft
+   */
+  private async getFleetRecord(registration: string): Promise<FleetRecord | null> {
+    const result = await queryPostgres<FleetRecord>(
+      `SELECT id, airline_id, aircraft_type_id, aircraft_type, seat_configuration, total_seats, status
+       FROM aircraft
+       WHERE UPPER(registration) = UPPER($1)
+       LIMIT 1`,
+      [registration]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Mark aircraft that are in the airline's current fleet but were not
+   * discovered in this run as retired
+   */
+  private async retireMissingAircraft(
+    airlineId: number,
+    discoveredRegistrations: string[]
+  ): Promise<Array<{ id: number; registration: string; aircraft_type: string | null }>> {
+    const fleetResult = await queryPostgres<{ count: string }>(
+      `SELECT COUNT(*) as count FROM aircraft
+       WHERE airline_id = $1 AND status <> ALL($2)`,
+      [airlineId, INACTIVE_STATUSES]
+    );
+    const fleetSize = parseInt(fleetResult.rows[0]?.count || '0', 10);
+
+    if (discoveredRegistrations.length < fleetSize * MIN_DISCOVERY_COVERAGE) {
+      logger.warn(
+        `Discovered ${discoveredRegistrations.length} of ${fleetSize} known aircraft; skipping retirement detection`
+      );
+      return [];
+    }
+
+    const result = await queryPostgres<{ id: number; registration: string; aircraft_type: string | null }>(
+      `UPDATE aircraft
+       SET status = 'retired',
+           retirement_date = COALESCE(retirement_date, CURRENT_DATE),
+           updated_at = NOW()
+       WHERE airline_id = $1
+         AND status <> ALL($2)
+         AND UPPER(registration) <> ALL($3)
+       RETURNING id, registration, aircraft_type`,
+      [airlineId, INACTIVE_STATUSES, discoveredRegistrations.map((r) => r.toUpperCase())]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Configuration fields compared between runs
+   */
+  private configurationOf(record: FleetRecord): Record<string, any> {
+    return {
+      aircraft_type: record.aircraft_type,
+      seat_configuration: record.seat_configuration,
+      total_seats: record.total_seats,
+    };
+  }
+
+  /**
+   * Whether the aircraft type or seating differs between two fleet records
+   */
+  private configurationChanged(previous: FleetRecord, current: FleetRecord): boolean {
+    return (
+      previous.aircraft_type_id !== current.aircraft_type_id ||
+      previous.total_seats !== current.total_seats ||
+      JSON.stringify(previous.seat_configuration) !== JSON.stringify(current.seat_configuration)
+    );
+  }
+
+  /**
+   * Write a fleet_changes row
+   */
+  private async recordFleetChange(change: FleetChange, scrapeJobId?: number): Promise<void> {
+    await queryPostgres(
+      `INSERT INTO fleet_changes (
+        airline_id,
+        aircraft_id,
+        change_type,
+        change_date,
+        registration,
+        aircraft_type,
+        reason,
+        previous_airline_id,
+        next_airline_id,
+        source_url,
+        scrape_job_id,
+        details
+      ) VALUES ($1, $2, $3, CURRENT_DATE, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        change.airlineId,
+        change.aircraftId,
+        change.changeType,
+        change.registration,
+        change.aircraftType,
+        change.reason,
+        change.previousAirlineId ?? null,
+        change.nextAirlineId ?? null,
+        change.sourceUrl ?? null,
+        scrapeJobId ?? null,
+        change.details ? JSON.stringify(change.details) : null,
+      ]
+    );
+
+    logger.info(`Recorded ${change.changeType} for ${change.registration}`);
+  }
+
+  /**
+   * Store the provenance of each scraped field of an aircraft, linked to the
+   * page snapshot it came from
+   */
+  private async recordFieldProvenance(
+    aircraftId: number,
+    aircraft: AircraftDetails,
+    scrapeJobId?: number
+  ): Promise<void> {
+    const entries = Object.entries(aircraft.field_provenance ?? {}).filter(
+      (entry): entry is [string, NonNullable<(typeof entry)[1]>] => entry[1] !== undefined
+    );
+    if (entries.length === 0) {
+      return;
+    }
+
+    await queryPostgres(
+      `INSERT INTO aircraft_field_sources (
+        aircraft_id, field_name, snapshot_id, source_url, source_type,
+        extraction_method, confidence, extracted_at, scrape_job_id, updated_at
+      )
+       SELECT $1, f.field_name, f.snapshot_id, f.source_url, f.source_type,
+              f.extraction_method, f.confidence, f.extracted_at, $9, NOW()
+       FROM UNNEST($2::TEXT[], $3::INTEGER[], $4::TEXT[], $5::TEXT[], $6::TEXT[], $7::DECIMAL[], $8::TIMESTAMPTZ[])
+         AS f(field_name, snapshot_id, source_url, source_type, extraction_method, confidence, extracted_at)
+       ON CONFLICT (aircraft_id, field_name) DO UPDATE SET
+         snapshot_id = EXCLUDED.snapshot_id,
+         source_url = EXCLUDED.source_url,
+         source_type = EXCLUDED.source_type,
+         extraction_method = EXCLUDED.extraction_method,
+         confidence = EXCLUDED.confidence,
+         extracted_at = EXCLUDED.extracted_at,
+         scrape_job_id = EXCLUDED.scrape_job_id,
+         updated_at = NOW()`,
+      [
+        aircraftId,
+        entries.map(([field]) => field),
+        entries.map(([, provenance]) => provenance.snapshot_id),
+        entries.map(([, provenance]) => provenance.source_url),
+        entries.map(([, provenance]) => provenance.source_type),
+        entries.map(([, provenance]) => provenance.extraction_method),
+        entries.map(([, provenance]) => Number(provenance.confidence.toFixed(2))),
+        entries.map(([, provenance]) => provenance.extracted_at),
+        scrapeJobId ?? null,
+      ]
+    );
   }
 
   /**
@@ -376,24 +874,22 @@ export class AirlineScraperWorkflow {
       SELECT
         a.id,
         a.registration,
-        at.iata_code as aircraft_type,
-        at.manufacturer,
-        at.model,
-        a.manufacturer_serial_number as msn,
-        ac.class_first,
-        ac.class_business,
-        ac.class_premium_economy,
-        ac.class_economy,
-        ac.total_seats,
+        COALESCE(at.iata_code, a.aircraft_type) as aircraft_type,
+        COALESCE(at.manufacturer, a.manufacturer) as manufacturer,
+        COALESCE(at.model, a.model) as model,
+        a.msn,
+        a.seat_configuration,
+        a.total_seats,
         a.delivery_date,
-        a.age_years,
+        EXTRACT(YEAR FROM AGE(CURRENT_DATE, COALESCE(a.manufactured_date, a.delivery_date)))::FLOAT as age_years,
         a.status,
-        a.last_seen_date,
-        at.engine_type as engines,
-        a.metadata
+        a.current_location,
+        a.last_flight_date,
+        COALESCE(a.engines, at.engine_type) as engines,
+        a.data_confidence,
+        a.data_source
       FROM aircraft a
-      JOIN aircraft_types at ON a.aircraft_type_id = at.id
-      LEFT JOIN aircraft_configurations ac ON a.id = ac.aircraft_id AND ac.is_current = true
+      LEFT JOIN aircraft_types at ON a.aircraft_type_id = at.id
       WHERE UPPER(a.registration) = UPPER($1)
       LIMIT 1
     `;
@@ -405,7 +901,7 @@ export class AirlineScraperWorkflow {
     }
 
     const row = result.rows[0];
-    const metadata = row.metadata || {};
+    const seats = row.seat_configuration || {};
 
     return {
       registration: row.registration,
@@ -414,232 +910,189 @@ export class AirlineScraperWorkflow {
       model: row.model,
       msn: row.msn,
       seat_configuration: {
-        first: row.class_first || undefined,
-        business: row.class_business || undefined,
-        premium_economy: row.class_premium_economy || undefined,
-        economy: row.class_economy || undefined,
+        first: seats.first || undefined,
+        business: seats.business || undefined,
+        premium_economy: seats.premium_economy || undefined,
+        economy: seats.economy || undefined,
         total: row.total_seats || undefined,
       },
       delivery_date: row.delivery_date,
       age_years: row.age_years,
       status: row.status,
-      current_location: null, // Not stored in schema
-      last_flight_date: row.last_seen_date,
+      current_location: row.current_location,
+      last_flight_date: row.last_flight_date,
       engines: row.engines,
-      confidence_score: metadata.confidence_score || 0.9,
-      data_sources: metadata.data_sources || ['database'],
+      confidence_score: row.data_confidence ? parseFloat(row.data_confidence) : 0.9,
+      data_sources: row.data_source ? row.data_source.split(', ') : ['database'],
       extracted_at: new Date(),
     };
   }
 
   /**
-   * Insert new aircraft
+   * Look up the aircraft type for a scraped type code
    */
-  private async insertAircraft(
-    airlineId: string,
-    aircraft: AircraftDetails,
-    validation: ValidationResult
-  ): Promise<void> {
-    // Get aircraft type ID
+  private async getAircraftType(aircraftType: string): Promise<{
+    id: number;
+    full_name: string;
+    manufacturer: string;
+    model: string;
+  }> {
     const typeResult = await queryPostgres(
-      `SELECT id FROM aircraft_types WHERE iata_code = $1 OR icao_code = $1 LIMIT 1`,
-      [aircraft.aircraft_type]
+      `SELECT id, full_name, manufacturer, model FROM aircraft_types
+       WHERE iata_code = $1 OR icao_code = $1 OR UPPER(full_name) = UPPER($1)
+       LIMIT 1`,
+      [aircraftType]
     );
 
     if (typeResult.rows.length === 0) {
-      throw new Error(`Aircraft type not found: ${aircraft.aircraft_type}`);
+      throw new Error(`Aircraft type not found: ${aircraftType}`);
     }
 
-    const typeId = typeResult.rows[0].id;
+    return typeResult.rows[0];
+  }
 
-    // Prepare metadata with confidence and sources
-    const metadata = {
-      confidence_score: validation.confidence_score,
-      data_sources: aircraft.data_sources,
-      extracted_at: aircraft.extracted_at.toISOString(),
-    };
+  /**
+   * Stored status value: the aircraft table holds lower-case statuses only
+   */
+  private toStatusColumn(status: string | undefined): string {
+    return (status?.trim() || 'unknown').toLowerCase();
+  }
 
-    // Calculate age if we have delivery date
-    let ageYears = aircraft.age_years;
-    if (aircraft.delivery_date && !ageYears) {
-      const deliveryYear = new Date(aircraft.delivery_date).getFullYear();
-      const currentYear = new Date().getFullYear();
-      ageYears = currentYear - deliveryYear;
+  /**
+   * Split scraped seat counts into the seat_configuration JSON and total
+   */
+  private toSeatColumns(seatConfig: AircraftDetails['seat_configuration'] | undefined): {
+    seatConfiguration: string | null;
+    totalSeats: number | null;
+  } {
+    if (!seatConfig || Object.keys(seatConfig).length === 0) {
+      return { seatConfiguration: null, totalSeats: null };
     }
 
+    const { total, ...classes } = seatConfig;
+    const hasClasses = Object.values(classes).some((count) => count !== undefined);
+
+    return {
+      seatConfiguration: hasClasses ? JSON.stringify(classes) : null,
+      totalSeats: total || null,
+    };
+  }
+
+  /**
+   * Insert new aircraft
+   */
+  private async insertAircraft(
+    airlineId: number,
+    aircraft: AircraftDetails,
+    validation: ValidationResult
+  ): Promise<FleetRecord> {
+    const type = await this.getAircraftType(aircraft.aircraft_type);
+    const { seatConfiguration, totalSeats } = this.toSeatColumns(aircraft.seat_configuration);
+
     const insertQuery = `
       INSERT INTO aircraft (
-        current_airline_id,
+        airline_id,
         aircraft_type_id,
         registration,
-        manufacturer_serial_number,
+        aircraft_type,
+        manufacturer,
+        model,
+        msn,
         delivery_date,
-        age_years,
         status,
-        last_seen_date,
-        metadata,
-        last_scraped_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
-      RETURNING id
+        current_location,
+        last_flight_date,
+        engines,
+        seat_configuration,
+        total_seats,
+        data_source,
+        data_confidence,
+        verification_method,
+        last_verified_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, 'scrape', NOW())
+      RETURNING id, airline_id, aircraft_type_id, aircraft_type, seat_configuration, total_seats, status
     `;
 
-    const result = await queryPostgres(insertQuery, [
+    const result = await queryPostgres<FleetRecord>(insertQuery, [
       airlineId,
-      typeId,
+      type.id,
       aircraft.registration,
+      type.full_name,
+      type.manufacturer,
+      type.model,
       aircraft.msn,
       aircraft.delivery_date,
-      ageYears,
-      aircraft.status || 'Unknown',
-      aircraft.last_flight_date, // Maps to last_seen_date in DB
-      JSON.stringify(metadata),
+      this.toStatusColumn(aircraft.status),
+      aircraft.current_location,
+      aircraft.last_flight_date,
+      aircraft.engines,
+      seatConfiguration,
+      totalSeats,
+      aircraft.data_sources.join(', '),
+      validation.confidence_score,
     ]);
 
-    const aircraftId = result.rows[0].id;
-
-    // Insert seat configuration if available
-    if (
-      aircraft.seat_configuration &&
-      Object.keys(aircraft.seat_configuration).length > 0
-    ) {
-      await this.insertAircraftConfiguration(aircraftId, aircraft.seat_configuration);
-    }
-
     logger.info(`Inserted new aircraft: ${aircraft.registration}`);
+    return result.rows[0]!;
   }
 
   /**
-   * Insert aircraft configuration (seat layout)
-   */
-  private async insertAircraftConfiguration(
-    aircraftId: string,
-    seatConfig: {
-      first?: number;
-      business?: number;
-      premium_economy?: number;
-      economy?: number;
-      total?: number;
-    }
-  ): Promise<void> {
-    const insertQuery = `
-      INSERT INTO aircraft_configurations (
-        aircraft_id,
-        class_first,
-        class_business,
-        class_premium_economy,
-        class_economy,
-        total_seats,
-        is_current
-      ) VALUES ($1, $2, $3, $4, $5, $6, true)
-    `;
-
-    await queryPostgres(insertQuery, [
-      aircraftId,
-      seatConfig.first || null,
-      seatConfig.business || null,
-      seatConfig.premium_economy || null,
-      seatConfig.economy || null,
-      seatConfig.total || null,
-    ]);
-  }
-
-  /**
-   * Update existing aircraft
+   * Update existing aircraft, moving it to this airline if it was transferred
    */
   private async updateAircraft(
-    _airlineId: string,
+    airlineId: number,
     aircraft: AircraftDetails,
     validation: ValidationResult
-  ): Promise<void> {
-    // Get aircraft type ID
-    const typeResult = await queryPostgres(
-      `SELECT id FROM aircraft_types WHERE iata_code = $1 OR icao_code = $1 LIMIT 1`,
-      [aircraft.aircraft_type]
-    );
-
-    if (typeResult.rows.length === 0) {
-      throw new Error(`Aircraft type not found: ${aircraft.aircraft_type}`);
-    }
-
-    const typeId = typeResult.rows[0].id;
-
-    // Prepare metadata with confidence and sources
-    const metadata = {
-      confidence_score: validation.confidence_score,
-      data_sources: aircraft.data_sources,
-      extracted_at: aircraft.extracted_at.toISOString(),
-    };
-
-    // Calculate age if we have delivery date
-    let ageYears = aircraft.age_years;
-    if (aircraft.delivery_date && !ageYears) {
-      const deliveryYear = new Date(aircraft.delivery_date).getFullYear();
-      const currentYear = new Date().getFullYear();
-      ageYears = currentYear - deliveryYear;
-    }
+  ): Promise<FleetRecord> {
+    const type = await this.getAircraftType(aircraft.aircraft_type);
+    const { seatConfiguration, totalSeats } = this.toSeatColumns(aircraft.seat_configuration);
 
     const updateQuery = `
       UPDATE aircraft
       SET
         aircraft_type_id = $2,
-        manufacturer_serial_number = COALESCE($3, manufacturer_serial_number),
-        delivery_date = COALESCE($4, delivery_date),
-        age_years = COALESCE($5, age_years),
-        status = $6,
-        last_seen_date = COALESCE($7, last_seen_date),
-        metadata = $8,
-        last_scraped_at = NOW(),
+        aircraft_type = $3,
+        manufacturer = $4,
+        model = $5,
+        msn = COALESCE($6, msn),
+        delivery_date = COALESCE($7, delivery_date),
+        status = $8,
+        current_location = COALESCE($9, current_location),
+        last_flight_date = COALESCE($10, last_flight_date),
+        engines = COALESCE($11, engines),
+        seat_configuration = COALESCE($12, seat_configuration),
+        total_seats = COALESCE($13, total_seats),
+        data_source = $14,
+        data_confidence = $15,
+        airline_id = $16,
+        verification_method = 'scrape',
+        last_verified_at = NOW(),
         updated_at = NOW()
       WHERE UPPER(registration) = UPPER($1)
-      RETURNING id
+      RETURNING id, airline_id, aircraft_type_id, aircraft_type, seat_configuration, total_seats, status
     `;
 
-    const result = await queryPostgres(updateQuery, [
+    const result = await queryPostgres<FleetRecord>(updateQuery, [
       aircraft.registration,
-      typeId,
+      type.id,
+      type.full_name,
+      type.manufacturer,
+      type.model,
       aircraft.msn,
       aircraft.delivery_date,
-      ageYears,
-      aircraft.status || 'Unknown',
-      aircraft.last_flight_date, // Maps to last_seen_date in DB
-      JSON.stringify(metadata),
+      this.toStatusColumn(aircraft.status),
+      aircraft.current_location,
+      aircraft.last_flight_date,
+      aircraft.engines,
+      seatConfiguration,
+      totalSeats,
+      aircraft.data_sources.join(', '),
+      validation.confidence_score,
+      airlineId,
     ]);
 
-    const aircraftId = result.rows[0].id;
-
-    // Update seat configuration if available
-    if (
-      aircraft.seat_configuration &&
-      Object.keys(aircraft.seat_configuration).length > 0
-    ) {
-      await this.updateAircraftConfiguration(aircraftId, aircraft.seat_configuration);
-    }
-
     logger.info(`Updated aircraft: ${aircraft.registration}`);
-  }
-
-  /**
-   * Update aircraft configuration (seat layout)
-   * First marks old configs as not current, then inserts new one
-   */
-  private async updateAircraftConfiguration(
-    aircraftId: string,
-    seatConfig: {
-      first?: number;
-      business?: number;
-      premium_economy?: number;
-      economy?: number;
-      total?: number;
-    }
-  ): Promise<void> {
-    // Mark existing configurations as not current
-    await queryPostgres(
-      `UPDATE aircraft_configurations SET is_current = false WHERE aircraft_id = $1`,
-      [aircraftId]
-    );
-
-    // Insert new configuration
-    await this.insertAircraftConfiguration(aircraftId, seatConfig);
+    return result.rows[0]!;
   }
 
   /**
@@ -681,12 +1134,22 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   const airlineCode = args.find((arg) => arg.startsWith('--airline='))?.split('=')[1];
   const forceFullScrape = args.includes('--force');
   const dryRun = args.includes('--dry-run');
+  const recordDir = args.find((arg) => arg.startsWith('--record='))?.split('=')[1];
+  const replayDir = args.find((arg) => arg.startsWith('--replay='))?.split('=')[1];
 
-  if (!airlineCode) {
-    console.error('Usage: npm run scraper:run -- --airline=AA [--force] [--dry-run]');
+  if (!airlineCode || (recordDir && replayDir)) {
+    console.error(
+      'Usage: npm run scraper:run -- --airline=AA [--force] [--dry-run] [--record=DIR | --replay=DIR]'
+    );
     process.exit(1);
   }
 
+  if (recordDir) {
+    configureScrapeFixtures({ mode: 'record', dir: recordDir });
+  } else if (replayDir) {
+    configureScrapeFixtures({ mode: 'replay', dir: replayDir });
+  }
+
   // Initialize databases first
   initializeDatabases()
     .then(async () => {
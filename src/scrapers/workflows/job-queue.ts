@@ -28,17 +28,99 @@ export interface ScrapeJob {
   started_at: Date | null;
   completed_at: Date | null;
   error_message: string | null;
+  aircraft_found: number;
+  aircraft_added: number;
+  aircraft_updated: number;
+  aircraft_removed: number;
+  errors_count: number;
+  duration_seconds: number | null;
+  created_at: Date;
   metadata: Record<string, any>;
 }
 
+/**
+ * Latest workflow progress, stored in `metadata.progress` while a job runs
+ */
+export interface JobProgress {
+  phase: string;
+  progress: number;
+  total: number;
+  message: string;
+  updated_at: string;
+}
+
 export interface JobResult {
   job_id: string;
   success: boolean;
   aircraft_found: number;
   aircraft_added: number;
   aircraft_updated: number;
+  aircraft_removed: number;
   errors_count: number;
   duration_seconds: number;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Thrown into a running workflow when its job was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job cancelled: ${jobId}`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const JOB_COLUMNS = `
+        sj.id,
+        sj.job_id,
+        COALESCE(al.iata_code, al.icao_code) as airline_code,
+        sj.job_type,
+        sj.status,
+        sj.priority,
+        sj.started_at,
+        sj.completed_at,
+        sj.duration_seconds,
+        sj.aircraft_found,
+        sj.aircraft_added,
+        sj.aircraft_updated,
+        sj.aircraft_removed,
+        sj.errors_count,
+        sj.error_message,
+        sj.metadata,
+        sj.created_at`;
+
+/**
+ * Map a scrape_jobs row (selected with JOB_COLUMNS) to a ScrapeJob
+ */
+function toScrapeJob(row: any): ScrapeJob {
+  const metadata = row.metadata || {};
+
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    airline_code: row.airline_code,
+    job_type: row.job_type,
+    status: row.status,
+    priority: row.priority || 'normal',
+    max_retries: metadata.max_retries || 3,
+    retry_count: metadata.retry_count || 0,
+    retry_delay_minutes: metadata.retry_delay_minutes || 30,
+    scheduled_at: metadata.scheduled_at ? new Date(metadata.scheduled_at) : new Date(row.created_at),
+    started_at: row.started_at ? new Date(row.started_at) : null,
+    completed_at: row.completed_at ? new Date(row.completed_at) : null,
+    error_message: row.error_message || null,
+    aircraft_found: row.aircraft_found || 0,
+    aircraft_added: row.aircraft_added || 0,
+    aircraft_updated: row.aircraft_updated || 0,
+    aircraft_removed: row.aircraft_removed || 0,
+    errors_count: row.errors_count || 0,
+    duration_seconds: row.duration_seconds ?? null,
+    created_at: new Date(row.created_at),
+    metadata,
+  };
 }
 
 export class JobQueue {
@@ -73,7 +155,7 @@ export class JobQueue {
 
     // Verify airline exists
     const airlineQuery = `
-      SELECT iata_code, name FROM airlines
+      SELECT id, COALESCE(iata_code, icao_code) as code, name FROM airlines
       WHERE UPPER(iata_code) = UPPER($1) OR UPPER(icao_code) = UPPER($1)
       LIMIT 1
     `;
@@ -86,7 +168,7 @@ export class JobQueue {
     const airline = airlineResult.rows[0];
 
     // Generate job ID
-    const jobId = `job_${airline.iata_code}_${Date.now()}`;
+    const jobId = `job_${airline.code}_${Date.now()}`;
 
     // Create job metadata
     const jobMetadata = {
@@ -101,25 +183,21 @@ export class JobQueue {
     const insertQuery = `
       INSERT INTO scrape_jobs (
         job_id,
-        airline_code,
-        airline_name,
+        airline_id,
         job_type,
         status,
         priority,
-        started_at,
-        result_summary
+        metadata
       )
-      VALUES ($1, $2, $3, $4, 'pending', $5, $6, $7)
+      VALUES ($1, $2, $3, 'pending', $4, $5)
       RETURNING job_id
     `;
 
     const result = await queryPostgres(insertQuery, [
       jobId,
-      airline.iata_code,
-      airline.name,
+      airline.id,
       jobType,
       priority,
-      scheduledAt,
       JSON.stringify(jobMetadata),
     ]);
 
@@ -133,29 +211,19 @@ export class JobQueue {
    */
   async getNextJob(): Promise<ScrapeJob | null> {
     const query = `
-      SELECT
-        id,
-        job_id,
-        airline_code,
-        job_type,
-        status,
-        priority,
-        started_at,
-        completed_at,
-        error_message,
-        result_summary,
-        created_at
-      FROM scrape_jobs
-      WHERE status = 'pending'
+      SELECT ${JOB_COLUMNS}
+      FROM scrape_jobs sj
+      JOIN airlines al ON sj.airline_id = al.id
+      WHERE sj.status = 'pending'
       ORDER BY
-        CASE priority
+        CASE sj.priority
           WHEN 'high' THEN 1
           WHEN 'normal' THEN 2
           WHEN 'low' THEN 3
         END,
-        created_at ASC
+        sj.created_at ASC
       LIMIT 1
-      FOR UPDATE SKIP LOCKED
+      FOR UPDATE OF sj SKIP LOCKED
     `;
 
     const result = await queryPostgres(query);
@@ -164,25 +232,7 @@ export class JobQueue {
       return null;
     }
 
-    const row = result.rows[0];
-    const metadata = row.result_summary || {};
-
-    return {
-      id: row.id,
-      job_id: row.job_id,
-      airline_code: row.airline_code,
-      job_type: row.job_type,
-      status: row.status,
-      priority: row.priority || 'normal',
-      max_retries: metadata.max_retries || 3,
-      retry_count: metadata.retry_count || 0,
-      retry_delay_minutes: metadata.retry_delay_minutes || 30,
-      scheduled_at: metadata.scheduled_at ? new Date(metadata.scheduled_at) : new Date(row.created_at),
-      started_at: row.started_at ? new Date(row.started_at) : null,
-      completed_at: row.completed_at ? new Date(row.completed_at) : null,
-      error_message: row.error_message || null,
-      metadata,
-    };
+    return toScrapeJob(result.rows[0]);
   }
 
   /**
@@ -213,13 +263,14 @@ export class JobQueue {
       SET status = 'completed',
           completed_at = NOW(),
           duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))::INTEGER,
-          discovered_count = $2,
-          new_count = $3,
-          updated_count = $4,
-          error_count = $5,
-          progress = 100,
+          aircraft_found = $2,
+          aircraft_added = $3,
+          aircraft_updated = $4,
+          aircraft_removed = $5,
+          errors_count = $6,
+          metadata = metadata || $7::jsonb,
           updated_at = NOW()
-      WHERE job_id = $1
+      WHERE job_id = $1 AND status = 'running'
     `;
 
     await queryPostgres(query, [
@@ -227,7 +278,9 @@ export class JobQueue {
       result.aircraft_found || 0,
       result.aircraft_added || 0,
       result.aircraft_updated || 0,
+      result.aircraft_removed || 0,
       result.errors_count || 0,
+      JSON.stringify(result.metadata || {}),
     ]);
   }
 
@@ -242,14 +295,14 @@ export class JobQueue {
     logger.error(`Job ${jobId} failed:`, error);
 
     // Get current job metadata
-    const getQuery = `SELECT result_summary FROM scrape_jobs WHERE job_id = $1`;
+    const getQuery = `SELECT metadata FROM scrape_jobs WHERE job_id = $1`;
     const result = await queryPostgres(getQuery, [jobId]);
 
     if (result.rows.length === 0) {
       throw new Error(`Job not found: ${jobId}`);
     }
 
-    const metadata = result.rows[0].result_summary || {};
+    const metadata = result.rows[0].metadata || {};
     const retryCount = (metadata.retry_count || 0) + 1;
     const maxRetries = metadata.max_retries || 3;
     const retryDelayMinutes = metadata.retry_delay_minutes || 30;
@@ -263,10 +316,10 @@ export class JobQueue {
       const updateQuery = `
         UPDATE scrape_jobs
         SET status = 'pending',
-            result_summary = $2,
+            metadata = $2,
             error_message = $3,
             updated_at = NOW()
-        WHERE job_id = $1
+        WHERE job_id = $1 AND status <> 'cancelled'
       `;
 
       const updatedMetadata = {
@@ -291,9 +344,9 @@ export class JobQueue {
             completed_at = NOW(),
             duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))::INTEGER,
             error_message = $2,
-            error_count = error_count + 1,
+            errors_count = errors_count + 1,
             updated_at = NOW()
-        WHERE job_id = $1
+        WHERE job_id = $1 AND status <> 'cancelled'
       `;
 
       await queryPostgres(updateQuery, [
@@ -304,20 +357,48 @@ export class JobQueue {
   }
 
   /**
-   * Cancel a job
+   * Record workflow progress for a running job.
+   * Returns the job's current status so the runner can stop a cancelled job.
    */
-  async cancelJob(jobId: string): Promise<void> {
+  async updateJobProgress(
+    jobId: string,
+    progress: Omit<JobProgress, 'updated_at'>
+  ): Promise<JobStatus | null> {
+    const query = `
+      UPDATE scrape_jobs
+      SET metadata = metadata || jsonb_build_object('progress', $2::jsonb),
+          updated_at = NOW()
+      WHERE job_id = $1
+      RETURNING status
+    `;
+
+    const result = await queryPostgres(query, [
+      jobId,
+      JSON.stringify({ ...progress, updated_at: new Date().toISOString() }),
+    ]);
+
+    return result.rows[0]?.status || null;
+  }
+
+  /**
+   * Cancel a pending or running job.
+   * Returns false if the job does not exist or has already finished.
+   * Running jobs stop at the next workflow phase.
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
     logger.info(`Cancelling job ${jobId}`);
 
     const query = `
       UPDATE scrape_jobs
       SET status = 'cancelled',
           completed_at = NOW(),
+          duration_seconds = EXTRACT(EPOCH FROM (NOW() - started_at))::INTEGER,
           updated_at = NOW()
       WHERE job_id = $1 AND status IN ('pending', 'running')
     `;
 
-    await queryPostgres(query, [jobId]);
+    const result = await queryPostgres(query, [jobId]);
+    return (result.rowCount || 0) > 0;
   }
 
   /**
@@ -325,25 +406,10 @@ export class JobQueue {
    */
   async getJobStatus(jobId: string): Promise<ScrapeJob | null> {
     const query = `
-      SELECT
-        id,
-        job_id,
-        airline_code,
-        job_type,
-        status,
-        priority,
-        started_at,
-        completed_at,
-        duration_seconds,
-        discovered_count,
-        new_count,
-        updated_count,
-        error_count,
-        error_message,
-        result_summary,
-        created_at
-      FROM scrape_jobs
-      WHERE job_id = $1
+      SELECT ${JOB_COLUMNS}
+      FROM scrape_jobs sj
+      JOIN airlines al ON sj.airline_id = al.id
+      WHERE sj.job_id = $1
     `;
 
     const result = await queryPostgres(query, [jobId]);
@@ -352,25 +418,49 @@ export class JobQueue {
       return null;
     }
 
-    const row = result.rows[0];
-    const metadata = row.result_summary || {};
+    return toScrapeJob(result.rows[0]);
+  }
 
-    return {
-      id: row.id,
-      job_id: row.job_id,
-      airline_code: row.airline_code,
-      job_type: row.job_type,
-      status: row.status,
-      priority: row.priority || 'normal',
-      max_retries: metadata.max_retries || 3,
-      retry_count: metadata.retry_count || 0,
-      retry_delay_minutes: metadata.retry_delay_minutes || 30,
-      scheduled_at: metadata.scheduled_at ? new Date(metadata.scheduled_at) : new Date(row.created_at),
-      started_at: row.started_at ? new Date(row.started_at) : null,
-      completed_at: row.completed_at ? new Date(row.completed_at) : null,
-      error_message: row.error_message || null,
-      metadata,
-    };
+  /**
+   * List recent jobs, newest first
+   */
+  async listJobs(
+    options: {
+      status?: JobStatus;
+      airlineCode?: string;
+      limit?: number;
+    } = {}
+  ): Promise<ScrapeJob[]> {
+    const { status, airlineCode, limit = 20 } = options;
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+      params.push(status);
+      conditions.push(`sj.status = $${params.length}`);
+    }
+
+    if (airlineCode) {
+      params.push(airlineCode);
+      conditions.push(
+        `(UPPER(al.iata_code) = UPPER($${params.length}) OR UPPER(al.icao_code) = UPPER($${params.length}))`
+      );
+    }
+
+    params.push(limit);
+
+    const query = `
+      SELECT ${JOB_COLUMNS}
+      FROM scrape_jobs sj
+      JOIN airlines al ON sj.airline_id = al.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY sj.created_at DESC
+      LIMIT $${params.length}
+    `;
+
+    const result = await queryPostgres(query, params);
+    return result.rows.map(toScrapeJob);
   }
 
   /**
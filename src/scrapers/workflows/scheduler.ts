@@ -11,8 +11,8 @@
 
 import cron from 'node-cron';
 import { createLogger } from '../../lib/logger.js';
-import { getJobQueue, type ScrapeJob } from './job-queue.js';
-import { AirlineScraperWorkflow } from './airline-scraper-workflow.js';
+import { getJobQueue, JobCancelledError, type ScrapeJob } from './job-queue.js';
+import { AirlineScraperWorkflow, type WorkflowProgress } from './airline-scraper-workflow.js';
 
 const logger = createLogger('scheduler');
 
@@ -189,7 +189,10 @@ export class ScraperScheduler {
         logger.info(`Executing job ${job.job_id} for ${job.airline_code}`);
 
         // Run the workflow
-        const result = await workflow.runFullUpdate(job.airline_code);
+        const result = await workflow.runFullUpdate(job.airline_code, {
+          scrapeJobId: job.id,
+          onProgress: (progress) => this.recordProgress(job, progress),
+        });
 
         // Mark job as completed
         await this.jobQueue.completeJob(job.job_id, {
@@ -198,14 +201,21 @@ export class ScraperScheduler {
           aircraft_found: result.aircraft_found,
           aircraft_added: result.aircraft_added,
           aircraft_updated: result.aircraft_updated,
+          aircraft_removed: result.aircraft_removed,
           errors_count: result.errors,
           duration_seconds: Math.floor(result.duration_ms / 1000),
+          metadata: { graph_sync: result.graph_sync },
         });
 
         logger.info(
           `Job ${job.job_id} completed successfully: ${result.aircraft_found} found, ${result.aircraft_added} added, ${result.aircraft_updated} updated`
         );
       } catch (error) {
+        if (error instanceof JobCancelledError) {
+          logger.info(`Job ${job.job_id} stopped after cancellation`);
+          return;
+        }
+
         logger.error(`Job ${job.job_id} failed:`, error);
 
         // Mark job as failed (with retry if appropriate)
@@ -225,6 +235,26 @@ export class ScraperScheduler {
     this.activeJobs.set(job.job_id, jobPromise);
   }
 
+  /**
+   * Store workflow progress on the job and stop the workflow if the job was
+   * cancelled. Once the database phase has finished the run is allowed to
+   * complete, since its writes are already committed.
+   */
+  private async recordProgress(job: ScrapeJob, progress: WorkflowProgress): Promise<void> {
+    let status;
+
+    try {
+      status = await this.jobQueue.updateJobProgress(job.job_id, progress);
+    } catch (error) {
+      logger.warn(`Failed to record progress for job ${job.job_id}:`, error);
+      return;
+    }
+
+    if (status === 'cancelled' && progress.progress < progress.total) {
+      throw new JobCancelledError(job.job_id);
+    }
+  }
+
   /**
    * Determine if a job should be retried based on error
    */